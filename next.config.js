@@ -0,0 +1,9 @@
+/** @type {import('next').NextConfig} */
+const nextConfig = {
+  experimental: {
+    // Runs src/instrumentation.ts on server startup (platform key check)
+    instrumentationHook: true,
+  },
+}
+
+module.exports = nextConfig
@@ -0,0 +1,107 @@
+/**
+ * Open ledger accounts for balances that predate the ledger
+ *
+ * - every user: opening balance = current User.pointsBalance
+ * - platform vault: opening balance = PlatformVault.totalPoints
+ * - open or in-flight offers: escrow holds the stakes already locked,
+ *   in-flight matches get their LOCKED DuelBet rows
+ *
+ * Safe to re-run: existing accounts are left alone.
+ * Usage: npm run db:backfill-ledger
+ */
+
+import prisma from '../src/lib/prisma'
+import { DuelMatchStatus, DuelOfferStatus } from '@prisma/client'
+import {
+  LedgerService,
+  PLATFORM_VAULT_ID,
+  VAULT_ACCOUNT,
+  escrowAccount,
+  userAccount,
+} from '../src/server/services/ledgerService'
+import { EscrowService } from '../src/server/services/escrowService'
+
+const BATCH_SIZE = 200
+
+async function main() {
+  console.log('📒 Opening ledger accounts...')
+
+  let users = 0
+  let cursor: string | undefined
+
+  for (;;) {
+    const batch = await prisma.user.findMany({
+      select: { id: true, pointsBalance: true },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    })
+
+    if (batch.length === 0) break
+
+    for (const user of batch) {
+      await prisma.$transaction(tx => LedgerService.openAccount(tx, userAccount(user.id), user.pointsBalance))
+      users++
+    }
+
+    cursor = batch[batch.length - 1].id
+  }
+  console.log(`✅ Users: ${users}`)
+
+  const vault = await prisma.platformVault.findUnique({ where: { id: PLATFORM_VAULT_ID } })
+  if (vault) {
+    await prisma.$transaction(tx => LedgerService.openAccount(tx, VAULT_ACCOUNT, vault.totalPoints))
+    console.log(`✅ Vault: ${vault.totalPoints} points`)
+  }
+
+  // Stakes locked before the ledger existed
+  const offers = await prisma.duelOffer.findMany({
+    where: {
+      status: {
+        in: [DuelOfferStatus.OPEN, DuelOfferStatus.WAITING_CREATOR_CONFIRM, DuelOfferStatus.MATCHED],
+      },
+    },
+    include: {
+      matches: {
+        select: { id: true, status: true, creatorUserId: true, opponentUserId: true, _count: { select: { bets: true } } },
+      },
+    },
+  })
+
+  let escrows = 0
+  let bets = 0
+  for (const offer of offers) {
+    const stake = EscrowService.stakeFor(offer)
+    const activeMatch = offer.matches.find(m =>
+      m.status === DuelMatchStatus.IN_PROGRESS || m.status === DuelMatchStatus.AWAITING_CREATOR_CONFIRM
+    )
+    const locked = offer.status === DuelOfferStatus.OPEN
+      ? stake
+      : offer.status === DuelOfferStatus.WAITING_CREATOR_CONFIRM || activeMatch
+        ? stake * 2
+        : 0
+
+    if (locked === 0) continue
+
+    await prisma.$transaction(async (tx) => {
+      await LedgerService.openAccount(tx, escrowAccount(offer.id), locked)
+      if (activeMatch && activeMatch._count.bets === 0) {
+        await EscrowService.openBets(tx, activeMatch, offer)
+        bets += 2
+      }
+    })
+    escrows++
+  }
+  console.log(`✅ Escrows: ${escrows} (${bets} bets opened)`)
+
+  console.log('🎉 Ledger backfill complete!')
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Ledger backfill failed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -0,0 +1,87 @@
+/**
+ * Backfill ReliabilityEvent from the User rating counters
+ *
+ * The counters on User are now derived from ReliabilityEvent, so users with
+ * activity from before the events were recorded would lose it on their next
+ * event. This turns their counters into events without a match:
+ * completedDeals -> DUEL_COMPLETED, missedConfirmations -> MISSED_CONFIRMATION,
+ * droppedBeforeMinGames -> DROPPED_BEFORE_MIN_GAMES, and the rest of
+ * totalDeals -> DUEL_LOST. All are dated at the user's sign-up.
+ *
+ * Safe to re-run: only users with no events are touched.
+ * Usage: npm run db:backfill-reliability-events
+ */
+
+import prisma from '../src/lib/prisma'
+import { ReliabilityEventType } from '@prisma/client'
+import { ReliabilityService } from '../src/server/services/reliabilityService'
+
+const BATCH_SIZE = 200
+
+async function main() {
+  console.log('🔎 Backfilling reliability events...')
+
+  let users = 0
+  let events = 0
+  let lastId: string | undefined
+
+  for (;;) {
+    const batch = await prisma.user.findMany({
+      where: {
+        totalDeals: { gt: 0 },
+        reliabilityEvents: { none: {} },
+        ...(lastId && { id: { gt: lastId } }),
+      },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+    })
+
+    if (batch.length === 0) break
+
+    for (const user of batch) {
+      const lost = Math.max(
+        0,
+        user.totalDeals - user.completedDeals - user.missedConfirmations - user.droppedBeforeMinGames
+      )
+      const counts: [ReliabilityEventType, number][] = [
+        [ReliabilityEventType.DUEL_COMPLETED, user.completedDeals],
+        [ReliabilityEventType.MISSED_CONFIRMATION, user.missedConfirmations],
+        [ReliabilityEventType.DROPPED_BEFORE_MIN_GAMES, user.droppedBeforeMinGames],
+        [ReliabilityEventType.DUEL_LOST, lost],
+      ]
+
+      await prisma.$transaction(async (tx) => {
+        await tx.reliabilityEvent.createMany({
+          data: counts.flatMap(([type, count]) =>
+            Array.from({ length: count }, () => ({
+              userId: user.id,
+              type,
+              matchId: null,
+              reliabilityPercent: Math.round(user.reliabilityPercent),
+              createdAt: user.createdAt,
+            }))
+          ),
+        })
+        await ReliabilityService.sync(user.id, tx)
+      })
+
+      users++
+      events += counts.reduce((sum, [, count]) => sum + count, 0)
+    }
+
+    lastId = batch[batch.length - 1].id
+    console.log(`   ...${users} users backfilled`)
+  }
+
+  console.log(`✅ ${events} events created for ${users} users`)
+  console.log('🎉 Backfill complete!')
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Backfill failed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -0,0 +1,56 @@
+/**
+ * Backfill DuelRoundProof from legacy DuelGame.roundSecret
+ *
+ * Handles both encodings:
+ * - commit-reveal JSON (submit/reveal routes)
+ * - "seedSlice:randomNumber:winnerNumber:loserNumber" (DuelResultService)
+ *
+ * Safe to re-run: games that already have a proof are skipped.
+ * Usage: npm run db:backfill-proofs
+ */
+
+import prisma from '../src/lib/prisma'
+import { RoundProofService } from '../src/server/services/roundProofService'
+
+const BATCH_SIZE = 200
+
+async function main() {
+  console.log('🔎 Backfilling round proofs...')
+
+  const counts: Record<string, number> = {}
+  let cursor: string | undefined
+
+  for (;;) {
+    const games = await prisma.duelGame.findMany({
+      where: { roundSecret: { not: null }, proof: null },
+      include: { match: true },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    })
+
+    if (games.length === 0) break
+
+    for (const game of games) {
+      const proof = await RoundProofService.getOrCreate(game, game.match)
+      counts[proof.source] = (counts[proof.source] ?? 0) + 1
+    }
+
+    cursor = games[games.length - 1].id
+    console.log(`   ...${Object.values(counts).reduce((a, b) => a + b, 0)} games processed`)
+  }
+
+  for (const [source, count] of Object.entries(counts)) {
+    console.log(`✅ ${source}: ${count}`)
+  }
+  console.log('🎉 Backfill complete!')
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Backfill failed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -0,0 +1,53 @@
+/**
+ * Backfill DuelOffer.stakeValue for POINTS offers
+ *
+ * The board filters and sorts on stakeValue; offers created before it was set
+ * for every offer have none. POINTS offers get chip value x games. SKINS offers
+ * always had it.
+ *
+ * Safe to re-run: only offers without a stakeValue are touched.
+ * Usage: npm run db:backfill-stake-values
+ */
+
+import prisma from '../src/lib/prisma'
+import { StakeType } from '@prisma/client'
+
+const BATCH_SIZE = 200
+
+async function main() {
+  console.log('🔎 Backfilling offer stake values...')
+
+  let updated = 0
+
+  for (;;) {
+    const offers = await prisma.duelOffer.findMany({
+      where: { stakeValue: null, stakeType: StakeType.POINTS },
+      select: { id: true, chipPointsValue: true, gamesCount: true },
+      take: BATCH_SIZE,
+    })
+
+    if (offers.length === 0) break
+
+    for (const offer of offers) {
+      await prisma.duelOffer.update({
+        where: { id: offer.id },
+        data: { stakeValue: offer.chipPointsValue * offer.gamesCount },
+      })
+    }
+
+    updated += offers.length
+    console.log(`   ...${updated} offers updated`)
+  }
+
+  console.log(`✅ ${updated} offers updated`)
+  console.log('🎉 Backfill complete!')
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Backfill failed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
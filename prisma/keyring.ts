@@ -0,0 +1,76 @@
+/**
+ * Platform Keyring Admin Script
+ *
+ * Usage:
+ *   npm run keyring -- rotate [--activate-at=ISO_DATE]
+ *   npm run keyring -- publish
+ *   npm run keyring -- list
+ *   npm run keyring -- rotate-signing
+ */
+
+import prisma from '../src/lib/prisma'
+import { KeyringService } from '../src/server/services/keyringService'
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2)
+
+  switch (command) {
+    case 'rotate': {
+      const activateArg = args.find(a => a.startsWith('--activate-at='))
+      const activatesAt = activateArg ? new Date(activateArg.split('=')[1]) : undefined
+
+      if (activatesAt && isNaN(activatesAt.getTime())) {
+        throw new Error(`Invalid --activate-at date: ${activateArg}`)
+      }
+
+      const result = await KeyringService.rotate({ activatesAt })
+      console.log(`🔑 New key v${result.version} activates at ${result.activatesAt}`)
+      console.log(`   Retired: ${result.retiredVersions.map(v => `v${v}`).join(', ') || 'none'}`)
+      break
+    }
+
+    case 'publish': {
+      const result = await KeyringService.publishRetiredKeys()
+      console.log(`📢 Published: ${result.published.map(v => `v${v}`).join(', ') || 'none'}`)
+      if (result.pending.length > 0) {
+        console.log(`⏳ Waiting for open matches: ${result.pending.map(v => `v${v}`).join(', ')}`)
+      }
+      break
+    }
+
+    case 'list': {
+      const keys = await prisma.platformKey.findMany({ orderBy: { version: 'asc' } })
+      const active = await KeyringService.getActiveKey()
+
+      console.log(`Active: v${active.version}`)
+      for (const key of keys) {
+        console.log(
+          `v${key.version}  activates ${key.activatesAt.toISOString()}` +
+          `  retires ${key.retiresAt?.toISOString() ?? '-'}` +
+          `  published ${key.publishedAt?.toISOString() ?? '-'}`
+        )
+      }
+      break
+    }
+
+    case 'rotate-signing': {
+      const result = await KeyringService.rotateSigningKey()
+      console.log(`✍️  New bundle signing key v${result.version}`)
+      console.log(`   Retired: ${result.retiredVersions.map(v => `v${v}`).join(', ') || 'none'}`)
+      break
+    }
+
+    default:
+      console.log('Usage: npm run keyring -- <rotate [--activate-at=ISO_DATE] | publish | list | rotate-signing>')
+      process.exit(1)
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Keyring command failed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
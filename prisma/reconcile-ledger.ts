@@ -0,0 +1,47 @@
+/**
+ * Ledger reconciliation
+ *
+ * Reports every user whose cached pointsBalance differs from their ledger sum,
+ * a vault cache mismatch and any journal whose entries do not sum to zero.
+ * Exits with 1 when anything is off, so it can run from cron.
+ *
+ * Usage: npm run ledger:reconcile
+ */
+
+import prisma from '../src/lib/prisma'
+import { LedgerService } from '../src/server/services/ledgerService'
+
+async function main() {
+  console.log('🔎 Reconciling ledger...')
+
+  const report = await LedgerService.reconcile()
+
+  for (const m of report.mismatches) {
+    console.log(`❌ ${m.username} (${m.userId}): cached ${m.cachedBalance}, ledger ${m.ledgerBalance} (${m.difference > 0 ? '+' : ''}${m.difference})`)
+  }
+
+  if (report.vault && report.vault.cachedBalance !== report.vault.ledgerBalance) {
+    console.log(`❌ Vault: cached ${report.vault.cachedBalance}, ledger ${report.vault.ledgerBalance}`)
+  }
+
+  for (const journalId of report.unbalancedJournals) {
+    console.log(`❌ Unbalanced journal ${journalId}`)
+  }
+
+  console.log(`Checked ${report.checkedUsers} users`)
+
+  if (!report.ok) {
+    process.exitCode = 1
+    return
+  }
+  console.log('✅ Ledger is consistent')
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Reconciliation failed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
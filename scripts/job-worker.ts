@@ -0,0 +1,58 @@
+/**
+ * Job Worker
+ *
+ * Runs background jobs (offer expiry, confirmation and game timeouts,
+ * stalled matches) in a loop. Any number of workers can run side by side -
+ * each job is claimed by one of them. On Vercel, GET /api/cron/jobs does
+ * the same from Vercel Cron instead.
+ *
+ * Usage:
+ *   npm run jobs:worker            # poll every JOB_POLL_MS (default 15s)
+ *   npm run jobs:worker -- --once  # run due jobs once and exit
+ */
+
+import { hostname } from 'os'
+import prisma from '../src/lib/prisma'
+import { JobService } from '../src/server/services/jobService'
+
+const POLL_MS = Number(process.env.JOB_POLL_MS) || 15 * 1000
+
+let stopping = false
+
+async function main() {
+  const workerId = `${hostname()}:${process.pid}`
+  const once = process.argv.includes('--once')
+
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.on(signal, () => {
+      console.log(`[Worker] ${signal} received, stopping after the current job`)
+      stopping = true
+    })
+  }
+
+  console.log(`[Worker] ${workerId} started${once ? ' (once)' : `, polling every ${POLL_MS}ms`}`)
+
+  do {
+    try {
+      await JobService.runDue(workerId)
+    } catch (error) {
+      // Database hiccup - try again on the next poll
+      console.error('[Worker] Run failed:', error)
+    }
+
+    if (!once && !stopping) {
+      await new Promise(resolve => setTimeout(resolve, POLL_MS))
+    }
+  } while (!once && !stopping)
+
+  console.log(`[Worker] ${workerId} stopped`)
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Worker crashed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
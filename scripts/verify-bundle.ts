@@ -0,0 +1,83 @@
+/**
+ * Match Bundle Verifier
+ *
+ * Checks a downloaded match bundle offline - no database, no network.
+ * Uses the same code the server uses (verifyResult / verifyCommitment).
+ *
+ * Usage:
+ *   npm run verify-bundle -- <bundle.json> --keys=<keys.json>
+ *   npm run verify-bundle -- <bundle.json> --public-key=BASE64
+ *
+ * The signature is only checked against a trusted key for the bundle's keyVersion:
+ * --keys takes a saved GET /api/duel/keys response (every signing key by version),
+ * --public-key the key of that one version. Without either verification fails.
+ */
+
+import { readFileSync } from 'fs'
+import { verifyBundle, MatchBundle, TrustedSigningKeys } from '../src/server/services/matchBundle'
+
+const USAGE = 'Usage: npm run verify-bundle -- <bundle.json> (--keys=<keys.json> | --public-key=BASE64)'
+
+/**
+ * Trusted signing keys from a saved GET /api/duel/keys response
+ */
+function loadTrustedKeys(file: string): TrustedSigningKeys {
+  const json = JSON.parse(readFileSync(file, 'utf8'))
+  const list: Array<{ version: number; publicKey: string }> =
+    (json.data ?? json).bundleSigningKeys ?? []
+
+  return Object.fromEntries(list.map(key => [key.version, key.publicKey]))
+}
+
+function main() {
+  const args = process.argv.slice(2)
+  const file = args.find(a => !a.startsWith('--'))
+  const keysArg = args.find(a => a.startsWith('--keys='))
+  const keyArg = args.find(a => a.startsWith('--public-key='))
+
+  if (!file || (!keysArg && !keyArg)) {
+    console.log(USAGE)
+    process.exit(1)
+  }
+
+  const bundle: MatchBundle = JSON.parse(readFileSync(file, 'utf8'))
+  const { payload } = bundle
+  const trustedKeys = keyArg
+    ? { [bundle.signature.keyVersion]: keyArg.slice('--public-key='.length) }
+    : loadTrustedKeys(keysArg!.slice('--keys='.length))
+  const check = verifyBundle(bundle, trustedKeys)
+
+  console.log(`Match ${payload.match.id} (offer ${payload.match.offerId})`)
+  console.log(`Signed with key v${bundle.signature.keyVersion}: ${check.signatureValid ? '✅ valid' : '❌ INVALID'}`)
+
+  if (check.serverSeedHashValid !== null) {
+    console.log(`Server seed matches hash: ${check.serverSeedHashValid ? '✅' : '❌ NO'}`)
+  } else {
+    console.log('Server seed: not available (legacy match)')
+  }
+
+  for (const round of check.rounds) {
+    const source = payload.rounds.find(r => r.roundIndex === round.roundIndex)
+    const mark = round.valid ? '✅' : '❌'
+    const detail = source?.forfeited
+      ? 'forfeit'
+      : `random=${round.verification?.computedRandomNumber ?? '-'}` +
+        ` v${round.verification?.algorithmVersion ?? '-'}` +
+        (round.fullyVerified ? ' (recomputed from seed)' : ' (from seed slice)')
+
+    console.log(`  Round ${round.roundIndex}: ${mark} ${detail}`)
+    for (const problem of round.problems) {
+      console.log(`      - ${problem}`)
+    }
+  }
+
+  console.log(`Transactions: ${payload.transactions.length}, bets: ${payload.bets.length}`)
+
+  if (!check.valid) {
+    for (const problem of check.problems) console.log(`❌ ${problem}`)
+  }
+  console.log(check.valid ? '✅ Bundle verified' : '❌ Bundle verification FAILED')
+  process.exit(check.valid ? 0 : 1)
+}
+
+main()
@@ -6,6 +6,7 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { AuthService } from '@/server/services/authService'
+import { EscrowService } from '@/server/services/escrowService'
 import { cookies } from 'next/headers'
 
 /**
@@ -37,12 +38,17 @@ export async function GET() {
 
     // Get user stats
     const stats = await AuthService.getUserStats(result.user!.id)
+    const lockedInDuels = await EscrowService.getLockedPoints(result.user!.id)
 
     return NextResponse.json({
       success: true,
       data: {
         user: result.user,
         stats,
+        balance: {
+          available: result.user!.pointsBalance,
+          lockedInDuels,
+        },
       },
     })
   } catch (error) {
@@ -0,0 +1,39 @@
+/**
+ * Job Runner Cron API
+ * GET /api/cron/jobs - Enqueue due sweeps and run due jobs (Vercel Cron, every minute)
+ *
+ * Vercel sends Authorization: Bearer <CRON_SECRET>. Without CRON_SECRET the
+ * route only runs outside production.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
+import { JobService } from '@/server/services/jobService'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 60
+
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+
+  if (!secret && process.env.NODE_ENV === 'production') {
+    console.error('[Cron] CRON_SECRET is not set')
+    return NextResponse.json({ success: false, error: 'Cron is not configured' }, { status: 500 })
+  }
+
+  if (secret && request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const summary = await JobService.runDue(`cron:${randomUUID()}`)
+
+    return NextResponse.json({ success: true, data: summary })
+  } catch (error) {
+    console.error('[Cron] Error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
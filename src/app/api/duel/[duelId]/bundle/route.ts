@@ -0,0 +1,67 @@
+/**
+ * Match Verification Bundle API
+ * GET /api/duel/[duelId]/bundle - Download the signed verification bundle of a finished duel
+ *
+ * Check it offline with: npm run verify-bundle -- <file> --keys=<GET /api/duel/keys response>
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import prisma from '@/lib/prisma'
+import { AuthService } from '@/server/services/authService'
+import { MatchBundleService } from '@/server/services/matchBundleService'
+
+interface RouteParams {
+  params: Promise<{ duelId: string }>
+}
+
+async function getCurrentUser() {
+  const cookieStore = await cookies()
+  const token = cookieStore.get('auth_token')?.value
+
+  if (!token) return null
+
+  const session = await AuthService.validateSession(token)
+  if (!session.valid || !session.user) return null
+
+  return session.user
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const { duelId } = await params
+
+    const match = await prisma.duelMatch.findFirst({
+      where: { offerId: duelId },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    if (!match) {
+      return NextResponse.json({ success: false, error: 'Duel not found' }, { status: 404 })
+    }
+
+    if (match.creatorUserId !== user.id && match.opponentUserId !== user.id) {
+      return NextResponse.json({ success: false, error: 'You are not in this duel' }, { status: 403 })
+    }
+
+    const result = await MatchBundleService.build(match.id)
+    if (!result.success || !result.bundle) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 409 })
+    }
+
+    return new NextResponse(JSON.stringify(result.bundle, null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="twos-match-${match.id}.json"`,
+      },
+    })
+  } catch (error) {
+    console.error('[Bundle] Error:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
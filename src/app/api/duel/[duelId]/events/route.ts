@@ -0,0 +1,65 @@
+/**
+ * Duel Events API
+ * GET /api/duel/[duelId]/events - Server-Sent Events for one duel
+ *
+ * Events: opponent_joined, match_started, confirmation_expired, player_ready,
+ * round_opened, player_committed, player_revealed, round_resolved, match_finished.
+ * Reconnects resume after Last-Event-ID (header, or ?lastEventId=).
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import prisma from '@/lib/prisma'
+import { AuthService } from '@/server/services/authService'
+import { RealtimeService } from '@/server/services/realtimeService'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+interface RouteParams {
+  params: Promise<{ duelId: string }>
+}
+
+async function getCurrentUser() {
+  const cookieStore = await cookies()
+  const token = cookieStore.get('auth_token')?.value
+
+  if (!token) return null
+
+  const session = await AuthService.validateSession(token)
+  if (!session.valid || !session.user) return null
+
+  return session.user
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const { duelId } = await params
+
+    const offer = await prisma.duelOffer.findUnique({
+      where: { id: duelId },
+      select: { creatorUserId: true, opponentUserId: true },
+    })
+
+    if (!offer) {
+      return NextResponse.json({ success: false, error: 'Duel not found' }, { status: 404 })
+    }
+
+    if (offer.creatorUserId !== user.id && offer.opponentUserId !== user.id) {
+      return NextResponse.json({ success: false, error: 'You are not in this duel' }, { status: 403 })
+    }
+
+    const lastEventId = request.headers.get('last-event-id')
+      ?? request.nextUrl.searchParams.get('lastEventId')
+
+    return RealtimeService.stream(RealtimeService.duelChannel(duelId), lastEventId, request.signal)
+  } catch (error) {
+    console.error('[Events] Error:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Ready Check API
+ * POST /api/duel/[duelId]/ready - Mark yourself ready for the next round
+ *
+ * Body: { roundNumber }
+ * Rounds after the first wait in AWAITING_READY until both players are ready;
+ * the second ready opens the round for commitments.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import prisma from '@/lib/prisma'
+import { AuthService } from '@/server/services/authService'
+import { DuelGameStatus } from '@prisma/client'
+import { DuelGameService } from '@/server/services/duelGameService'
+
+interface RouteParams {
+  params: Promise<{ duelId: string }>
+}
+
+async function getCurrentUser() {
+  const cookieStore = await cookies()
+  const token = cookieStore.get('auth_token')?.value
+
+  if (!token) return null
+
+  const session = await AuthService.validateSession(token)
+  if (!session.valid || !session.user) return null
+
+  return session.user
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const { duelId } = await params
+    const body = await request.json()
+    const roundNumber = Number(body.roundNumber)
+
+    const match = await prisma.duelMatch.findFirst({
+      where: { offerId: duelId },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    if (!match) {
+      return NextResponse.json({ success: false, error: 'Duel not found' }, { status: 404 })
+    }
+
+    const isCreator = match.creatorUserId === user.id
+    if (!isCreator && match.opponentUserId !== user.id) {
+      return NextResponse.json({ success: false, error: 'You are not in this duel' }, { status: 403 })
+    }
+
+    const game = await prisma.duelGame.findFirst({
+      where: { matchId: match.id, roundIndex: roundNumber },
+    })
+
+    if (!game) {
+      return NextResponse.json({ success: false, error: 'Round not found' }, { status: 404 })
+    }
+
+    const ready = await DuelGameService.markReady(game.id, user.id)
+    if (!ready.success || !ready.game) {
+      return NextResponse.json({ success: false, error: ready.error }, { status: 400 })
+    }
+
+    const updated = ready.game
+    console.log(`[Ready] User ${user.id} ready for duel ${duelId} round ${roundNumber}: status=${updated.status}`)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        myReady: isCreator ? updated.creatorReady : updated.opponentReady,
+        opponentReady: isCreator ? updated.opponentReady : updated.creatorReady,
+        roundOpen: updated.status === DuelGameStatus.IN_PROGRESS,
+        commitDeadline: updated.commitDeadline?.toISOString() ?? null,
+      },
+    })
+  } catch (error) {
+    console.error('[Ready] Error:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
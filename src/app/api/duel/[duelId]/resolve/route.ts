@@ -0,0 +1,78 @@
+/**
+ * Resolve Round API
+ * POST /api/duel/[duelId]/resolve - Resolve a round whose ready, commit or reveal deadline passed
+ *
+ * Body: { roundNumber }
+ * Safe to call from both players: the round is resolved once, later calls get the stored result.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import prisma from '@/lib/prisma'
+import { AuthService } from '@/server/services/authService'
+import { DuelGameStatus } from '@prisma/client'
+import { DuelGameService } from '@/server/services/duelGameService'
+
+interface RouteParams {
+  params: Promise<{ duelId: string }>
+}
+
+async function getCurrentUser() {
+  const cookieStore = await cookies()
+  const token = cookieStore.get('auth_token')?.value
+
+  if (!token) return null
+
+  const session = await AuthService.validateSession(token)
+  if (!session.valid || !session.user) return null
+
+  return session.user
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const { duelId } = await params
+    const body = await request.json()
+    const roundNumber = Number(body.roundNumber)
+
+    const match = await prisma.duelMatch.findFirst({
+      where: { offerId: duelId },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    if (!match) {
+      return NextResponse.json({ success: false, error: 'Duel not found' }, { status: 404 })
+    }
+
+    if (match.creatorUserId !== user.id && match.opponentUserId !== user.id) {
+      return NextResponse.json({ success: false, error: 'You are not in this duel' }, { status: 403 })
+    }
+
+    const game = await prisma.duelGame.findFirst({
+      where: { matchId: match.id, roundIndex: roundNumber },
+    })
+
+    if (!game) {
+      return NextResponse.json({ success: false, error: 'Round not found' }, { status: 404 })
+    }
+
+    const state = await DuelGameService.resolveIfReady(game.id)
+    const resolved = state?.game.status === DuelGameStatus.FINISHED
+      || state?.game.status === DuelGameStatus.FORFEITED
+
+    console.log(`[Resolve] Game ${game.id} round ${roundNumber}: resolved=${resolved}`)
+
+    return NextResponse.json({
+      success: true,
+      data: { resolved },
+    })
+  } catch (error) {
+    console.error('[Resolve] Error:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Reveal Number API
+ * POST /api/duel/[duelId]/reveal - Reveal committed number for a duel round
+ *
+ * Body: { roundNumber, playerNumber, nonce }
+ * Only accepted once both players committed, and only if it matches the commitment
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import prisma from '@/lib/prisma'
+import { AuthService } from '@/server/services/authService'
+import { DuelGameStatus } from '@prisma/client'
+import { DuelGameService } from '@/server/services/duelGameService'
+
+interface RouteParams {
+  params: Promise<{ duelId: string }>
+}
+
+async function getCurrentUser() {
+  const cookieStore = await cookies()
+  const token = cookieStore.get('auth_token')?.value
+
+  if (!token) return null
+
+  const session = await AuthService.validateSession(token)
+  if (!session.valid || !session.user) return null
+
+  return session.user
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const { duelId } = await params
+    const body = await request.json()
+    const { roundNumber, nonce } = body
+    const playerNumber = Number(body.playerNumber)
+
+    console.log(`[Reveal] User ${user.id} revealing for duel ${duelId} round ${roundNumber}`)
+
+    // Get the offer
+    const offer = await prisma.duelOffer.findUnique({
+      where: { id: duelId },
+    })
+
+    if (!offer) {
+      return NextResponse.json({ success: false, error: 'Duel not found' }, { status: 404 })
+    }
+
+    // Check user is participant
+    const isCreator = offer.creatorUserId === user.id
+    const isOpponent = offer.opponentUserId === user.id
+
+    if (!isCreator && !isOpponent) {
+      return NextResponse.json({ success: false, error: 'You are not in this duel' }, { status: 403 })
+    }
+
+    const match = await prisma.duelMatch.findFirst({
+      where: { offerId: duelId },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    const game = match
+      ? await prisma.duelGame.findFirst({
+          where: {
+            matchId: match.id,
+            roundIndex: roundNumber,
+          },
+        })
+      : null
+
+    if (!match || !game) {
+      return NextResponse.json({ success: false, error: 'Round not found' }, { status: 404 })
+    }
+
+    const revealed = await DuelGameService.reveal(game.id, user.id, playerNumber, nonce)
+    if (!revealed.success || !revealed.state) {
+      return NextResponse.json({ success: false, error: revealed.error }, { status: 400 })
+    }
+
+    const updated = revealed.state.proof
+    const bothRevealed = updated.creatorNumber !== null && updated.opponentNumber !== null
+
+    console.log(`[Reveal] Updated game ${game.id}: bothRevealed=${bothRevealed}`)
+
+    // The second reveal resolves the round (exactly once, later reads get the stored result)
+    const state = bothRevealed ? await DuelGameService.resolveIfReady(game.id) : null
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        revealed: true,
+        bothRevealed,
+        waitingForOpponent: !bothRevealed,
+        resolved: !!state && state.game.status !== DuelGameStatus.IN_PROGRESS,
+      },
+    })
+  } catch (error) {
+    console.error('[Reveal] Error:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
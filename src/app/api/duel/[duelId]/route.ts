@@ -1,12 +1,17 @@
 /**
  * Duel Info API
  * GET /api/duel/[duelId] - Get full duel info for game page
+ *
+ * Includes the server's view of the series (score, current round) and per-round
+ * proofs (numbers and randomness only once a round is resolved)
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
 import prisma from '@/lib/prisma'
 import { AuthService } from '@/server/services/authService'
+import { ServerSeedService } from '@/server/services/serverSeedService'
+import { DuelGameService } from '@/server/services/duelGameService'
 
 interface RouteParams {
   params: Promise<{ duelId: string }>
@@ -65,6 +70,16 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ success: false, error: 'You are not in this duel' }, { status: 403 })
     }
 
+    // Server seed commitment (hash published before any number is entered)
+    const match = await prisma.duelMatch.findFirst({
+      where: { offerId: duelId },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    // Score and history are counted on the server, never by the client
+    const series = match ? await DuelGameService.getSeries(match.id) : null
+    const { rounds, ...progress } = series ?? { rounds: [] }
+
     return NextResponse.json({
       success: true,
       data: {
@@ -75,8 +90,13 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         opponent: opponentInfo,
         chipType: offer.chipType,
         chipPointsValue: offer.chipPointsValue,
+        stakeType: offer.stakeType,
+        stakeValue: offer.stakeValue,
         gamesCount: offer.gamesCount,
         status: offer.status,
+        fairness: match ? ServerSeedService.toPublicInfo(match) : null,
+        series: series ? progress : null,
+        rounds,
         // User context
         isCreator,
         isOpponent,
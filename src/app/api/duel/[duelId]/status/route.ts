@@ -1,6 +1,10 @@
 /**
  * Duel Status API
- * GET /api/duel/[duelId]/status - Check duel round status (both players ready?)
+ * GET /api/duel/[duelId]/status - Check duel round status (ready check, commit/reveal progress)
+ *
+ * Read only: rounds are resolved by the reveal and resolve routes, exactly once.
+ * Player numbers are never returned before the round is resolved.
+ * The server seed hash is returned from the start, the seed itself once the match is over.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
@@ -8,11 +12,8 @@ import { cookies } from 'next/headers'
 import prisma from '@/lib/prisma'
 import { AuthService } from '@/server/services/authService'
 import { DuelGameStatus } from '@prisma/client'
-import { 
-  determineWinner, 
-  calculateTimeSlot,
-  DuelRoundParams,
-} from '@/server/services/winnerDetermination'
+import { ServerSeedService } from '@/server/services/serverSeedService'
+import { DuelGameService } from '@/server/services/duelGameService'
 
 interface RouteParams {
   params: Promise<{ duelId: string }>
@@ -64,6 +65,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     // Get match
     const match = await prisma.duelMatch.findFirst({
       where: { offerId: duelId },
+      orderBy: { createdAt: 'desc' },
     })
 
     if (!match) {
@@ -75,10 +77,14 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
           bothReady: false,
           mySubmitted: false,
           opponentSubmitted: false,
+          myRevealed: false,
+          opponentRevealed: false,
         },
       })
     }
 
+    const fairness = ServerSeedService.toPublicInfo(match)
+
     // Get game for this round
     const game = await prisma.duelGame.findFirst({
       where: {
@@ -96,105 +102,86 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
           bothReady: false,
           mySubmitted: false,
           opponentSubmitted: false,
+          myRevealed: false,
+          opponentRevealed: false,
+          fairness,
         },
       })
     }
 
-    // Parse metadata from roundSecret
-    let metadata: any = {}
-    if (game.roundSecret) {
-      try {
-        metadata = JSON.parse(game.roundSecret)
-      } catch (e) {
-        metadata = {}
-      }
-    }
-
-    const creatorSubmitted = metadata.creatorNumber !== undefined
-    const opponentSubmitted = metadata.opponentNumber !== undefined
-    const bothReady = creatorSubmitted && opponentSubmitted
-
-    const mySubmitted = isCreator ? creatorSubmitted : opponentSubmitted
-    const theirSubmitted = isCreator ? opponentSubmitted : creatorSubmitted
-
-    console.log(`[Status] Game ${game.id}: creator=${creatorSubmitted}, opponent=${opponentSubmitted}, bothReady=${bothReady}, gameStatus=${game.status}`)
-
-    // If both ready and game not finished yet, calculate result
-    if (bothReady && game.status !== DuelGameStatus.FINISHED) {
-      console.log(`[Status] Both ready! Calculating result...`)
-      
-      const timeSlot = calculateTimeSlot()
-
-      const params: DuelRoundParams = {
-        duelId: `${duelId}_round_${roundNumber}`,
-        roundNumber,
-        timeSlot,
-        playerA: {
-          playerId: offer.creatorUserId,
-          playerNumber: metadata.creatorNumber,
-        },
-        playerB: {
-          playerId: offer.opponentUserId!,
-          playerNumber: metadata.opponentNumber,
-        },
-      }
-
-      const result = determineWinner(params)
-
-      console.log(`[Status] Result: random=${result.randomNumber}, winner=${result.winnerId}, isDraw=${result.isDraw}`)
-
-      // Update game with result
-      await prisma.duelGame.update({
-        where: { id: game.id },
-        data: {
-          status: DuelGameStatus.FINISHED,
-          winnerUserId: result.winnerId,
-          roundHashCommit: result.verification.seedSlice,
-          finishedAt: new Date(),
-        },
-      })
-
-      // Return result
+    // Ready check before the round opens
+    if (game.status === DuelGameStatus.AWAITING_READY) {
       return NextResponse.json({
         success: true,
         data: {
-          status: 'finished',
-          bothReady: true,
-          mySubmitted: true,
-          opponentSubmitted: true,
-          result: {
-            randomNumber: result.randomNumber,
-            creatorNumber: metadata.creatorNumber,
-            opponentNumber: metadata.opponentNumber,
-            creatorDistance: result.distanceA,
-            opponentDistance: result.distanceB,
-            winnerId: result.winnerId,
-            isDraw: result.isDraw,
-            verification: result.verification,
+          status: 'ready_check',
+          bothReady: false,
+          mySubmitted: false,
+          opponentSubmitted: false,
+          myRevealed: false,
+          opponentRevealed: false,
+          readyCheck: {
+            myReady: isCreator ? game.creatorReady : game.opponentReady,
+            opponentReady: isCreator ? game.opponentReady : game.creatorReady,
+            readyDeadline: game.readyDeadline?.toISOString() ?? null,
           },
+          fairness,
         },
       })
     }
 
-    // If game already finished, return stored result
-    if (game.status === DuelGameStatus.FINISHED) {
-      console.log(`[Status] Game already finished, returning stored result`)
+    const state = await DuelGameService.getState(game.id)
+    if (!state) {
+      return NextResponse.json({ success: false, error: 'Round not found' }, { status: 404 })
+    }
+
+    const { proof, game: current } = state
+
+    const creatorCommitted = !!proof.creatorCommitment
+    const opponentCommitted = !!proof.opponentCommitment
+    const bothCommitted = creatorCommitted && opponentCommitted
+
+    const creatorRevealed = proof.creatorNumber !== null
+    const opponentRevealed = proof.opponentNumber !== null
+
+    const myCommitted = isCreator ? creatorCommitted : opponentCommitted
+    const theirCommitted = isCreator ? opponentCommitted : creatorCommitted
+    const myRevealed = isCreator ? creatorRevealed : opponentRevealed
+    const theirRevealed = isCreator ? opponentRevealed : creatorRevealed
+
+    // Commit/reveal flags from the current user's perspective (never numbers)
+    const commitFlags = () => ({
+      bothReady: bothCommitted,
+      mySubmitted: myCommitted,
+      opponentSubmitted: theirCommitted,
+      myRevealed,
+      opponentRevealed: theirRevealed,
+      revealDeadline: proof.revealDeadline?.toISOString() ?? null,
+      commitDeadline: current.commitDeadline?.toISOString() ?? null,
+    })
+
+    console.log(`[Status] Game ${current.id}: committed=${creatorCommitted}/${opponentCommitted}, revealed=${creatorRevealed}/${opponentRevealed}, gameStatus=${current.status}`)
+
+    // Game finished - return stored result
+    if (current.status === DuelGameStatus.FINISHED || current.status === DuelGameStatus.FORFEITED) {
+      const forfeited = current.status === DuelGameStatus.FORFEITED
       return NextResponse.json({
         success: true,
         data: {
           status: 'finished',
-          bothReady: true,
-          mySubmitted: true,
-          opponentSubmitted: true,
+          ...commitFlags(),
+          fairness,
           result: {
-            creatorNumber: metadata.creatorNumber,
-            opponentNumber: metadata.opponentNumber,
-            winnerId: game.winnerUserId,
-            // Re-calculate for full data
-            randomNumber: 0, // Would need to store this
-            creatorDistance: 0,
-            opponentDistance: 0,
-            isDraw: game.winnerUserId === null,
+            forfeited,
+            forfeitedUserIds: state.forfeitedUserIds,
+            creatorNumber: proof.creatorNumber,
+            opponentNumber: proof.opponentNumber,
+            winnerId: current.winnerUserId,
+            randomNumber: proof.randomNumber,
+            creatorDistance: proof.creatorDistance,
+            opponentDistance: proof.opponentDistance,
+            isDraw: !forfeited && current.winnerUserId === null,
+            verification: state.verification,
           },
         },
       })
@@ -203,10 +190,9 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     return NextResponse.json({
       success: true,
       data: {
-        status: bothReady ? 'ready' : 'waiting',
-        bothReady,
-        mySubmitted,
-        opponentSubmitted: theirSubmitted,
+        status: bothCommitted ? 'revealing' : 'committing',
+        ...commitFlags(),
+        fairness,
       },
     })
   } catch (error) {
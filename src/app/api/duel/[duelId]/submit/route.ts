@@ -1,13 +1,20 @@
 /**
- * Submit Player Number API
- * POST /api/duel/[duelId]/submit - Submit player's number for a duel round
+ * Submit Commitment API
+ * POST /api/duel/[duelId]/submit - Commit to a number for a duel round
+ *
+ * Body: { roundNumber, commitment, clientSeed? } where commitment = SHA256("number:nonce")
+ * The number itself is revealed later via POST /api/duel/[duelId]/reveal
+ * clientSeed is mixed into the round HMAC; it can be set once, before the first round resolves
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
 import prisma from '@/lib/prisma'
 import { AuthService } from '@/server/services/authService'
-import { DuelMatchStatus, DuelGameStatus } from '@prisma/client'
+import { DuelOfferStatus } from '@prisma/client'
+import { validateCommitment } from '@/server/services/winnerDetermination'
+import { ServerSeedService } from '@/server/services/serverSeedService'
+import { DuelGameService } from '@/server/services/duelGameService'
 
 interface RouteParams {
   params: Promise<{ duelId: string }>
@@ -34,13 +41,20 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     const { duelId } = await params
     const body = await request.json()
-    const { roundNumber, playerNumber } = body
-
-    console.log(`[Submit] User ${user.id} submitting number ${playerNumber} for duel ${duelId} round ${roundNumber}`)
+    const { roundNumber, commitment, clientSeed } = body
+
+    // Plain numbers are no longer accepted - they would leak to the opponent
+    if (body.playerNumber !== undefined) {
+      return NextResponse.json(
+        { success: false, error: 'Submit a commitment, not a number. Reveal it after both players commit.' },
+        { status: 400 }
+      )
+    }
 
-    // Validate number
-    if (!Number.isInteger(playerNumber) || playerNumber < 0 || playerNumber > 999999) {
-      return NextResponse.json({ success: false, error: 'Invalid number (0-999999)' }, { status: 400 })
+    // Validate commitment
+    const commitmentCheck = validateCommitment(commitment)
+    if (!commitmentCheck.valid) {
+      return NextResponse.json({ success: false, error: commitmentCheck.error }, { status: 400 })
     }
 
     // Get the offer
@@ -52,8 +66,6 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ success: false, error: 'Duel not found' }, { status: 404 })
     }
 
-    console.log(`[Submit] Offer found: creator=${offer.creatorUserId}, opponent=${offer.opponentUserId}`)
-
     // Check user is participant
     const isCreator = offer.creatorUserId === user.id
     const isOpponent = offer.opponentUserId === user.id
@@ -67,85 +79,64 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ success: false, error: 'No opponent in this duel yet' }, { status: 400 })
     }
 
-    // Get or create match
-    let match = await prisma.duelMatch.findFirst({
-      where: { offerId: duelId },
-    })
-
-    if (!match) {
-      console.log(`[Submit] Creating new match for offer ${duelId}`)
-      match = await prisma.duelMatch.create({
-        data: {
-          offerId: duelId,
-          creatorUserId: offer.creatorUserId,
-          opponentUserId: offer.opponentUserId,
-          gamesPlanned: offer.gamesCount,
-          gamesPlayed: 0,
-          status: DuelMatchStatus.IN_PROGRESS,
-        },
-      })
+    // The creator confirms before the first round opens
+    if (offer.status === DuelOfferStatus.WAITING_CREATOR_CONFIRM) {
+      return NextResponse.json({ success: false, error: 'Waiting for the creator to confirm' }, { status: 409 })
+    }
+    if (offer.status !== DuelOfferStatus.MATCHED) {
+      return NextResponse.json({ success: false, error: 'Duel is not in play' }, { status: 409 })
     }
 
-    // Get or create game for this round
-    let game = await prisma.duelGame.findFirst({
-      where: {
-        matchId: match.id,
-        roundIndex: roundNumber,
-      },
+    // The match is created when the offer is joined
+    const latest = await prisma.duelMatch.findFirst({
+      where: { offerId: duelId },
+      // Latest match - an offer reopened after a creator no-show keeps the old one
+      orderBy: { createdAt: 'desc' },
     })
 
-    if (!game) {
-      console.log(`[Submit] Creating new game for match ${match.id} round ${roundNumber}`)
-      game = await prisma.duelGame.create({
-        data: {
-          matchId: match.id,
-          roundIndex: roundNumber,
-          status: DuelGameStatus.IN_PROGRESS,
-        },
-      })
+    if (!latest) {
+      return NextResponse.json({ success: false, error: 'Duel has no match' }, { status: 409 })
     }
 
-    // Parse existing metadata from roundSecret
-    let metadata: any = {}
-    if (game.roundSecret) {
-      try {
-        metadata = JSON.parse(game.roundSecret)
-      } catch (e) {
-        metadata = {}
+    const match = await ServerSeedService.ensureMatchSeed(latest)
+
+    // Optional client seed, mixed into every round of the match
+    if (clientSeed !== undefined && clientSeed !== null && clientSeed !== '') {
+      const seedResult = await ServerSeedService.setClientSeed(match, user.id, clientSeed)
+      if (!seedResult.success) {
+        return NextResponse.json({ success: false, error: seedResult.error }, { status: 400 })
       }
     }
 
-    // Update with player's number
-    if (isCreator) {
-      metadata.creatorNumber = playerNumber
-      metadata.creatorSubmittedAt = new Date().toISOString()
-      metadata.creatorId = user.id
-    } else {
-      metadata.opponentNumber = playerNumber
-      metadata.opponentSubmittedAt = new Date().toISOString()
-      metadata.opponentId = user.id
+    // The server decides which round is open
+    const game = await DuelGameService.startNextGame(match.id)
+    if (!game) {
+      return NextResponse.json({ success: false, error: 'Series is over' }, { status: 409 })
+    }
+    if (roundNumber !== undefined && Number(roundNumber) !== game.roundIndex) {
+      return NextResponse.json(
+        { success: false, error: `Round ${roundNumber} is not open, current round is ${game.roundIndex}` },
+        { status: 409 }
+      )
     }
 
-    // Save to roundSecret field
-    await prisma.duelGame.update({
-      where: { id: game.id },
-      data: {
-        roundSecret: JSON.stringify(metadata),
-      },
-    })
-
-    // Check if both submitted
-    const bothSubmitted = metadata.creatorNumber !== undefined && metadata.opponentNumber !== undefined
+    // Record player's commitment - final once made
+    const committed = await DuelGameService.commit(game.id, user.id, commitment)
+    if (!committed.success || !committed.state) {
+      return NextResponse.json({ success: false, error: committed.error }, { status: 400 })
+    }
 
-    console.log(`[Submit] Updated game ${game.id}: creatorNum=${metadata.creatorNumber}, opponentNum=${metadata.opponentNumber}, bothReady=${bothSubmitted}`)
+    const updated = committed.state.proof
+    const bothCommitted = !!updated.creatorCommitment && !!updated.opponentCommitment
 
     return NextResponse.json({
       success: true,
       data: {
-        submitted: true,
-        bothReady: bothSubmitted,
-        myNumber: playerNumber,
-        waitingForOpponent: !bothSubmitted,
+        committed: true,
+        bothCommitted,
+        revealDeadline: updated.revealDeadline?.toISOString() ?? null,
+        serverSeedHash: match.serverSeedHash,
+        waitingForOpponent: !bothCommitted,
       },
     })
   } catch (error) {
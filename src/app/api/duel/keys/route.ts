@@ -0,0 +1,33 @@
+/**
+ * Published Platform Keys API
+ * GET /api/duel/keys - Secrets of retired platform keys
+ *
+ * Lets anyone recompute legacy rounds by the keyVersion recorded
+ * in their verification data.
+ * Also lists the public half of every bundle signing key by version,
+ * for checking downloaded match bundles (npm run verify-bundle -- <file> --keys=<this response>).
+ */
+
+import { NextResponse } from 'next/server'
+import { KeyringService } from '@/server/services/keyringService'
+
+export async function GET() {
+  try {
+    const keys = await KeyringService.getPublishedKeys()
+    const bundleSigningKeys = await KeyringService.getSigningPublicKeys()
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        keys,
+        bundleSigningKeys,
+      },
+    })
+  } catch (error) {
+    console.error('[Keys] Error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
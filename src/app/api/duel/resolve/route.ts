@@ -17,6 +17,7 @@ import {
   MAX_NUMBER,
   MIN_NUMBER,
 } from '@/server/services/winnerDetermination'
+import { KeyringService } from '@/server/services/keyringService'
 
 export async function POST(request: NextRequest) {
   try {
@@ -69,6 +70,7 @@ export async function POST(request: NextRequest) {
         playerId: body.playerBId,
         playerNumber: playerBNumber,
       },
+      key: await KeyringService.getActiveKey(),
     }
 
     const result = determineWinner(params)
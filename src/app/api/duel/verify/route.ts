@@ -1,10 +1,18 @@
 /**
  * Duel Verification API
  * POST /api/duel/verify - Verify a duel result
+ *
+ * With serverSeed (revealed after the match) the whole HMAC is recomputed
+ * and checked against serverSeedHash. Legacy rounds can pass keySecret (published
+ * secret of a retired key, see GET /api/fairness/keys). Otherwise only seedSlice → winner is checked
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { verifyResult, VerificationRequest } from '@/server/services/winnerDetermination'
+import {
+  verifyResult,
+  isAlgorithmVersion,
+  VerificationRequest,
+} from '@/server/services/winnerDetermination'
 
 export async function POST(request: NextRequest) {
   try {
@@ -15,7 +23,7 @@ export async function POST(request: NextRequest) {
       'duelId', 'roundNumber', 'timeSlot', 
       'playerAId', 'playerANumber', 
       'playerBId', 'playerBNumber',
-      'seedSlice', 'claimedWinnerIndex'
+      'claimedWinnerIndex'
     ]
     
     for (const field of requiredFields) {
@@ -27,6 +35,24 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    if (!body.seedSlice && !body.serverSeed && !body.keySecret) {
+      return NextResponse.json(
+        { success: false, error: 'Provide serverSeed (preferred), keySecret or seedSlice' },
+        { status: 400 }
+      )
+    }
+
+    // Historical rounds carry no version and were computed with v1
+    const algorithmVersion = body.algorithmVersion === undefined || body.algorithmVersion === null
+      ? 1
+      : Number(body.algorithmVersion)
+    if (!isAlgorithmVersion(algorithmVersion)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown algorithmVersion: ${body.algorithmVersion}` },
+        { status: 400 }
+      )
+    }
+
     const verificationRequest: VerificationRequest = {
       duelId: body.duelId,
       roundNumber: body.roundNumber,
@@ -35,8 +61,14 @@ export async function POST(request: NextRequest) {
       playerANumber: Number(body.playerANumber),
       playerBId: body.playerBId,
       playerBNumber: Number(body.playerBNumber),
-      seedSlice: body.seedSlice,
+      seedSlice: body.seedSlice || undefined,
       claimedWinnerIndex: body.claimedWinnerIndex,
+      serverSeed: body.serverSeed || undefined,
+      serverSeedHash: body.serverSeedHash || undefined,
+      clientSeedA: body.clientSeedA || undefined,
+      clientSeedB: body.clientSeedB || undefined,
+      keySecret: body.keySecret || undefined,
+      algorithmVersion,
     }
 
     const result = verifyResult(verificationRequest)
@@ -1,18 +1,35 @@
 /**
  * Points to Skin Exchange API
  * POST /api/exchange/points-to-skin
+ * Header (optional): Idempotency-Key - a retry with the same key replays the first response
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { AuthService } from '@/server/services/authService'
 import { ExchangeService } from '@/server/services/exchangeService'
+import { IdempotencyService } from '@/server/services/idempotencyService'
 
-// Mock current user
-const getCurrentUser = () => ({ id: 'user_1', username: 'Player1' })
+async function getCurrentUser() {
+  const cookieStore = await cookies()
+  const token = cookieStore.get('auth_token')?.value
+
+  if (!token) return null
+
+  const session = await AuthService.validateSession(token)
+  if (!session.valid || !session.user) return null
+
+  return session.user
+}
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 })
+    }
+
     const body = await request.json()
-    const user = getCurrentUser()
 
     if (!body.skinId) {
       return NextResponse.json(
@@ -21,21 +38,23 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const result = await ExchangeService.pointsToSkin(user.id, body.skinId)
+    return await IdempotencyService.run(request, user.id, body, async () => {
+      const result = await ExchangeService.pointsToSkin(user.id, body.skinId)
 
-    if (!result.success) {
-      return NextResponse.json(
-        { success: false, error: result.error },
-        { status: 400 }
-      )
-    }
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: 400 }
+        )
+      }
 
-    return NextResponse.json({
-      success: true,
-      data: {
-        newUserSkin: result.newUserSkin,
-        newBalance: result.newBalance,
-      },
+      return NextResponse.json({
+        success: true,
+        data: {
+          newUserSkin: result.newUserSkin,
+          newBalance: result.newBalance,
+        },
+      })
     })
   } catch (error) {
     console.error('Error converting points to skin:', error)
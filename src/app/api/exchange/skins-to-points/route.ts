@@ -1,18 +1,35 @@
 /**
  * Skins to Points Exchange API
  * POST /api/exchange/skins-to-points
+ * Header (optional): Idempotency-Key - a retry with the same key replays the first response
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { AuthService } from '@/server/services/authService'
 import { ExchangeService } from '@/server/services/exchangeService'
+import { IdempotencyService } from '@/server/services/idempotencyService'
 
-// Mock current user
-const getCurrentUser = () => ({ id: 'user_1', username: 'Player1' })
+async function getCurrentUser() {
+  const cookieStore = await cookies()
+  const token = cookieStore.get('auth_token')?.value
+
+  if (!token) return null
+
+  const session = await AuthService.validateSession(token)
+  if (!session.valid || !session.user) return null
+
+  return session.user
+}
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 })
+    }
+
     const body = await request.json()
-    const user = getCurrentUser()
 
     if (!body.userSkinIds || !Array.isArray(body.userSkinIds)) {
       return NextResponse.json(
@@ -28,22 +45,25 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const result = await ExchangeService.skinsToPoints(user.id, body.userSkinIds)
+    return await IdempotencyService.run(request, user.id, body, async () => {
+      const result = await ExchangeService.skinsToPoints(user.id, body.userSkinIds)
 
-    if (!result.success) {
-      return NextResponse.json(
-        { success: false, error: result.error },
-        { status: 400 }
-      )
-    }
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: 400 }
+        )
+      }
 
-    return NextResponse.json({
-      success: true,
-      data: {
-        addedPoints: result.addedPoints,
-        newBalance: result.newBalance,
-        convertedSkins: result.convertedSkins,
-      },
+      return NextResponse.json({
+        success: true,
+        data: {
+          addedPoints: result.addedPoints,
+          spreadPoints: result.spreadPoints,
+          newBalance: result.newBalance,
+          convertedSkins: result.convertedSkins,
+        },
+      })
     })
   } catch (error) {
     console.error('Error converting skins to points:', error)
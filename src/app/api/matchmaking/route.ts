@@ -0,0 +1,159 @@
+/**
+ * Matchmaking API
+ * 
+ * GET /api/matchmaking - Current user's latest queue entry
+ * POST /api/matchmaking - Join the queue (stake held until paired or timed out)
+ * DELETE /api/matchmaking - Leave the queue
+ *
+ * POST and DELETE take an optional Idempotency-Key header; a retry with the same key replays the first response.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { MatchmakingService } from '@/server/services/matchmakingService'
+import { AuthService } from '@/server/services/authService'
+import { IdempotencyService } from '@/server/services/idempotencyService'
+import { MatchmakingRequest } from '@/server/types'
+
+/**
+ * Get current user from session
+ */
+async function getCurrentUser() {
+  const cookieStore = await cookies()
+  const token = cookieStore.get('auth_token')?.value
+
+  if (!token) {
+    return null
+  }
+
+  const session = await AuthService.validateSession(token)
+  if (!session.valid || !session.user) {
+    return null
+  }
+
+  return session.user
+}
+
+/**
+ * GET /api/matchmaking
+ * Queue status; offerId is set once paired
+ */
+export async function GET() {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      )
+    }
+
+    const entry = await MatchmakingService.getStatus(user.id)
+
+    return NextResponse.json({
+      success: true,
+      data: entry,
+    })
+  } catch (error) {
+    console.error('Error fetching queue status:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/matchmaking
+ * Body: { chipType, minGames, maxGames, minReliability? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json() as MatchmakingRequest
+
+    if (typeof body.minGames !== 'number' || typeof body.maxGames !== 'number') {
+      return NextResponse.json(
+        { success: false, error: 'minGames and maxGames are required' },
+        { status: 400 }
+      )
+    }
+
+    if (body.minReliability !== undefined && typeof body.minReliability !== 'number') {
+      return NextResponse.json(
+        { success: false, error: 'minReliability must be a number between 0 and 1' },
+        { status: 400 }
+      )
+    }
+
+    return await IdempotencyService.run(request, user.id, body, async () => {
+      const result = await MatchmakingService.enqueue(user.id, body)
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: 400 }
+        )
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: result.entry,
+      })
+    })
+  } catch (error) {
+    console.error('Error joining queue:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/matchmaking
+ * Leave the queue, held stake returned
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      )
+    }
+
+    return await IdempotencyService.run(request, user.id, null, async () => {
+      const result = await MatchmakingService.leave(user.id)
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: 400 }
+        )
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: 'Left the queue',
+      })
+    })
+  } catch (error) {
+    console.error('Error leaving queue:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Challenges API
+ * 
+ * GET /api/p2p/challenges - Open direct challenges to the current user
+ */
+
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { P2POrderService } from '@/server/services/p2pOrderService'
+import { AuthService } from '@/server/services/authService'
+
+/**
+ * Get current user from session
+ */
+async function getCurrentUser() {
+  const cookieStore = await cookies()
+  const token = cookieStore.get('auth_token')?.value
+
+  if (!token) {
+    return null
+  }
+
+  const session = await AuthService.validateSession(token)
+  if (!session.valid || !session.user) {
+    return null
+  }
+
+  return session.user
+}
+
+/**
+ * GET /api/p2p/challenges
+ * Challenges waiting for the user to accept (join) or decline
+ */
+export async function GET() {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      )
+    }
+
+    const challenges = await P2POrderService.getIncomingChallenges(user.id)
+
+    return NextResponse.json({
+      success: true,
+      data: challenges,
+    })
+  } catch (error) {
+    console.error('Error fetching challenges:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
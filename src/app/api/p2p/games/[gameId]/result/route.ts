@@ -1,58 +1,103 @@
 /**
  * Game Result API
- * 
- * POST /api/p2p/games/[gameId]/result - Submit player number for game
+ *
+ * POST /api/p2p/games/[gameId]/result - Commit to or reveal player number for game
  * GET /api/p2p/games/[gameId]/result - Get game result and fairness proof
+ *
+ * Commit: { commitment } where commitment = SHA256("number:nonce")
+ * Reveal: { number, nonce } once both players committed
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import prisma from '@/lib/prisma'
 import { DuelGameService } from '@/server/services/duelGameService'
-
-// Mock current user
-const getCurrentUser = () => ({
-  id: 'user_123',
-  username: 'Player1',
-})
+import { AuthService } from '@/server/services/authService'
 
 interface RouteParams {
-  params: { gameId: string }
+  params: Promise<{ gameId: string }>
+}
+
+/**
+ * Get current user from session
+ */
+async function getCurrentUser() {
+  const cookieStore = await cookies()
+  const token = cookieStore.get('auth_token')?.value
+
+  if (!token) {
+    return null
+  }
+
+  const session = await AuthService.validateSession(token)
+  if (!session.valid || !session.user) {
+    return null
+  }
+
+  return session.user
+}
+
+/**
+ * Check the user plays in the game's match
+ */
+async function isParticipant(gameId: string, userId: string): Promise<boolean | null> {
+  const game = await prisma.duelGame.findUnique({
+    where: { id: gameId },
+    select: { match: { select: { creatorUserId: true, opponentUserId: true } } },
+  })
+
+  if (!game) return null
+  return game.match.creatorUserId === userId || game.match.opponentUserId === userId
 }
 
 /**
  * POST /api/p2p/games/[gameId]/result
- * Submit player's number (0-999999)
+ * Commit to a number, or reveal it once both players committed
  */
 export async function POST(
   request: NextRequest,
   { params }: RouteParams
 ) {
   try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      )
+    }
+
+    const { gameId } = await params
     const body = await request.json()
-    const user = getCurrentUser()
 
-    // Validate number
-    const playerNumber = Number(body.number)
-    
-    if (isNaN(playerNumber) || !Number.isInteger(playerNumber)) {
+    const participant = await isParticipant(gameId, user.id)
+    if (participant === null) {
       return NextResponse.json(
-        { success: false, error: 'Number must be an integer' },
-        { status: 400 }
+        { success: false, error: 'Game not found' },
+        { status: 404 }
+      )
+    }
+    if (!participant) {
+      return NextResponse.json(
+        { success: false, error: 'You are not in this game' },
+        { status: 403 }
       )
     }
 
-    if (playerNumber < 0 || playerNumber > 999999) {
+    let result
+    if (body.commitment !== undefined) {
+      result = await DuelGameService.commit(gameId, user.id, body.commitment)
+    } else if (body.nonce !== undefined) {
+      result = await DuelGameService.reveal(gameId, user.id, Number(body.number), body.nonce)
+    } else {
+      // Plain numbers are not accepted - they would leak to the opponent
       return NextResponse.json(
-        { success: false, error: 'Number must be between 0 and 999,999' },
+        { success: false, error: 'Submit a commitment, then reveal number and nonce' },
         { status: 400 }
       )
     }
 
-    const result = await DuelGameService.submitPlayerNumber(
-      params.gameId,
-      user.id,
-      playerNumber
-    )
-
     if (!result.success) {
       return NextResponse.json(
         { success: false, error: result.error },
@@ -60,9 +105,12 @@ export async function POST(
       )
     }
 
+    // Resolve right away if this was the last missing reveal
+    await DuelGameService.resolveIfReady(gameId)
+
     return NextResponse.json({
       success: true,
-      data: result.game,
+      data: await DuelGameService.getGame(gameId),
     })
   } catch (error) {
     console.error('Error submitting game result:', error)
@@ -82,14 +130,34 @@ export async function GET(
   { params }: RouteParams
 ) {
   try {
-    const game = await DuelGameService.getGame(params.gameId, true)
+    const user = await getCurrentUser()
 
-    if (!game) {
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      )
+    }
+
+    const { gameId } = await params
+
+    const participant = await isParticipant(gameId, user.id)
+    if (participant === null) {
       return NextResponse.json(
         { success: false, error: 'Game not found' },
         { status: 404 }
       )
     }
+    if (!participant) {
+      return NextResponse.json(
+        { success: false, error: 'You are not in this game' },
+        { status: 403 }
+      )
+    }
+
+    // Deadlines are enforced on read as well
+    await DuelGameService.resolveIfReady(gameId)
+    const game = await DuelGameService.getGame(gameId)
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,44 @@
+/**
+ * Invite Lookup API
+ * 
+ * GET /api/p2p/invites/[token] - Offer behind an invite link or code
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { P2POrderService } from '@/server/services/p2pOrderService'
+
+interface RouteParams {
+  params: Promise<{ token: string }>
+}
+
+/**
+ * GET /api/p2p/invites/[token]
+ * Join it with POST /api/p2p/orders/[orderId]/join and { inviteToken }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { token } = await params
+    const result = await P2POrderService.getOrderByInvite(decodeURIComponent(token))
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.order,
+    })
+  } catch (error) {
+    console.error('Error fetching invite:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -6,6 +6,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
 import prisma from '@/lib/prisma'
+import { DuelMatchStatus } from '@prisma/client'
 import { AuthService } from '@/server/services/authService'
 
 /**
@@ -55,7 +56,15 @@ export async function GET(request: NextRequest) {
       include: {
         creator: {
           select: { id: true, username: true }
-        }
+        },
+        invitedUser: {
+          select: { id: true, username: true }
+        },
+        // Confirmation deadline of a joined offer
+        matches: {
+          where: { status: DuelMatchStatus.AWAITING_CREATOR_CONFIRM },
+          select: { creatorConfirmDeadline: true },
+        },
       },
       orderBy: { createdAt: 'desc' },
       take: 50,
@@ -65,7 +74,10 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      data: offers,
+      data: offers.map(({ matches, ...offer }) => ({
+        ...offer,
+        confirmDeadline: matches[0]?.creatorConfirmDeadline ?? null,
+      })),
     })
   } catch (error) {
     console.error('Error fetching my offers:', error)
@@ -2,12 +2,14 @@
  * Confirm Order API
  * 
  * POST /api/p2p/orders/[orderId]/confirm - Confirm matched order (owner only)
+ * Header (optional): Idempotency-Key - a retry with the same key replays the first response
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
 import { P2POrderService } from '@/server/services/p2pOrderService'
 import { AuthService } from '@/server/services/authService'
+import { IdempotencyService } from '@/server/services/idempotencyService'
 
 interface RouteParams {
   params: Promise<{ orderId: string }>
@@ -52,25 +54,27 @@ export async function POST(
 
     const { orderId } = await params
     console.log(`[Confirm] User ${user.id} confirming order ${orderId}`)
-    
-    // Confirm order using service (which validates and updates status)
-    const result = await P2POrderService.confirmOrder(orderId, user.id)
 
-    if (!result.success) {
-      return NextResponse.json(
-        { success: false, error: result.error },
-        { status: 400 }
-      )
-    }
+    return await IdempotencyService.run(request, user.id, null, async () => {
+      // Confirm order using service (which validates and updates status)
+      const result = await P2POrderService.confirmOrder(orderId, user.id)
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: 400 }
+        )
+      }
 
-    console.log(`[Confirm] Order ${orderId} confirmed successfully`)
+      console.log(`[Confirm] Order ${orderId} confirmed successfully`)
 
-    return NextResponse.json({
-      success: true,
-      data: {
-        offer: result.order,
-        message: 'Duel confirmed! Ready to play.',
-      },
+      return NextResponse.json({
+        success: true,
+        data: {
+          offer: result.order,
+          message: 'Duel confirmed! Ready to play.',
+        },
+      })
     })
   } catch (error) {
     console.error('Error confirming order:', error)
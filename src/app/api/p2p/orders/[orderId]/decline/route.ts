@@ -0,0 +1,79 @@
+/**
+ * Decline Challenge API
+ * 
+ * POST /api/p2p/orders/[orderId]/decline - Decline a direct challenge (challenged user only)
+ * Header (optional): Idempotency-Key - a retry with the same key replays the first response
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { P2POrderService } from '@/server/services/p2pOrderService'
+import { AuthService } from '@/server/services/authService'
+import { IdempotencyService } from '@/server/services/idempotencyService'
+
+interface RouteParams {
+  params: Promise<{ orderId: string }>
+}
+
+/**
+ * Get current user from session
+ */
+async function getCurrentUser() {
+  const cookieStore = await cookies()
+  const token = cookieStore.get('auth_token')?.value
+
+  if (!token) {
+    return null
+  }
+
+  const session = await AuthService.validateSession(token)
+  if (!session.valid || !session.user) {
+    return null
+  }
+
+  return session.user
+}
+
+/**
+ * POST /api/p2p/orders/[orderId]/decline
+ * Challenged user turns the duel down; the creator's stake is returned
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      )
+    }
+
+    const { orderId } = await params
+
+    return await IdempotencyService.run(request, user.id, null, async () => {
+      const result = await P2POrderService.declineChallenge(orderId, user.id, user.username)
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: 400 }
+        )
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: 'Challenge declined',
+      })
+    })
+  } catch (error) {
+    console.error('Error declining challenge:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
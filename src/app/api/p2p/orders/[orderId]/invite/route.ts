@@ -0,0 +1,74 @@
+/**
+ * Invite API
+ * 
+ * POST /api/p2p/orders/[orderId]/invite - New invite link/code for an unlisted order (owner only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { P2POrderService } from '@/server/services/p2pOrderService'
+import { AuthService } from '@/server/services/authService'
+
+interface RouteParams {
+  params: Promise<{ orderId: string }>
+}
+
+/**
+ * Get current user from session
+ */
+async function getCurrentUser() {
+  const cookieStore = await cookies()
+  const token = cookieStore.get('auth_token')?.value
+
+  if (!token) {
+    return null
+  }
+
+  const session = await AuthService.validateSession(token)
+  if (!session.valid || !session.user) {
+    return null
+  }
+
+  return session.user
+}
+
+/**
+ * POST /api/p2p/orders/[orderId]/invite
+ * Issue a fresh invite (earlier ones stay valid until they expire)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      )
+    }
+
+    const { orderId } = await params
+    const result = await P2POrderService.createInvite(orderId, user.id)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.invite,
+    })
+  } catch (error) {
+    console.error('Error creating invite:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
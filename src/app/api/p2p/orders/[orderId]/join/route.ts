@@ -2,12 +2,20 @@
  * Join Order API
  * 
  * POST /api/p2p/orders/[orderId]/join - Join an open order
+ *
+ * Body (optional): { userSkinIds, inviteToken }
+ * - userSkinIds: skins to stake on a SKINS offer; without them the joiner stakes points
+ * - inviteToken: required to join an UNLISTED offer
+ *
+ * Header (optional): Idempotency-Key - a retry with the same key replays the first response
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
 import { P2POrderService } from '@/server/services/p2pOrderService'
+import { IdempotencyService } from '@/server/services/idempotencyService'
 import { AuthService } from '@/server/services/authService'
+import { JoinOrderRequest } from '@/server/types'
 
 interface RouteParams {
   params: Promise<{ orderId: string }>
@@ -51,27 +59,46 @@ export async function POST(
     }
 
     const { orderId } = await params
-    
-    const result = await P2POrderService.joinOrder(
-      orderId,
-      user.id,
-      user.username
-    )
+    const body = await request.json().catch(() => ({})) as JoinOrderRequest
+
+    if (body.userSkinIds !== undefined
+      && (!Array.isArray(body.userSkinIds) || body.userSkinIds.some(id => typeof id !== 'string'))) {
+      return NextResponse.json(
+        { success: false, error: 'userSkinIds must be a list of skin ids' },
+        { status: 400 }
+      )
+    }
 
-    if (!result.success) {
+    if (body.inviteToken !== undefined && typeof body.inviteToken !== 'string') {
       return NextResponse.json(
-        { success: false, error: result.error },
+        { success: false, error: 'inviteToken must be a string' },
         { status: 400 }
       )
     }
+    
+    return await IdempotencyService.run(request, user.id, body, async () => {
+      const result = await P2POrderService.joinOrder(
+        orderId,
+        user.id,
+        user.username,
+        { userSkinIds: body.userSkinIds, inviteToken: body.inviteToken }
+      )
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.error === 'Order has already been taken' ? 409 : 400 }
+        )
+      }
 
-    return NextResponse.json({
-      success: true,
-      data: {
-        order: result.order,
-        expiresAt: result.expiresAt,
-        message: 'Waiting for owner confirmation. You have 2 minutes.',
-      },
+      return NextResponse.json({
+        success: true,
+        data: {
+          order: result.order,
+          expiresAt: result.expiresAt,
+          message: 'Waiting for owner confirmation. You have 2 minutes.',
+        },
+      })
     })
   } catch (error) {
     console.error('Error joining order:', error)
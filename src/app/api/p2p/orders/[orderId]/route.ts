@@ -1,14 +1,17 @@
 /**
  * Single Order API
  * 
- * GET /api/p2p/orders/[orderId] - Get order details
+ * GET /api/p2p/orders/[orderId] - Get order details (private offers: players only)
  * DELETE /api/p2p/orders/[orderId] - Cancel order
+ *
+ * DELETE takes an optional Idempotency-Key header (late cancellations charge a fee).
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
 import { P2POrderService } from '@/server/services/p2pOrderService'
 import { AuthService } from '@/server/services/authService'
+import { IdempotencyService } from '@/server/services/idempotencyService'
 
 interface RouteParams {
   params: Promise<{ orderId: string }>
@@ -42,8 +45,9 @@ export async function GET(
   { params }: RouteParams
 ) {
   try {
+    const user = await getCurrentUser()
     const { orderId } = await params
-    const order = await P2POrderService.getOrder(orderId)
+    const order = await P2POrderService.getOrder(orderId, user?.id)
 
     if (!order) {
       return NextResponse.json(
@@ -84,18 +88,24 @@ export async function DELETE(
     }
 
     const { orderId } = await params
-    const result = await P2POrderService.cancelOrder(orderId, user.id)
 
-    if (!result.success) {
-      return NextResponse.json(
-        { success: false, error: result.error },
-        { status: 400 }
-      )
-    }
+    return await IdempotencyService.run(request, user.id, null, async () => {
+      const result = await P2POrderService.cancelOrder(orderId, user.id)
 
-    return NextResponse.json({
-      success: true,
-      message: 'Order cancelled successfully',
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: 400 }
+        )
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: result.feePoints
+          ? `Order cancelled, ${result.feePoints} pts late cancellation fee`
+          : 'Order cancelled successfully',
+        feePoints: result.feePoints ?? 0,
+      })
     })
   } catch (error) {
     console.error('Error cancelling order:', error)
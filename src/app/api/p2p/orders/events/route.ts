@@ -0,0 +1,20 @@
+/**
+ * Offer Board Events API
+ * GET /api/p2p/orders/events - Server-Sent Events for the offer board
+ *
+ * Events: offer_created, offer_taken, offer_reopened, offer_removed - each with
+ * the offerId; clients re-read the board. Reconnects resume after Last-Event-ID.
+ */
+
+import { NextRequest } from 'next/server'
+import { RealtimeService, BOARD_CHANNEL } from '@/server/services/realtimeService'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+export async function GET(request: NextRequest) {
+  const lastEventId = request.headers.get('last-event-id')
+    ?? request.nextUrl.searchParams.get('lastEventId')
+
+  return RealtimeService.stream(BOARD_CHANNEL, lastEventId, request.signal)
+}
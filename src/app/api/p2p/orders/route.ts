@@ -2,15 +2,21 @@
  * P2P Orders API
  * 
  * POST /api/p2p/orders - Create new order
- * GET /api/p2p/orders - List orders (with status filter)
+ * GET /api/p2p/orders - List public orders, filtered, sorted and paginated
+ *
+ * DIRECT (challenge) and UNLISTED (invite-only) offers are never listed here.
+ * POST takes an optional Idempotency-Key header; a retry with the same key replays the first response.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
 import { P2POrderService } from '@/server/services/p2pOrderService'
+import { IdempotencyService } from '@/server/services/idempotencyService'
 import { ChipService } from '@/server/services/chipService'
 import { AuthService } from '@/server/services/authService'
-import { CreateOrderRequest, CONSTANTS } from '@/server/types'
+import { ChipType, CreateOrderRequest, OrderListQuery, OrderSort, CONSTANTS } from '@/server/types'
+
+const SORTS: OrderSort[] = ['newest', 'stake', 'reliability']
 
 /**
  * Get current user from session
@@ -48,45 +54,69 @@ export async function POST(request: NextRequest) {
 
     const body = await request.json() as CreateOrderRequest
 
-    // Validation
-    if (!body.chipType || !ChipService.isValidChipType(body.chipType)) {
+    // Validation (SKINS offers stake skins instead of a chip)
+    if (body.stakeType === 'SKINS') {
+      if (!Array.isArray(body.userSkinIds) || body.userSkinIds.some(id => typeof id !== 'string')) {
+        return NextResponse.json(
+          { success: false, error: 'userSkinIds must be a list of skin ids' },
+          { status: 400 }
+        )
+      }
+    } else if (!body.chipType || !ChipService.isValidChipType(body.chipType)) {
       return NextResponse.json(
         { success: false, error: 'Invalid chip type. Must be SMILE, HEART, FIRE, or RING' },
         { status: 400 }
       )
     }
 
-    if (!body.gamesPlanned || body.gamesPlanned < CONSTANTS.MIN_GAMES_PLANNED) {
+    if (body.visibility !== undefined && !['PUBLIC', 'DIRECT', 'UNLISTED'].includes(body.visibility)) {
       return NextResponse.json(
-        { success: false, error: `Minimum ${CONSTANTS.MIN_GAMES_PLANNED} games required` },
+        { success: false, error: 'Invalid visibility. Must be PUBLIC, DIRECT, or UNLISTED' },
         { status: 400 }
       )
     }
 
-    if (body.gamesPlanned > CONSTANTS.MAX_GAMES_PLANNED) {
+    if (body.visibility === 'DIRECT' && (typeof body.opponentUsername !== 'string' || !body.opponentUsername.trim())) {
       return NextResponse.json(
-        { success: false, error: `Maximum ${CONSTANTS.MAX_GAMES_PLANNED} games allowed` },
+        { success: false, error: 'opponentUsername is required for a challenge' },
         { status: 400 }
       )
     }
 
-    // Create order
-    const result = await P2POrderService.createOrder(
-      user.id,
-      user.username,
-      body
-    )
+    if (!body.gamesPlanned || body.gamesPlanned < CONSTANTS.MIN_GAMES_PLANNED) {
+      return NextResponse.json(
+        { success: false, error: `Minimum ${CONSTANTS.MIN_GAMES_PLANNED} games required` },
+        { status: 400 }
+      )
+    }
 
-    if (!result.success) {
+    if (body.gamesPlanned > CONSTANTS.MAX_GAMES_PLANNED) {
       return NextResponse.json(
-        { success: false, error: result.error },
+        { success: false, error: `Maximum ${CONSTANTS.MAX_GAMES_PLANNED} games allowed` },
         { status: 400 }
       )
     }
 
-    return NextResponse.json({
-      success: true,
-      data: result.order,
+    // Create order (a retry with the same Idempotency-Key gets the first response)
+    return await IdempotencyService.run(request, user.id, body, async () => {
+      const result = await P2POrderService.createOrder(
+        user.id,
+        user.username,
+        body
+      )
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: 400 }
+        )
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: result.order,
+        invite: result.invite,
+      })
     })
   } catch (error) {
     console.error('Error creating order:', error)
@@ -99,7 +129,10 @@ export async function POST(request: NextRequest) {
 
 /**
  * GET /api/p2p/orders
- * List orders with optional status filter
+ * Query: chipType, stakeType (POINTS | SKINS), minGames, maxGames, minStake, maxStake,
+ * minReliability (0-1), excludeMine=true, sort (newest | stake | reliability),
+ * order (asc | desc), cursor, limit
+ * Returns { data: orders, nextCursor }
  */
 export async function GET(request: NextRequest) {
   try {
@@ -114,11 +147,98 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    const orders = await P2POrderService.getOpenOrders()
+    const chipType = searchParams.get('chipType')
+    if (chipType && !ChipService.isValidChipType(chipType)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid chip type. Must be SMILE, HEART, FIRE, or RING' },
+        { status: 400 }
+      )
+    }
+
+    const stakeType = searchParams.get('stakeType')
+    if (stakeType && stakeType !== 'POINTS' && stakeType !== 'SKINS') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid stake type. Must be POINTS or SKINS' },
+        { status: 400 }
+      )
+    }
+
+    const sort = searchParams.get('sort')
+    if (sort && !SORTS.includes(sort as OrderSort)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid sort. Must be ${SORTS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const order = searchParams.get('order')
+    if (order && order !== 'asc' && order !== 'desc') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid order. Must be asc or desc' },
+        { status: 400 }
+      )
+    }
+
+    const numbers: Record<string, number | undefined> = {}
+    for (const name of ['minGames', 'maxGames', 'minStake', 'maxStake', 'minReliability', 'limit']) {
+      const raw = searchParams.get(name)
+      if (raw === null || raw === '') continue
+
+      const value = Number(raw)
+      if (!Number.isFinite(value) || value < 0) {
+        return NextResponse.json(
+          { success: false, error: `${name} must be a non-negative number` },
+          { status: 400 }
+        )
+      }
+      numbers[name] = value
+    }
+
+    if (numbers.minReliability !== undefined && numbers.minReliability > 1) {
+      return NextResponse.json(
+        { success: false, error: 'minReliability must be between 0 and 1' },
+        { status: 400 }
+      )
+    }
+
+    if (numbers.limit !== undefined && (!Number.isInteger(numbers.limit) || numbers.limit < 1)) {
+      return NextResponse.json(
+        { success: false, error: `limit must be between 1 and ${CONSTANTS.ORDERS_MAX_PAGE_SIZE}` },
+        { status: 400 }
+      )
+    }
+
+    // Own offers can only be left out when we know who is asking
+    const user = searchParams.get('excludeMine') === 'true' ? await getCurrentUser() : null
+
+    const query: OrderListQuery = {
+      chipType: (chipType as ChipType) || undefined,
+      stakeType: (stakeType as OrderListQuery['stakeType']) || undefined,
+      minGames: numbers.minGames,
+      maxGames: numbers.maxGames,
+      minStake: numbers.minStake,
+      maxStake: numbers.maxStake,
+      minReliability: numbers.minReliability,
+      excludeUserId: user?.id,
+      sort: (sort as OrderSort) || undefined,
+      order: (order as OrderListQuery['order']) || undefined,
+      cursor: searchParams.get('cursor') || undefined,
+      limit: numbers.limit,
+    }
+
+    const result = await P2POrderService.getOpenOrders(query)
+
+    if (!result.success || !result.page) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Invalid cursor' ? 400 : 500 }
+      )
+    }
 
     return NextResponse.json({
       success: true,
-      data: orders,
+      data: result.page.orders,
+      nextCursor: result.page.nextCursor,
     })
   } catch (error) {
     console.error('Error fetching orders:', error)
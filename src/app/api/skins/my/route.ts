@@ -4,14 +4,28 @@
  */
 
 import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { AuthService } from '@/server/services/authService'
 import { ExchangeService } from '@/server/services/exchangeService'
 
-// Mock current user
-const getCurrentUser = () => ({ id: 'user_1', username: 'Player1' })
+async function getCurrentUser() {
+  const cookieStore = await cookies()
+  const token = cookieStore.get('auth_token')?.value
+
+  if (!token) return null
+
+  const session = await AuthService.validateSession(token)
+  if (!session.valid || !session.user) return null
+
+  return session.user
+}
 
 export async function GET() {
   try {
-    const user = getCurrentUser()
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 })
+    }
     const skins = await ExchangeService.getUserSkins(user.id)
     const balance = await ExchangeService.getUserBalance(user.id)
 
@@ -0,0 +1,40 @@
+/**
+ * Stakeable Skins API
+ * GET /api/skins/stakeable - Current user's skins that can be staked in a duel
+ */
+
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import { AuthService } from '@/server/services/authService'
+import { EscrowService } from '@/server/services/escrowService'
+
+async function getCurrentUser() {
+  const cookieStore = await cookies()
+  const token = cookieStore.get('auth_token')?.value
+
+  if (!token) return null
+
+  const session = await AuthService.validateSession(token)
+  if (!session.valid || !session.user) return null
+
+  return session.user
+}
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const skins = await EscrowService.getStakeableSkins(user.id)
+
+    return NextResponse.json({ success: true, data: skins })
+  } catch (error) {
+    console.error('Error fetching stakeable skins:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,11 +1,13 @@
 /**
  * User Reliability API
- * 
+ *
  * GET /api/users/[userId]/reliability - Get user's reliability metrics
+ * GET /api/users/[userId]/reliability?view=history - Events behind them, newest first
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { ReliabilityService } from '@/server/services/reliabilityService'
+import { CONSTANTS } from '@/server/types'
 
 interface RouteParams {
   params: { userId: string }
@@ -14,12 +16,19 @@ interface RouteParams {
 /**
  * GET /api/users/[userId]/reliability
  * Get reliability metrics for a user
+ * view=history: one page of their events instead (cursor, limit)
  */
 export async function GET(
   request: NextRequest,
   { params }: RouteParams
 ) {
   try {
+    const { searchParams } = new URL(request.url)
+
+    if (searchParams.get('view') === 'history') {
+      return getHistory(params.userId, searchParams)
+    }
+
     const metrics = await ReliabilityService.getMetrics(params.userId)
     const rankInfo = ReliabilityService.getRankInfo(metrics.rank)
 
@@ -40,4 +49,29 @@ export async function GET(
   }
 }
 
+async function getHistory(userId: string, searchParams: URLSearchParams) {
+  const rawLimit = searchParams.get('limit')
+  const limit = rawLimit ? Number(rawLimit) : undefined
+
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    return NextResponse.json(
+      { success: false, error: `limit must be between 1 and ${CONSTANTS.RELIABILITY_HISTORY_MAX_PAGE_SIZE}` },
+      { status: 400 }
+    )
+  }
+
+  const result = await ReliabilityService.getHistory(userId, searchParams.get('cursor') || undefined, limit)
+
+  if (!result.success || !result.page) {
+    return NextResponse.json(
+      { success: false, error: result.error },
+      { status: result.error === 'Invalid cursor' ? 400 : 500 }
+    )
+  }
 
+  return NextResponse.json({
+    success: true,
+    data: result.page.events,
+    nextCursor: result.page.nextCursor,
+  })
+}
@@ -7,7 +7,7 @@ import Link from 'next/link'
 import { NumberInput } from '@/components/NumberInput'
 import { useAuth } from '@/contexts/AuthContext'
 
-type DuelPhase = 'loading' | 'input' | 'waiting_opponent' | 'resolving' | 'result'
+type DuelPhase = 'loading' | 'ready_check' | 'input' | 'waiting_opponent' | 'resolving' | 'result'
 
 interface DuelData {
   id: string
@@ -17,12 +17,71 @@ interface DuelData {
   opponent: { id: string; username: string } | null
   chipType: string
   chipPointsValue: number
+  stakeType: 'POINTS' | 'SKINS'
+  stakeValue: number | null
   gamesCount: number
   status: string
   isCreator: boolean
   isOpponent: boolean
   myId: string
   myUsername: string
+  fairness: FairnessInfo | null
+  series: DuelSeries | null
+  rounds: ServerRound[]
+}
+
+/** Series progress as counted by the server */
+interface DuelSeries {
+  status: string
+  gamesPlanned: number
+  gamesPlayed: number
+  currentRound: number | null
+  creatorWins: number
+  opponentWins: number
+  draws: number
+  winnerId: string | null
+  finished: boolean
+  /** Points the winner took: gross - platform fee = net */
+  payout: { grossPoints: number; feePoints: number; netPoints: number } | null
+}
+
+interface ServerRound {
+  roundIndex: number
+  status: string
+  winnerUserId: string | null
+  forfeited: boolean
+  creatorNumber: number | null
+  opponentNumber: number | null
+  randomNumber: number | null
+  creatorDistance: number | null
+  opponentDistance: number | null
+  verification: RoundVerification | null
+}
+
+interface FairnessInfo {
+  serverSeedHash: string | null
+  serverSeed: string | null
+  keyVersion: number | null
+  revealedAt: string | null
+  creatorClientSeed: string | null
+  opponentClientSeed: string | null
+}
+
+interface RoundVerification {
+  duelId: string
+  roundNumber: number
+  timeSlot: number
+  playerAId: string
+  playerANumber: number
+  playerBId: string
+  playerBNumber: number
+  seedSlice: string
+  randomNumber: number
+  serverSeedHash: string | null
+  clientSeedA: string | null
+  clientSeedB: string | null
+  keyVersion: number
+  algorithmVersion: number
 }
 
 interface RoundResult {
@@ -33,6 +92,99 @@ interface RoundResult {
   opponentDistance: number
   winnerId: string | null
   isDraw: boolean
+  forfeited: boolean
+}
+
+interface RoundCommit {
+  playerNumber: number
+  nonce: string
+}
+
+// ============================================
+// COMMIT-REVEAL HELPERS
+// ============================================
+
+/** 32 random bytes as hex */
+function generateNonce(): string {
+  const bytes = new Uint8Array(32)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+/** commitment = SHA256("number:nonce"), same as computeCommitment on the server */
+async function computeCommitment(playerNumber: number, nonce: string): Promise<string> {
+  const data = new TextEncoder().encode(`${playerNumber}:${nonce}`)
+  const hash = await crypto.subtle.digest('SHA-256', data)
+  return Array.from(new Uint8Array(hash)).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+/** Number + nonce are kept locally until reveal (survives page reload) */
+const commitStorageKey = (duelId: string, round: number) => `twos:commit:${duelId}:${round}`
+
+function saveCommit(duelId: string, round: number, commit: RoundCommit) {
+  sessionStorage.setItem(commitStorageKey(duelId, round), JSON.stringify(commit))
+}
+
+function loadCommit(duelId: string, round: number): RoundCommit | null {
+  const raw = sessionStorage.getItem(commitStorageKey(duelId, round))
+  return raw ? JSON.parse(raw) : null
+}
+
+/** Client seed mixed into every round HMAC of the match (player can edit it before round 1) */
+function loadClientSeed(duelId: string): string {
+  const key = `twos:client-seed:${duelId}`
+  const existing = localStorage.getItem(key)
+  if (existing) return existing
+
+  const seed = generateNonce().substring(0, 16)
+  localStorage.setItem(key, seed)
+  return seed
+}
+
+function saveClientSeed(duelId: string, seed: string) {
+  localStorage.setItem(`twos:client-seed:${duelId}`, seed)
+}
+
+/** Link to /verify - full HMAC recomputation once the server seed is revealed */
+function buildVerifyUrl(v: RoundVerification, serverSeed: string | null): string {
+  const query = new URLSearchParams({
+    duelId: v.duelId,
+    round: String(v.roundNumber),
+    timeSlot: String(v.timeSlot),
+    playerA: v.playerAId,
+    playerANumber: String(v.playerANumber),
+    playerB: v.playerBId,
+    playerBNumber: String(v.playerBNumber),
+    seedSlice: v.seedSlice,
+    random: String(v.randomNumber),
+    keyVersion: String(v.keyVersion),
+    algorithmVersion: String(v.algorithmVersion),
+  })
+  if (v.serverSeedHash) {
+    query.set('serverSeedHash', v.serverSeedHash)
+    query.set('clientSeedA', v.clientSeedA || '')
+    query.set('clientSeedB', v.clientSeedB || '')
+  }
+  if (serverSeed) query.set('serverSeed', serverSeed)
+  return `/verify?${query.toString()}`
+}
+
+// Round result from my perspective (status result or stored round)
+function toRoundResult(gameResult: any, isCreator: boolean): RoundResult {
+  const { randomNumber, creatorNumber, opponentNumber, creatorDistance, opponentDistance } = gameResult
+  const forfeited = !!gameResult.forfeited
+  const winnerId = gameResult.winnerId ?? gameResult.winnerUserId ?? null
+
+  return {
+    randomNumber,
+    myNumber: isCreator ? creatorNumber : opponentNumber,
+    opponentNumber: isCreator ? opponentNumber : creatorNumber,
+    myDistance: isCreator ? creatorDistance : opponentDistance,
+    opponentDistance: isCreator ? opponentDistance : creatorDistance,
+    winnerId,
+    isDraw: gameResult.isDraw ?? (!forfeited && winnerId === null),
+    forfeited,
+  }
 }
 
 export default function DuelPage() {
@@ -50,6 +202,9 @@ export default function DuelPage() {
   
   const [myReady, setMyReady] = useState(false)
   const [opponentReady, setOpponentReady] = useState(false)
+  const [readyDeadline, setReadyDeadline] = useState<string | null>(null)
+  const [roundDeadline, setRoundDeadline] = useState<string | null>(null)
+  const [readying, setReadying] = useState(false)
   
   const [scores, setScores] = useState({ me: 0, opponent: 0 })
   const [roundHistory, setRoundHistory] = useState<Array<{ 
@@ -58,12 +213,43 @@ export default function DuelPage() {
     myNumber: number
     opponentNumber: number
     randomNumber: number
+    verification: RoundVerification | null
   }>>([])
+  const [fairness, setFairness] = useState<FairnessInfo | null>(null)
+  const [clientSeed, setClientSeed] = useState('')
   
   const [error, setError] = useState<string | null>(null)
   const [submitting, setSubmitting] = useState(false)
   
-  const pollingRef = useRef<NodeJS.Timeout | null>(null)
+  const revealingRef = useRef(false)
+  const onEventRef = useRef<(type: string, data: { roundIndex?: number }) => void>(() => {})
+
+  // Score and history from the server; advance = also move to the server's current round
+  const applySeries = useCallback((data: DuelData, advance: boolean) => {
+    setDuel(data)
+    if (!data.series) return
+
+    const { series } = data
+    setScores({
+      me: data.isCreator ? series.creatorWins : series.opponentWins,
+      opponent: data.isCreator ? series.opponentWins : series.creatorWins,
+    })
+    setRoundHistory(
+      data.rounds
+        .filter(r => r.status === 'FINISHED' || r.status === 'FORFEITED')
+        .map(r => ({
+          round: r.roundIndex,
+          winner: !r.winnerUserId ? 'draw' : r.winnerUserId === data.myId ? 'me' : 'opponent',
+          myNumber: (data.isCreator ? r.creatorNumber : r.opponentNumber) ?? 0,
+          opponentNumber: (data.isCreator ? r.opponentNumber : r.creatorNumber) ?? 0,
+          randomNumber: r.randomNumber ?? 0,
+          verification: r.verification,
+        }))
+    )
+    if (advance) {
+      setCurrentRound(series.currentRound ?? series.gamesPlanned)
+    }
+  }, [])
 
   // Load duel data
   const loadDuel = useCallback(async () => {
@@ -72,10 +258,21 @@ export default function DuelPage() {
       const data = await response.json()
       
       if (data.success && data.data) {
-        setDuel(data.data)
+        applySeries(data.data, true)
+        setFairness(data.data.fairness)
+        setClientSeed(loadClientSeed(duelId))
         // Check if duel is ready to play
-        if (data.data.status === 'MATCHED' || data.data.status === 'IN_PROGRESS') {
-          setPhase('input')
+        const series: DuelSeries | null = data.data.series
+        if (series?.finished) {
+          const played = (data.data.rounds as ServerRound[])
+            .filter(r => r.status === 'FINISHED' || r.status === 'FORFEITED')
+          if (played.length > 0) {
+            setResult(toRoundResult(played[played.length - 1], data.data.isCreator))
+          }
+          setPhase('result')
+        } else if (data.data.status === 'MATCHED' || data.data.status === 'IN_PROGRESS') {
+          // Rounds after the first open with a ready check
+          setPhase((series?.currentRound ?? 1) > 1 ? 'ready_check' : 'input')
         } else {
           setError(`Duel is not ready yet. Status: ${data.data.status}`)
         }
@@ -86,22 +283,48 @@ export default function DuelPage() {
       console.error('Error loading duel:', err)
       setError('Network error')
     }
-  }, [duelId])
+  }, [duelId, applySeries])
+
+  // Reload the series after a round (advance = move on to the next round)
+  const refreshSeries = useCallback(async (advance: boolean) => {
+    try {
+      const response = await fetch(`/api/duel/${duelId}`)
+      const data = await response.json()
+      if (data.success && data.data) {
+        applySeries(data.data, advance)
+      }
+    } catch (err) {
+      console.error('Error refreshing duel:', err)
+    }
+  }, [duelId, applySeries])
 
   // Initialize
   useEffect(() => {
     if (isAuthenticated) {
       loadDuel()
     }
-    
-    return () => {
-      if (pollingRef.current) {
-        clearInterval(pollingRef.current)
-      }
-    }
   }, [isAuthenticated, loadDuel])
 
-  // Submit my number
+  // Push channel - events only say what changed, the handler re-reads the state.
+  // EventSource reconnects by itself and resumes after the last event it got.
+  useEffect(() => {
+    if (!isAuthenticated) return
+
+    const source = new EventSource(`/api/duel/${duelId}/events`)
+    const types = [
+      'player_ready', 'round_opened', 'player_committed', 'player_revealed',
+      'round_resolved', 'match_finished', 'resync',
+    ]
+    for (const type of types) {
+      source.addEventListener(type, (event) => {
+        onEventRef.current(type, JSON.parse((event as MessageEvent).data))
+      })
+    }
+
+    return () => source.close()
+  }, [isAuthenticated, duelId])
+
+  // Commit to my number (only the hash leaves the browser)
   const handleSubmitNumber = async () => {
     if (myNumber === null || !duel) return
     
@@ -109,12 +332,18 @@ export default function DuelPage() {
     setError(null)
     
     try {
+      const nonce = generateNonce()
+      const commitment = await computeCommitment(myNumber, nonce)
+      saveCommit(duelId, currentRound, { playerNumber: myNumber, nonce })
+
       const response = await fetch(`/api/duel/${duelId}/submit`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           roundNumber: currentRound,
-          playerNumber: myNumber,
+          commitment,
+          // Client seed is fixed for the whole match with the first round
+          clientSeed: currentRound === 1 ? clientSeed : undefined,
         }),
       })
 
@@ -123,15 +352,14 @@ export default function DuelPage() {
       if (data.success) {
         setMyReady(true)
         
-        if (data.data.bothReady) {
-          // Both ready - check status for result
+        if (data.data.bothCommitted) {
+          // Both committed - reveal and wait for result
           setPhase('resolving')
-          checkStatus()
         } else {
           // Wait for opponent
           setPhase('waiting_opponent')
-          startPolling()
         }
+        checkStatus()
       } else {
         setError(data.error || 'Failed to submit')
       }
@@ -143,19 +371,32 @@ export default function DuelPage() {
     }
   }
 
-  // Start polling
-  const startPolling = () => {
-    if (pollingRef.current) {
-      clearInterval(pollingRef.current)
+  // Reveal my number once both commitments are locked
+  const revealMyNumber = async () => {
+    const commit = loadCommit(duelId, currentRound)
+    if (!commit || revealingRef.current) return
+
+    revealingRef.current = true
+    try {
+      const response = await fetch(`/api/duel/${duelId}/reveal`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          roundNumber: currentRound,
+          playerNumber: commit.playerNumber,
+          nonce: commit.nonce,
+        }),
+      })
+
+      const data = await response.json()
+      if (!data.success) {
+        setError(data.error || 'Failed to reveal')
+      }
+    } catch (err) {
+      console.error('Reveal error:', err)
+    } finally {
+      revealingRef.current = false
     }
-    
-    // Check immediately
-    checkStatus()
-    
-    // Then every 2 seconds
-    pollingRef.current = setInterval(() => {
-      checkStatus()
-    }, 2000)
   }
 
   // Check status
@@ -167,18 +408,21 @@ export default function DuelPage() {
       const data = await response.json()
 
       if (data.success) {
-        const { status, bothReady, opponentSubmitted, result: gameResult } = data.data
+        const { status, bothReady, opponentSubmitted, myRevealed, result: gameResult } = data.data
+        const { commitDeadline, revealDeadline } = data.data
 
         setOpponentReady(opponentSubmitted)
+        if (data.data.fairness) {
+          setFairness(data.data.fairness)
+        }
+
+        if (bothReady && !myRevealed && status !== 'finished') {
+          await revealMyNumber()
+        }
+
+        setRoundDeadline(bothReady ? revealDeadline : commitDeadline)
 
         if (status === 'finished' && gameResult) {
-          // Stop polling
-          if (pollingRef.current) {
-            clearInterval(pollingRef.current)
-            pollingRef.current = null
-          }
-          
-          // Process result
           processResult(gameResult)
         } else if (bothReady && status !== 'finished') {
           setPhase('resolving')
@@ -190,66 +434,128 @@ export default function DuelPage() {
   }
 
   // Process game result
-  const processResult = (gameResult: any) => {
+  const processResult = useCallback((gameResult: any) => {
     if (!duel) return
 
-    const { randomNumber, creatorNumber, opponentNumber, creatorDistance, opponentDistance, winnerId, isDraw } = gameResult
-
-    // Map to my perspective
-    const myNum = duel.isCreator ? creatorNumber : opponentNumber
-    const oppNum = duel.isCreator ? opponentNumber : creatorNumber
-    const myDist = duel.isCreator ? creatorDistance : opponentDistance
-    const oppDist = duel.isCreator ? opponentDistance : creatorDistance
-
-    setResult({
-      randomNumber,
-      myNumber: myNum,
-      opponentNumber: oppNum,
-      myDistance: myDist,
-      opponentDistance: oppDist,
-      winnerId,
-      isDraw,
-    })
+    setResult(toRoundResult(gameResult, duel.isCreator))
 
-    // Update scores
-    const iWon = winnerId === duel.myId
-    if (!isDraw) {
-      setScores(prev => ({
-        me: prev.me + (iWon ? 1 : 0),
-        opponent: prev.opponent + (iWon ? 0 : 1),
-      }))
-    }
+    // Score and history are kept by the server
+    refreshSeries(false)
 
-    // Add to history
-    setRoundHistory(prev => [
-      ...prev,
-      {
-        round: currentRound,
-        winner: isDraw ? 'draw' : (iWon ? 'me' : 'opponent'),
-        myNumber: myNum,
-        opponentNumber: oppNum,
-        randomNumber,
+    setPhase('result')
+  }, [duel, refreshSeries])
+
+  // Ready check: both players' ready state for the current round
+  const checkReady = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/duel/${duelId}/status?round=${currentRound}`)
+      const data = await response.json()
+      if (!data.success) return
+
+      if (data.data.status === 'ready_check') {
+        const { readyCheck } = data.data
+        setMyReady(readyCheck.myReady)
+        setOpponentReady(readyCheck.opponentReady)
+        setReadyDeadline(readyCheck.readyDeadline)
+      } else if (data.data.status === 'finished' && data.data.result) {
+        // Forfeited for not getting ready in time
+        processResult(data.data.result)
+      } else {
+        // Both ready - the round is open
+        setMyReady(false)
+        setOpponentReady(false)
+        setPhase('input')
       }
-    ])
+    } catch (err) {
+      console.error('Ready check error:', err)
+    }
+  }, [duelId, currentRound, processResult])
 
-    setPhase('result')
+  useEffect(() => {
+    if (phase === 'ready_check') {
+      checkReady()
+    }
+  }, [phase, checkReady])
+
+  // Status never resolves a round - ask for it once the current deadline passed
+  useEffect(() => {
+    const deadline = phase === 'ready_check'
+      ? readyDeadline
+      : phase === 'waiting_opponent' || phase === 'resolving' ? roundDeadline : null
+    if (!deadline) return
+
+    const timer = setTimeout(() => {
+      fetch(`/api/duel/${duelId}/resolve`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ roundNumber: currentRound }),
+      }).catch(err => console.error('Resolve error:', err))
+    }, Math.max(0, new Date(deadline).getTime() - Date.now()) + 1000)
+
+    return () => clearTimeout(timer)
+  }, [phase, readyDeadline, roundDeadline, currentRound, duelId])
+
+  // Something changed in the duel - re-read what the current phase shows
+  onEventRef.current = (type, data) => {
+    if (data.roundIndex !== undefined && data.roundIndex !== currentRound) return
+
+    if (phase === 'ready_check') {
+      checkReady()
+    } else if (phase === 'input' || phase === 'waiting_opponent' || phase === 'resolving') {
+      checkStatus()
+    } else if (type === 'match_finished' || type === 'resync') {
+      refreshSeries(false)
+    }
   }
 
-  // Next round
-  const handleNextRound = () => {
-    if (!duel || currentRound >= duel.gamesCount) return
+  // I'm ready for the next round
+  const handleReady = async () => {
+    setReadying(true)
+    try {
+      const response = await fetch(`/api/duel/${duelId}/ready`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ roundNumber: currentRound }),
+      })
+
+      const data = await response.json()
+      if (data.success) {
+        setMyReady(data.data.myReady)
+        setOpponentReady(data.data.opponentReady)
+        if (data.data.roundOpen) {
+          setMyReady(false)
+          setOpponentReady(false)
+          setPhase('input')
+        }
+      } else {
+        setError(data.error || 'Failed to get ready')
+      }
+    } catch (err) {
+      console.error('Ready error:', err)
+    } finally {
+      setReadying(false)
+    }
+  }
+
+  // Next round - the server decides which one is open
+  const handleNextRound = async () => {
+    if (!duel || duel.series?.finished) return
     
-    setCurrentRound(prev => prev + 1)
+    await refreshSeries(true)
     setMyNumber(null)
     setResult(null)
     setMyReady(false)
     setOpponentReady(false)
-    setPhase('input')
+    setReadyDeadline(null)
+    setRoundDeadline(null)
+    setPhase('ready_check')
   }
 
   // Helpers
-  const isDuelFinished = duel && currentRound >= duel.gamesCount && phase === 'result'
-  const finalWinner = scores.me > scores.opponent ? 'me' : scores.opponent > scores.me ? 'opponent' : 'draw'
+  const isDuelFinished = !!duel?.series?.finished && phase === 'result'
+  const finalWinner = !duel?.series?.winnerId
+    ? 'draw'
+    : duel.series.winnerId === duel.myId ? 'me' : 'opponent'
   
   const myName = duel?.myUsername || 'You'
   const opponentName = duel?.isCreator 
@@ -304,7 +610,9 @@ export default function DuelPage() {
             Round {currentRound} of {duel.gamesCount}
           </span>
           <span className="ml-4 text-sm text-accent-warning">
-            {duel.chipPointsValue} pts/round
+            {duel.stakeType === 'SKINS'
+              ? `🎮 Skins worth ${duel.stakeValue ?? 0} pts`
+              : `${duel.chipPointsValue} pts/round`}
           </span>
         </div>
 
@@ -347,6 +655,53 @@ export default function DuelPage() {
             </div>
           )}
 
+          {/* Ready Check */}
+          {phase === 'ready_check' && (
+            <div className="relative py-8 text-center">
+              <h2 className="text-2xl font-bold text-white mb-2">
+                Round {currentRound} - Ready?
+              </h2>
+              <p className="text-gray-400 mb-6">
+                The round opens once both players are ready.
+                {readyDeadline && (
+                  <> Not ready in {Math.max(0, Math.ceil((new Date(readyDeadline).getTime() - Date.now()) / 1000))}s = round forfeited.</>
+                )}
+              </p>
+
+              <div className="grid grid-cols-2 gap-4 mb-8">
+                <div className={clsx(
+                  'p-4 rounded-xl border',
+                  myReady ? 'bg-accent-success/10 border-accent-success/30' : 'bg-dark-700 border-dark-600'
+                )}>
+                  <p className="text-sm text-gray-400 mb-1">{myName}</p>
+                  <p className={clsx('font-bold', myReady ? 'text-accent-success' : 'text-gray-500')}>
+                    {myReady ? '✓ Ready' : '⏳ Not ready'}
+                  </p>
+                </div>
+                <div className={clsx(
+                  'p-4 rounded-xl border',
+                  opponentReady ? 'bg-accent-success/10 border-accent-success/30' : 'bg-dark-700 border-dark-600'
+                )}>
+                  <p className="text-sm text-gray-400 mb-1">{opponentName}</p>
+                  <p className={clsx('font-bold', opponentReady ? 'text-accent-success' : 'text-gray-500')}>
+                    {opponentReady ? '✓ Ready' : '⏳ Not ready'}
+                  </p>
+                </div>
+              </div>
+
+              <button
+                onClick={handleReady}
+                disabled={myReady || readying}
+                className={clsx(
+                  'w-full btn-primary text-lg py-4',
+                  (myReady || readying) && 'opacity-50 cursor-not-allowed'
+                )}
+              >
+                {myReady ? `Waiting for ${opponentName}...` : readying ? 'Getting ready...' : "I'm Ready"}
+              </button>
+            </div>
+          )}
+
           {/* Input Phase */}
           {phase === 'input' && (
             <div className="relative py-8">
@@ -383,7 +738,7 @@ export default function DuelPage() {
           {phase === 'waiting_opponent' && (
             <div className="relative py-8 text-center">
               <h2 className="text-xl font-bold text-accent-success mb-6">
-                ✓ Your Number Locked!
+                ✓ Your Number Committed!
               </h2>
               
               <div className="p-6 bg-accent-success/10 border border-accent-success/30 rounded-xl mb-6">
@@ -399,7 +754,9 @@ export default function DuelPage() {
                 <div className="w-3 h-3 rounded-full bg-accent-warning animate-bounce" style={{ animationDelay: '300ms' }} />
               </div>
               <p className="text-lg text-white">Waiting for {opponentName}...</p>
-              <p className="text-xs text-gray-500 mt-2">Page updates automatically</p>
+              <p className="text-xs text-gray-500 mt-2">
+                Only a hash of your number was sent. It is revealed once both players commit.
+              </p>
             </div>
           )}
 
@@ -407,80 +764,101 @@ export default function DuelPage() {
           {phase === 'resolving' && (
             <div className="relative text-center py-12">
               <div className="w-20 h-20 mx-auto mb-4 rounded-full border-4 border-accent-warning border-t-transparent animate-spin" />
-              <p className="text-xl font-bold text-accent-warning">Both Ready!</p>
-              <p className="text-sm text-gray-400 mt-2">Calculating result...</p>
+              <p className="text-xl font-bold text-accent-warning">Both Committed!</p>
+              <p className="text-sm text-gray-400 mt-2">Revealing numbers and calculating result...</p>
             </div>
           )}
 
           {/* Result */}
           {phase === 'result' && result && (
             <div className="relative py-6">
-              {/* Random Number */}
-              <div className="text-center mb-6">
-                <p className="text-sm text-gray-400 mb-2">🎲 Random Number</p>
-                <p className="text-5xl font-bold font-mono text-accent-warning">
-                  {result.randomNumber.toLocaleString()}
-                </p>
-              </div>
-              
-              {/* Comparison */}
-              <div className="grid grid-cols-2 gap-4 mb-6">
+              {/* Forfeit (number not revealed in time) */}
+              {result.forfeited && (
                 <div className={clsx(
-                  'p-4 rounded-xl text-center',
-                  !result.isDraw && result.winnerId === duel.myId
-                    ? 'bg-accent-success/20 border border-accent-success/30'
-                    : 'bg-dark-700'
+                  'text-center py-6 rounded-xl mb-6',
+                  result.winnerId === duel.myId ? 'bg-accent-success/20' : 'bg-accent-danger/20'
                 )}>
-                  <p className="text-sm text-gray-400">You</p>
-                  <p className="text-2xl font-bold font-mono text-white">{result.myNumber?.toLocaleString()}</p>
-                  <p className="text-sm mt-1">
-                    Distance: <span className={clsx(
-                      'font-bold',
-                      !result.isDraw && result.winnerId === duel.myId ? 'text-accent-success' : 'text-gray-400'
-                    )}>{result.myDistance?.toLocaleString()}</span>
+                  <p className="text-3xl font-bold mb-2">
+                    {result.winnerId === duel.myId ? '🏆 You Win!' : '🚫 Round Forfeited'}
                   </p>
-                  {!result.isDraw && result.winnerId === duel.myId && (
-                    <span className="inline-block mt-2 text-sm text-accent-success font-bold">🏆 WINNER!</span>
-                  )}
-                </div>
-                
-                <div className={clsx(
-                  'p-4 rounded-xl text-center',
-                  !result.isDraw && result.winnerId !== duel.myId && result.winnerId !== null
-                    ? 'bg-accent-danger/20 border border-accent-danger/30'
-                    : 'bg-dark-700'
-                )}>
-                  <p className="text-sm text-gray-400">{opponentName}</p>
-                  <p className="text-2xl font-bold font-mono text-white">{result.opponentNumber?.toLocaleString()}</p>
-                  <p className="text-sm mt-1">
-                    Distance: <span className={clsx(
-                      'font-bold',
-                      !result.isDraw && result.winnerId !== duel.myId ? 'text-accent-danger' : 'text-gray-400'
-                    )}>{result.opponentDistance?.toLocaleString()}</span>
+                  <p className="text-sm text-gray-400">
+                    {result.winnerId === duel.myId
+                      ? `${opponentName} did not reveal their number in time`
+                      : 'Number was not revealed before the deadline'}
                   </p>
-                  {!result.isDraw && result.winnerId !== duel.myId && result.winnerId !== null && (
-                    <span className="inline-block mt-2 text-sm text-accent-danger font-bold">🏆 WINNER!</span>
-                  )}
                 </div>
-              </div>
+              )}
 
-              {/* Round Result */}
-              <div className={clsx(
-                'text-center py-4 rounded-xl mb-6',
-                result.isDraw
-                  ? 'bg-accent-warning/20'
-                  : result.winnerId === duel.myId
-                    ? 'bg-accent-success/20'
-                    : 'bg-accent-danger/20'
-              )}>
-                <p className="text-3xl font-bold">
-                  {result.isDraw 
-                    ? '🤝 Draw!' 
-                    : result.winnerId === duel.myId 
-                      ? '🏆 You Win!' 
-                      : '😔 You Lose'}
-                </p>
-              </div>
+              {!result.forfeited && (
+                <>
+                  {/* Random Number */}
+                  <div className="text-center mb-6">
+                    <p className="text-sm text-gray-400 mb-2">🎲 Random Number</p>
+                    <p className="text-5xl font-bold font-mono text-accent-warning">
+                      {result.randomNumber.toLocaleString()}
+                    </p>
+                  </div>
+              
+                  {/* Comparison */}
+                  <div className="grid grid-cols-2 gap-4 mb-6">
+                    <div className={clsx(
+                      'p-4 rounded-xl text-center',
+                      !result.isDraw && result.winnerId === duel.myId
+                        ? 'bg-accent-success/20 border border-accent-success/30'
+                        : 'bg-dark-700'
+                    )}>
+                      <p className="text-sm text-gray-400">You</p>
+                      <p className="text-2xl font-bold font-mono text-white">{result.myNumber?.toLocaleString()}</p>
+                      <p className="text-sm mt-1">
+                        Distance: <span className={clsx(
+                          'font-bold',
+                          !result.isDraw && result.winnerId === duel.myId ? 'text-accent-success' : 'text-gray-400'
+                        )}>{result.myDistance?.toLocaleString()}</span>
+                      </p>
+                      {!result.isDraw && result.winnerId === duel.myId && (
+                        <span className="inline-block mt-2 text-sm text-accent-success font-bold">🏆 WINNER!</span>
+                      )}
+                    </div>
+                
+                    <div className={clsx(
+                      'p-4 rounded-xl text-center',
+                      !result.isDraw && result.winnerId !== duel.myId && result.winnerId !== null
+                        ? 'bg-accent-danger/20 border border-accent-danger/30'
+                        : 'bg-dark-700'
+                    )}>
+                      <p className="text-sm text-gray-400">{opponentName}</p>
+                      <p className="text-2xl font-bold font-mono text-white">{result.opponentNumber?.toLocaleString()}</p>
+                      <p className="text-sm mt-1">
+                        Distance: <span className={clsx(
+                          'font-bold',
+                          !result.isDraw && result.winnerId !== duel.myId ? 'text-accent-danger' : 'text-gray-400'
+                        )}>{result.opponentDistance?.toLocaleString()}</span>
+                      </p>
+                      {!result.isDraw && result.winnerId !== duel.myId && result.winnerId !== null && (
+                        <span className="inline-block mt-2 text-sm text-accent-danger font-bold">🏆 WINNER!</span>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Round Result */}
+                  <div className={clsx(
+                    'text-center py-4 rounded-xl mb-6',
+                    result.isDraw
+                      ? 'bg-accent-warning/20'
+                      : result.winnerId === duel.myId
+                        ? 'bg-accent-success/20'
+                        : 'bg-accent-danger/20'
+                  )}>
+                    <p className="text-3xl font-bold">
+                      {result.isDraw 
+                        ? '🤝 Draw!' 
+                        : result.winnerId === duel.myId 
+                          ? '🏆 You Win!' 
+                          : '😔 You Lose'}
+                    </p>
+                  </div>
+                </>
+              )}
 
               {/* Final Result */}
               {isDuelFinished && (
@@ -498,6 +876,25 @@ export default function DuelPage() {
                   <p className="text-xl text-gray-400">
                     Final: {scores.me} - {scores.opponent}
                   </p>
+                  {duel?.series?.payout && finalWinner !== 'draw' && (
+                    finalWinner === 'me' ? (
+                      <p className="text-sm text-gray-400 mt-2">
+                        Won {duel.series.payout.grossPoints} pts − {duel.series.payout.feePoints} pts fee ={' '}
+                        <span className="font-bold text-accent-success">+{duel.series.payout.netPoints} pts</span>
+                      </p>
+                    ) : (
+                      <p className="text-sm text-gray-400 mt-2">
+                        Lost <span className="font-bold text-accent-danger">{duel.series.payout.grossPoints} pts</span>
+                      </p>
+                    )
+                  )}
+                  <a
+                    href={`/api/duel/${duelId}/bundle`}
+                    download
+                    className="inline-block mt-3 text-xs text-accent-primary hover:underline"
+                  >
+                    ⬇ Download verification bundle
+                  </a>
                 </div>
               )}
 
@@ -549,11 +946,56 @@ export default function DuelPage() {
                   )}>
                     {r.winner === 'me' ? '✓ W' : r.winner === 'opponent' ? '✗ L' : '= D'}
                   </span>
+                  {r.verification && (
+                    <Link
+                      href={buildVerifyUrl(r.verification, fairness?.serverSeed ?? null)}
+                      className="text-xs text-accent-primary hover:underline"
+                    >
+                      {fairness?.serverSeed ? 'Verify' : 'Check'}
+                    </Link>
+                  )}
                 </div>
               ))}
             </div>
           </div>
         )}
+
+        {/* Fairness */}
+        {fairness?.serverSeedHash && (
+          <div className="mt-4 card-base">
+            <h3 className="text-sm font-semibold text-gray-400 mb-3">Provably Fair</h3>
+            <div className="space-y-2 text-xs">
+              <p className="text-gray-400">
+                Server seed hash (published before any number):{' '}
+                <span className="font-mono text-gray-300 break-all">{fairness.serverSeedHash}</span>
+              </p>
+              <p className="text-gray-400">
+                Server seed:{' '}
+                <span className="font-mono text-gray-300 break-all">
+                  {fairness.serverSeed || 'revealed when the match is over'}
+                </span>
+              </p>
+              {currentRound === 1 && phase === 'input' ? (
+                <label className="block text-gray-400">
+                  Your client seed:
+                  <input
+                    value={clientSeed}
+                    onChange={(e) => {
+                      setClientSeed(e.target.value)
+                      saveClientSeed(duelId, e.target.value)
+                    }}
+                    maxLength={64}
+                    className="mt-1 w-full bg-dark-700 rounded-lg px-2 py-1 font-mono text-gray-300"
+                  />
+                </label>
+              ) : (
+                <p className="text-gray-400">
+                  Your client seed: <span className="font-mono text-gray-300">{clientSeed || '-'}</span>
+                </p>
+              )}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,189 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter, useParams } from 'next/navigation'
+import { clsx } from 'clsx'
+import Link from 'next/link'
+import { useAuth, idempotentPost } from '@/contexts/AuthContext'
+import { SkinPicker, StakeSkin } from '@/components/SkinPicker'
+import { CHIP_CONFIGS, ChipType, CONSTANTS } from '@/server/types'
+
+interface InvitedOffer {
+  id: string
+  owner: { id: string; username: string }
+  chipType: ChipType | null // null for skin stakes
+  stakeType: 'POINTS' | 'SKINS'
+  stakeValue: number
+  skins: StakeSkin[]
+  gamesPlanned: number
+  status: string
+  expiresAt: string | null
+}
+
+export default function InvitePage() {
+  const router = useRouter()
+  const params = useParams()
+  const token = decodeURIComponent(params.token as string)
+  const { user, isAuthenticated } = useAuth()
+  const [offer, setOffer] = useState<InvitedOffer | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [accepting, setAccepting] = useState(false)
+  const [skinIds, setSkinIds] = useState<string[]>([])
+  const [skinsValue, setSkinsValue] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch(`/api/p2p/invites/${encodeURIComponent(token)}`)
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) setOffer(data.data)
+        else setError(data.error || 'Invalid invite')
+      })
+      .catch(err => {
+        console.error('Error loading invite:', err)
+        setError('Network error')
+      })
+      .finally(() => setLoading(false))
+  }, [token])
+
+  const handleAccept = async (userSkinIds?: string[]) => {
+    if (!offer) return
+
+    try {
+      setAccepting(true)
+      setError(null)
+
+      const response = await idempotentPost(`/api/p2p/orders/${offer.id}/join`, { inviteToken: token, userSkinIds })
+
+      const data = await response.json()
+
+      if (data.success) {
+        // The creator has to confirm first - wait for it in My Duels
+        router.push('/my-duels')
+      } else {
+        setError(data.error || 'Failed to accept invite')
+      }
+    } catch (err) {
+      console.error('Error accepting invite:', err)
+      setError('Network error')
+    } finally {
+      setAccepting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-4xl animate-spin">⏳</div>
+      </div>
+    )
+  }
+
+  if (!offer) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-6xl mb-4">🔗</div>
+          <p className="text-gray-400 mb-4">{error || 'Invalid invite'}</p>
+          <Link href="/offers" className="btn-primary">Browse Offers</Link>
+        </div>
+      </div>
+    )
+  }
+
+  const skinStake = offer.stakeType === 'SKINS'
+  const chip = offer.chipType ? CHIP_CONFIGS[offer.chipType] : null
+  const min = Math.ceil(offer.stakeValue * (1 - CONSTANTS.SKIN_STAKE_TOLERANCE))
+  const max = Math.floor(offer.stakeValue * (1 + CONSTANTS.SKIN_STAKE_TOLERANCE))
+  const skinsInRange = skinsValue >= min && skinsValue <= max
+  const isOwner = user?.id === offer.owner.id
+
+  return (
+    <div className="min-h-screen pb-24 md:pb-8">
+      <div className="max-w-lg mx-auto px-4 py-8">
+        <div className="card-base">
+          <h1 className="text-2xl font-bold text-white mb-2">⚔️ Duel Invite</h1>
+          <p className="text-gray-400 mb-6">
+            {offer.owner.username} invites you to a {offer.gamesPlanned}-game duel
+          </p>
+
+          {error && (
+            <div className="mb-4 p-3 bg-accent-danger/20 border border-accent-danger rounded-lg text-accent-danger text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="p-4 bg-dark-700 rounded-xl mb-6">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-gray-400">Their Stake</span>
+              <span className="font-bold text-white">
+                {chip ? `${chip.emoji} ${chip.value} pts x ${offer.gamesPlanned}` : `🎮 ${offer.skins.length} skins`}
+              </span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-gray-400">Value</span>
+              <span className="font-bold text-accent-warning">💎 {offer.stakeValue} pts</span>
+            </div>
+            {skinStake && (
+              <div className="flex flex-wrap gap-1 mt-3">
+                {offer.skins.map(skin => (
+                  <span key={skin.userSkinId} className="text-xs px-2 py-0.5 rounded-full bg-dark-600 text-gray-300">
+                    {skin.name} · {skin.pointsValue}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {offer.status !== 'OPEN' ? (
+            <p className="text-center text-gray-400">This duel is no longer open.</p>
+          ) : !isAuthenticated ? (
+            <div className="text-center">
+              <p className="text-gray-400 mb-4">Login to accept the invite</p>
+              <Link href="/login" className="btn-primary">Login</Link>
+            </div>
+          ) : isOwner ? (
+            <p className="text-center text-gray-400">This is your offer - share the link with your opponent.</p>
+          ) : skinStake ? (
+            <>
+              <p className="text-sm text-gray-400 mb-3">
+                Match them with skins worth {min}-{max} pts, or with {offer.stakeValue} pts.
+              </p>
+              <div className="mb-6">
+                <SkinPicker
+                  selected={skinIds}
+                  maxSkins={CONSTANTS.MAX_STAKED_SKINS}
+                  onChange={(ids, total) => {
+                    setSkinIds(ids)
+                    setSkinsValue(total)
+                  }}
+                />
+                {skinIds.length > 0 && (
+                  <p className={clsx('text-sm mt-3', skinsInRange ? 'text-accent-success' : 'text-accent-danger')}>
+                    Your skins: {skinsValue} pts
+                  </p>
+                )}
+              </div>
+              <div className="flex gap-3">
+                <button onClick={() => handleAccept()} className="flex-1 btn-secondary" disabled={accepting}>
+                  Stake {offer.stakeValue} pts
+                </button>
+                <button
+                  onClick={() => handleAccept(skinIds)}
+                  className="flex-1 btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+                  disabled={accepting || !skinsInRange}
+                >
+                  {accepting ? 'Accepting...' : 'Stake Skins'}
+                </button>
+              </div>
+            </>
+          ) : (
+            <button onClick={() => handleAccept()} className="w-full btn-primary" disabled={accepting}>
+              {accepting ? 'Accepting...' : `Accept Duel (${offer.stakeValue} pts)`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,267 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useRouter } from 'next/navigation'
+import { clsx } from 'clsx'
+import Link from 'next/link'
+import { useAuth, idempotentPost, idempotentRequest } from '@/contexts/AuthContext'
+import { CHIP_CONFIGS, ChipType, CONSTANTS, MatchmakingEntryDto } from '@/server/types'
+
+const CHIPS = Object.values(CHIP_CONFIGS)
+
+const RELIABILITY_OPTIONS = [
+  { value: 0, label: 'Anyone' },
+  { value: 0.5, label: '50%+' },
+  { value: 0.7, label: '70%+' },
+  { value: 0.9, label: '90%+' },
+]
+
+// m:ss until the deadline
+function formatCountdown(deadline: string, now: number): string {
+  const seconds = Math.max(0, Math.ceil((new Date(deadline).getTime() - now) / 1000))
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+export default function MatchmakingPage() {
+  const router = useRouter()
+  const { user, isAuthenticated } = useAuth()
+  const [chipType, setChipType] = useState<ChipType>('HEART')
+  const [minGames, setMinGames] = useState<number>(CONSTANTS.MIN_GAMES_PLANNED)
+  const [maxGames, setMaxGames] = useState(5)
+  const [minReliability, setMinReliability] = useState(0)
+  const [entry, setEntry] = useState<MatchmakingEntryDto | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [now, setNow] = useState(Date.now())
+  // Status seen by the last poll, to spot the switch to MATCHED
+  const lastStatus = useRef<string | null>(null)
+
+  const queued = entry?.status === 'QUEUED'
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const response = await fetch('/api/matchmaking')
+      const data = await response.json()
+
+      if (data.success) {
+        // Paired while we were waiting - go play
+        if (lastStatus.current === 'QUEUED' && data.data?.status === 'MATCHED' && data.data.offerId) {
+          router.push(`/duel/${data.data.offerId}`)
+        }
+        lastStatus.current = data.data?.status ?? null
+        setEntry(data.data)
+      }
+    } catch (err) {
+      console.error('Error loading queue status:', err)
+    }
+  }, [router])
+
+  useEffect(() => {
+    if (isAuthenticated) loadStatus()
+  }, [isAuthenticated, loadStatus])
+
+  // Poll while queued
+  useEffect(() => {
+    if (!queued) return
+    const interval = setInterval(() => {
+      loadStatus()
+      setNow(Date.now())
+    }, 3000)
+    return () => clearInterval(interval)
+  }, [queued, loadStatus])
+
+  const handleJoin = async () => {
+    try {
+      setSubmitting(true)
+      setError(null)
+
+      const response = await idempotentPost('/api/matchmaking', { chipType, minGames, maxGames, minReliability })
+
+      const data = await response.json()
+
+      if (data.success) {
+        if (data.data.status === 'MATCHED' && data.data.offerId) {
+          router.push(`/duel/${data.data.offerId}`)
+          return
+        }
+        lastStatus.current = data.data.status
+        setEntry(data.data)
+        setNow(Date.now())
+      } else {
+        setError(data.error || 'Failed to join queue')
+      }
+    } catch (err) {
+      console.error('Error joining queue:', err)
+      setError('Network error')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleLeave = async () => {
+    try {
+      setSubmitting(true)
+      const response = await idempotentRequest('/api/matchmaking', 'DELETE')
+      const data = await response.json()
+
+      if (!data.success) {
+        setError(data.error || 'Failed to leave queue')
+      }
+      await loadStatus()
+    } catch (err) {
+      console.error('Error leaving queue:', err)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (!isAuthenticated) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-gray-400 mb-4">Please login to find a match</p>
+          <Link href="/login" className="btn-primary">Login</Link>
+        </div>
+      </div>
+    )
+  }
+
+  const heldPoints = CHIP_CONFIGS[chipType].value * maxGames
+
+  return (
+    <div className="min-h-screen pb-24 md:pb-8">
+      <div className="max-w-lg mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-white mb-2">⚡ Quick Match</h1>
+          <p className="text-gray-400">We pair you with a player who wants the same duel</p>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-accent-danger/20 border border-accent-danger rounded-xl text-accent-danger">
+            {error}
+            <button onClick={() => setError(null)} className="ml-4 underline">Dismiss</button>
+          </div>
+        )}
+
+        {queued && entry ? (
+          <div className="card-base text-center">
+            <div className="text-5xl mb-4 animate-pulse">🔍</div>
+            <h2 className="text-xl font-bold text-white mb-2">Looking for an opponent...</h2>
+            <p className="text-gray-400 mb-4">
+              {CHIP_CONFIGS[entry.chipType].emoji} {entry.chipType} · {entry.minGames}-{entry.maxGames} games
+              {entry.minReliability > 0 && ` · ${Math.round(entry.minReliability * 100)}%+ reliable`}
+            </p>
+            <p className="text-sm text-gray-500 mb-6">
+              {entry.heldPoints} pts held · gives up in {formatCountdown(entry.expiresAt, now)}
+            </p>
+            <button onClick={handleLeave} className="btn-secondary w-full" disabled={submitting}>
+              Leave Queue
+            </button>
+          </div>
+        ) : (
+          <div className="card-base">
+            {entry?.status === 'EXPIRED' && (
+              <p className="mb-4 text-sm text-accent-warning">No opponent found last time - your stake was returned.</p>
+            )}
+
+            {/* Chip */}
+            <div className="mb-6">
+              <span className="text-sm text-gray-400 mb-3 block">Chip</span>
+              <div className="grid grid-cols-4 gap-2">
+                {CHIPS.map((c) => (
+                  <button
+                    key={c.type}
+                    onClick={() => setChipType(c.type)}
+                    className={clsx(
+                      'p-3 rounded-xl border-2 transition-all',
+                      chipType === c.type
+                        ? 'border-accent-primary bg-accent-primary/10'
+                        : 'border-dark-500 hover:border-dark-400'
+                    )}
+                  >
+                    <div className="text-2xl">{c.emoji}</div>
+                    <div className="text-xs text-gray-400">{c.value} pts</div>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Games Range */}
+            <div className="mb-6">
+              <span className="text-sm text-gray-400 mb-3 block">Games</span>
+              <div className="flex items-center gap-3">
+                <select
+                  value={minGames}
+                  onChange={(e) => {
+                    const value = Number(e.target.value)
+                    setMinGames(value)
+                    if (maxGames < value) setMaxGames(value)
+                  }}
+                  className="input-base"
+                >
+                  {Array.from({ length: CONSTANTS.MAX_GAMES_PLANNED - CONSTANTS.MIN_GAMES_PLANNED + 1 }, (_, i) => i + CONSTANTS.MIN_GAMES_PLANNED)
+                    .map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+                <span className="text-gray-400">to</span>
+                <select
+                  value={maxGames}
+                  onChange={(e) => setMaxGames(Number(e.target.value))}
+                  className="input-base"
+                >
+                  {Array.from({ length: CONSTANTS.MAX_GAMES_PLANNED - minGames + 1 }, (_, i) => i + minGames)
+                    .map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+              </div>
+            </div>
+
+            {/* Opponent Reliability */}
+            <div className="mb-6">
+              <span className="text-sm text-gray-400 mb-3 block">Opponent reliability</span>
+              <div className="grid grid-cols-4 gap-2">
+                {RELIABILITY_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => setMinReliability(option.value)}
+                    className={clsx(
+                      'py-2 rounded-xl text-sm font-medium transition-all',
+                      minReliability === option.value
+                        ? 'bg-accent-primary text-white'
+                        : 'bg-dark-700 text-gray-400 hover:text-white'
+                    )}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Summary */}
+            <div className="p-4 bg-dark-700 rounded-xl mb-6">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-gray-400">Held while queued</span>
+                <span className="font-bold text-accent-warning">💎 {heldPoints} pts</span>
+              </div>
+              <p className="text-xs text-gray-500">
+                You stake {CHIP_CONFIGS[chipType].value} pts per game played; the rest comes back once you are paired.
+              </p>
+              {user && (
+                <div className="flex items-center justify-between pt-2 mt-2 border-t border-dark-600">
+                  <span className="text-gray-400">Your balance</span>
+                  <span className="text-white">{user.pointsBalance} pts</span>
+                </div>
+              )}
+            </div>
+
+            <button
+              onClick={handleJoin}
+              className="w-full btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={submitting}
+            >
+              {submitting ? 'Joining...' : '⚡ Find Match'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -3,7 +3,9 @@
 import { useState, useEffect, useCallback } from 'react'
 import { clsx } from 'clsx'
 import Link from 'next/link'
-import { useAuth } from '@/contexts/AuthContext'
+import { useRouter } from 'next/navigation'
+import { useAuth, idempotentRequest } from '@/contexts/AuthContext'
+import { FEE_SCHEDULE } from '@/server/types'
 
 // Types
 interface DuelOffer {
@@ -13,9 +15,20 @@ interface DuelOffer {
   chipType: string
   chipPointsValue: number
   gamesCount: number
+  stakeType: 'POINTS' | 'SKINS'
+  stakeValue: number | null
+  visibility: 'PUBLIC' | 'DIRECT' | 'UNLISTED' | 'MATCHMAKING'
   status: string
   createdAt: string
+  confirmDeadline: string | null
   creator?: { id: string; username: string }
+  invitedUser?: { id: string; username: string } | null
+}
+
+// m:ss until the deadline
+function formatCountdown(deadline: string, now: number): string {
+  const seconds = Math.max(0, Math.ceil((new Date(deadline).getTime() - now) / 1000))
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
 }
 
 const CHIP_EMOJI: Record<string, string> = {
@@ -27,10 +40,14 @@ const CHIP_EMOJI: Record<string, string> = {
 
 export default function MyDuelsPage() {
   const { user, isAuthenticated } = useAuth()
+  const router = useRouter()
   const [offers, setOffers] = useState<DuelOffer[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [filter, setFilter] = useState<'all' | 'active' | 'open'>('all')
+  const [confirming, setConfirming] = useState<string | null>(null)
+  const [copiedInvite, setCopiedInvite] = useState<string | null>(null)
+  const [now, setNow] = useState(Date.now())
 
   // Load user's offers
   const loadOffers = useCallback(async () => {
@@ -60,12 +77,18 @@ export default function MyDuelsPage() {
     }
   }, [isAuthenticated, loadOffers])
 
+  // Tick the confirmation countdowns
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [])
+
   // Helper to check role
   const isCreator = (offer: DuelOffer) => offer.creatorUserId === user?.id
 
   // Filter offers
   const activeOffers = offers.filter(o => 
-    o.status === 'MATCHED' || o.status === 'IN_PROGRESS'
+    o.status === 'MATCHED' || o.status === 'IN_PROGRESS' || o.status === 'WAITING_CREATOR_CONFIRM'
   )
   const myOpenOffers = offers.filter(o => 
     o.status === 'OPEN' && isCreator(o)
@@ -77,12 +100,39 @@ export default function MyDuelsPage() {
       ? activeOffers 
       : myOpenOffers
 
-  // Cancel offer
-  const handleCancel = async (offerId: string) => {
+  // Confirm the opponent who joined my offer
+  const handleConfirm = async (offerId: string) => {
     try {
-      const response = await fetch(`/api/p2p/orders/${offerId}`, {
-        method: 'DELETE',
-      })
+      setConfirming(offerId)
+      const response = await idempotentRequest(`/api/p2p/orders/${offerId}/confirm`, 'POST')
+
+      const data = await response.json()
+
+      if (data.success) {
+        router.push(`/duel/${offerId}`)
+      } else {
+        setError(data.error || 'Failed to confirm')
+        await loadOffers()
+      }
+    } catch (err) {
+      console.error('Error confirming:', err)
+    } finally {
+      setConfirming(null)
+    }
+  }
+
+  // Cancel offer (late cancellations cost a fee - ask first)
+  const handleCancel = async (offer: DuelOffer) => {
+    const age = Date.now() - new Date(offer.createdAt).getTime()
+    const fee = age < FEE_SCHEDULE.LATE_CANCEL_AFTER_MS
+      ? 0
+      : Math.floor(offer.chipPointsValue * offer.gamesCount * FEE_SCHEDULE.LATE_CANCEL_FEE_PERCENT / 100)
+    if (fee > 0 && !window.confirm(`Cancelling now costs a ${fee} pts late cancellation fee. Cancel anyway?`)) {
+      return
+    }
+
+    try {
+      const response = await idempotentRequest(`/api/p2p/orders/${offer.id}`, 'DELETE')
 
       const data = await response.json()
 
@@ -96,6 +146,26 @@ export default function MyDuelsPage() {
     }
   }
 
+  // Fresh invite link of an unlisted offer, copied to the clipboard
+  const handleCopyInvite = async (offerId: string) => {
+    try {
+      const response = await fetch(`/api/p2p/orders/${offerId}/invite`, {
+        method: 'POST',
+      })
+
+      const data = await response.json()
+
+      if (data.success) {
+        await navigator.clipboard.writeText(`${window.location.origin}/invite/${data.data.token}`)
+        setCopiedInvite(offerId)
+      } else {
+        setError(data.error || 'Failed to create invite')
+      }
+    } catch (err) {
+      console.error('Error creating invite:', err)
+    }
+  }
+
   if (!isAuthenticated) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -180,17 +250,31 @@ export default function MyDuelsPage() {
           <div className="space-y-4">
             {displayedOffers.map((offer) => {
               const amCreator = isCreator(offer)
-              const chipEmoji = CHIP_EMOJI[offer.chipType] || '🎮'
+              const skinStake = offer.stakeType === 'SKINS'
+              const chipEmoji = skinStake ? '🎮' : CHIP_EMOJI[offer.chipType] || '🎮'
               const canPlay = offer.status === 'MATCHED' || offer.status === 'IN_PROGRESS'
+              const awaitingConfirm = offer.status === 'WAITING_CREATOR_CONFIRM' && !!offer.confirmDeadline
               
               return (
                 <div 
                   key={offer.id}
                   className={clsx(
                     'card-base',
-                    canPlay && 'border border-accent-success/30 bg-accent-success/5'
+                    canPlay && 'border border-accent-success/30 bg-accent-success/5',
+                    awaitingConfirm && 'border border-accent-warning/30 bg-accent-warning/5'
                   )}
                 >
+                  {/* Opponent joined - creator has to confirm */}
+                  {awaitingConfirm && (
+                    <div className="flex items-center justify-between mb-4 p-3 bg-accent-warning/20 rounded-lg">
+                      <span className="text-accent-warning font-bold">
+                        {amCreator
+                          ? `⚔️ Opponent found! Confirm within ${formatCountdown(offer.confirmDeadline!, now)}`
+                          : `⏳ Waiting for ${offer.creator?.username ?? 'the creator'} to confirm (${formatCountdown(offer.confirmDeadline!, now)})`}
+                      </span>
+                    </div>
+                  )}
+
                   {/* Ready to play banner */}
                   {canPlay && (
                     <div className="flex items-center justify-between mb-4 p-3 bg-accent-success/20 rounded-lg">
@@ -211,15 +295,17 @@ export default function MyDuelsPage() {
                       <div>
                         <div className="flex items-center gap-2 mb-1">
                           <span className="font-semibold text-white">
-                            {chipEmoji} {offer.chipType} Duel
+                            {chipEmoji} {skinStake ? 'Skin' : offer.chipType} Duel
                           </span>
                           <span className={clsx(
                             'text-xs px-2 py-0.5 rounded-full',
                             offer.status === 'OPEN' && 'bg-accent-warning/20 text-accent-warning',
                             (offer.status === 'MATCHED' || offer.status === 'IN_PROGRESS') && 'bg-accent-success/20 text-accent-success',
+                            offer.status === 'WAITING_CREATOR_CONFIRM' && 'bg-accent-warning/20 text-accent-warning',
                             offer.status === 'CANCELLED' && 'bg-gray-500/20 text-gray-400',
                           )}>
                             {offer.status === 'OPEN' ? 'Waiting for opponent' : 
+                             offer.status === 'WAITING_CREATOR_CONFIRM' ? 'Awaiting confirmation' :
                              offer.status === 'MATCHED' ? 'Ready!' :
                              offer.status === 'IN_PROGRESS' ? 'In Progress' :
                              offer.status}
@@ -227,13 +313,26 @@ export default function MyDuelsPage() {
                           <span className="text-xs text-gray-500">
                             {amCreator ? '(You created)' : '(You joined)'}
                           </span>
+                          {offer.visibility === 'DIRECT' && (
+                            <span className="text-xs text-accent-primary">
+                              🎯 {amCreator ? `Challenge to ${offer.invitedUser?.username}` : 'Challenge'}
+                            </span>
+                          )}
+                          {offer.visibility === 'UNLISTED' && (
+                            <span className="text-xs text-accent-primary">🔗 Invite only</span>
+                          )}
+                          {offer.visibility === 'MATCHMAKING' && (
+                            <span className="text-xs text-accent-primary">⚡ Quick match</span>
+                          )}
                         </div>
                         <div className="flex items-center gap-3 text-sm text-gray-400">
-                          <span>{offer.chipPointsValue} pts/game</span>
+                          <span>{skinStake ? 'Skins at stake' : `${offer.chipPointsValue} pts/game`}</span>
                           <span className="w-1 h-1 rounded-full bg-gray-600" />
                           <span>{offer.gamesCount} games</span>
                           <span className="w-1 h-1 rounded-full bg-gray-600" />
-                          <span>Total: {offer.chipPointsValue * offer.gamesCount} pts</span>
+                          <span>
+                            {skinStake ? `Worth: ${offer.stakeValue ?? 0}` : `Total: ${offer.chipPointsValue * offer.gamesCount}`} pts
+                          </span>
                         </div>
                       </div>
                     </div>
@@ -247,10 +346,31 @@ export default function MyDuelsPage() {
                         </Link>
                       )}
                       
+                      {/* Opponent joined - confirm to start */}
+                      {awaitingConfirm && amCreator && (
+                        <button
+                          onClick={() => handleConfirm(offer.id)}
+                          disabled={confirming === offer.id}
+                          className="btn-primary"
+                        >
+                          {confirming === offer.id ? 'Confirming...' : 'Confirm ⚔️'}
+                        </button>
+                      )}
+
+                      {/* Open unlisted offer - share a new invite */}
+                      {offer.status === 'OPEN' && amCreator && offer.visibility === 'UNLISTED' && (
+                        <button
+                          onClick={() => handleCopyInvite(offer.id)}
+                          className="btn-secondary"
+                        >
+                          {copiedInvite === offer.id ? 'Link copied ✓' : 'Copy Invite'}
+                        </button>
+                      )}
+
                       {/* Open offer - can cancel */}
                       {offer.status === 'OPEN' && amCreator && (
                         <button 
-                          onClick={() => handleCancel(offer.id)}
+                          onClick={() => handleCancel(offer)}
                           className="btn-secondary text-accent-danger"
                         >
                           Cancel
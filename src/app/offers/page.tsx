@@ -1,10 +1,13 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { useRouter } from 'next/navigation'
 import { clsx } from 'clsx'
-import { useAuth } from '@/contexts/AuthContext'
+import { useAuth, idempotentPost, idempotentRequest } from '@/contexts/AuthContext'
 import Link from 'next/link'
+import { CreateDuelModal } from '@/components/CreateDuelModal'
+import { SkinPicker, StakeSkin } from '@/components/SkinPicker'
+import { CONSTANTS, CreateOrderRequest, InviteDto, OfferVisibility, OrderSort } from '@/server/types'
 
 // Types
 type ChipType = 'SMILE' | 'HEART' | 'FIRE' | 'RING'
@@ -23,8 +26,12 @@ interface Offer {
     username: string
     reliabilityCoefficient: number
   }
-  chipType: ChipType
+  chipType: ChipType | null // null for skin stakes
   chipValue: number
+  stakeType: 'POINTS' | 'SKINS'
+  stakeValue: number
+  skins: StakeSkin[]
+  visibility: OfferVisibility
   gamesPlanned: number
   status: string
   createdAt: string
@@ -37,6 +44,41 @@ const CHIPS: ChipConfig[] = [
   { type: 'RING', value: 50, emoji: '💍', name: 'Ring' },
 ]
 
+const SORT_OPTIONS: { value: OrderSort; label: string }[] = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'stake', label: 'Highest stake' },
+  { value: 'reliability', label: 'Most reliable' },
+]
+
+const RELIABILITY_OPTIONS = [
+  { value: 0, label: 'Any reliability' },
+  { value: 0.5, label: '50%+ reliable' },
+  { value: 0.7, label: '70%+ reliable' },
+  { value: 0.9, label: '90%+ reliable' },
+]
+
+interface BoardFilters {
+  chip: ChipType | 'SKINS' | 'ALL'
+  sort: OrderSort
+  minReliability: number
+  hideMine: boolean
+}
+
+// Board filters as /api/p2p/orders query params
+function toQuery(filters: BoardFilters, cursor?: string): string {
+  const params = new URLSearchParams({ status: 'OPEN', sort: filters.sort })
+  if (filters.chip === 'SKINS') {
+    params.set('stakeType', 'SKINS')
+  } else if (filters.chip !== 'ALL') {
+    params.set('chipType', filters.chip)
+    params.set('stakeType', 'POINTS')
+  }
+  if (filters.minReliability > 0) params.set('minReliability', String(filters.minReliability))
+  if (filters.hideMine) params.set('excludeMine', 'true')
+  if (cursor) params.set('cursor', cursor)
+  return params.toString()
+}
+
 export default function OffersPage() {
   const router = useRouter()
   const { user, isAuthenticated } = useAuth()
@@ -45,24 +87,66 @@ export default function OffersPage() {
   const [creating, setCreating] = useState(false)
   const [accepting, setAccepting] = useState<string | null>(null)
   const [showCreateModal, setShowCreateModal] = useState(false)
-  const [selectedChip, setSelectedChip] = useState<ChipType>('HEART')
-  const [gamesCount, setGamesCount] = useState(2)
-  const [filterChip, setFilterChip] = useState<ChipType | 'ALL'>('ALL')
+  const [filters, setFilters] = useState<BoardFilters>({
+    chip: 'ALL',
+    sort: 'newest',
+    minReliability: 0,
+    hideMine: false,
+  })
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [loadingMore, setLoadingMore] = useState(false)
+  // Live updates reload with whatever filters are current
+  const filtersRef = useRef(filters)
+  // Joining a skin offer: stake skins or points
+  const [joinOffer, setJoinOffer] = useState<Offer | null>(null)
+  const [joinSkinIds, setJoinSkinIds] = useState<string[]>([])
+  const [joinSkinsValue, setJoinSkinsValue] = useState(0)
+  // Direct challenges to the user, and the invite of a just-created unlisted offer
+  const [challenges, setChallenges] = useState<Offer[]>([])
+  const [declining, setDeclining] = useState<string | null>(null)
+  const [invite, setInvite] = useState<InviteDto | null>(null)
+  const [inviteCode, setInviteCode] = useState('')
   const [error, setError] = useState<string | null>(null)
 
-  // Load offers from API
+  // Load offers from API, again whenever the filters change
   useEffect(() => {
+    filtersRef.current = filters
     loadOffers()
+  }, [filters])
+
+  useEffect(() => {
+    if (isAuthenticated) loadChallenges()
+  }, [isAuthenticated])
+
+  // Live board: taken or removed offers leave the list, new ones trigger a reload
+  useEffect(() => {
+    const source = new EventSource('/api/p2p/orders/events')
+    const removeOffer = (event: MessageEvent) => {
+      const { offerId } = JSON.parse(event.data)
+      setOffers(prev => prev.filter(o => o.id !== offerId))
+    }
+    const reload = () => {
+      loadOffers(false)
+    }
+
+    source.addEventListener('offer_taken', removeOffer)
+    source.addEventListener('offer_removed', removeOffer)
+    source.addEventListener('offer_created', reload)
+    source.addEventListener('offer_reopened', reload)
+    source.addEventListener('resync', reload)
+
+    return () => source.close()
   }, [])
 
-  const loadOffers = async () => {
+  const loadOffers = async (showLoading = true) => {
     try {
-      setLoading(true)
-      const response = await fetch('/api/p2p/orders?status=OPEN')
+      if (showLoading) setLoading(true)
+      const response = await fetch(`/api/p2p/orders?${toQuery(filtersRef.current)}`)
       const data = await response.json()
       
       if (data.success) {
         setOffers(data.data || [])
+        setNextCursor(data.nextCursor ?? null)
       } else {
         console.error('Failed to load offers:', data.error)
       }
@@ -73,14 +157,47 @@ export default function OffersPage() {
     }
   }
 
-  const filteredOffers = filterChip === 'ALL' 
-    ? offers 
-    : offers.filter(o => o.chipType === filterChip)
+  const loadChallenges = async () => {
+    try {
+      const response = await fetch('/api/p2p/challenges')
+      const data = await response.json()
+
+      if (data.success) {
+        setChallenges(data.data || [])
+      }
+    } catch (err) {
+      console.error('Error loading challenges:', err)
+    }
+  }
+
+  const loadMore = async () => {
+    if (!nextCursor) return
+
+    try {
+      setLoadingMore(true)
+      const response = await fetch(`/api/p2p/orders?${toQuery(filtersRef.current, nextCursor)}`)
+      const data = await response.json()
+
+      if (data.success) {
+        // Skip offers that live updates already put on the page
+        setOffers(prev => [...prev, ...(data.data as Offer[]).filter(o => !prev.some(p => p.id === o.id))])
+        setNextCursor(data.nextCursor ?? null)
+      }
+    } catch (err) {
+      console.error('Error loading more offers:', err)
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  const setFilter = <K extends keyof BoardFilters>(key: K, value: BoardFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }))
+  }
 
   const getChipConfig = (type: ChipType) => CHIPS.find(c => c.type === type)!
 
   // Create offer - NOW CALLS API!
-  const handleCreateOffer = async () => {
+  const handleCreateOffer = async (request: CreateOrderRequest) => {
     if (!isAuthenticated) {
       setError('Please login first')
       return
@@ -90,19 +207,13 @@ export default function OffersPage() {
       setCreating(true)
       setError(null)
 
-      const response = await fetch('/api/p2p/orders', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          chipType: selectedChip,
-          gamesPlanned: gamesCount,
-        }),
-      })
+      const response = await idempotentPost('/api/p2p/orders', request)
 
       const data = await response.json()
 
       if (data.success) {
         setShowCreateModal(false)
+        if (data.invite) setInvite(data.invite)
         await loadOffers() // Reload offers
       } else {
         setError(data.error || 'Failed to create offer')
@@ -115,7 +226,7 @@ export default function OffersPage() {
     }
   }
 
-  const handleAcceptOffer = async (offerId: string) => {
+  const handleAcceptOffer = async (offerId: string, userSkinIds?: string[]) => {
     if (!isAuthenticated) {
       setError('Please login first')
       return
@@ -125,15 +236,13 @@ export default function OffersPage() {
       setAccepting(offerId)
       setError(null)
 
-      const response = await fetch(`/api/p2p/orders/${offerId}/join`, {
-        method: 'POST',
-      })
+      const response = await idempotentPost(`/api/p2p/orders/${offerId}/join`, { userSkinIds })
 
       const data = await response.json()
 
       if (data.success) {
-        // Go directly to game! No confirm needed anymore
-        router.push(`/duel/${offerId}`)
+        // The creator has to confirm first - wait for it in My Duels
+        router.push('/my-duels')
       } else {
         setError(data.error || 'Failed to accept offer')
       }
@@ -145,6 +254,37 @@ export default function OffersPage() {
     }
   }
 
+  const handleDeclineChallenge = async (offerId: string) => {
+    try {
+      setDeclining(offerId)
+      setError(null)
+
+      const response = await idempotentRequest(`/api/p2p/orders/${offerId}/decline`, 'POST')
+      const data = await response.json()
+
+      if (data.success) {
+        setChallenges(prev => prev.filter(c => c.id !== offerId))
+      } else {
+        setError(data.error || 'Failed to decline challenge')
+      }
+    } catch (err) {
+      console.error('Error declining challenge:', err)
+      setError('Network error')
+    } finally {
+      setDeclining(null)
+    }
+  }
+
+  const handleOpenInvite = (e: React.FormEvent) => {
+    e.preventDefault()
+    const code = inviteCode.trim()
+    if (code) router.push(`/invite/${encodeURIComponent(code)}`)
+  }
+
+  const inviteLink = invite && typeof window !== 'undefined'
+    ? `${window.location.origin}/invite/${invite.token}`
+    : ''
+
   return (
     <div className="min-h-screen pb-24 md:pb-8">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -158,6 +298,9 @@ export default function OffersPage() {
             <Link href="/my-duels" className="btn-secondary">
               My Duels
             </Link>
+            <Link href="/matchmaking" className="btn-secondary">
+              ⚡ Quick Match
+            </Link>
             <button 
               onClick={() => setShowCreateModal(true)}
               className="btn-primary"
@@ -176,13 +319,79 @@ export default function OffersPage() {
           </div>
         )}
 
+        {/* Incoming Challenges */}
+        {challenges.length > 0 && (
+          <div className="mb-8">
+            <h2 className="text-lg font-semibold text-white mb-3">⚔️ Challenges for you</h2>
+            <div className="space-y-3">
+              {challenges.map((challenge) => {
+                const skinStake = challenge.stakeType === 'SKINS'
+                return (
+                  <div
+                    key={challenge.id}
+                    className="card-base border border-accent-primary/40 flex flex-col sm:flex-row sm:items-center justify-between gap-4"
+                  >
+                    <div>
+                      <p className="font-semibold text-white">{challenge.owner.username} challenges you</p>
+                      <p className="text-sm text-gray-400">
+                        {challenge.chipType
+                          ? `${getChipConfig(challenge.chipType).emoji} ${challenge.stakeValue} pts`
+                          : `🎮 ${challenge.skins.length} skins worth ${challenge.stakeValue} pts`}
+                        {' · '}{challenge.gamesPlanned} games
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleDeclineChallenge(challenge.id)}
+                        className="btn-secondary whitespace-nowrap"
+                        disabled={declining === challenge.id}
+                      >
+                        {declining === challenge.id ? 'Declining...' : 'Decline'}
+                      </button>
+                      <button
+                        onClick={() => {
+                          if (skinStake) {
+                            setJoinOffer(challenge)
+                            setJoinSkinIds([])
+                            setJoinSkinsValue(0)
+                          } else {
+                            handleAcceptOffer(challenge.id)
+                          }
+                        }}
+                        className="btn-primary whitespace-nowrap"
+                        disabled={accepting === challenge.id}
+                      >
+                        {accepting === challenge.id ? 'Accepting...' : 'Accept'}
+                      </button>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Invite Code */}
+        <form onSubmit={handleOpenInvite} className="flex gap-2 mb-6 max-w-md">
+          <input
+            type="text"
+            value={inviteCode}
+            onChange={(e) => setInviteCode(e.target.value)}
+            className="input-base"
+            placeholder="Have an invite code?"
+          />
+          <button type="submit" className="btn-secondary whitespace-nowrap" disabled={!inviteCode.trim()}>
+            Open
+          </button>
+        </form>
+
         {/* Chip Filters */}
         <div className="flex items-center gap-2 mb-6 overflow-x-auto pb-2">
           <button
-            onClick={() => setFilterChip('ALL')}
+            onClick={() => setFilter('chip', 'ALL')}
             className={clsx(
               'px-4 py-2 rounded-xl text-sm font-medium whitespace-nowrap transition-all',
-              filterChip === 'ALL'
+              filters.chip === 'ALL'
                 ? 'bg-accent-primary text-white'
                 : 'bg-dark-700 text-gray-400 hover:text-white'
             )}
@@ -192,10 +401,10 @@ export default function OffersPage() {
           {CHIPS.map((chip) => (
             <button
               key={chip.type}
-              onClick={() => setFilterChip(chip.type)}
+              onClick={() => setFilter('chip', chip.type)}
               className={clsx(
                 'px-4 py-2 rounded-xl text-sm font-medium whitespace-nowrap transition-all flex items-center gap-2',
-                filterChip === chip.type
+                filters.chip === chip.type
                   ? 'bg-accent-primary text-white'
                   : 'bg-dark-700 text-gray-400 hover:text-white'
               )}
@@ -204,6 +413,50 @@ export default function OffersPage() {
               <span>{chip.value} pts</span>
             </button>
           ))}
+          <button
+            onClick={() => setFilter('chip', 'SKINS')}
+            className={clsx(
+              'px-4 py-2 rounded-xl text-sm font-medium whitespace-nowrap transition-all flex items-center gap-2',
+              filters.chip === 'SKINS'
+                ? 'bg-accent-primary text-white'
+                : 'bg-dark-700 text-gray-400 hover:text-white'
+            )}
+          >
+            <span>🎮</span>
+            <span>Skins</span>
+          </button>
+        </div>
+
+        {/* Sort & Filters */}
+        <div className="flex flex-wrap items-center gap-3 mb-6">
+          <select
+            value={filters.sort}
+            onChange={(e) => setFilter('sort', e.target.value as OrderSort)}
+            className="input-base w-auto"
+          >
+            {SORT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <select
+            value={filters.minReliability}
+            onChange={(e) => setFilter('minReliability', Number(e.target.value))}
+            className="input-base w-auto"
+          >
+            {RELIABILITY_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          {isAuthenticated && (
+            <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={filters.hideMine}
+                onChange={(e) => setFilter('hideMine', e.target.checked)}
+              />
+              Hide my offers
+            </label>
+          )}
         </div>
 
         {/* Loading State */}
@@ -217,8 +470,9 @@ export default function OffersPage() {
         {/* Offers List */}
         {!loading && (
           <div className="space-y-4">
-            {filteredOffers.map((offer) => {
-              const chip = getChipConfig(offer.chipType)
+            {offers.map((offer) => {
+              const chip = offer.chipType ? getChipConfig(offer.chipType) : null
+              const skinStake = offer.stakeType === 'SKINS'
               const isOwner = user?.id === offer.owner.id
               const isAccepting = accepting === offer.id
               return (
@@ -230,7 +484,7 @@ export default function OffersPage() {
                   <div className="flex items-center gap-4">
                     {/* Chip Badge */}
                     <div className="w-14 h-14 rounded-xl bg-dark-600 flex items-center justify-center text-2xl">
-                      {chip.emoji}
+                      {chip ? chip.emoji : '🎮'}
                     </div>
                     
                     <div>
@@ -249,19 +503,43 @@ export default function OffersPage() {
                         </span>
                       </div>
                       <div className="flex items-center gap-3 text-sm text-gray-400">
-                        <span>{chip.emoji} {chip.value} pts per game</span>
+                        {chip ? (
+                          <span>{chip.emoji} {chip.value} pts per game</span>
+                        ) : (
+                          <span>🎮 {offer.skins.length} skin{offer.skins.length === 1 ? '' : 's'}</span>
+                        )}
                         <span className="w-1 h-1 rounded-full bg-gray-600" />
                         <span>{offer.gamesPlanned} games</span>
                         <span className="w-1 h-1 rounded-full bg-gray-600" />
-                        <span>Total: {chip.value * offer.gamesPlanned} pts</span>
+                        <span>{skinStake ? 'Worth' : 'Total'}: {offer.stakeValue} pts</span>
                       </div>
+                      {skinStake && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {offer.skins.map(skin => (
+                            <span
+                              key={skin.userSkinId}
+                              className="text-xs px-2 py-0.5 rounded-full bg-dark-600 text-gray-300"
+                            >
+                              {skin.name} · {skin.pointsValue}
+                            </span>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   </div>
 
                   {/* Accept Button */}
                   {!isOwner && (
                     <button 
-                      onClick={() => handleAcceptOffer(offer.id)}
+                      onClick={() => {
+                        if (skinStake) {
+                          setJoinOffer(offer)
+                          setJoinSkinIds([])
+                          setJoinSkinsValue(0)
+                        } else {
+                          handleAcceptOffer(offer.id)
+                        }
+                      }}
                       className="btn-primary whitespace-nowrap"
                       disabled={!isAuthenticated || isAccepting}
                     >
@@ -274,10 +552,16 @@ export default function OffersPage() {
                 </div>
               )
             })}
+
+            {nextCursor && (
+              <button onClick={loadMore} className="w-full btn-secondary" disabled={loadingMore}>
+                {loadingMore ? 'Loading...' : 'Load more'}
+              </button>
+            )}
           </div>
         )}
 
-        {!loading && filteredOffers.length === 0 && (
+        {!loading && offers.length === 0 && (
           <div className="text-center py-16">
             <div className="text-6xl mb-4">🎮</div>
             <h3 className="text-xl font-semibold text-white mb-2">No offers available</h3>
@@ -294,114 +578,107 @@ export default function OffersPage() {
       </div>
 
       {/* Create Offer Modal */}
-      {showCreateModal && (
+      <CreateDuelModal
+        isOpen={showCreateModal}
+        onClose={() => setShowCreateModal(false)}
+        onCreate={handleCreateOffer}
+        creating={creating}
+        error={error}
+        balance={user?.pointsBalance}
+      />
+
+      {/* Invite Link Modal */}
+      {invite && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
-          <div className="card-base max-w-md w-full animate-scaleIn">
-            <div className="flex items-center justify-between mb-6">
-              <h2 className="text-xl font-bold text-white">Create Offer</h2>
+          <div className="card-base max-w-lg w-full animate-scaleIn">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-bold text-white">🔗 Invite Link</h2>
               <button
-                onClick={() => setShowCreateModal(false)}
+                onClick={() => setInvite(null)}
                 className="w-8 h-8 rounded-full bg-dark-600 flex items-center justify-center text-gray-400 hover:text-white"
               >
                 ✕
               </button>
             </div>
+            <p className="text-gray-400 mb-4">
+              Your offer is not on the board. Send this link (or the code) to the player you want to duel.
+              It expires at {new Date(invite.expiresAt).toLocaleTimeString()}; get a new one from My Duels.
+            </p>
+            <div className="p-3 bg-dark-700 rounded-xl mb-3 text-sm text-white break-all font-mono">
+              {inviteLink}
+            </div>
+            <p className="text-xs text-gray-500 mb-4 break-all">Code: {invite.token}</p>
+            <button
+              onClick={() => navigator.clipboard.writeText(inviteLink)}
+              className="w-full btn-primary"
+            >
+              Copy Link
+            </button>
+          </div>
+        </div>
+      )}
 
-            {/* Error in Modal */}
-            {error && (
-              <div className="mb-4 p-3 bg-accent-danger/20 border border-accent-danger rounded-lg text-accent-danger text-sm">
-                {error}
+      {/* Join Skin Offer Modal */}
+      {joinOffer && (() => {
+        const min = Math.ceil(joinOffer.stakeValue * (1 - CONSTANTS.SKIN_STAKE_TOLERANCE))
+        const max = Math.floor(joinOffer.stakeValue * (1 + CONSTANTS.SKIN_STAKE_TOLERANCE))
+        const skinsInRange = joinSkinsValue >= min && joinSkinsValue <= max
+        const isAccepting = accepting === joinOffer.id
+
+        return (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+            <div className="card-base max-w-lg w-full max-h-[90vh] overflow-y-auto animate-scaleIn">
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-xl font-bold text-white">Accept Skin Duel</h2>
+                <button
+                  onClick={() => setJoinOffer(null)}
+                  className="w-8 h-8 rounded-full bg-dark-600 flex items-center justify-center text-gray-400 hover:text-white"
+                >
+                  ✕
+                </button>
               </div>
-            )}
 
-            {/* Chip Selection */}
-            <div className="mb-6">
-              <label className="text-sm text-gray-400 mb-3 block">Select Chip Type</label>
-              <div className="grid grid-cols-2 gap-3">
-                {CHIPS.map((chip) => (
-                  <button
-                    key={chip.type}
-                    onClick={() => setSelectedChip(chip.type)}
-                    className={clsx(
-                      'p-4 rounded-xl border-2 transition-all',
-                      selectedChip === chip.type
-                        ? 'border-accent-primary bg-accent-primary/10'
-                        : 'border-dark-500 hover:border-dark-400'
-                    )}
-                  >
-                    <div className="text-3xl mb-2">{chip.emoji}</div>
-                    <div className="font-semibold text-white">{chip.name}</div>
-                    <div className="text-sm text-gray-400">{chip.value} pts</div>
-                  </button>
-                ))}
+              <p className="text-gray-400 mb-4">
+                {joinOffer.owner.username} stakes skins worth {joinOffer.stakeValue} pts.
+                Match them with skins worth {min}-{max} pts, or with {joinOffer.stakeValue} pts.
+              </p>
+
+              <div className="mb-6">
+                <SkinPicker
+                  selected={joinSkinIds}
+                  maxSkins={CONSTANTS.MAX_STAKED_SKINS}
+                  onChange={(ids, total) => {
+                    setJoinSkinIds(ids)
+                    setJoinSkinsValue(total)
+                  }}
+                />
+                {joinSkinIds.length > 0 && (
+                  <p className={clsx('text-sm mt-3', skinsInRange ? 'text-accent-success' : 'text-accent-danger')}>
+                    Your skins: {joinSkinsValue} pts
+                  </p>
+                )}
               </div>
-            </div>
 
-            {/* Games Count */}
-            <div className="mb-6">
-              <label className="text-sm text-gray-400 mb-3 block">Number of Games (min 2)</label>
-              <div className="flex items-center gap-4">
+              <div className="flex gap-3">
                 <button
-                  onClick={() => setGamesCount(Math.max(2, gamesCount - 1))}
-                  className="w-12 h-12 rounded-xl bg-dark-600 text-white text-xl hover:bg-dark-500"
+                  onClick={() => handleAcceptOffer(joinOffer.id)}
+                  className="flex-1 btn-secondary"
+                  disabled={isAccepting}
                 >
-                  -
+                  Stake {joinOffer.stakeValue} pts
                 </button>
-                <div className="flex-1 text-center">
-                  <span className="text-3xl font-bold text-white">{gamesCount}</span>
-                  <span className="text-gray-400 ml-2">games</span>
-                </div>
                 <button
-                  onClick={() => setGamesCount(Math.min(10, gamesCount + 1))}
-                  className="w-12 h-12 rounded-xl bg-dark-600 text-white text-xl hover:bg-dark-500"
+                  onClick={() => handleAcceptOffer(joinOffer.id, joinSkinIds)}
+                  className="flex-1 btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+                  disabled={isAccepting || !skinsInRange}
                 >
-                  +
+                  {isAccepting ? 'Accepting...' : 'Stake Skins'}
                 </button>
               </div>
             </div>
-
-            {/* Summary */}
-            <div className="p-4 bg-dark-700 rounded-xl mb-6">
-              <div className="flex justify-between mb-2">
-                <span className="text-gray-400">Stake per game</span>
-                <span className="text-white font-semibold">
-                  {getChipConfig(selectedChip).emoji} {getChipConfig(selectedChip).value} pts
-                </span>
-              </div>
-              <div className="flex justify-between mb-2">
-                <span className="text-gray-400">Total stake</span>
-                <span className="text-accent-warning font-bold">
-                  💎 {getChipConfig(selectedChip).value * gamesCount} pts
-                </span>
-              </div>
-              {user && (
-                <div className="flex justify-between pt-2 border-t border-dark-600">
-                  <span className="text-gray-400">Your balance</span>
-                  <span className="text-white">{user.pointsBalance} pts</span>
-                </div>
-              )}
-            </div>
-
-            {/* Actions */}
-            <div className="flex gap-3">
-              <button 
-                onClick={() => setShowCreateModal(false)}
-                className="flex-1 btn-secondary"
-                disabled={creating}
-              >
-                Cancel
-              </button>
-              <button 
-                onClick={handleCreateOffer}
-                className="flex-1 btn-primary"
-                disabled={creating}
-              >
-                {creating ? 'Creating...' : 'Create Offer'}
-              </button>
-            </div>
           </div>
-        </div>
-      )}
+        )
+      })()}
     </div>
   )
 }
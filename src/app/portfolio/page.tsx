@@ -1,7 +1,8 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { clsx } from 'clsx'
+import { useAuth } from '@/contexts/AuthContext'
 
 // Types
 type SkinRarity = 'COMMON' | 'UNCOMMON' | 'RARE' | 'EPIC' | 'LEGENDARY'
@@ -44,10 +45,16 @@ const mockShopSkins: Skin[] = [
 ]
 
 export default function PortfolioPage() {
+  const { balance: accountBalance } = useAuth()
   const [balance, setBalance] = useState(1000)
   const [selectedSkins, setSelectedSkins] = useState<string[]>([])
   const [activeTab, setActiveTab] = useState<'inventory' | 'shop'>('inventory')
 
+  // Available balance comes from the account once loaded
+  useEffect(() => {
+    if (accountBalance) setBalance(accountBalance.available)
+  }, [accountBalance])
+
   const toggleSkinSelection = (skinId: string) => {
     setSelectedSkins(prev => 
       prev.includes(skinId) 
@@ -88,11 +95,22 @@ export default function PortfolioPage() {
           </div>
           
           {/* Balance */}
-          <div className="card-base flex items-center gap-3">
-            <span className="text-2xl">💎</span>
-            <div>
-              <p className="text-sm text-gray-400">Balance</p>
-              <p className="text-2xl font-bold text-white">{balance.toLocaleString()}</p>
+          <div className="card-base flex items-center gap-6">
+            <div className="flex items-center gap-3">
+              <span className="text-2xl">💎</span>
+              <div>
+                <p className="text-sm text-gray-400">Available</p>
+                <p className="text-2xl font-bold text-white">{balance.toLocaleString()}</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <span className="text-2xl">🔒</span>
+              <div>
+                <p className="text-sm text-gray-400">Locked in duels</p>
+                <p className="text-2xl font-bold text-accent-warning">
+                  {(accountBalance?.lockedInDuels ?? 0).toLocaleString()}
+                </p>
+              </div>
             </div>
           </div>
         </div>
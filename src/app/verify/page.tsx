@@ -4,23 +4,92 @@ import { useSearchParams } from 'next/navigation'
 import { useState, useEffect, Suspense } from 'react'
 import { clsx } from 'clsx'
 import Link from 'next/link'
+import { RoundProofDto } from '@/server/types/duel.types'
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+// SHA256(message) as hex - used to check the revealed server seed against its hash
+async function sha256Hex(message: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(message))
+  return toHex(digest)
+}
+
+// HMAC-SHA256(key, message) as hex - recomputed in the browser, no server trust needed
+async function hmacSha256Hex(key: string, message: string): Promise<string> {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(message))
+  return toHex(signature)
+}
+
+/** v2 rejects 32-bit chunks at or above this value (a multiple of 1,000,000) */
+const SAMPLE_LIMIT = Math.floor(0x100000000 / 1000000) * 1000000
+
+/**
+ * Seed slice the round used, by algorithm version
+ * v1: first 8 hex chars; v2: first chunk below SAMPLE_LIMIT, extending with ":1", ":2"...
+ */
+async function deriveSeedSlice(version: number, key: string, seedInput: string): Promise<string> {
+  if (version === 1) {
+    return (await hmacSha256Hex(key, seedInput)).substring(0, 8)
+  }
+
+  for (let block = 0; ; block++) {
+    const hmac = await hmacSha256Hex(key, block === 0 ? seedInput : `${seedInput}:${block}`)
+    for (let chunk = 0; chunk < 8; chunk++) {
+      const slice = hmac.substring(chunk * 8, chunk * 8 + 8)
+      if (parseInt(slice, 16) < SAMPLE_LIMIT) return slice
+    }
+  }
+}
 
 function VerifyContent() {
   const searchParams = useSearchParams()
   const [verificationStatus, setVerificationStatus] = useState<'pending' | 'verified' | 'failed'>('pending')
   const [isVerifying, setIsVerifying] = useState(false)
   const [errorMessage, setErrorMessage] = useState('')
+  const [computedSlice, setComputedSlice] = useState('')
+  const [hashMatches, setHashMatches] = useState<boolean | null>(null)
+
+  // Round loaded from /api/duel/[offer] when the link only names the round
+  const [loadedParams, setLoadedParams] = useState<Record<string, string> | null>(null)
+  const offerId = searchParams.get('offer') || ''
+  const param = (name: string) => loadedParams?.[name] ?? searchParams.get(name) ?? ''
 
   // Get verification data from URL params
-  const duelId = searchParams.get('duelId') || ''
-  const roundNumber = searchParams.get('round') || ''
-  const timeSlot = searchParams.get('timeSlot') || ''
-  const playerA = searchParams.get('playerA') || ''
-  const playerANumber = searchParams.get('playerANumber') || ''
-  const playerB = searchParams.get('playerB') || ''
-  const playerBNumber = searchParams.get('playerBNumber') || ''
-  const seedSlice = searchParams.get('seedSlice') || ''
-  const randomNumber = searchParams.get('random') || ''
+  const duelId = param('duelId')
+  const roundNumber = param('round')
+  const timeSlot = param('timeSlot')
+  const playerA = param('playerA')
+  const playerANumber = param('playerANumber')
+  const playerB = param('playerB')
+  const playerBNumber = param('playerBNumber')
+  const claimedSlice = param('seedSlice')
+  const randomNumber = param('random')
+  const serverSeed = param('serverSeed')
+  const serverSeedHash = param('serverSeedHash')
+  const clientSeedA = param('clientSeedA')
+  const clientSeedB = param('clientSeedB')
+  const keyVersion = param('keyVersion')
+  // Links without a version predate versioning and used v1
+  const algorithmVersion = parseInt(param('algorithmVersion') || '1')
+
+  // Seeded rounds mix both client seeds into the HMAC input
+  const seeded = !!(serverSeed || serverSeedHash)
+  const baseInput = `${duelId}:${roundNumber}:${timeSlot}:${playerA}:${playerANumber}:${playerB}:${playerBNumber}`
+  const seedInput = seeded ? `${baseInput}:${clientSeedA}:${clientSeedB}` : baseInput
+
+  // With the revealed server seed the slice is recomputed, otherwise the claimed one is used
+  const seedSlice = computedSlice || claimedSlice
 
   // Calculate verification manually (client-side)
   const seedNum = seedSlice ? parseInt(seedSlice, 16) : 0
@@ -32,7 +101,7 @@ function VerifyContent() {
   const calculatedWinnerIndex = distanceA < distanceB ? 0 : distanceB < distanceA ? 1 : -1
 
   const handleVerify = async () => {
-    if (!seedSlice) {
+    if (!claimedSlice && !serverSeed) {
       setVerificationStatus('pending')
       return
     }
@@ -41,23 +110,96 @@ function VerifyContent() {
     
     // Simulate verification delay for UX
     await new Promise(resolve => setTimeout(resolve, 1500))
+
+    const problems: string[] = []
+    let slice = claimedSlice.toLowerCase()
+
+    // End-to-end check: seed matches its pre-published hash, HMAC recomputed from scratch
+    if (serverSeed) {
+      if (serverSeedHash) {
+        const matches = (await sha256Hex(serverSeed)) === serverSeedHash.toLowerCase()
+        setHashMatches(matches)
+        if (!matches) {
+          problems.push('Server seed does not match the hash published before the match')
+        }
+      }
+
+      const recomputed = await deriveSeedSlice(algorithmVersion, serverSeed, seedInput)
+      if (claimedSlice && claimedSlice.toLowerCase() !== recomputed) {
+        problems.push(`Seed slice ${claimedSlice} does not match recomputed ${recomputed}`)
+      }
+      slice = recomputed
+      setComputedSlice(recomputed)
+    }
     
     // Client-side verification
-    const expectedRandom = parseInt(seedSlice, 16) % 1000000
-    const isRandomValid = randomNumber ? parseInt(randomNumber) === expectedRandom : true
-    
-    setVerificationStatus(isRandomValid ? 'verified' : 'failed')
-    if (!isRandomValid) {
-      setErrorMessage(`Expected random ${expectedRandom}, but got ${randomNumber}`)
+    if (algorithmVersion === 2 && parseInt(slice, 16) >= SAMPLE_LIMIT) {
+      problems.push(`Seed slice ${slice} is in the rejected range, v2 would have skipped it`)
+    }
+    const expectedRandom = parseInt(slice, 16) % 1000000
+    if (randomNumber && parseInt(randomNumber) !== expectedRandom) {
+      problems.push(`Expected random ${expectedRandom}, but got ${randomNumber}`)
     }
+    
+    setVerificationStatus(problems.length === 0 ? 'verified' : 'failed')
+    setErrorMessage(problems.join('. '))
     setIsVerifying(false)
   }
 
+  // Load stored round proof (participants only)
+  useEffect(() => {
+    if (!offerId) return
+
+    const loadRound = async () => {
+      try {
+        const response = await fetch(`/api/duel/${offerId}`)
+        const data = await response.json()
+        if (!data.success) {
+          setVerificationStatus('failed')
+          setErrorMessage(data.error || 'Failed to load duel')
+          return
+        }
+
+        const duel = data.data
+        const round = (duel.rounds as RoundProofDto[]).find(r => r.roundIndex === parseInt(searchParams.get('round') || '1'))
+        if (!round || round.seedSlice === null || round.hmacDuelId === null) {
+          setVerificationStatus('failed')
+          setErrorMessage('Round is not resolved yet or has no stored proof')
+          return
+        }
+
+        setLoadedParams({
+          duelId: round.hmacDuelId,
+          round: String(round.hmacRoundNumber ?? round.roundIndex),
+          timeSlot: String(round.timeSlot ?? ''),
+          playerA: duel.creatorUserId,
+          playerANumber: String(round.creatorNumber ?? ''),
+          playerB: duel.opponentUserId,
+          playerBNumber: String(round.opponentNumber ?? ''),
+          seedSlice: round.seedSlice,
+          random: String(round.randomNumber ?? ''),
+          serverSeed: duel.fairness?.serverSeed || '',
+          serverSeedHash: duel.fairness?.serverSeedHash || '',
+          clientSeedA: duel.fairness?.creatorClientSeed || '',
+          clientSeedB: duel.fairness?.opponentClientSeed || '',
+          keyVersion: String(round.keyVersion ?? ''),
+          algorithmVersion: String(round.algorithmVersion ?? 1),
+        })
+      } catch (err) {
+        console.error('Error loading round proof:', err)
+        setVerificationStatus('failed')
+        setErrorMessage('Network error')
+      }
+    }
+
+    loadRound()
+  }, [offerId, searchParams])
+
   useEffect(() => {
-    if (seedSlice) {
+    if (claimedSlice || serverSeed) {
       handleVerify()
     }
-  }, [seedSlice])
+  }, [claimedSlice, serverSeed])
 
   return (
     <div className="min-h-screen pb-24 md:pb-8">
@@ -89,7 +231,16 @@ function VerifyContent() {
                 <span className="text-3xl">✓</span>
               </div>
               <p className="text-2xl font-bold text-accent-success mb-2">Verified!</p>
-              <p className="text-gray-400">This duel result is cryptographically valid</p>
+              <p className="text-gray-400">
+                {serverSeed
+                  ? 'HMAC recomputed from the revealed server seed - this result is cryptographically valid'
+                  : 'This duel result is cryptographically valid'}
+              </p>
+              {seeded && !serverSeed && (
+                <p className="text-sm text-accent-warning mt-2">
+                  Server seed not revealed yet - full check available once the match is over
+                </p>
+              )}
             </div>
           ) : verificationStatus === 'failed' ? (
             <div className="py-8">
@@ -220,8 +371,8 @@ function VerifyContent() {
               <p className="text-xs text-gray-400 mb-2">Step 1: Build Seed Input</p>
               <code className="text-xs text-accent-primary break-all">
                 {duelId && playerA && playerB 
-                  ? `"${duelId}:${roundNumber}:${timeSlot}:${playerA}:${playerANumber}:${playerB}:${playerBNumber}"`
-                  : '"duelId:round:timeSlot:playerA:numberA:playerB:numberB"'
+                  ? `"${seedInput}"`
+                  : '"duelId:round:timeSlot:playerA:numberA:playerB:numberB:clientSeedA:clientSeedB"'
                 }
               </code>
             </div>
@@ -230,13 +381,32 @@ function VerifyContent() {
             <div className="p-4 bg-dark-700 rounded-xl">
               <p className="text-xs text-gray-400 mb-2">Step 2: Compute HMAC-SHA256</p>
               <code className="text-xs text-gray-300">
-                HMAC-SHA256(PLATFORM_SECRET, seedInput)
+                {seeded ? 'HMAC-SHA256(SERVER_SEED, seedInput)' : 'HMAC-SHA256(PLATFORM_SECRET, seedInput)'}
               </code>
+              {serverSeedHash && (
+                <div className="mt-3 space-y-1">
+                  <p className="text-xs text-gray-400">
+                    Published hash: <span className="font-mono text-gray-300 break-all">{serverSeedHash}</span>
+                  </p>
+                  <p className="text-xs text-gray-400">
+                    Server seed: <span className="font-mono text-gray-300 break-all">{serverSeed || 'not revealed yet'}</span>
+                  </p>
+                  {hashMatches !== null && (
+                    <p className={clsx('text-xs font-bold', hashMatches ? 'text-accent-success' : 'text-accent-danger')}>
+                      {hashMatches ? '✓ SHA256(server seed) matches published hash' : '✕ SHA256(server seed) does not match'}
+                    </p>
+                  )}
+                </div>
+              )}
             </div>
 
             {/* Step 3: Seed Slice */}
             <div className="p-4 bg-dark-700 rounded-xl">
-              <p className="text-xs text-gray-400 mb-2">Step 3: Extract Seed Slice (first 8 hex chars)</p>
+              <p className="text-xs text-gray-400 mb-2">
+                {algorithmVersion === 1
+                  ? 'Step 3: Extract Seed Slice (first 8 hex chars)'
+                  : `Step 3: First 8-hex chunk below ${SAMPLE_LIMIT.toLocaleString()} (rejection sampling)`}
+              </p>
               <code className="text-2xl text-accent-warning font-mono">
                 {seedSlice || '????????'}
               </code>
@@ -302,10 +472,22 @@ function VerifyContent() {
               <p className="text-gray-400">Seed Slice Size</p>
               <p className="font-mono text-white">8 hex chars</p>
             </div>
+            <div className="p-3 bg-dark-700 rounded-xl">
+              <p className="text-gray-400">Algorithm</p>
+              <p className="font-mono text-white">
+                {algorithmVersion === 1 ? 'v1 (modulo)' : 'v2 (rejection sampling)'}
+              </p>
+            </div>
             <div className="p-3 bg-dark-700 rounded-xl">
               <p className="text-gray-400">Winner Rule</p>
               <p className="font-mono text-white">Closest wins</p>
             </div>
+            {keyVersion && (
+              <div className="p-3 bg-dark-700 rounded-xl">
+                <p className="text-gray-400">Platform Key</p>
+                <p className="font-mono text-white">v{keyVersion}</p>
+              </div>
+            )}
           </div>
         </div>
 
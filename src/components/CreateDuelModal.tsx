@@ -1,30 +1,50 @@
 'use client'
 
 import { useState } from 'react'
-import { mockSkins, rarityColors } from '@/data/mock'
-import { Skin } from '@/types'
 import { clsx } from 'clsx'
+import { CHIP_CONFIGS, ChipType, CONSTANTS, CreateOrderRequest, OfferVisibility } from '@/server/types'
+import { SkinPicker } from './SkinPicker'
+
+const CHIPS = Object.values(CHIP_CONFIGS)
+
+const VISIBILITY_OPTIONS: { value: OfferVisibility; label: string; hint: string }[] = [
+  { value: 'PUBLIC', label: '🌍 Public', hint: 'Listed on the offers board' },
+  { value: 'DIRECT', label: '🎯 Challenge', hint: 'Only the player you name can accept' },
+  { value: 'UNLISTED', label: '🔗 Invite link', hint: 'Only people with your link or code can join' },
+]
 
 interface CreateDuelModalProps {
   isOpen: boolean
   onClose: () => void
-  onCreate: (stake: { type: 'skin' | 'points'; skin?: Skin; amount?: number }) => void
+  onCreate: (request: CreateOrderRequest) => void
+  creating?: boolean
+  error?: string | null
+  balance?: number
 }
 
-export function CreateDuelModal({ isOpen, onClose, onCreate }: CreateDuelModalProps) {
-  const [stakeType, setStakeType] = useState<'skin' | 'points'>('points')
-  const [amount, setAmount] = useState(500)
-  const [selectedSkin, setSelectedSkin] = useState<Skin | null>(null)
+export function CreateDuelModal({ isOpen, onClose, onCreate, creating, error, balance }: CreateDuelModalProps) {
+  const [stakeType, setStakeType] = useState<'POINTS' | 'SKINS'>('POINTS')
+  const [selectedChip, setSelectedChip] = useState<ChipType>('HEART')
+  const [gamesCount, setGamesCount] = useState(2)
+  const [skinIds, setSkinIds] = useState<string[]>([])
+  const [skinsValue, setSkinsValue] = useState(0)
+  const [visibility, setVisibility] = useState<OfferVisibility>('PUBLIC')
+  const [opponentUsername, setOpponentUsername] = useState('')
 
   if (!isOpen) return null
 
+  const chip = CHIP_CONFIGS[selectedChip]
+  const pointsStake = chip.value * gamesCount
+
   const handleCreate = () => {
-    if (stakeType === 'points') {
-      onCreate({ type: 'points', amount })
-    } else if (selectedSkin) {
-      onCreate({ type: 'skin', skin: selectedSkin })
-    }
-    onClose()
+    onCreate({
+      chipType: selectedChip,
+      gamesPlanned: gamesCount,
+      stakeType,
+      ...(stakeType === 'SKINS' && { userSkinIds: skinIds }),
+      visibility,
+      ...(visibility === 'DIRECT' && { opponentUsername: opponentUsername.trim() }),
+    })
   }
 
   return (
@@ -32,7 +52,7 @@ export function CreateDuelModal({ isOpen, onClose, onCreate }: CreateDuelModalPr
       <div className="card-base max-w-lg w-full max-h-[90vh] overflow-y-auto animate-scaleIn">
         {/* Header */}
         <div className="flex items-center justify-between mb-6">
-          <h2 className="text-2xl font-bold text-white">Create Duel</h2>
+          <h2 className="text-2xl font-bold text-white">Create Offer</h2>
           <button
             onClick={onClose}
             className="w-10 h-10 rounded-xl bg-dark-600 flex items-center justify-center text-gray-400 hover:text-white transition-colors"
@@ -41,62 +61,58 @@ export function CreateDuelModal({ isOpen, onClose, onCreate }: CreateDuelModalPr
           </button>
         </div>
 
+        {/* Error */}
+        {error && (
+          <div className="mb-4 p-3 bg-accent-danger/20 border border-accent-danger rounded-lg text-accent-danger text-sm">
+            {error}
+          </div>
+        )}
+
         {/* Stake Type Toggle */}
         <div className="flex gap-2 p-1 bg-dark-700 rounded-xl mb-6">
           <button
-            onClick={() => setStakeType('points')}
+            onClick={() => setStakeType('POINTS')}
             className={clsx(
               'flex-1 py-3 rounded-lg font-medium transition-all',
-              stakeType === 'points'
+              stakeType === 'POINTS'
                 ? 'bg-accent-primary text-white'
                 : 'text-gray-400 hover:text-white'
             )}
           >
-            💎 Points
+            💎 Chips
           </button>
           <button
-            onClick={() => setStakeType('skin')}
+            onClick={() => setStakeType('SKINS')}
             className={clsx(
               'flex-1 py-3 rounded-lg font-medium transition-all',
-              stakeType === 'skin'
+              stakeType === 'SKINS'
                 ? 'bg-accent-primary text-white'
                 : 'text-gray-400 hover:text-white'
             )}
           >
-            🎮 Skin
+            🎮 Skins
           </button>
         </div>
 
-        {/* Points Stake */}
-        {stakeType === 'points' && (
-          <div className="space-y-4 mb-6">
-            <label className="block">
-              <span className="text-sm text-gray-400 mb-2 block">Stake Amount</span>
-              <input
-                type="number"
-                value={amount}
-                onChange={(e) => setAmount(Number(e.target.value))}
-                min={100}
-                max={10000}
-                step={100}
-                className="input-base text-2xl font-bold text-center"
-              />
-            </label>
-
-            {/* Quick amounts */}
-            <div className="flex gap-2">
-              {[100, 500, 1000, 2500, 5000].map((val) => (
+        {/* Chip Stake */}
+        {stakeType === 'POINTS' && (
+          <div className="mb-6">
+            <span className="text-sm text-gray-400 mb-3 block">Select Chip Type</span>
+            <div className="grid grid-cols-2 gap-3">
+              {CHIPS.map((c) => (
                 <button
-                  key={val}
-                  onClick={() => setAmount(val)}
+                  key={c.type}
+                  onClick={() => setSelectedChip(c.type)}
                   className={clsx(
-                    'flex-1 py-2 rounded-lg text-sm font-medium transition-all',
-                    amount === val
-                      ? 'bg-accent-primary text-white'
-                      : 'bg-dark-600 text-gray-400 hover:text-white'
+                    'p-4 rounded-xl border-2 transition-all',
+                    selectedChip === c.type
+                      ? 'border-accent-primary bg-accent-primary/10'
+                      : 'border-dark-500 hover:border-dark-400'
                   )}
                 >
-                  {val >= 1000 ? `${val / 1000}K` : val}
+                  <div className="text-3xl mb-2">{c.emoji}</div>
+                  <div className="font-semibold text-white">{c.name}</div>
+                  <div className="text-sm text-gray-400">{c.value} pts</div>
                 </button>
               ))}
             </div>
@@ -104,46 +120,78 @@ export function CreateDuelModal({ isOpen, onClose, onCreate }: CreateDuelModalPr
         )}
 
         {/* Skin Stake */}
-        {stakeType === 'skin' && (
+        {stakeType === 'SKINS' && (
           <div className="mb-6">
-            <span className="text-sm text-gray-400 mb-3 block">Select Skin</span>
-            <div className="grid grid-cols-2 gap-3 max-h-64 overflow-y-auto pr-2">
-              {mockSkins.map((skin) => (
-                <button
-                  key={skin.id}
-                  onClick={() => setSelectedSkin(skin)}
-                  className={clsx(
-                    'p-3 rounded-xl border transition-all',
-                    rarityColors[skin.rarity],
-                    selectedSkin?.id === skin.id
-                      ? 'ring-2 ring-accent-primary scale-105'
-                      : 'hover:scale-102'
-                  )}
-                >
-                  <div className="w-full aspect-square rounded-lg bg-dark-700 mb-2 flex items-center justify-center text-2xl">
-                    🎮
-                  </div>
-                  <p className="font-medium text-white text-sm truncate">{skin.name}</p>
-                  <p className="text-xs text-gray-400">💎 {skin.value}</p>
-                </button>
-              ))}
-            </div>
+            <span className="text-sm text-gray-400 mb-3 block">
+              Select Skins (up to {CONSTANTS.MAX_STAKED_SKINS})
+            </span>
+            <SkinPicker
+              selected={skinIds}
+              maxSkins={CONSTANTS.MAX_STAKED_SKINS}
+              onChange={(ids, total) => {
+                setSkinIds(ids)
+                setSkinsValue(total)
+              }}
+            />
           </div>
         )}
 
-        {/* Duration */}
+        {/* Games Count */}
+        <div className="mb-6">
+          <span className="text-sm text-gray-400 mb-3 block">
+            Number of Games (min {CONSTANTS.MIN_GAMES_PLANNED})
+          </span>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => setGamesCount(Math.max(CONSTANTS.MIN_GAMES_PLANNED, gamesCount - 1))}
+              className="w-12 h-12 rounded-xl bg-dark-600 text-white text-xl hover:bg-dark-500"
+            >
+              -
+            </button>
+            <div className="flex-1 text-center">
+              <span className="text-3xl font-bold text-white">{gamesCount}</span>
+              <span className="text-gray-400 ml-2">games</span>
+            </div>
+            <button
+              onClick={() => setGamesCount(Math.min(CONSTANTS.MAX_GAMES_PLANNED, gamesCount + 1))}
+              className="w-12 h-12 rounded-xl bg-dark-600 text-white text-xl hover:bg-dark-500"
+            >
+              +
+            </button>
+          </div>
+        </div>
+
+        {/* Who Can Join */}
         <div className="mb-6">
-          <span className="text-sm text-gray-400 mb-2 block">Duel Duration</span>
-          <div className="flex gap-2">
-            {['1 min', '3 min', '5 min', '10 min'].map((duration) => (
+          <span className="text-sm text-gray-400 mb-3 block">Who can join</span>
+          <div className="grid grid-cols-3 gap-2">
+            {VISIBILITY_OPTIONS.map((option) => (
               <button
-                key={duration}
-                className="flex-1 py-2 px-3 rounded-lg bg-dark-600 text-sm text-gray-400 hover:text-white hover:bg-dark-500 transition-all"
+                key={option.value}
+                onClick={() => setVisibility(option.value)}
+                className={clsx(
+                  'py-2 px-3 rounded-xl border-2 text-sm font-medium transition-all',
+                  visibility === option.value
+                    ? 'border-accent-primary bg-accent-primary/10 text-white'
+                    : 'border-dark-500 text-gray-400 hover:border-dark-400'
+                )}
               >
-                {duration}
+                {option.label}
               </button>
             ))}
           </div>
+          <p className="text-xs text-gray-500 mt-2">
+            {VISIBILITY_OPTIONS.find(o => o.value === visibility)?.hint}
+          </p>
+          {visibility === 'DIRECT' && (
+            <input
+              type="text"
+              value={opponentUsername}
+              onChange={(e) => setOpponentUsername(e.target.value)}
+              placeholder="Opponent username"
+              className="input-base mt-3"
+            />
+          )}
         </div>
 
         {/* Summary */}
@@ -151,39 +199,49 @@ export function CreateDuelModal({ isOpen, onClose, onCreate }: CreateDuelModalPr
           <div className="flex items-center justify-between mb-2">
             <span className="text-gray-400">Your Stake</span>
             <span className="font-bold text-white">
-              {stakeType === 'points' 
-                ? `💎 ${amount.toLocaleString()}`
-                : selectedSkin ? `🎮 ${selectedSkin.name}` : 'Select a skin'
+              {stakeType === 'POINTS'
+                ? `${chip.emoji} ${chip.value} pts x ${gamesCount}`
+                : skinIds.length > 0 ? `🎮 ${skinIds.length} skin${skinIds.length > 1 ? 's' : ''}` : 'Select skins'
               }
             </span>
           </div>
-          <div className="flex items-center justify-between">
-            <span className="text-gray-400">Potential Win</span>
-            <span className="font-bold text-accent-success">
-              {stakeType === 'points'
-                ? `💎 ${(amount * 2).toLocaleString()}`
-                : selectedSkin ? `💎 ${(selectedSkin.value * 2).toLocaleString()}` : '-'
-              }
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-gray-400">Stake Value</span>
+            <span className="font-bold text-accent-warning">
+              💎 {stakeType === 'POINTS' ? pointsStake : skinsValue} pts
             </span>
           </div>
+          {stakeType === 'SKINS' && skinsValue > 0 && (
+            <p className="text-xs text-gray-500 mb-2">
+              Opponents stake skins within {Math.round(CONSTANTS.SKIN_STAKE_TOLERANCE * 100)}% of this value, or {skinsValue} pts.
+            </p>
+          )}
+          {balance !== undefined && (
+            <div className="flex items-center justify-between pt-2 border-t border-dark-600">
+              <span className="text-gray-400">Your balance</span>
+              <span className="text-white">{balance} pts</span>
+            </div>
+          )}
         </div>
 
         {/* Actions */}
         <div className="flex gap-3">
-          <button onClick={onClose} className="flex-1 btn-secondary">
+          <button onClick={onClose} className="flex-1 btn-secondary" disabled={creating}>
             Cancel
           </button>
-          <button 
+          <button
             onClick={handleCreate}
-            disabled={stakeType === 'skin' && !selectedSkin}
+            disabled={
+              creating
+              || (stakeType === 'SKINS' && skinIds.length === 0)
+              || (visibility === 'DIRECT' && !opponentUsername.trim())
+            }
             className="flex-1 btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            ⚔️ Create Duel
+            {creating ? 'Creating...' : visibility === 'DIRECT' ? '⚔️ Send Challenge' : '⚔️ Create Offer'}
           </button>
         </div>
       </div>
     </div>
   )
 }
-
-
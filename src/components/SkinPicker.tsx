@@ -0,0 +1,80 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { rarityColors } from '@/data/mock'
+import { clsx } from 'clsx'
+
+export interface StakeSkin {
+  userSkinId: string
+  name: string
+  rarity: string
+  imageUrl: string | null
+  pointsValue: number
+}
+
+interface SkinPickerProps {
+  selected: string[]
+  onChange: (userSkinIds: string[], totalValue: number) => void
+  maxSkins?: number
+}
+
+/**
+ * Multi-select of the current user's skins that can be staked
+ */
+export function SkinPicker({ selected, onChange, maxSkins = 10 }: SkinPickerProps) {
+  const [skins, setSkins] = useState<StakeSkin[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetch('/api/skins/stakeable')
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) setSkins(data.data)
+      })
+      .catch(err => console.error('Error loading skins:', err))
+      .finally(() => setLoading(false))
+  }, [])
+
+  const toggle = (userSkinId: string) => {
+    const next = selected.includes(userSkinId)
+      ? selected.filter(id => id !== userSkinId)
+      : selected.length < maxSkins ? [...selected, userSkinId] : selected
+
+    const total = skins
+      .filter(s => next.includes(s.userSkinId))
+      .reduce((sum, s) => sum + s.pointsValue, 0)
+    onChange(next, total)
+  }
+
+  if (loading) {
+    return <p className="text-sm text-gray-400 py-4 text-center">Loading your skins...</p>
+  }
+
+  if (skins.length === 0) {
+    return <p className="text-sm text-gray-400 py-4 text-center">You have no skins to stake</p>
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-3 max-h-64 overflow-y-auto pr-2">
+      {skins.map((skin) => (
+        <button
+          key={skin.userSkinId}
+          onClick={() => toggle(skin.userSkinId)}
+          className={clsx(
+            'p-3 rounded-xl border transition-all',
+            rarityColors[skin.rarity.toLowerCase()],
+            selected.includes(skin.userSkinId)
+              ? 'ring-2 ring-accent-primary scale-105'
+              : 'hover:scale-102'
+          )}
+        >
+          <div className="w-full aspect-square rounded-lg bg-dark-700 mb-2 flex items-center justify-center text-2xl">
+            🎮
+          </div>
+          <p className="font-medium text-white text-sm truncate">{skin.name}</p>
+          <p className="text-xs text-gray-400">💎 {skin.pointsValue}</p>
+        </button>
+      ))}
+    </div>
+  )
+}
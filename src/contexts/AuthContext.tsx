@@ -22,9 +22,15 @@ interface UserStats {
   reliabilityPercent: number
 }
 
+interface UserBalance {
+  available: number
+  lockedInDuels: number
+}
+
 interface AuthContextType {
   user: User | null
   stats: UserStats | null
+  balance: UserBalance | null
   isLoading: boolean
   isAuthenticated: boolean
   login: (email: string, password: string) => Promise<{ success: boolean; error?: string }>
@@ -42,6 +48,7 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined)
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null)
   const [stats, setStats] = useState<UserStats | null>(null)
+  const [balance, setBalance] = useState<UserBalance | null>(null)
   const [isLoading, setIsLoading] = useState(true)
 
   // Fetch current user on mount
@@ -53,14 +60,17 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       if (data.success) {
         setUser(data.data.user)
         setStats(data.data.stats)
+        setBalance(data.data.balance)
       } else {
         setUser(null)
         setStats(null)
+        setBalance(null)
       }
     } catch (error) {
       console.error('Error fetching user:', error)
       setUser(null)
       setStats(null)
+      setBalance(null)
     } finally {
       setIsLoading(false)
     }
@@ -127,6 +137,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     } finally {
       setUser(null)
       setStats(null)
+      setBalance(null)
     }
   }
 
@@ -168,6 +179,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         // User will be logged out
         setUser(null)
         setStats(null)
+        setBalance(null)
         return { success: true }
       }
 
@@ -183,6 +195,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       value={{
         user,
         stats,
+        balance,
         isLoading,
         isAuthenticated: !!user,
         login,
@@ -198,6 +211,39 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   )
 }
 
+// Helpers
+
+/**
+ * Money-moving request with an Idempotency-Key header
+ * A network error is retried once with the same key, so the server never runs it twice.
+ */
+export async function idempotentRequest(url: string, method: 'POST' | 'DELETE', body?: unknown): Promise<Response> {
+  const key = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+
+  const send = () => fetch(url, {
+    method,
+    headers: body === undefined
+      ? { 'Idempotency-Key': key }
+      : { 'Content-Type': 'application/json', 'Idempotency-Key': key },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+
+  try {
+    return await send()
+  } catch {
+    return send()
+  }
+}
+
+/**
+ * POST JSON with an Idempotency-Key header
+ */
+export function idempotentPost(url: string, body: unknown): Promise<Response> {
+  return idempotentRequest(url, 'POST', body)
+}
+
 // Hook
 export function useAuth() {
   const context = useContext(AuthContext)
@@ -0,0 +1,11 @@
+/**
+ * Server startup hooks
+ * Refuses to start in production on the development platform secret
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return
+
+  const { KeyringService } = await import('@/server/services/keyringService')
+  await KeyringService.assertProductionReady()
+}
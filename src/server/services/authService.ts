@@ -6,6 +6,13 @@
 
 import prisma from '@/lib/prisma'
 import { UserDto, TransactionType } from '../types/duel.types'
+import {
+  LedgerService,
+  InsufficientBalanceError,
+  ISSUANCE_ACCOUNT,
+  VAULT_ACCOUNT,
+  userAccount,
+} from './ledgerService'
 
 // ============================================
 // TYPES
@@ -146,33 +153,35 @@ export class AuthService {
       const token = generateToken()
       const expiresAt = new Date(Date.now() + SESSION_DURATION_MS)
       
-      // Create user and session in transaction
-      const user = await prisma.user.create({
-        data: {
-          username,
-          email: email.toLowerCase(),
-          passwordHash,
-          pointsBalance: INITIAL_BALANCE,
-          totalDeals: 0,
-          completedDeals: 0,
-          reliabilityPercent: 100.0,
-          sessions: {
-            create: {
-              token,
-              expiresAt,
+      // Create user and session, then issue the welcome bonus through the ledger
+      const user = await prisma.$transaction(async (tx) => {
+        const created = await tx.user.create({
+          data: {
+            username,
+            email: email.toLowerCase(),
+            passwordHash,
+            pointsBalance: 0,
+            totalDeals: 0,
+            completedDeals: 0,
+            reliabilityPercent: 100.0,
+            sessions: {
+              create: {
+                token,
+                expiresAt,
+              }
             }
           }
-        }
-      })
+        })
 
-      // Record initial balance transaction
-      await prisma.transaction.create({
-        data: {
-          userId: user.id,
+        await LedgerService.transfer(tx, {
+          from: ISSUANCE_ACCOUNT,
+          to: userAccount(created.id),
+          amount: INITIAL_BALANCE,
           type: 'INITIAL_BALANCE',
-          amountPoints: INITIAL_BALANCE,
           description: 'Welcome bonus',
-        }
+        })
+
+        return tx.user.findUniqueOrThrow({ where: { id: created.id } })
       })
 
       return {
@@ -465,31 +474,33 @@ export class AuthService {
         return { success: false, error: 'User not found' }
       }
 
-      const newBalance = user.pointsBalance + amount
-      if (newBalance < 0) {
-        return { success: false, error: 'Insufficient balance' }
+      if (amount === 0) {
+        return { success: true, newBalance: user.pointsBalance }
       }
 
-      await prisma.$transaction([
-        prisma.user.update({
-          where: { id: userId },
-          data: { pointsBalance: newBalance }
-        }),
-        prisma.transaction.create({
-          data: {
-            userId,
-            type,
-            amountPoints: amount,
-            description,
-          }
+      // Penalties and donations go to the platform vault, everything else is issued/retired
+      const counterparty = type === 'PENALTY' || type === 'DONATION' ? VAULT_ACCOUNT : ISSUANCE_ACCOUNT
+
+      const updated = await prisma.$transaction(async (tx) => {
+        await LedgerService.transfer(tx, {
+          from: amount > 0 ? counterparty : userAccount(userId),
+          to: amount > 0 ? userAccount(userId) : counterparty,
+          amount: Math.abs(amount),
+          type,
+          description,
         })
-      ])
+
+        return tx.user.findUniqueOrThrow({ where: { id: userId } })
+      })
 
       return {
         success: true,
-        newBalance,
+        newBalance: updated.pointsBalance,
       }
     } catch (error) {
+      if (error instanceof InsufficientBalanceError) {
+        return { success: false, error: 'Insufficient balance' }
+      }
       console.error('Update balance error:', error)
       return { success: false, error: 'Failed to update balance' }
     }
@@ -1,350 +1,902 @@
 /**
  * Duel Game Service
- * Handles individual game logic within P2P duels
+ * Handles individual game logic within P2P duels - DuelGame + DuelRoundProof in the database
+ *
+ * Flow of a game (creator = player A, opponent = player B):
+ * 1. Game is created with a commit deadline (GAME_TIMEOUT_MS). Games after the first
+ *    start in AWAITING_READY and open once both players are ready (READY_TIMEOUT_MS)
+ * 2. Both players commit SHA256("number:nonce"), which opens the reveal window
+ * 3. Both reveal, or the reveal window closes → the game is resolved, gamesPlayed++
+ * 4. The next game of the series is created, or the match is completed after the last one
+ *
+ * Used by both /api/duel/* and /api/p2p/games/*.
  */
 
-import { 
-  GameResult, 
-  DuelGameDto, 
+import prisma from '@/lib/prisma'
+import { DuelGame, DuelGameStatus, DuelMatch, DuelMatchStatus, DuelRoundProof, Prisma } from '@prisma/client'
+import {
+  GameResult,
+  DuelGameDto,
   UserSummary,
   FairnessProof,
-  CONSTANTS 
+  CONSTANTS
 } from '../types'
-import { 
-  determineWinner, 
+import { DuelSeriesDto } from '../types/duel.types'
+import {
+  resolveCommittedRound,
   calculateTimeSlot,
-  DuelRoundParams 
+  validateCommitment,
+  validateNonce,
+  validatePlayerNumber,
+  verifyCommitment,
+  VerificationData,
 } from './winnerDetermination'
-import { P2POrderService } from './p2pOrderService'
+import { DuelResultService } from './duelResultService'
+import { PenaltyService } from './penaltyService'
+import { KeyringService } from './keyringService'
 import { ReliabilityService } from './reliabilityService'
-
-// In-memory store (replace with Prisma)
-interface DuelGameRecord {
-  id: string
-  orderId: string
-  gameIndex: number
-  playerAId: string
-  playerAUsername: string
-  playerBId: string
-  playerBUsername: string
-  result: GameResult
-  winnerId: string | null
-  
-  // Randomness (new system)
-  timeSlot: number | null
-  seedSlice: string | null
-  randomNumber: number | null
-  
-  // Player inputs (numbers 0-999999)
-  playerANumber: number | null
-  playerBNumber: number | null
-  playerADistance: number | null
-  playerBDistance: number | null
-  playerASubmittedAt: Date | null
-  playerBSubmittedAt: Date | null
-  
-  // Timing
-  deadline: Date | null
-  createdAt: Date
-  startedAt: Date | null
-  completedAt: Date | null
+import { ServerSeedService } from './serverSeedService'
+import { RoundProofService } from './roundProofService'
+import { DuelStateMachine, IllegalTransitionError } from './duelStateMachine'
+import { RealtimeService } from './realtimeService'
+
+type MatchPlayers = Pick<DuelMatch, 'creatorUserId' | 'opponentUserId'>
+
+const RESOLVED_STATUSES: DuelGameStatus[] = [DuelGameStatus.FINISHED, DuelGameStatus.FORFEITED]
+const OPEN_STATUSES: DuelGameStatus[] = [DuelGameStatus.AWAITING_READY, DuelGameStatus.IN_PROGRESS]
+
+export interface GameState {
+  game: DuelGame
+  proof: DuelRoundProof
+  /** Set once the game is FINISHED (rebuilt from the stored proof on later reads) */
+  verification: VerificationData | null
+  /** Players who did not commit or reveal in time */
+  forfeitedUserIds: string[]
 }
 
-const gamesStore: Map<string, DuelGameRecord> = new Map()
-
 export class DuelGameService {
   /**
-   * Create a new game in the duel series
+   * Get a game of the match, creating it if needed
+   * awaitReady = create it in AWAITING_READY with a ready deadline instead of open for commits
+   */
+  static async getOrCreateGame(
+    match: Pick<DuelMatch, 'id' | 'serverSeedHash'>,
+    roundIndex: number,
+    awaitReady: boolean = false
+  ): Promise<DuelGame> {
+    const existing = await prisma.duelGame.findUnique({
+      where: { matchId_roundIndex: { matchId: match.id, roundIndex } },
+    })
+    if (existing) return existing
+
+    const now = new Date()
+
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const game = await tx.duelGame.create({
+          data: awaitReady
+            ? {
+                matchId: match.id,
+                roundIndex,
+                status: DuelGameStatus.AWAITING_READY,
+                roundHashCommit: match.serverSeedHash,
+                readyDeadline: new Date(now.getTime() + CONSTANTS.READY_TIMEOUT_MS),
+              }
+            : {
+                matchId: match.id,
+                roundIndex,
+                status: DuelGameStatus.IN_PROGRESS,
+                roundHashCommit: match.serverSeedHash,
+                startedAt: now,
+                commitDeadline: new Date(now.getTime() + CONSTANTS.GAME_TIMEOUT_MS),
+              },
+        })
+
+        await DuelStateMachine.recordCreated(tx, 'GAME', game.id, game.status, { reason: `round ${roundIndex}` })
+        return game
+      })
+    } catch (error) {
+      // Both players may open the round at the same time
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return prisma.duelGame.findUniqueOrThrow({
+          where: { matchId_roundIndex: { matchId: match.id, roundIndex } },
+        })
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Create the next game of the series if one is due
+   * Returns the open game (in progress or awaiting ready), or null once all planned games are resolved
    */
-  static async createGame(
-    orderId: string,
-    gameIndex: number,
-    playerAId: string,
-    playerAUsername: string,
-    playerBId: string,
-    playerBUsername: string
-  ): Promise<DuelGameDto> {
-    const deadline = new Date(Date.now() + CONSTANTS.GAME_TIMEOUT_MS)
-
-    const game: DuelGameRecord = {
-      id: generateId(),
-      orderId,
-      gameIndex,
-      playerAId,
-      playerAUsername,
-      playerBId,
-      playerBUsername,
-      result: 'NOT_PLAYED',
-      winnerId: null,
-      
-      // Randomness will be calculated when both players submit
-      timeSlot: null,
-      seedSlice: null,
-      randomNumber: null,
-      
-      playerANumber: null,
-      playerBNumber: null,
-      playerADistance: null,
-      playerBDistance: null,
-      playerASubmittedAt: null,
-      playerBSubmittedAt: null,
-      
-      deadline,
-      createdAt: new Date(),
-      startedAt: new Date(),
-      completedAt: null,
-    }
-
-    gamesStore.set(game.id, game)
-
-    return this.toDto(game, false)
+  static async startNextGame(matchId: string): Promise<DuelGame | null> {
+    const match = await prisma.duelMatch.findUnique({
+      where: { id: matchId },
+      include: { games: { orderBy: { roundIndex: 'asc' } } },
+    })
+
+    if (!match || match.status !== DuelMatchStatus.IN_PROGRESS) return null
+
+    const current = match.games.find(g => OPEN_STATUSES.includes(g.status))
+    if (current) return current
+
+    const resolved = match.games.filter(g => RESOLVED_STATUSES.includes(g.status)).length
+    if (resolved >= match.gamesPlanned) return null
+
+    // Rounds are numbered from 1
+    const last = match.games[match.games.length - 1]
+    const roundIndex = last ? last.roundIndex + 1 : 1
+
+    console.log(`[DuelGame] Starting game ${roundIndex} of match ${matchId}`)
+    // Every round after the first starts with a ready check
+    return this.getOrCreateGame(match, roundIndex, roundIndex > 1)
+  }
+
+  /**
+   * Mark a player ready for a game in AWAITING_READY
+   * The second ready opens the game for commits with its own deadline.
+   */
+  static async markReady(
+    gameId: string,
+    userId: string
+  ): Promise<{ success: boolean; game?: DuelGame; error?: string }> {
+    const loaded = await this.loadGame(gameId)
+    if (!loaded) {
+      return { success: false, error: 'Game not found' }
+    }
+
+    const { game, match } = loaded
+    const isCreator = match.creatorUserId === userId
+    if (!isCreator && match.opponentUserId !== userId) {
+      return { success: false, error: 'Player not in this game' }
+    }
+
+    if (game.status !== DuelGameStatus.AWAITING_READY) {
+      return { success: true, game }
+    }
+
+    if (game.readyDeadline && new Date() > game.readyDeadline) {
+      await this.resolveIfReady(gameId)
+      return { success: false, error: 'Ready deadline expired' }
+    }
+
+    await prisma.duelGame.updateMany({
+      where: { id: gameId, status: DuelGameStatus.AWAITING_READY },
+      data: isCreator ? { creatorReady: true } : { opponentReady: true },
+    })
+
+    await RealtimeService.publishDuel(match.offerId, 'player_ready', { roundIndex: game.roundIndex, userId })
+
+    // Both flags are read after commit, so of two players readying at once the later one opens the game
+    const updated = await prisma.duelGame.findUniqueOrThrow({ where: { id: gameId } })
+    if (updated.status !== DuelGameStatus.AWAITING_READY || !updated.creatorReady || !updated.opponentReady) {
+      return { success: true, game: updated }
+    }
+
+    try {
+      const now = new Date()
+      const opened = await prisma.$transaction(tx =>
+        DuelStateMachine.transitionGame(tx, gameId, DuelGameStatus.IN_PROGRESS, {
+          from: [DuelGameStatus.AWAITING_READY],
+          data: {
+            startedAt: now,
+            commitDeadline: new Date(now.getTime() + CONSTANTS.GAME_TIMEOUT_MS),
+          },
+          actorUserId: userId,
+          reason: 'both players ready',
+        })
+      )
+      console.log(`[DuelGame] Game ${gameId} opened, both players ready`)
+      await RealtimeService.publishDuel(match.offerId, 'round_opened', {
+        roundIndex: opened.roundIndex,
+        commitDeadline: opened.commitDeadline?.toISOString() ?? null,
+      })
+      return { success: true, game: opened }
+    } catch (error) {
+      if (error instanceof IllegalTransitionError) {
+        return { success: true, game: await prisma.duelGame.findUniqueOrThrow({ where: { id: gameId } }) }
+      }
+      throw error
+    }
   }
 
   /**
-   * Submit player number (0-999999)
+   * Commit to a number: commitment = SHA256("number:nonce")
+   * Final once made. When both players committed, the reveal window opens.
    */
-  static async submitPlayerNumber(
+  static async commit(
     gameId: string,
-    playerId: string,
-    playerNumber: number
-  ): Promise<{ success: boolean; game?: DuelGameDto; error?: string }> {
-    const game = gamesStore.get(gameId)
+    userId: string,
+    commitment: string
+  ): Promise<{ success: boolean; state?: GameState; error?: string }> {
+    const commitmentCheck = validateCommitment(commitment)
+    if (!commitmentCheck.valid) {
+      return { success: false, error: commitmentCheck.error }
+    }
 
-    if (!game) {
+    const loaded = await this.loadGame(gameId)
+    if (!loaded) {
       return { success: false, error: 'Game not found' }
     }
 
-    if (game.result !== 'NOT_PLAYED') {
+    const { game, match } = loaded
+    const isCreator = match.creatorUserId === userId
+    if (!isCreator && match.opponentUserId !== userId) {
+      return { success: false, error: 'Player not in this game' }
+    }
+
+    if (game.status === DuelGameStatus.AWAITING_READY) {
+      return { success: false, error: 'Round has not started - both players must be ready' }
+    }
+
+    if (game.status !== DuelGameStatus.IN_PROGRESS) {
       return { success: false, error: 'Game already completed' }
     }
 
     // Check deadline
-    if (game.deadline && new Date() > game.deadline) {
-      await this.handleGameTimeout(gameId)
+    if (game.commitDeadline && new Date() > game.commitDeadline) {
+      await this.resolveIfReady(gameId)
       return { success: false, error: 'Game deadline expired' }
     }
 
-    // Validate number range
-    if (!Number.isInteger(playerNumber) || playerNumber < 0 || playerNumber > 999999) {
-      return { success: false, error: 'Invalid number (must be 0-999999)' }
+    const proof = await RoundProofService.getOrCreate(game, match)
+
+    const now = new Date()
+    const recorded = await prisma.duelRoundProof.updateMany({
+      where: isCreator
+        ? { id: proof.id, creatorCommitment: null }
+        : { id: proof.id, opponentCommitment: null },
+      data: isCreator
+        ? { creatorCommitment: commitment.toLowerCase(), creatorCommittedAt: now }
+        : { opponentCommitment: commitment.toLowerCase(), opponentCommittedAt: now },
+    })
+
+    if (recorded.count === 0) {
+      return { success: false, error: 'Already committed for this round' }
     }
 
-    // Record submission
-    if (playerId === game.playerAId) {
-      if (game.playerANumber !== null) {
-        return { success: false, error: 'Already submitted' }
-      }
-      game.playerANumber = playerNumber
-      game.playerASubmittedAt = new Date()
-    } else if (playerId === game.playerBId) {
-      if (game.playerBNumber !== null) {
-        return { success: false, error: 'Already submitted' }
-      }
-      game.playerBNumber = playerNumber
-      game.playerBSubmittedAt = new Date()
-    } else {
+    let updated = await prisma.duelRoundProof.findUniqueOrThrow({ where: { id: proof.id } })
+
+    // Both commitments locked - open the reveal window and fix the time slot (once)
+    if (updated.creatorCommitment && updated.opponentCommitment && !updated.revealDeadline) {
+      await prisma.duelRoundProof.updateMany({
+        where: { id: proof.id, revealDeadline: null },
+        data: {
+          revealDeadline: new Date(Date.now() + CONSTANTS.REVEAL_TIMEOUT_MS),
+          timeSlot: calculateTimeSlot(),
+        },
+      })
+      updated = await prisma.duelRoundProof.findUniqueOrThrow({ where: { id: proof.id } })
+    }
+
+    console.log(`[DuelGame] Commit for game ${gameId}: creator=${!!updated.creatorCommitment}, opponent=${!!updated.opponentCommitment}`)
+    await RealtimeService.publishDuel(match.offerId, 'player_committed', {
+      roundIndex: game.roundIndex,
+      userId,
+      bothCommitted: !!updated.creatorCommitment && !!updated.opponentCommitment,
+    })
+
+    return {
+      success: true,
+      state: { game, proof: updated, verification: null, forfeitedUserIds: [] },
+    }
+  }
+
+  /**
+   * Reveal a committed number
+   * Only accepted once both players committed, and only if it matches the commitment
+   */
+  static async reveal(
+    gameId: string,
+    userId: string,
+    playerNumber: number,
+    nonce: string
+  ): Promise<{ success: boolean; state?: GameState; error?: string }> {
+    const numberCheck = validatePlayerNumber(playerNumber)
+    if (!numberCheck.valid) {
+      return { success: false, error: numberCheck.error }
+    }
+
+    const nonceCheck = validateNonce(nonce)
+    if (!nonceCheck.valid) {
+      return { success: false, error: nonceCheck.error }
+    }
+
+    const loaded = await this.loadGame(gameId)
+    if (!loaded) {
+      return { success: false, error: 'Game not found' }
+    }
+
+    const { game, match } = loaded
+    const isCreator = match.creatorUserId === userId
+    if (!isCreator && match.opponentUserId !== userId) {
       return { success: false, error: 'Player not in this game' }
     }
 
-    gamesStore.set(gameId, game)
+    if (game.status !== DuelGameStatus.IN_PROGRESS) {
+      return { success: false, error: 'Game already completed' }
+    }
+
+    const proof = await RoundProofService.getOrCreate(game, match)
+
+    if (!proof.creatorCommitment || !proof.opponentCommitment) {
+      return { success: false, error: 'Waiting for both players to commit' }
+    }
+
+    if (proof.revealDeadline && new Date() > proof.revealDeadline) {
+      return { success: false, error: 'Reveal deadline expired' }
+    }
+
+    const alreadyRevealed = isCreator ? proof.creatorNumber !== null : proof.opponentNumber !== null
+    if (alreadyRevealed) {
+      return { success: false, error: 'Already revealed' }
+    }
 
-    // Check if both players submitted
-    if (game.playerANumber !== null && game.playerBNumber !== null) {
-      await this.resolveGame(gameId)
+    const commitment = isCreator ? proof.creatorCommitment : proof.opponentCommitment
+    if (!verifyCommitment(commitment, playerNumber, nonce)) {
+      console.warn(`[DuelGame] Mismatched reveal from user ${userId} for game ${gameId}`)
+      return { success: false, error: 'Reveal does not match your commitment' }
     }
 
-    const updatedGame = gamesStore.get(gameId)!
+    const now = new Date()
+    const recorded = await prisma.duelRoundProof.updateMany({
+      where: isCreator
+        ? { id: proof.id, creatorNumber: null }
+        : { id: proof.id, opponentNumber: null },
+      data: isCreator
+        ? { creatorNumber: playerNumber, creatorNonce: nonce.toLowerCase(), creatorRevealedAt: now }
+        : { opponentNumber: playerNumber, opponentNonce: nonce.toLowerCase(), opponentRevealedAt: now },
+    })
+
+    if (recorded.count === 0) {
+      return { success: false, error: 'Already revealed' }
+    }
+
+    const updated = await prisma.duelRoundProof.findUniqueOrThrow({ where: { id: proof.id } })
+    await RealtimeService.publishDuel(match.offerId, 'player_revealed', { roundIndex: game.roundIndex, userId })
+
     return {
       success: true,
-      game: this.toDto(updatedGame, updatedGame.result !== 'NOT_PLAYED'),
+      state: { game, proof: updated, verification: null, forfeitedUserIds: [] },
     }
   }
 
   /**
-   * Resolve game after both players submitted
-   * Uses new "Closest Number Wins" mechanic
+   * Current state of a game without resolving it
+   */
+  static async getState(gameId: string): Promise<GameState | null> {
+    const loaded = await this.loadGame(gameId)
+    if (!loaded) return null
+
+    const { game, match } = loaded
+    const proof = await RoundProofService.getOrCreate(game, match)
+
+    return this.toState(game, proof, match)
+  }
+
+  /**
+   * Resolve the game if it is due:
+   * - both revealed, or the reveal window closed → winner / reveal forfeit
+   * - commit deadline passed without both commitments → timeout
+   * - ready deadline passed before both players were ready → ready forfeit
+   *
+   * Exactly once: the IN_PROGRESS -> FINISHED/FORFEITED move is a conditional update,
+   * so of two concurrent callers one resolves and the other gets the stored result.
    */
-  static async resolveGame(gameId: string): Promise<void> {
-    const game = gamesStore.get(gameId)
-    if (!game || game.playerANumber === null || game.playerBNumber === null) return
+  static async resolveIfReady(gameId: string): Promise<GameState | null> {
+    const loaded = await this.loadGame(gameId)
+    if (!loaded) return null
+
+    const { game, match } = loaded
+
+    if (
+      game.status === DuelGameStatus.AWAITING_READY
+      && game.readyDeadline
+      && new Date() > game.readyDeadline
+    ) {
+      return this.handleReadyTimeout(game, match)
+    }
+
+    const proof = await RoundProofService.getOrCreate(game, match)
+
+    if (game.status !== DuelGameStatus.IN_PROGRESS) {
+      return this.toState(game, proof, match)
+    }
+
+    const now = new Date()
+    const bothCommitted = !!proof.creatorCommitment && !!proof.opponentCommitment
+    const bothRevealed = proof.creatorNumber !== null && proof.opponentNumber !== null
+    const revealExpired = !!proof.revealDeadline && now > proof.revealDeadline
+    const commitExpired = !bothCommitted && !!game.commitDeadline && now > game.commitDeadline
+
+    if (commitExpired) {
+      return this.handleGameTimeout(game, proof, match)
+    }
 
-    const timeSlot = calculateTimeSlot()
+    if (!bothCommitted || (!bothRevealed && !revealExpired)) {
+      return this.toState(game, proof, match)
+    }
+
+    // Time slot was fixed when both commitments locked (older rounds: now)
+    const timeSlot = proof.timeSlot ?? calculateTimeSlot()
+    const hmacDuelId = `${match.offerId}_round_${game.roundIndex}`
 
-    // Use new winner determination
-    const params: DuelRoundParams = {
-      duelId: `${game.orderId}_game_${game.gameIndex}`,
-      roundNumber: game.gameIndex,
+    const outcome = resolveCommittedRound({
+      duelId: hmacDuelId,
+      roundNumber: game.roundIndex,
       timeSlot,
       playerA: {
-        playerId: game.playerAId,
-        playerNumber: game.playerANumber,
+        playerId: match.creatorUserId,
+        commitment: proof.creatorCommitment!,
+        reveal: proof.creatorNumber !== null
+          ? { playerNumber: proof.creatorNumber, nonce: proof.creatorNonce! }
+          : null,
       },
       playerB: {
-        playerId: game.playerBId,
-        playerNumber: game.playerBNumber,
+        playerId: match.opponentUserId,
+        commitment: proof.opponentCommitment!,
+        reveal: proof.opponentNumber !== null
+          ? { playerNumber: proof.opponentNumber, nonce: proof.opponentNonce! }
+          : null,
       },
-    }
+      seeds: ServerSeedService.seedMaterial(match),
+      key: await KeyringService.getActiveKey(),
+    })
 
-    const result = determineWinner(params)
-
-    // Update game with results
-    game.timeSlot = timeSlot
-    game.seedSlice = result.verification.seedSlice
-    game.randomNumber = result.randomNumber
-    game.playerADistance = result.distanceA
-    game.playerBDistance = result.distanceB
-    
-    // Determine result
-    if (result.isDraw) {
-      game.result = 'DRAW'
-      game.winnerId = null
-    } else if (result.winnerIndex === 0) {
-      game.result = 'A_WINS'
-      game.winnerId = game.playerAId
+    let state: GameState
+
+    if (outcome.status === 'FORFEITED') {
+      console.log(`[DuelGame] Reveal forfeit in game ${gameId}: ${outcome.forfeitedPlayerIds.join(', ')}`)
+
+      const claimed = await this.claimResolution(game, match, async (tx) => [
+        await DuelStateMachine.transitionGame(tx, game.id, DuelGameStatus.FORFEITED, {
+          from: [DuelGameStatus.IN_PROGRESS],
+          data: { winnerUserId: outcome.winnerId, finishedAt: now },
+          reason: 'reveal deadline passed',
+        }),
+        await tx.duelRoundProof.update({
+          where: { id: proof.id },
+          data: { hmacDuelId, hmacRoundNumber: game.roundIndex, timeSlot, forfeited: true },
+        }),
+      ] as const, outcome.forfeitedPlayerIds)
+      if (!claimed) return this.getState(gameId)
+      const [updatedGame, updatedProof] = claimed
+
+      state = {
+        game: updatedGame,
+        proof: updatedProof,
+        verification: null,
+        forfeitedUserIds: outcome.forfeitedPlayerIds,
+      }
     } else {
-      game.result = 'B_WINS'
-      game.winnerId = game.playerBId
+      const result = outcome.result
+      const verification = result.verification
+
+      console.log(`[DuelGame] Game ${gameId} resolved: random=${result.randomNumber}, winner=${result.winnerId}`)
+
+      const claimed = await this.claimResolution(game, match, async (tx) => [
+        await DuelStateMachine.transitionGame(tx, game.id, DuelGameStatus.FINISHED, {
+          from: [DuelGameStatus.IN_PROGRESS],
+          data: { winnerUserId: result.winnerId, finishedAt: now },
+          reason: 'both revealed',
+        }),
+        await tx.duelRoundProof.update({
+          where: { id: proof.id },
+          data: {
+            hmacDuelId,
+            hmacRoundNumber: game.roundIndex,
+            timeSlot,
+            seedSlice: verification.seedSlice,
+            sampleIndex: verification.sampleIndex,
+            randomNumber: result.randomNumber,
+            creatorDistance: result.distanceA,
+            opponentDistance: result.distanceB,
+            algorithmVersion: verification.algorithmVersion,
+            keyVersion: verification.keyVersion,
+          },
+        }),
+      ] as const)
+      if (!claimed) return this.getState(gameId)
+      const [updatedGame, updatedProof] = claimed
+
+      state = { game: updatedGame, proof: updatedProof, verification, forfeitedUserIds: [] }
     }
-    
-    game.completedAt = new Date()
-
-    gamesStore.set(gameId, game)
 
-    // Update order progress
-    await P2POrderService.onGameCompleted(game.orderId, game.gameIndex)
+    await this.afterGameResolved(match.id)
+    return state
+  }
 
-    // Check if more games needed
-    const order = await P2POrderService.getOrder(game.orderId)
-    if (order && order.totalGamesPlayed < order.gamesPlanned) {
-      // Schedule next game
-      // In production, this would create the next game after a short delay
-    }
+  /**
+   * Handle game timeout (commit deadline passed)
+   * A player who did not commit forfeits; if neither did, the game has no winner
+   */
+  static async handleGameTimeout(
+    game: DuelGame,
+    proof: DuelRoundProof,
+    match: DuelMatch
+  ): Promise<GameState> {
+    const playerACommitted = !!proof.creatorCommitment
+    const playerBCommitted = !!proof.opponentCommitment
+
+    const forfeitedUserIds: string[] = []
+    if (!playerACommitted) forfeitedUserIds.push(match.creatorUserId)
+    if (!playerBCommitted) forfeitedUserIds.push(match.opponentUserId)
+
+    const winnerUserId = playerACommitted && !playerBCommitted
+      ? match.creatorUserId
+      : playerBCommitted && !playerACommitted
+        ? match.opponentUserId
+        : null
+
+    console.log(`[DuelGame] Game ${game.id} timed out, forfeited: ${forfeitedUserIds.join(', ')}`)
+
+    const claimed = await this.claimResolution(game, match, async (tx) => [
+      await DuelStateMachine.transitionGame(tx, game.id, DuelGameStatus.FORFEITED, {
+        from: [DuelGameStatus.IN_PROGRESS],
+        data: { winnerUserId, finishedAt: new Date() },
+        reason: 'commit deadline passed',
+      }),
+      await tx.duelRoundProof.update({
+        where: { id: proof.id },
+        data: { forfeited: true },
+      }),
+    ] as const, forfeitedUserIds)
+    if (!claimed) return (await this.getState(game.id))!
+    const [updatedGame, updatedProof] = claimed
+
+    await this.afterGameResolved(match.id)
+
+    return { game: updatedGame, proof: updatedProof, verification: null, forfeitedUserIds }
   }
 
   /**
-   * Handle game timeout
+   * Handle ready timeout (ready deadline passed before the game started)
+   * A player who did not get ready forfeits; if neither did, the game has no winner
    */
-  static async handleGameTimeout(gameId: string): Promise<void> {
-    const game = gamesStore.get(gameId)
-    if (!game) return
-
-    const playerASubmitted = game.playerANumber !== null
-    const playerBSubmitted = game.playerBNumber !== null
-
-    if (!playerASubmitted && !playerBSubmitted) {
-      // Both forfeited
-      game.result = 'NOT_PLAYED'
-      // Both lose stakes - transfer to system vault
-      // TODO: Transfer stakes to vault
-      
-      // Update reliability for both
-      await ReliabilityService.updateReliability(game.playerAId, 'DROPPED_BEFORE_MIN_GAMES')
-      await ReliabilityService.updateReliability(game.playerBId, 'DROPPED_BEFORE_MIN_GAMES')
-    } else if (!playerASubmitted) {
-      // Player A forfeited
-      game.result = 'FORFEITED_A'
-      game.winnerId = game.playerBId
-      await ReliabilityService.updateReliability(game.playerAId, 'DROPPED_BEFORE_MIN_GAMES')
-    } else if (!playerBSubmitted) {
-      // Player B forfeited
-      game.result = 'FORFEITED_B'
-      game.winnerId = game.playerAId
-      await ReliabilityService.updateReliability(game.playerBId, 'DROPPED_BEFORE_MIN_GAMES')
-    }
-
-    game.completedAt = new Date()
-    gamesStore.set(gameId, game)
-
-    // Update order
-    await P2POrderService.onGameCompleted(game.orderId, game.gameIndex)
+  static async handleReadyTimeout(game: DuelGame, match: DuelMatch): Promise<GameState> {
+    const forfeitedUserIds: string[] = []
+    if (!game.creatorReady) forfeitedUserIds.push(match.creatorUserId)
+    if (!game.opponentReady) forfeitedUserIds.push(match.opponentUserId)
+
+    const winnerUserId = game.creatorReady && !game.opponentReady
+      ? match.creatorUserId
+      : game.opponentReady && !game.creatorReady
+        ? match.opponentUserId
+        : null
+
+    console.log(`[DuelGame] Game ${game.id} ready check timed out, forfeited: ${forfeitedUserIds.join(', ')}`)
+
+    const proof = await RoundProofService.getOrCreate(game, match)
+    const claimed = await this.claimResolution(game, match, async (tx) => [
+      await DuelStateMachine.transitionGame(tx, game.id, DuelGameStatus.FORFEITED, {
+        from: [DuelGameStatus.AWAITING_READY],
+        data: { winnerUserId, finishedAt: new Date() },
+        reason: 'ready deadline passed',
+      }),
+      await tx.duelRoundProof.update({
+        where: { id: proof.id },
+        data: { forfeited: true },
+      }),
+    ] as const, forfeitedUserIds)
+    if (!claimed) return (await this.getState(game.id))!
+    const [updatedGame, updatedProof] = claimed
+
+    await this.afterGameResolved(match.id)
+
+    return { game: updatedGame, proof: updatedProof, verification: null, forfeitedUserIds }
   }
 
   /**
    * Get game by ID
    */
-  static async getGame(gameId: string, revealSecrets: boolean = false): Promise<DuelGameDto | null> {
-    const game = gamesStore.get(gameId)
-    return game ? this.toDto(game, revealSecrets) : null
+  static async getGame(gameId: string): Promise<DuelGameDto | null> {
+    const game = await prisma.duelGame.findUnique({
+      where: { id: gameId },
+      include: {
+        proof: true,
+        match: { include: { creator: true, opponent: true } },
+      },
+    })
+
+    return game ? this.toDto(game, game.proof, game.match) : null
   }
 
   /**
    * Get all games for an order
    */
   static async getGamesForOrder(orderId: string): Promise<DuelGameDto[]> {
-    const games: DuelGameDto[] = []
-    
-    gamesStore.forEach((game) => {
-      if (game.orderId === orderId) {
-        const revealSecrets = game.result !== 'NOT_PLAYED'
-        games.push(this.toDto(game, revealSecrets))
-      }
+    const match = await prisma.duelMatch.findFirst({
+      where: { offerId: orderId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        creator: true,
+        opponent: true,
+        games: { include: { proof: true }, orderBy: { roundIndex: 'asc' } },
+      },
+    })
+
+    if (!match) return []
+    return match.games.map(game => this.toDto(game, game.proof, match))
+  }
+
+  /**
+   * Score, current round and round history of a match
+   */
+  static async getSeries(matchId: string): Promise<DuelSeriesDto | null> {
+    const match = await prisma.duelMatch.findUnique({
+      where: { id: matchId },
+      include: { games: { include: { proof: true }, orderBy: { roundIndex: 'asc' } } },
     })
+    if (!match) return null
+
+    const resolved = match.games.filter(g => RESOLVED_STATUSES.includes(g.status))
+    const creatorWins = resolved.filter(g => g.winnerUserId === match.creatorUserId).length
+    const opponentWins = resolved.filter(g => g.winnerUserId === match.opponentUserId).length
+    const finished = match.status !== DuelMatchStatus.IN_PROGRESS || resolved.length >= match.gamesPlanned
+
+    // The next game may not exist yet if it has not been opened
+    const open = match.games.find(g => OPEN_STATUSES.includes(g.status))
+    const last = match.games[match.games.length - 1]
+    const currentRound = finished ? null : open?.roundIndex ?? (last ? last.roundIndex + 1 : 1)
 
-    return games.sort((a, b) => a.gameIndex - b.gameIndex)
+    return {
+      matchId: match.id,
+      status: match.status,
+      gamesPlanned: match.gamesPlanned,
+      gamesPlayed: match.gamesPlayed,
+      currentRound,
+      creatorWins,
+      opponentWins,
+      draws: resolved.length - creatorWins - opponentWins,
+      winnerId: match.winnerId,
+      finished,
+      payout: match.winningsPoints === null ? null : {
+        grossPoints: match.winningsPoints,
+        feePoints: match.feePoints ?? 0,
+        netPoints: match.winningsPoints - (match.feePoints ?? 0),
+      },
+      rounds: match.games.map(game => ({
+        ...RoundProofService.toDto(game.proof, game),
+        verification: RoundProofService.toVerificationData(game.proof, game, match),
+      })),
+    }
   }
 
   /**
-   * Check for timed out games (background job)
+   * Resolve games whose commit, reveal or ready deadline passed (background job)
    */
-  static async checkTimeouts(): Promise<void> {
+  static async checkTimeouts(): Promise<number> {
     const now = new Date()
-    
-    gamesStore.forEach(async (game) => {
-      if (
-        game.result === 'NOT_PLAYED' &&
-        game.deadline &&
-        now > game.deadline
-      ) {
-        await this.handleGameTimeout(game.id)
+
+    const due = await prisma.duelGame.findMany({
+      where: {
+        status: DuelGameStatus.IN_PROGRESS,
+        OR: [
+          { commitDeadline: { lt: now } },
+          { proof: { revealDeadline: { lt: now } } },
+        ],
+      },
+      select: { id: true },
+    })
+
+    let resolved = 0
+    for (const { id } of due) {
+      const state = await this.resolveIfReady(id)
+      if (state && state.game.status !== DuelGameStatus.IN_PROGRESS) resolved++
+    }
+
+    const unready = await prisma.duelGame.findMany({
+      where: { status: DuelGameStatus.AWAITING_READY, readyDeadline: { lt: now } },
+      include: { match: true },
+    })
+
+    for (const { match, ...game } of unready) {
+      const state = await this.handleReadyTimeout(game, match)
+      if (state.game.status === DuelGameStatus.FORFEITED) resolved++
+    }
+
+    return resolved
+  }
+
+  /**
+   * Pick up matches in progress with no open game (background job)
+   * Covers a crash between resolving a game and advancing the series.
+   */
+  static async advanceStalledMatches(): Promise<number> {
+    const stalled = await prisma.duelMatch.findMany({
+      where: {
+        status: DuelMatchStatus.IN_PROGRESS,
+        games: {
+          none: {
+            status: { in: [DuelGameStatus.PENDING, DuelGameStatus.AWAITING_READY, DuelGameStatus.IN_PROGRESS] },
+          },
+        },
+      },
+      select: { id: true },
+    })
+
+    for (const { id } of stalled) {
+      console.log(`[DuelGame] Match ${id} has no open game, advancing`)
+      await this.afterGameResolved(id)
+    }
+
+    return stalled.length
+  }
+
+  /**
+   * Advance the series after a game is resolved:
+   * start the next game, or complete and pay out the match after the last one.
+   * A forfeit can end the match early instead (see PenaltyService.decide).
+   */
+  private static async afterGameResolved(matchId: string): Promise<void> {
+    const match = await prisma.duelMatch.findUnique({ where: { id: matchId } })
+    if (!match) return
+
+    const resolvedGames = await prisma.duelGame.findMany({
+      where: { matchId, status: { in: RESOLVED_STATUSES } },
+      orderBy: { roundIndex: 'desc' },
+    })
+    const penalty = PenaltyService.decide(match, resolvedGames)
+
+    if (penalty?.action === 'BURN') {
+      await DuelResultService.abandonMatch(matchId)
+    } else if (penalty?.action === 'AWARD') {
+      await DuelResultService.forfeitMatch(matchId, penalty.winnerId, penalty.offenderIds[0])
+    } else if (resolvedGames.length < match.gamesPlanned) {
+      await this.startNextGame(matchId)
+    } else if (match.status === DuelMatchStatus.IN_PROGRESS) {
+      console.log(`[DuelGame] All ${match.gamesPlanned} games of match ${matchId} resolved, completing`)
+      await DuelResultService.completeMatch(matchId)
+    }
+
+    await ServerSeedService.revealIfMatchOver(matchId)
+  }
+
+  /**
+   * Run the resolving transaction and count the game towards the series
+   * Players who forfeited it are charged a dropout in the same transaction:
+   * once per match, and only while the game counts towards MIN_GAMES_REQUIRED.
+   * Returns null if another caller resolved the game first
+   */
+  private static async claimResolution<T>(
+    game: DuelGame,
+    match: DuelMatch,
+    resolve: (tx: Prisma.TransactionClient) => Promise<T>,
+    forfeitedUserIds: string[] = []
+  ): Promise<T | null> {
+    let resolved: T
+    try {
+      resolved = await prisma.$transaction(async (tx) => {
+        const result = await resolve(tx)
+        await tx.duelMatch.update({
+          where: { id: game.matchId },
+          data: { gamesPlayed: { increment: 1 } },
+        })
+
+        if (game.roundIndex <= CONSTANTS.MIN_GAMES_REQUIRED) {
+          for (const userId of forfeitedUserIds) {
+            await ReliabilityService.updateReliabilityOnce(userId, 'DROPPED_BEFORE_MIN_GAMES', match.id, tx)
+          }
+        }
+        return result
+      })
+    } catch (error) {
+      if (error instanceof IllegalTransitionError) {
+        console.log(`[DuelGame] Game ${game.id} already resolved by another request`)
+        return null
       }
+      throw error
+    }
+
+    await RealtimeService.publishDuel(match.offerId, 'round_resolved', { roundIndex: game.roundIndex })
+    return resolved
+  }
+
+  /**
+   * State of a game from its stored records
+   */
+  private static toState(game: DuelGame, proof: DuelRoundProof, match: DuelMatch): GameState {
+    // A forfeited player is one who never got a number in (no commit or no reveal)
+    const forfeitedUserIds = game.status === DuelGameStatus.FORFEITED
+      ? [
+          ...(proof.creatorNumber === null ? [match.creatorUserId] : []),
+          ...(proof.opponentNumber === null ? [match.opponentUserId] : []),
+        ]
+      : []
+
+    return {
+      game,
+      proof,
+      verification: RoundProofService.toVerificationData(proof, game, match),
+      forfeitedUserIds,
+    }
+  }
+
+  /**
+   * Load a game with its match
+   */
+  private static async loadGame(gameId: string): Promise<{ game: DuelGame; match: DuelMatch } | null> {
+    const game = await prisma.duelGame.findUnique({
+      where: { id: gameId },
+      include: { match: true },
     })
+    if (!game) return null
+
+    const { match, ...rest } = game
+    return { game: rest, match }
+  }
+
+  /**
+   * Game result from player A's (creator's) perspective
+   */
+  private static toResult(game: DuelGame, match: MatchPlayers): GameResult {
+    if (game.status === DuelGameStatus.FINISHED) {
+      if (game.winnerUserId === match.creatorUserId) return 'A_WINS'
+      if (game.winnerUserId === match.opponentUserId) return 'B_WINS'
+      return 'DRAW'
+    }
+
+    if (game.status === DuelGameStatus.FORFEITED) {
+      if (game.winnerUserId === match.creatorUserId) return 'FORFEITED_B'
+      if (game.winnerUserId === match.opponentUserId) return 'FORFEITED_A'
+    }
+
+    return 'NOT_PLAYED'
   }
 
   /**
    * Convert record to DTO
+   * Fairness data only once the game is resolved
    */
-  private static toDto(game: DuelGameRecord, revealSecrets: boolean): DuelGameDto {
+  private static toDto(
+    game: DuelGame,
+    proof: DuelRoundProof | null,
+    match: DuelMatch & {
+      creator: { id: string; username: string; totalDeals: number }
+      opponent: { id: string; username: string; totalDeals: number }
+    }
+  ): DuelGameDto {
     const playerA: UserSummary = {
-      id: game.playerAId,
-      username: game.playerAUsername,
+      id: match.creator.id,
+      username: match.creator.username,
       reliabilityCoefficient: 1.0,
-      totalDeals: 0,
+      totalDeals: match.creator.totalDeals,
     }
 
     const playerB: UserSummary = {
-      id: game.playerBId,
-      username: game.playerBUsername,
+      id: match.opponent.id,
+      username: match.opponent.username,
       reliabilityCoefficient: 1.0,
-      totalDeals: 0,
+      totalDeals: match.opponent.totalDeals,
     }
 
+    const result = this.toResult(game, match)
+
     let fairnessProof: FairnessProof | null = null
-    if (revealSecrets && game.seedSlice) {
+    if (RESOLVED_STATUSES.includes(game.status) && proof?.seedSlice) {
       fairnessProof = {
-        timeSlot: game.timeSlot || 0,
-        seedSlice: game.seedSlice,
-        winnerIndex: game.result === 'A_WINS' ? 0 : game.result === 'B_WINS' ? 1 : -1,
-        formula: `Random: ${game.randomNumber}, Distance A: ${game.playerADistance}, Distance B: ${game.playerBDistance}`,
+        timeSlot: proof.timeSlot ?? 0,
+        seedSlice: proof.seedSlice,
+        keyVersion: proof.keyVersion ?? 0,
+        algorithmVersion: proof.algorithmVersion === 2 ? 2 : 1,
+        winnerIndex: result === 'A_WINS' ? 0 : result === 'B_WINS' ? 1 : -1,
+        formula: `Random: ${proof.randomNumber}, Distance A: ${proof.creatorDistance}, Distance B: ${proof.opponentDistance}`,
       }
     }
 
     return {
       id: game.id,
-      orderId: game.orderId,
-      gameIndex: game.gameIndex,
+      orderId: match.offerId,
+      gameIndex: game.roundIndex,
       playerA,
       playerB,
-      result: game.result,
-      winnerId: game.winnerId,
-      deadline: game.deadline?.toISOString() ?? null,
+      result,
+      winnerId: game.winnerUserId,
+      deadline: game.commitDeadline?.toISOString() ?? null,
       createdAt: game.createdAt.toISOString(),
-      completedAt: game.completedAt?.toISOString() ?? null,
+      completedAt: game.finishedAt?.toISOString() ?? null,
       fairnessProof,
     }
   }
 }
-
-// Helper function
-function generateId(): string {
-  return `game_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
-}
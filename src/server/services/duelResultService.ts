@@ -4,7 +4,13 @@
  */
 
 import prisma from '@/lib/prisma'
-import { TransactionType } from '@prisma/client'
+import { DuelGameStatus, DuelMatchStatus, TransactionReason } from '@prisma/client'
+import { DuelStateMachine, IllegalTransitionError } from './duelStateMachine'
+import { EscrowService } from './escrowService'
+import { PenaltyService } from './penaltyService'
+import { ReliabilityService } from './reliabilityService'
+import { RewardService } from './rewardService'
+import { RealtimeService } from './realtimeService'
 
 interface GameResult {
   matchId: string
@@ -29,6 +35,7 @@ interface MatchResult {
   winnerGames: number
   loserGames: number
   draws: number
+  /** Net of the platform rake */
   totalPointsWon: number
 }
 
@@ -41,19 +48,41 @@ export class DuelResultService {
 
     await prisma.$transaction(async (tx) => {
       // Update the game record
-      await tx.duelGame.update({
+      const game = await tx.duelGame.findUniqueOrThrow({
         where: {
           matchId_roundIndex: {
             matchId,
             roundIndex,
           },
         },
+        include: { match: true },
+      })
+
+      await DuelStateMachine.transitionGame(tx, game.id, DuelGameStatus.FINISHED, {
         data: {
-          status: 'FINISHED',
           winnerUserId: isDraw ? null : winnerId,
-          roundSecret: `${seedSlice}:${randomNumber}:${winnerNumber}:${loserNumber}`,
           finishedAt: new Date(),
         },
+        reason: 'result recorded',
+      })
+
+      // Persist fairness proof (creator = player A)
+      const creatorIsWinner = game.match.creatorUserId === winnerId
+      const creatorNumber = creatorIsWinner ? winnerNumber : loserNumber
+      const opponentNumber = creatorIsWinner ? loserNumber : winnerNumber
+      const proof = {
+        seedSlice,
+        randomNumber,
+        creatorNumber,
+        opponentNumber,
+        creatorDistance: Math.abs(creatorNumber - randomNumber),
+        opponentDistance: Math.abs(opponentNumber - randomNumber),
+      }
+
+      await tx.duelRoundProof.upsert({
+        where: { gameId: game.id },
+        create: { gameId: game.id, ...proof },
+        update: proof,
       })
 
       // Update match games played count
@@ -68,7 +97,8 @@ export class DuelResultService {
 
   /**
    * Complete a match and award prizes
-   * Called after minimum 2 games are completed
+   * Called once every planned game is resolved; runs once per match
+   * (returns null if the match is already closed)
    */
   static async completeMatch(matchId: string): Promise<MatchResult | null> {
     const match = await prisma.duelMatch.findUnique({
@@ -82,7 +112,7 @@ export class DuelResultService {
       },
     })
 
-    if (!match) return null
+    if (!match || match.status !== DuelMatchStatus.IN_PROGRESS) return null
 
     // Count wins for each player
     let creatorWins = 0
@@ -112,110 +142,166 @@ export class DuelResultService {
     }
     // If equal, it's a draw - no winner
 
-    const pointsPerGame = match.offer.chipPointsValue
-    const totalPointsAtStake = pointsPerGame * match.gamesPlayed
-
-    // Award prizes in a transaction
-    await prisma.$transaction(async (tx) => {
-      if (winnerId && loserId) {
-        // Transfer points from loser to winner
-        const pointsWon = totalPointsAtStake
+    const stakePerPlayer = EscrowService.stakeFor(match.offer)
 
-        // Deduct from loser
-        await tx.user.update({
-          where: { id: loserId },
+    // Close the match and settle the escrow in one transaction
+    try {
+      await prisma.$transaction(async (tx) => {
+        // Conditional on IN_PROGRESS - a concurrent completion fails here and pays nothing
+        await DuelStateMachine.transitionMatch(tx, matchId, DuelMatchStatus.FINISHED, {
           data: {
-            pointsBalance: { decrement: pointsWon },
-            totalDeals: { increment: 1 },
+            winnerId,
+            finishedAt: new Date(),
+            serverSeedRevealedAt: new Date(),
           },
+          reason: 'match completed',
         })
 
-        // Add to winner
-        await tx.user.update({
-          where: { id: winnerId },
-          data: {
-            pointsBalance: { increment: pointsWon },
-            totalDeals: { increment: 1 },
-            completedDeals: { increment: 1 },
-          },
-        })
+        if (winnerId && loserId) {
+          await ReliabilityService.updateReliability(loserId, 'DUEL_LOST', matchId, tx)
+          await ReliabilityService.updateReliability(winnerId, 'DUEL_COMPLETED', matchId, tx)
+
+          const score = `${Math.max(creatorWins, opponentWins)}-${Math.min(creatorWins, opponentWins)}`
+          await EscrowService.release(tx, match, match.offer, winnerId, score)
+        } else {
+          // Draw - return stakes
+          for (const userId of [match.creatorUserId, match.opponentUserId]) {
+            await ReliabilityService.updateReliability(userId, 'DUEL_COMPLETED', matchId, tx)
+          }
+
+          await EscrowService.refund(
+            tx,
+            match.offer,
+            [match.creatorUserId, match.opponentUserId],
+            matchId,
+            `Draw ${creatorWins}-${opponentWins}`
+          )
+        }
+      })
+    } catch (error) {
+      if (error instanceof IllegalTransitionError) {
+        console.log(`[DuelResult] Match ${matchId} was already completed`)
+        return null
+      }
+      throw error
+    }
 
-        // Record transactions
-        await tx.transaction.create({
-          data: {
-            userId: winnerId,
-            type: TransactionType.DUEL_WIN,
-            amountPoints: pointsWon,
-            relatedMatchId: matchId,
-            description: `Won duel: ${creatorWins > opponentWins ? creatorWins : opponentWins}-${creatorWins > opponentWins ? opponentWins : creatorWins}`,
-          },
-        })
+    await RealtimeService.publishDuel(match.offerId, 'match_finished', {
+      matchId,
+      status: DuelMatchStatus.FINISHED,
+      winnerId,
+    })
 
-        await tx.transaction.create({
-          data: {
-            userId: loserId,
-            type: TransactionType.DUEL_LOSS,
-            amountPoints: -pointsWon,
-            relatedMatchId: matchId,
-            description: `Lost duel: ${creatorWins > opponentWins ? opponentWins : creatorWins}-${creatorWins > opponentWins ? creatorWins : opponentWins}`,
-          },
-        })
+    return {
+      matchId,
+      winnerId,
+      loserId,
+      totalGames: match.gamesPlayed,
+      winnerGames: winnerId === match.creatorUserId ? creatorWins : opponentWins,
+      loserGames: winnerId === match.creatorUserId ? opponentWins : creatorWins,
+      draws,
+      totalPointsWon: winnerId
+        ? RewardService.splitWinnings(stakePerPlayer, match.offer.chipType, match.offer.stakeType).netPoints
+        : 0,
+    }
+  }
 
-        // Update bets status
-        await tx.duelBet.updateMany({
-          where: { matchId, userId: winnerId },
-          data: { status: 'WON', resolvedAt: new Date() },
-        })
+  /**
+   * Close a match both players walked away from and burn both stakes
+   * Their reliability was already charged when their games were forfeited;
+   * repeat offenders also pay a penalty.
+   * Returns false if the match is no longer in progress.
+   */
+  static async abandonMatch(matchId: string): Promise<boolean> {
+    const match = await prisma.duelMatch.findUnique({
+      where: { id: matchId },
+      include: { offer: true },
+    })
 
-        await tx.duelBet.updateMany({
-          where: { matchId, userId: loserId },
-          data: { status: 'LOST', resolvedAt: new Date() },
-        })
-      } else {
-        // Draw - return stakes
-        await tx.user.update({
-          where: { id: match.creatorUserId },
-          data: { totalDeals: { increment: 1 }, completedDeals: { increment: 1 } },
-        })
+    if (!match || match.status !== DuelMatchStatus.IN_PROGRESS) return false
 
-        await tx.user.update({
-          where: { id: match.opponentUserId },
-          data: { totalDeals: { increment: 1 }, completedDeals: { increment: 1 } },
+    try {
+      await prisma.$transaction(async (tx) => {
+        await DuelStateMachine.transitionMatch(tx, matchId, DuelMatchStatus.BOTH_ABANDONED, {
+          from: [DuelMatchStatus.IN_PROGRESS],
+          data: { finishedAt: new Date() },
+          reason: 'both players stopped playing',
         })
 
-        await tx.duelBet.updateMany({
-          where: { matchId },
-          data: { status: 'RETURNED', resolvedAt: new Date() },
-        })
-      }
+        await EscrowService.burn(tx, match, match.offer, TransactionReason.BOTH_ABANDONED)
 
-      // Update match status
-      await tx.duelMatch.update({
-        where: { id: matchId },
-        data: {
-          status: 'FINISHED',
-          winnerId,
-          finishedAt: new Date(),
-        },
+        for (const userId of [match.creatorUserId, match.opponentUserId]) {
+          await PenaltyService.chargeRepeatOffender(tx, userId, matchId)
+        }
       })
+    } catch (error) {
+      if (error instanceof IllegalTransitionError) {
+        console.log(`[DuelResult] Match ${matchId} was already closed`)
+        return false
+      }
+      throw error
+    }
 
-      // Update offer status
-      await tx.duelOffer.update({
-        where: { id: match.offerId },
-        data: { status: 'MATCHED' },
-      })
+    console.log(`[DuelResult] Match ${matchId} abandoned by both players`)
+    await RealtimeService.publishDuel(match.offerId, 'match_finished', {
+      matchId,
+      status: DuelMatchStatus.BOTH_ABANDONED,
+      winnerId: null,
     })
+    return true
+  }
 
-    return {
+  /**
+   * End a match on a forfeit before MIN_GAMES_REQUIRED: the opponent wins both stakes
+   * The offender's deal was already recorded as a dropout with the forfeited game.
+   * Returns false if the match is no longer in progress.
+   */
+  static async forfeitMatch(matchId: string, winnerId: string, offenderId: string): Promise<boolean> {
+    const match = await prisma.duelMatch.findUnique({
+      where: { id: matchId },
+      include: { offer: true, games: true },
+    })
+
+    if (!match || match.status !== DuelMatchStatus.IN_PROGRESS) return false
+
+    const winnerGames = match.games.filter(g => g.winnerUserId === winnerId).length
+    const offenderGames = match.games.filter(g => g.winnerUserId === offenderId).length
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        await DuelStateMachine.transitionMatch(tx, matchId, DuelMatchStatus.FINISHED, {
+          data: {
+            winnerId,
+            finishedAt: new Date(),
+            serverSeedRevealedAt: new Date(),
+          },
+          reason: 'opponent forfeited',
+        })
+
+        await ReliabilityService.updateReliability(winnerId, 'DUEL_COMPLETED', matchId, tx)
+
+        await EscrowService.release(tx, match, match.offer, winnerId, `${winnerGames}-${offenderGames}`, {
+          winner: TransactionReason.OPPONENT_FORFEITED,
+          loser: TransactionReason.FORFEIT_BEFORE_MIN_GAMES,
+        })
+
+        await PenaltyService.chargeRepeatOffender(tx, offenderId, matchId)
+      })
+    } catch (error) {
+      if (error instanceof IllegalTransitionError) {
+        console.log(`[DuelResult] Match ${matchId} was already closed`)
+        return false
+      }
+      throw error
+    }
+
+    console.log(`[DuelResult] Match ${matchId} forfeited by ${offenderId}`)
+    await RealtimeService.publishDuel(match.offerId, 'match_finished', {
       matchId,
+      status: DuelMatchStatus.FINISHED,
       winnerId,
-      loserId,
-      totalGames: match.gamesPlayed,
-      winnerGames: winnerId === match.creatorUserId ? creatorWins : opponentWins,
-      loserGames: winnerId === match.creatorUserId ? opponentWins : creatorWins,
-      draws,
-      totalPointsWon: winnerId ? totalPointsAtStake : 0,
-    }
+    })
+    return true
   }
 
   /**
@@ -233,7 +319,7 @@ export class DuelResultService {
       include: {
         creator: { select: { id: true, username: true } },
         opponent: { select: { id: true, username: true } },
-        offer: { select: { chipType: true, chipPointsValue: true } },
+        offer: { select: { chipType: true, chipPointsValue: true, gamesCount: true, stakeType: true } },
         games: { select: { winnerUserId: true } },
       },
       orderBy: { finishedAt: 'desc' },
@@ -246,6 +332,11 @@ export class DuelResultService {
       const userWins = match.games.filter(g => g.winnerUserId === userId).length
       const opponentWins = match.games.filter(g => g.winnerUserId === opponent.id).length
 
+      // Payout stored at settlement; matches settled before it was kept get the current split
+      const payout = match.winningsPoints !== null
+        ? { grossPoints: match.winningsPoints, netPoints: match.winningsPoints - (match.feePoints ?? 0) }
+        : RewardService.splitWinnings(EscrowService.stakeFor(match.offer), match.offer.chipType, match.offer.stakeType)
+
       return {
         id: match.id,
         opponent: opponent.username,
@@ -254,9 +345,9 @@ export class DuelResultService {
         result: match.winnerId === userId ? 'WIN' : match.winnerId ? 'LOSS' : 'DRAW',
         score: `${userWins}-${opponentWins}`,
         pointsChange: match.winnerId === userId 
-          ? match.offer.chipPointsValue * match.gamesPlayed
+          ? payout.netPoints
           : match.winnerId 
-            ? -match.offer.chipPointsValue * match.gamesPlayed
+            ? -payout.grossPoints
             : 0,
         finishedAt: match.finishedAt,
       }
@@ -294,7 +385,15 @@ export class DuelResultService {
     ])
 
     const totalEarnings = await prisma.transaction.aggregate({
-      where: { userId, type: { in: ['DUEL_WIN', 'DUEL_LOSS'] } },
+      // Stakes go out as DUEL_STAKE and come back as DUEL_REFUND/DUEL_WIN,
+      // less the rake on winnings (a PLATFORM_FEE tied to the match)
+      where: {
+        userId,
+        OR: [
+          { type: { in: ['DUEL_STAKE', 'DUEL_REFUND', 'DUEL_WIN', 'DUEL_LOSS'] } },
+          { type: 'PLATFORM_FEE', relatedMatchId: { not: null } },
+        ],
+      },
       _sum: { amountPoints: true },
     })
 
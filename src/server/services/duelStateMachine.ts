@@ -0,0 +1,269 @@
+/**
+ * Duel State Machine
+ * The only place offer, match and game statuses change
+ *
+ * Every move is checked against the transition tables below, applied with a
+ * conditional update on the current status and recorded in DuelStatusTransition.
+ * Offers also carry a version, so a caller that validated an offer can require
+ * that nothing moved it since (OPEN -> WAITING_CREATOR_CONFIRM -> OPEN included).
+ *
+ * Invariants kept by the callers:
+ * - offer MATCHED <=> the offer has a match
+ * - match IN_PROGRESS => offer MATCHED
+ * - game IN_PROGRESS / AWAITING_READY => match IN_PROGRESS
+ */
+
+import prisma from '@/lib/prisma'
+import {
+  DuelGame,
+  DuelGameStatus,
+  DuelMatch,
+  DuelMatchStatus,
+  DuelOffer,
+  DuelOfferStatus,
+  Prisma,
+} from '@prisma/client'
+
+export type DuelEntityType = 'OFFER' | 'MATCH' | 'GAME'
+
+type Tx = Prisma.TransactionClient
+
+// ============================================
+// TRANSITION TABLES
+// ============================================
+
+export const OFFER_TRANSITIONS: Record<DuelOfferStatus, DuelOfferStatus[]> = {
+  OPEN: [DuelOfferStatus.WAITING_CREATOR_CONFIRM, DuelOfferStatus.CANCELLED, DuelOfferStatus.EXPIRED],
+  WAITING_CREATOR_CONFIRM: [
+    DuelOfferStatus.MATCHED,
+    DuelOfferStatus.OPEN, // creator missed the confirmation, offer goes back on the board
+    DuelOfferStatus.CANCELLED,
+    DuelOfferStatus.EXPIRED,
+  ],
+  MATCHED: [],
+  CANCELLED: [],
+  EXPIRED: [],
+}
+
+export const MATCH_TRANSITIONS: Record<DuelMatchStatus, DuelMatchStatus[]> = {
+  AWAITING_CREATOR_CONFIRM: [
+    DuelMatchStatus.IN_PROGRESS,
+    DuelMatchStatus.CREATOR_NO_SHOW,
+    DuelMatchStatus.CANCELLED,
+  ],
+  IN_PROGRESS: [DuelMatchStatus.FINISHED, DuelMatchStatus.BOTH_ABANDONED, DuelMatchStatus.CANCELLED],
+  FINISHED: [],
+  CANCELLED: [],
+  CREATOR_NO_SHOW: [],
+  BOTH_ABANDONED: [],
+}
+
+export const GAME_TRANSITIONS: Record<DuelGameStatus, DuelGameStatus[]> = {
+  PENDING: [DuelGameStatus.AWAITING_READY, DuelGameStatus.IN_PROGRESS, DuelGameStatus.CANCELLED],
+  AWAITING_READY: [DuelGameStatus.IN_PROGRESS, DuelGameStatus.FORFEITED, DuelGameStatus.CANCELLED],
+  IN_PROGRESS: [DuelGameStatus.FINISHED, DuelGameStatus.FORFEITED, DuelGameStatus.CANCELLED],
+  FINISHED: [],
+  CANCELLED: [],
+  FORFEITED: [],
+}
+
+/** Statuses a record may be created in */
+export const INITIAL_STATUSES = {
+  OFFER: [DuelOfferStatus.OPEN] as DuelOfferStatus[],
+  // IN_PROGRESS when there is nothing to confirm (direct matches, legacy offers without a match)
+  MATCH: [DuelMatchStatus.AWAITING_CREATOR_CONFIRM, DuelMatchStatus.IN_PROGRESS] as DuelMatchStatus[],
+  GAME: [DuelGameStatus.PENDING, DuelGameStatus.AWAITING_READY, DuelGameStatus.IN_PROGRESS] as DuelGameStatus[],
+}
+
+const TABLES: Record<DuelEntityType, Record<string, string[]>> = {
+  OFFER: OFFER_TRANSITIONS,
+  MATCH: MATCH_TRANSITIONS,
+  GAME: GAME_TRANSITIONS,
+}
+
+// ============================================
+// ERRORS
+// ============================================
+
+export class IllegalTransitionError extends Error {
+  constructor(
+    public readonly entityType: DuelEntityType,
+    public readonly entityId: string,
+    public readonly from: string | null,
+    public readonly to: string
+  ) {
+    super(`Illegal ${entityType.toLowerCase()} transition ${from ?? '(new)'} -> ${to} for ${entityId}`)
+    this.name = 'IllegalTransitionError'
+  }
+}
+
+// ============================================
+// OPTIONS
+// ============================================
+
+interface TransitionOptions<S, D> {
+  /** Only move from these statuses (narrower than the table) */
+  from?: S[]
+  /** Other fields written together with the status */
+  data?: D
+  /** null = system (jobs, timeouts) */
+  actorUserId?: string | null
+  reason?: string
+}
+
+interface OfferTransitionOptions extends TransitionOptions<DuelOfferStatus, Prisma.DuelOfferUncheckedUpdateManyInput> {
+  /** Only move if the offer is still at this version */
+  version?: number
+}
+
+interface CreatedOptions {
+  actorUserId?: string | null
+  reason?: string
+}
+
+export class DuelStateMachine {
+  /**
+   * Whether a move is in the transition table
+   */
+  static canTransition(entityType: DuelEntityType, from: string, to: string): boolean {
+    return TABLES[entityType][from]?.includes(to) ?? false
+  }
+
+  /**
+   * Move an offer to a new status
+   */
+  static async transitionOffer(
+    tx: Tx,
+    offerId: string,
+    to: DuelOfferStatus,
+    options: OfferTransitionOptions = {}
+  ): Promise<DuelOffer> {
+    const current = await tx.duelOffer.findUnique({ where: { id: offerId }, select: { status: true } })
+    const from = this.assertAllowed('OFFER', offerId, current?.status ?? null, to, options.from)
+
+    const updated = await tx.duelOffer.updateMany({
+      where: { id: offerId, status: from, version: options.version },
+      data: { ...options.data, status: to, version: { increment: 1 } },
+    })
+    if (updated.count === 0) throw new IllegalTransitionError('OFFER', offerId, from, to)
+
+    await this.audit(tx, 'OFFER', offerId, from, to, options)
+    return tx.duelOffer.findUniqueOrThrow({ where: { id: offerId } })
+  }
+
+  /**
+   * Move a match to a new status
+   */
+  static async transitionMatch(
+    tx: Tx,
+    matchId: string,
+    to: DuelMatchStatus,
+    options: TransitionOptions<DuelMatchStatus, Prisma.DuelMatchUncheckedUpdateManyInput> = {}
+  ): Promise<DuelMatch> {
+    const current = await tx.duelMatch.findUnique({ where: { id: matchId }, select: { status: true } })
+    const from = this.assertAllowed('MATCH', matchId, current?.status ?? null, to, options.from)
+
+    const updated = await tx.duelMatch.updateMany({
+      where: { id: matchId, status: from },
+      data: { ...options.data, status: to },
+    })
+    if (updated.count === 0) throw new IllegalTransitionError('MATCH', matchId, from, to)
+
+    await this.audit(tx, 'MATCH', matchId, from, to, options)
+    return tx.duelMatch.findUniqueOrThrow({ where: { id: matchId } })
+  }
+
+  /**
+   * Move a game to a new status
+   */
+  static async transitionGame(
+    tx: Tx,
+    gameId: string,
+    to: DuelGameStatus,
+    options: TransitionOptions<DuelGameStatus, Prisma.DuelGameUncheckedUpdateManyInput> = {}
+  ): Promise<DuelGame> {
+    const current = await tx.duelGame.findUnique({ where: { id: gameId }, select: { status: true } })
+    const from = this.assertAllowed('GAME', gameId, current?.status ?? null, to, options.from)
+
+    const updated = await tx.duelGame.updateMany({
+      where: { id: gameId, status: from },
+      data: { ...options.data, status: to },
+    })
+    if (updated.count === 0) throw new IllegalTransitionError('GAME', gameId, from, to)
+
+    await this.audit(tx, 'GAME', gameId, from, to, options)
+    return tx.duelGame.findUniqueOrThrow({ where: { id: gameId } })
+  }
+
+  /**
+   * Record that a record was created, checking its initial status
+   */
+  static async recordCreated(
+    tx: Tx,
+    entityType: DuelEntityType,
+    entityId: string,
+    status: string,
+    options: CreatedOptions = {}
+  ): Promise<void> {
+    if (!(INITIAL_STATUSES[entityType] as string[]).includes(status)) {
+      throw new IllegalTransitionError(entityType, entityId, null, status)
+    }
+
+    await this.audit(tx, entityType, entityId, null, status, options)
+  }
+
+  /**
+   * Status history of a record, oldest first
+   */
+  static async getHistory(entityType: DuelEntityType, entityId: string) {
+    return prisma.duelStatusTransition.findMany({
+      where: { entityType, entityId },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }], // moves in one transaction can share a timestamp
+    })
+  }
+
+  /**
+   * Check a move against the table (and the caller's narrower from-list)
+   * Returns the current status
+   */
+  private static assertAllowed<S extends string>(
+    entityType: DuelEntityType,
+    entityId: string,
+    current: S | null,
+    to: S,
+    allowedFrom?: S[]
+  ): S {
+    if (current === null) {
+      throw new Error(`${entityType} ${entityId} not found`)
+    }
+
+    if ((allowedFrom && !allowedFrom.includes(current)) || !this.canTransition(entityType, current, to)) {
+      throw new IllegalTransitionError(entityType, entityId, current, to)
+    }
+
+    return current
+  }
+
+  /**
+   * Write an audit row
+   */
+  private static async audit(
+    tx: Tx,
+    entityType: DuelEntityType,
+    entityId: string,
+    from: string | null,
+    to: string,
+    options: CreatedOptions
+  ): Promise<void> {
+    await tx.duelStatusTransition.create({
+      data: {
+        entityType,
+        entityId,
+        fromStatus: from,
+        toStatus: to,
+        actorUserId: options.actorUserId ?? null,
+        reason: options.reason ?? null,
+      },
+    })
+  }
+}
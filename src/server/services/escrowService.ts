@@ -0,0 +1,538 @@
+/**
+ * Escrow Service
+ * Duel stakes: lock into the offer escrow, release to the winner, refund
+ *
+ * Points move through the ledger (USER <-> ESCROW of the offer). A player
+ * waiting in the matchmaking queue has their stake held in QUEUE of the entry
+ * until it moves to the escrow of the duel they are paired into.
+ * Skins stay with their owner as LOCKED_IN_DUEL (lockedInOfferId) until the match
+ * is settled; the winner gets a new instance of each skin the loser staked.
+ * DuelBet rows track each player's stake in a match (one per skin, one for points):
+ * LOCKED -> WON / LOST on completion, RETURNED on a draw, cancellation or no-show,
+ * BURNED_TO_PLATFORM when both players abandon the match.
+ */
+
+import prisma from '@/lib/prisma'
+import {
+  DuelBetStatus,
+  DuelOffer,
+  DuelOfferStatus,
+  MatchmakingEntry,
+  MatchmakingStatus,
+  Prisma,
+  StakeType,
+  TransactionReason,
+  TransactionType,
+  UserSkinStatus,
+} from '@prisma/client'
+import { StakedSkinDto } from '../types'
+import { LedgerService, PLATFORM_VAULT_ID, VAULT_ACCOUNT, escrowAccount, queueAccount, userAccount } from './ledgerService'
+import { FeeService } from './feeService'
+import { RewardService } from './rewardService'
+
+type Tx = Prisma.TransactionClient
+
+type StakeOffer = Pick<DuelOffer, 'id' | 'chipType' | 'chipPointsValue' | 'gamesCount' | 'stakeType'>
+
+type QueueHold = Pick<MatchmakingEntry, 'id' | 'userId' | 'heldPoints'>
+
+/**
+ * Thrown when a skin to stake is not the user's or not free to lock
+ */
+export class SkinUnavailableError extends Error {
+  constructor(public readonly userSkinIds: string[]) {
+    super(`Skins not available to stake: ${userSkinIds.join(', ')}`)
+    this.name = 'SkinUnavailableError'
+  }
+}
+
+interface MatchPlayers {
+  id: string
+  creatorUserId: string
+  opponentUserId: string
+}
+
+/** Reason codes for a match settled by a penalty */
+interface SettlementReasons {
+  winner: TransactionReason
+  loser: TransactionReason
+}
+
+export class EscrowService {
+  /**
+   * Points each player stakes on an offer (0 for the creator of a SKINS offer)
+   */
+  static stakeFor(offer: Pick<DuelOffer, 'chipPointsValue' | 'gamesCount'>): number {
+    return offer.chipPointsValue * offer.gamesCount
+  }
+
+  /**
+   * Move a player's points stake from their balance into the offer escrow
+   * Throws InsufficientBalanceError if the balance does not cover it
+   */
+  static async lock(
+    tx: Tx,
+    offer: StakeOffer,
+    userId: string,
+    relatedMatchId?: string,
+    amount: number = this.stakeFor(offer)
+  ): Promise<void> {
+    await LedgerService.transfer(tx, {
+      from: userAccount(userId),
+      to: escrowAccount(offer.id),
+      amount,
+      type: TransactionType.DUEL_STAKE,
+      relatedMatchId,
+      relatedOfferId: offer.id,
+      description: offer.stakeType === StakeType.SKINS
+        ? 'Stake locked against skins'
+        : `Stake locked: ${offer.gamesCount} x ${offer.chipType}`,
+    })
+  }
+
+  /**
+   * Lock a player's skins as their stake on an offer
+   * Returns their total value; throws SkinUnavailableError unless every skin
+   * is the player's own and ACTIVE.
+   */
+  static async lockSkins(tx: Tx, offer: Pick<DuelOffer, 'id'>, userId: string, userSkinIds: string[]): Promise<number> {
+    const ids = Array.from(new Set(userSkinIds))
+
+    const locked = await tx.userSkin.updateMany({
+      where: { id: { in: ids }, userId, status: UserSkinStatus.ACTIVE },
+      data: { status: UserSkinStatus.LOCKED_IN_DUEL, lockedInOfferId: offer.id },
+    })
+
+    const skins = await tx.userSkin.findMany({
+      where: { id: { in: ids }, userId, lockedInOfferId: offer.id, status: UserSkinStatus.LOCKED_IN_DUEL },
+      include: { skin: true },
+    })
+
+    if (locked.count !== ids.length || skins.length !== ids.length) {
+      const found = new Set(skins.map(s => s.id))
+      throw new SkinUnavailableError(ids.filter(id => !found.has(id)))
+    }
+
+    return skins.reduce((sum, s) => sum + s.skin.pointsValue, 0)
+  }
+
+  /**
+   * Hold a queued player's stake (heldPoints) in the queue account of their entry
+   * Throws InsufficientBalanceError if the balance does not cover it
+   */
+  static async hold(tx: Tx, entry: QueueHold): Promise<void> {
+    await LedgerService.transfer(tx, {
+      from: userAccount(entry.userId),
+      to: queueAccount(entry.id),
+      amount: entry.heldPoints,
+      type: TransactionType.DUEL_STAKE,
+      description: 'Stake held in matchmaking queue',
+    })
+  }
+
+  /**
+   * Move a paired player's stake from their queue hold into the offer escrow
+   * and give back what the hold had on top (it covers the longest duel they accepted).
+   */
+  static async lockHeld(tx: Tx, offer: StakeOffer, entry: QueueHold): Promise<void> {
+    const stake = this.stakeFor(offer)
+
+    await LedgerService.transfer(tx, {
+      from: queueAccount(entry.id),
+      to: escrowAccount(offer.id),
+      amount: stake,
+      type: TransactionType.DUEL_STAKE,
+      relatedOfferId: offer.id,
+      description: `Stake locked: ${offer.gamesCount} x ${offer.chipType}`,
+    })
+
+    if (entry.heldPoints > stake) {
+      await this.releaseHold(tx, entry, entry.heldPoints - stake, 'Unused queue hold returned')
+    }
+  }
+
+  /**
+   * Return points from a queue hold to the player
+   */
+  static async releaseHold(tx: Tx, entry: QueueHold, amount: number, description: string): Promise<void> {
+    if (amount <= 0) return
+
+    await LedgerService.transfer(tx, {
+      from: queueAccount(entry.id),
+      to: userAccount(entry.userId),
+      amount,
+      type: TransactionType.DUEL_REFUND,
+      description,
+    })
+  }
+
+  /**
+   * Open LOCKED bets for both players of a new match
+   * One bet per staked skin, plus a points bet for any points stake.
+   * opponentPoints = the opponent's points stake (SKINS offers: 0 when they staked skins)
+   */
+  static async openBets(
+    tx: Tx,
+    match: MatchPlayers,
+    offer: StakeOffer,
+    opponentPoints: number = this.stakeFor(offer)
+  ): Promise<void> {
+    const points = [
+      { userId: match.creatorUserId, amount: this.stakeFor(offer) },
+      { userId: match.opponentUserId, amount: opponentPoints },
+    ].filter(p => p.amount > 0)
+
+    const skins = await tx.userSkin.findMany({
+      where: {
+        lockedInOfferId: offer.id,
+        userId: { in: [match.creatorUserId, match.opponentUserId] },
+        status: UserSkinStatus.LOCKED_IN_DUEL,
+      },
+      select: { id: true, userId: true },
+    })
+
+    await tx.duelBet.createMany({
+      data: [
+        ...points.map(p => ({ matchId: match.id, userId: p.userId, pointsAmount: p.amount })),
+        ...skins.map(s => ({ matchId: match.id, userId: s.userId, userSkinId: s.id })),
+      ].map(bet => ({ ...bet, status: DuelBetStatus.LOCKED })),
+    })
+
+    if (skins.length > 0) {
+      await tx.userSkin.updateMany({
+        where: { id: { in: skins.map(s => s.id) } },
+        data: { lockedInMatchId: match.id },
+      })
+    }
+  }
+
+  /**
+   * Pay both stakes to the winner, less the rake on the loser's points
+   * The loser's stake already left their balance when it was locked,
+   * so their DUEL_LOSS row records the outcome with a zero amount.
+   * The payout is kept on the match (winningsPoints, feePoints).
+   * reasons marks the history rows of a match won by forfeit.
+   */
+  static async release(
+    tx: Tx,
+    match: MatchPlayers,
+    offer: StakeOffer,
+    winnerId: string,
+    score: string,
+    reasons?: SettlementReasons
+  ): Promise<void> {
+    const loserId = winnerId === match.creatorUserId ? match.opponentUserId : match.creatorUserId
+    const winnerPoints = await this.pointsHeld(tx, offer, winnerId, match.id)
+    const loserPoints = await this.pointsHeld(tx, offer, loserId, match.id)
+
+    if (winnerPoints > 0) {
+      await LedgerService.transfer(tx, {
+        from: escrowAccount(offer.id),
+        to: userAccount(winnerId),
+        amount: winnerPoints,
+        type: TransactionType.DUEL_REFUND,
+        relatedMatchId: match.id,
+        relatedOfferId: offer.id,
+        description: 'Stake returned',
+      })
+    }
+    if (loserPoints > 0) {
+      await LedgerService.transfer(tx, {
+        from: escrowAccount(offer.id),
+        to: userAccount(winnerId),
+        amount: loserPoints,
+        type: TransactionType.DUEL_WIN,
+        reasonCode: reasons?.winner,
+        relatedMatchId: match.id,
+        relatedOfferId: offer.id,
+        description: `Won duel: ${score}`,
+      })
+    }
+
+    const payout = RewardService.splitWinnings(loserPoints, offer.chipType, offer.stakeType)
+    await FeeService.charge(tx, winnerId, payout.feePoints, {
+      description: `Duel rake on ${payout.grossPoints} points won`,
+      relatedMatchId: match.id,
+      relatedOfferId: offer.id,
+    })
+    await tx.duelMatch.update({
+      where: { id: match.id },
+      data: { winningsPoints: payout.grossPoints, feePoints: payout.feePoints },
+    })
+
+    await this.unlockSkins(tx, offer, [winnerId])
+    const skinsValue = await this.transferSkins(tx, match, offer, loserId, winnerId, score, reasons?.winner)
+    const stake = loserPoints + skinsValue
+
+    await tx.transaction.create({
+      data: {
+        userId: loserId,
+        type: TransactionType.DUEL_LOSS,
+        amountPoints: 0,
+        reasonCode: reasons?.loser,
+        relatedMatchId: match.id,
+        description: `Lost duel: ${score.split('-').reverse().join('-')} (stake of ${stake} forfeited)`,
+        metadata: { offerId: offer.id, stake, points: loserPoints, skinsValue },
+      },
+    })
+
+    const resolvedAt = new Date()
+    await tx.duelBet.updateMany({
+      where: { matchId: match.id, userId: winnerId, status: DuelBetStatus.LOCKED },
+      data: { status: DuelBetStatus.WON, resolvedAt },
+    })
+    await tx.duelBet.updateMany({
+      where: { matchId: match.id, userId: loserId, status: DuelBetStatus.LOCKED },
+      data: { status: DuelBetStatus.LOST, resolvedAt },
+    })
+
+    console.log(`[Escrow] Released stakes of offer ${offer.id} to ${winnerId}: ${winnerPoints + loserPoints} points (${payout.feePoints} fee), ${skinsValue} in skins`)
+  }
+
+  /**
+   * Burn both players' stakes to the platform vault
+   * Points go from the escrow to the vault, skins are closed as BURNED.
+   * Each player gets a zero-amount DUEL_LOSS row carrying the reason.
+   */
+  static async burn(tx: Tx, match: MatchPlayers, offer: StakeOffer, reasonCode: TransactionReason): Promise<void> {
+    const userIds = [match.creatorUserId, match.opponentUserId]
+    let burnedPoints = 0
+    let burnedSkins = 0
+
+    for (const userId of userIds) {
+      const points = await this.pointsHeld(tx, offer, userId, match.id)
+      if (points > 0) {
+        await LedgerService.transfer(tx, {
+          from: escrowAccount(offer.id),
+          to: VAULT_ACCOUNT,
+          amount: points,
+          type: TransactionType.PENALTY,
+          reasonCode,
+          relatedMatchId: match.id,
+          relatedOfferId: offer.id,
+          description: `Stake of ${userId} burned`,
+        })
+      }
+
+      const skins = await tx.userSkin.findMany({
+        where: { lockedInOfferId: offer.id, userId, status: UserSkinStatus.LOCKED_IN_DUEL },
+        include: { skin: true },
+      })
+      await tx.userSkin.updateMany({
+        where: { id: { in: skins.map(s => s.id) } },
+        data: { status: UserSkinStatus.BURNED, lockedInOfferId: null, lockedInMatchId: null },
+      })
+      const skinsValue = skins.reduce((sum, s) => sum + s.skin.pointsValue, 0)
+
+      await tx.transaction.create({
+        data: {
+          userId,
+          type: TransactionType.DUEL_LOSS,
+          amountPoints: 0,
+          reasonCode,
+          relatedMatchId: match.id,
+          description: `Match abandoned (stake of ${points + skinsValue} burned)`,
+          metadata: { offerId: offer.id, points, skinsValue, userSkinIds: skins.map(s => s.id) },
+        },
+      })
+
+      burnedPoints += points
+      burnedSkins += skins.length
+    }
+
+    if (burnedSkins > 0) {
+      await tx.platformVault.upsert({
+        where: { id: PLATFORM_VAULT_ID },
+        update: { totalSkins: { increment: burnedSkins } },
+        create: { id: PLATFORM_VAULT_ID, totalSkins: burnedSkins },
+      })
+    }
+
+    await tx.duelBet.updateMany({
+      where: { matchId: match.id, status: DuelBetStatus.LOCKED },
+      data: { status: DuelBetStatus.BURNED_TO_PLATFORM, resolvedAt: new Date() },
+    })
+
+    console.log(`[Escrow] Burned stakes of offer ${offer.id}: ${burnedPoints} points, ${burnedSkins} skins`)
+  }
+
+  /**
+   * Return stakes from the offer escrow
+   * matchId = null for offers that never got a match (cancelled while open)
+   */
+  static async refund(
+    tx: Tx,
+    offer: StakeOffer,
+    userIds: string[],
+    matchId: string | null,
+    reason: string
+  ): Promise<void> {
+    let refunded = 0
+    for (const userId of userIds) {
+      const stake = await this.pointsHeld(tx, offer, userId, matchId)
+      if (stake === 0) continue
+
+      await LedgerService.transfer(tx, {
+        from: escrowAccount(offer.id),
+        to: userAccount(userId),
+        amount: stake,
+        type: TransactionType.DUEL_REFUND,
+        relatedMatchId: matchId ?? undefined,
+        relatedOfferId: offer.id,
+        description: `${reason}, stake returned`,
+      })
+      refunded += stake
+    }
+
+    await this.unlockSkins(tx, offer, userIds)
+
+    if (matchId) {
+      await tx.duelBet.updateMany({
+        where: { matchId, userId: { in: userIds }, status: DuelBetStatus.LOCKED },
+        data: { status: DuelBetStatus.RETURNED, resolvedAt: new Date() },
+      })
+    }
+
+    console.log(`[Escrow] Refunded ${refunded} points to ${userIds.length} player(s) of offer ${offer.id}: ${reason}`)
+  }
+
+  /**
+   * Creator never confirmed: refund the opponent and close the match bets
+   * The creator's stake stays in escrow - the offer goes back on the board.
+   */
+  static async returnToOffer(tx: Tx, match: MatchPlayers, offer: StakeOffer): Promise<void> {
+    await this.refund(tx, offer, [match.opponentUserId], match.id, 'Creator did not confirm')
+
+    await tx.duelBet.updateMany({
+      where: { matchId: match.id, userId: match.creatorUserId, status: DuelBetStatus.LOCKED },
+      data: { status: DuelBetStatus.RETURNED, resolvedAt: new Date() },
+    })
+    await tx.userSkin.updateMany({
+      where: { lockedInOfferId: offer.id, userId: match.creatorUserId },
+      data: { lockedInMatchId: null },
+    })
+  }
+
+  /**
+   * Points a user currently has locked in duels
+   * Open bets, stakes on their own offers still waiting for an opponent and queue holds
+   */
+  static async getLockedPoints(userId: string): Promise<number> {
+    const [bets, openOffers, queued] = await Promise.all([
+      prisma.duelBet.aggregate({
+        where: { userId, status: DuelBetStatus.LOCKED },
+        _sum: { pointsAmount: true },
+      }),
+      prisma.duelOffer.findMany({
+        where: { creatorUserId: userId, status: DuelOfferStatus.OPEN },
+        select: { chipPointsValue: true, gamesCount: true },
+      }),
+      prisma.matchmakingEntry.aggregate({
+        where: { userId, status: MatchmakingStatus.QUEUED },
+        _sum: { heldPoints: true },
+      }),
+    ])
+
+    return (bets._sum.pointsAmount ?? 0)
+      + openOffers.reduce((sum, offer) => sum + this.stakeFor(offer), 0)
+      + (queued._sum.heldPoints ?? 0)
+  }
+
+  /**
+   * A user's skins that can be staked (ACTIVE), most valuable first
+   */
+  static async getStakeableSkins(userId: string): Promise<StakedSkinDto[]> {
+    const skins = await prisma.userSkin.findMany({
+      where: { userId, status: UserSkinStatus.ACTIVE },
+      include: { skin: true },
+      orderBy: { skin: { pointsValue: 'desc' } },
+    })
+
+    return skins.map(s => ({
+      userSkinId: s.id,
+      name: s.skin.name,
+      rarity: s.skin.rarity,
+      imageUrl: s.skin.imageUrl,
+      pointsValue: s.skin.pointsValue,
+    }))
+  }
+
+  /**
+   * Points a player has in the offer escrow
+   * POINTS offers: the fixed stake. SKINS offers: the creator stakes none,
+   * the opponent whatever their open points bet in the match holds.
+   */
+  private static async pointsHeld(tx: Tx, offer: StakeOffer, userId: string, matchId: string | null): Promise<number> {
+    if (offer.stakeType !== StakeType.SKINS) return this.stakeFor(offer)
+    if (!matchId) return 0
+
+    const bets = await tx.duelBet.aggregate({
+      where: { matchId, userId, userSkinId: null, status: DuelBetStatus.LOCKED },
+      _sum: { pointsAmount: true },
+    })
+    return bets._sum.pointsAmount ?? 0
+  }
+
+  /**
+   * Give players their skins staked on the offer back
+   */
+  private static async unlockSkins(tx: Tx, offer: Pick<DuelOffer, 'id'>, userIds: string[]): Promise<void> {
+    await tx.userSkin.updateMany({
+      where: { lockedInOfferId: offer.id, userId: { in: userIds }, status: UserSkinStatus.LOCKED_IN_DUEL },
+      data: { status: UserSkinStatus.ACTIVE, lockedInOfferId: null, lockedInMatchId: null },
+    })
+  }
+
+  /**
+   * Move the loser's staked skins to the winner
+   * The loser's instance is closed as TRANSFERRED and the winner gets a new one
+   * pointing back to it (sourceUserSkinId), so every skin keeps its history.
+   * Returns the value of the skins moved.
+   */
+  private static async transferSkins(
+    tx: Tx,
+    match: MatchPlayers,
+    offer: Pick<DuelOffer, 'id'>,
+    loserId: string,
+    winnerId: string,
+    score: string,
+    reasonCode?: TransactionReason
+  ): Promise<number> {
+    const lost = await tx.userSkin.findMany({
+      where: { lockedInOfferId: offer.id, userId: loserId, status: UserSkinStatus.LOCKED_IN_DUEL },
+      include: { skin: true },
+    })
+
+    for (const old of lost) {
+      await tx.userSkin.update({
+        where: { id: old.id },
+        data: { status: UserSkinStatus.TRANSFERRED, lockedInOfferId: null },
+      })
+
+      const won = await tx.userSkin.create({
+        data: {
+          userId: winnerId,
+          skinId: old.skinId,
+          status: UserSkinStatus.ACTIVE,
+          sourceUserSkinId: old.id,
+          acquiredInMatchId: match.id,
+        },
+      })
+
+      await tx.transaction.create({
+        data: {
+          userId: winnerId,
+          type: TransactionType.DUEL_WIN,
+          amountPoints: 0,
+          reasonCode,
+          relatedMatchId: match.id,
+          relatedSkinId: won.id,
+          description: `Won skin ${old.skin.name}: ${score}`,
+          metadata: { offerId: offer.id, fromUserSkinId: old.id, pointsValue: old.skin.pointsValue },
+        },
+      })
+    }
+
+    return lost.reduce((sum, s) => sum + s.skin.pointsValue, 0)
+  }
+}
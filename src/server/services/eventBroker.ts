@@ -0,0 +1,116 @@
+/**
+ * Event Broker
+ * Fan-out of realtime events to the SSE streams open on this server
+ *
+ * EventBroker is the adapter interface: the in-process broker below serves a
+ * single Node process; a shared broker (Redis pub/sub, Postgres LISTEN/NOTIFY)
+ * implements the same three methods and is installed with
+ * RealtimeService.setBroker().
+ */
+
+import { EventEmitter } from 'events'
+import { randomBytes } from 'crypto'
+import { RealtimeEvent } from '../types'
+
+export type RealtimeListener = (event: RealtimeEvent) => void
+
+export interface EventBroker {
+  /** Assign an id and deliver the event to the channel's subscribers */
+  publish(event: Omit<RealtimeEvent, 'id' | 'createdAt'>): Promise<RealtimeEvent>
+  /** Returns the unsubscribe function */
+  subscribe(channel: string, listener: RealtimeListener): () => void
+  /**
+   * Events on the channel after lastEventId, oldest first
+   * null if some of them are no longer kept - the client has to reload.
+   */
+  replay(channel: string, lastEventId: string): Promise<RealtimeEvent[] | null>
+}
+
+const REPLAY_LIMIT = 200 // events kept per channel
+const REPLAY_TTL_MS = 10 * 60 * 1000 // 10 minutes
+
+interface ChannelLog {
+  entries: Array<{ seq: number; event: RealtimeEvent }>
+  /** Highest sequence number dropped from the log */
+  trimmedSeq: number
+}
+
+/**
+ * In-process broker
+ * Ids are "<boot>-<seq>": after a restart the boot part changes, so an id
+ * from the previous process is never mistaken for a recent one.
+ */
+export class InMemoryEventBroker implements EventBroker {
+  private readonly boot = randomBytes(4).toString('hex')
+  private readonly emitter = new EventEmitter()
+  private readonly logs = new Map<string, ChannelLog>()
+  private seq = 0
+  /** Highest sequence number of a channel log dropped entirely */
+  private forgottenSeq = 0
+
+  constructor() {
+    // One listener per open stream
+    this.emitter.setMaxListeners(0)
+  }
+
+  async publish(input: Omit<RealtimeEvent, 'id' | 'createdAt'>): Promise<RealtimeEvent> {
+    const seq = ++this.seq
+    const event: RealtimeEvent = {
+      ...input,
+      id: `${this.boot}-${seq}`,
+      createdAt: new Date().toISOString(),
+    }
+
+    const log = this.logs.get(event.channel) ?? { entries: [], trimmedSeq: this.forgottenSeq }
+    log.entries.push({ seq, event })
+    this.logs.set(event.channel, log)
+    this.trim()
+
+    this.emitter.emit(event.channel, event)
+    return event
+  }
+
+  subscribe(channel: string, listener: RealtimeListener): () => void {
+    this.emitter.on(channel, listener)
+    return () => {
+      this.emitter.off(channel, listener)
+    }
+  }
+
+  async replay(channel: string, lastEventId: string): Promise<RealtimeEvent[] | null> {
+    const [boot, rawSeq] = lastEventId.split('-')
+    const lastSeq = Number(rawSeq)
+    if (boot !== this.boot || !Number.isInteger(lastSeq) || lastSeq > this.seq) {
+      return null
+    }
+
+    const log = this.logs.get(channel)
+    if (!log) return lastSeq < this.forgottenSeq ? null : []
+    if (lastSeq < log.trimmedSeq) return null
+
+    return log.entries
+      .filter(entry => entry.seq > lastSeq)
+      .map(entry => entry.event)
+  }
+
+  /**
+   * Drop events past the per-channel limit or older than the TTL
+   */
+  private trim(): void {
+    const cutoff = new Date(Date.now() - REPLAY_TTL_MS).toISOString()
+
+    for (const [channel, log] of Array.from(this.logs)) {
+      while (
+        log.entries.length > 0
+        && (log.entries.length > REPLAY_LIMIT || log.entries[0].event.createdAt < cutoff)
+      ) {
+        log.trimmedSeq = log.entries.shift()!.seq
+      }
+
+      if (log.entries.length === 0) {
+        this.forgottenSeq = Math.max(this.forgottenSeq, log.trimmedSeq)
+        this.logs.delete(channel)
+      }
+    }
+  }
+}
@@ -1,74 +1,44 @@
 /**
  * Exchange Service
  * Handles Skins ↔ Points conversion
+ *
+ * Points move through the ledger: exchanged skins are paid out of ISSUANCE,
+ * bought skins are paid back into it. The exchange spread is a PLATFORM_FEE
+ * to the vault, taken in the same transaction as the payout.
  */
 
+import prisma from '@/lib/prisma'
+import { Skin, TransactionType, UserSkin, UserSkinStatus } from '@prisma/client'
 import {
   UserSkinDto,
   SkinDto,
-  TransactionType,
   ExchangeSkinsToPointsResponse,
   ExchangePointsToSkinResponse,
 } from '../types/duel.types'
-
-// ============================================
-// IN-MEMORY STORES (Replace with Prisma)
-// ============================================
-
-interface UserRecord {
-  id: string
-  username: string
-  pointsBalance: number
-}
-
-interface SkinRecord {
-  id: string
-  name: string
-  description?: string
-  imageUrl?: string
-  rarity: 'COMMON' | 'UNCOMMON' | 'RARE' | 'EPIC' | 'LEGENDARY'
-  pointsValue: number
-  availableForPurchase: boolean
-}
-
-interface UserSkinRecord {
-  id: string
-  userId: string
-  skinId: string
-  status: 'ACTIVE' | 'LOCKED_IN_DUEL' | 'BURNED' | 'DONATED_TO_PLATFORM' | 'CONVERTED_TO_POINTS'
-  createdAt: Date
+import { FeeService } from './feeService'
+import { InsufficientBalanceError, ISSUANCE_ACCOUNT, LedgerService, userAccount } from './ledgerService'
+
+function toSkinDto(skin: Skin): SkinDto {
+  return {
+    id: skin.id,
+    name: skin.name,
+    description: skin.description ?? undefined,
+    imageUrl: skin.imageUrl ?? undefined,
+    rarity: skin.rarity,
+    pointsValue: skin.pointsValue,
+    availableForPurchase: skin.availableForPurchase,
+  }
 }
 
-interface TransactionRecord {
-  id: string
-  userId: string
-  type: TransactionType
-  amountPoints: number
-  description?: string
-  relatedSkinId?: string
-  createdAt: Date
+function toUserSkinDto(userSkin: UserSkin & { skin: Skin }): UserSkinDto {
+  return {
+    id: userSkin.id,
+    skin: toSkinDto(userSkin.skin),
+    status: userSkin.status,
+    createdAt: userSkin.createdAt.toISOString(),
+  }
 }
 
-// Mock data stores
-const users: Map<string, UserRecord> = new Map([
-  ['user_1', { id: 'user_1', username: 'Player1', pointsBalance: 1000 }],
-])
-
-const skins: Map<string, SkinRecord> = new Map([
-  ['skin_dragon', { id: 'skin_dragon', name: 'Dragon', description: 'Legendary dragon skin', rarity: 'LEGENDARY', pointsValue: 500, availableForPurchase: true }],
-  ['skin_wolf', { id: 'skin_wolf', name: 'Cyber Wolf', description: 'Epic cyber wolf', rarity: 'EPIC', pointsValue: 250, availableForPurchase: true }],
-  ['skin_blade', { id: 'skin_blade', name: 'Neon Blade', description: 'Rare neon blade', rarity: 'RARE', pointsValue: 100, availableForPurchase: true }],
-  ['skin_shield', { id: 'skin_shield', name: 'Shadow Shield', description: 'Uncommon shield', rarity: 'UNCOMMON', pointsValue: 50, availableForPurchase: true }],
-  ['skin_basic', { id: 'skin_basic', name: 'Basic Skin', description: 'Common starter skin', rarity: 'COMMON', pointsValue: 25, availableForPurchase: true }],
-])
-
-const userSkins: Map<string, UserSkinRecord> = new Map([
-  ['uskin_1', { id: 'uskin_1', userId: 'user_1', skinId: 'skin_blade', status: 'ACTIVE', createdAt: new Date() }],
-  ['uskin_2', { id: 'uskin_2', userId: 'user_1', skinId: 'skin_shield', status: 'ACTIVE', createdAt: new Date() }],
-])
-
-const transactions: TransactionRecord[] = []
-
 // ============================================
 // EXCHANGE SERVICE
 // ============================================
@@ -76,74 +46,86 @@ const transactions: TransactionRecord[] = []
 export class ExchangeService {
   /**
    * Convert skins to points
-   * User exchanges their skins for points based on skin value
+   * User exchanges their skins for points based on skin value, less the exchange spread
    */
   static async skinsToPoints(
     userId: string,
-    userSkinIds: string[]
+    selectedSkinIds: string[]
   ): Promise<ExchangeSkinsToPointsResponse> {
-    const user = users.get(userId)
-    if (!user) {
-      return { success: false, error: 'User not found' }
-    }
-
+    const userSkinIds = Array.from(new Set(selectedSkinIds))
     if (userSkinIds.length === 0) {
       return { success: false, error: 'No skins selected' }
     }
 
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } })
+    if (!user) {
+      return { success: false, error: 'User not found' }
+    }
+
     // Validate all skins
-    const skinsToConvert: { userSkin: UserSkinRecord; skin: SkinRecord }[] = []
-    
+    const skinsToConvert = await prisma.userSkin.findMany({
+      where: { id: { in: userSkinIds } },
+      include: { skin: true },
+    })
+
     for (const userSkinId of userSkinIds) {
-      const userSkin = userSkins.get(userSkinId)
-      
+      const userSkin = skinsToConvert.find(s => s.id === userSkinId)
+
       if (!userSkin) {
         return { success: false, error: `Skin ${userSkinId} not found` }
       }
-      
+
       if (userSkin.userId !== userId) {
         return { success: false, error: `Skin ${userSkinId} does not belong to you` }
       }
-      
-      if (userSkin.status !== 'ACTIVE') {
+
+      if (userSkin.status !== UserSkinStatus.ACTIVE) {
         return { success: false, error: `Skin ${userSkinId} is not available (status: ${userSkin.status})` }
       }
-      
-      const skin = skins.get(userSkin.skinId)
-      if (!skin) {
-        return { success: false, error: `Skin type not found for ${userSkinId}` }
-      }
-      
-      skinsToConvert.push({ userSkin, skin })
     }
 
     // Calculate total points
-    const totalPoints = skinsToConvert.reduce((sum, { skin }) => sum + skin.pointsValue, 0)
+    const skinsValue = skinsToConvert.reduce((sum, { skin }) => sum + skin.pointsValue, 0)
+    const spreadPoints = FeeService.exchangeSpread(skinsValue)
+    const totalPoints = skinsValue - spreadPoints
+    const description = `Converted ${skinsToConvert.length} skin(s) to points`
+
+    const converted = await prisma.$transaction(async (tx) => {
+      // Conditional on ACTIVE: a skin staked or exchanged meanwhile fails the whole exchange
+      const marked = await tx.userSkin.updateMany({
+        where: { id: { in: userSkinIds }, userId, status: UserSkinStatus.ACTIVE },
+        data: { status: UserSkinStatus.CONVERTED_TO_POINTS },
+      })
+      if (marked.count !== userSkinIds.length) return null
+
+      if (skinsValue > 0) {
+        await LedgerService.transfer(tx, {
+          from: ISSUANCE_ACCOUNT,
+          to: userAccount(userId),
+          amount: skinsValue,
+          type: TransactionType.SKIN_TO_POINTS,
+          description,
+        })
+      }
 
-    // Perform conversion (atomic in production with Prisma transaction)
-    for (const { userSkin } of skinsToConvert) {
-      userSkin.status = 'CONVERTED_TO_POINTS'
-      userSkins.set(userSkin.id, userSkin)
-    }
+      await FeeService.charge(tx, userId, spreadPoints, {
+        description: `Exchange spread: ${description.toLowerCase()}`,
+      })
+
+      return tx.user.findUniqueOrThrow({ where: { id: userId }, select: { pointsBalance: true } })
+    })
 
-    user.pointsBalance += totalPoints
-    users.set(userId, user)
-
-    // Create transaction record
-    const transaction: TransactionRecord = {
-      id: `tx_${Date.now()}`,
-      userId,
-      type: 'SKIN_TO_POINTS',
-      amountPoints: totalPoints,
-      description: `Converted ${skinsToConvert.length} skin(s) to points`,
-      createdAt: new Date(),
+    if (!converted) {
+      return { success: false, error: 'Some skins are no longer available' }
     }
-    transactions.push(transaction)
+
+    console.log(`[Exchange] ${userId} converted ${userSkinIds.length} skin(s): +${totalPoints} points, ${spreadPoints} spread`)
 
     return {
       success: true,
       addedPoints: totalPoints,
-      newBalance: user.pointsBalance,
+      spreadPoints,
+      newBalance: converted.pointsBalance,
       convertedSkins: userSkinIds,
     }
   }
@@ -156,12 +138,12 @@ export class ExchangeService {
     userId: string,
     skinId: string
   ): Promise<ExchangePointsToSkinResponse> {
-    const user = users.get(userId)
+    const user = await prisma.user.findUnique({ where: { id: userId } })
     if (!user) {
       return { success: false, error: 'User not found' }
     }
 
-    const skin = skins.get(skinId)
+    const skin = await prisma.skin.findUnique({ where: { id: skinId } })
     if (!skin) {
       return { success: false, error: 'Skin not found in shop' }
     }
@@ -171,55 +153,56 @@ export class ExchangeService {
     }
 
     if (user.pointsBalance < skin.pointsValue) {
-      return { 
-        success: false, 
-        error: `Insufficient points. Need ${skin.pointsValue}, have ${user.pointsBalance}` 
+      return {
+        success: false,
+        error: `Insufficient points. Need ${skin.pointsValue}, have ${user.pointsBalance}`
       }
     }
 
-    // Deduct points
-    user.pointsBalance -= skin.pointsValue
-    users.set(userId, user)
-
-    // Create new user skin
-    const newUserSkin: UserSkinRecord = {
-      id: `uskin_${Date.now()}`,
-      userId,
-      skinId,
-      status: 'ACTIVE',
-      createdAt: new Date(),
-    }
-    userSkins.set(newUserSkin.id, newUserSkin)
-
-    // Create transaction record
-    const transaction: TransactionRecord = {
-      id: `tx_${Date.now()}`,
-      userId,
-      type: 'POINTS_TO_SKIN',
-      amountPoints: -skin.pointsValue,
-      description: `Purchased ${skin.name}`,
-      relatedSkinId: skinId,
-      createdAt: new Date(),
-    }
-    transactions.push(transaction)
+    try {
+      const purchased = await prisma.$transaction(async (tx) => {
+        // Limited stock: take one only if some is left
+        if (skin.stockQuantity !== null) {
+          const taken = await tx.skin.updateMany({
+            where: { id: skinId, stockQuantity: { gt: 0 } },
+            data: { stockQuantity: { decrement: 1 } },
+          })
+          if (taken.count === 0) return null
+        }
 
-    return {
-      success: true,
-      newUserSkin: {
-        id: newUserSkin.id,
-        skin: {
-          id: skin.id,
-          name: skin.name,
-          description: skin.description,
-          imageUrl: skin.imageUrl,
-          rarity: skin.rarity,
-          pointsValue: skin.pointsValue,
-          availableForPurchase: skin.availableForPurchase,
-        },
-        status: newUserSkin.status,
-        createdAt: newUserSkin.createdAt.toISOString(),
-      },
-      newBalance: user.pointsBalance,
+        if (skin.pointsValue > 0) {
+          await LedgerService.transfer(tx, {
+            from: userAccount(userId),
+            to: ISSUANCE_ACCOUNT,
+            amount: skin.pointsValue,
+            type: TransactionType.POINTS_TO_SKIN,
+            description: `Purchased ${skin.name}`,
+          })
+        }
+
+        const newUserSkin = await tx.userSkin.create({
+          data: { userId, skinId },
+          include: { skin: true },
+        })
+        const updated = await tx.user.findUniqueOrThrow({ where: { id: userId }, select: { pointsBalance: true } })
+
+        return { newUserSkin, newBalance: updated.pointsBalance }
+      })
+
+      if (!purchased) {
+        return { success: false, error: 'Skin is out of stock' }
+      }
+
+      return {
+        success: true,
+        newUserSkin: toUserSkinDto(purchased.newUserSkin),
+        newBalance: purchased.newBalance,
+      }
+    } catch (error) {
+      if (error instanceof InsufficientBalanceError) {
+        return { success: false, error: 'Insufficient points' }
+      }
+      throw error
     }
   }
 
@@ -227,72 +210,42 @@ export class ExchangeService {
    * Get available skins in shop
    */
   static async getShopSkins(): Promise<SkinDto[]> {
-    const shopSkins: SkinDto[] = []
-    
-    skins.forEach((skin) => {
-      if (skin.availableForPurchase) {
-        shopSkins.push({
-          id: skin.id,
-          name: skin.name,
-          description: skin.description,
-          imageUrl: skin.imageUrl,
-          rarity: skin.rarity,
-          pointsValue: skin.pointsValue,
-          availableForPurchase: true,
-        })
-      }
+    const skins = await prisma.skin.findMany({
+      where: { availableForPurchase: true },
+      orderBy: { pointsValue: 'asc' },
     })
 
-    return shopSkins.sort((a, b) => a.pointsValue - b.pointsValue)
+    return skins.map(toSkinDto)
   }
 
   /**
    * Get user's skins
    */
   static async getUserSkins(userId: string): Promise<UserSkinDto[]> {
-    const result: UserSkinDto[] = []
-    
-    userSkins.forEach((userSkin) => {
-      if (userSkin.userId === userId && userSkin.status === 'ACTIVE') {
-        const skin = skins.get(userSkin.skinId)
-        if (skin) {
-          result.push({
-            id: userSkin.id,
-            skin: {
-              id: skin.id,
-              name: skin.name,
-              description: skin.description,
-              imageUrl: skin.imageUrl,
-              rarity: skin.rarity,
-              pointsValue: skin.pointsValue,
-              availableForPurchase: skin.availableForPurchase,
-            },
-            status: userSkin.status,
-            createdAt: userSkin.createdAt.toISOString(),
-          })
-        }
-      }
+    const skins = await prisma.userSkin.findMany({
+      where: { userId, status: UserSkinStatus.ACTIVE },
+      include: { skin: true },
+      orderBy: { createdAt: 'desc' },
     })
 
-    return result
+    return skins.map(toUserSkinDto)
   }
 
   /**
    * Get user's points balance
    */
   static async getUserBalance(userId: string): Promise<number> {
-    const user = users.get(userId)
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { pointsBalance: true } })
     return user?.pointsBalance ?? 0
   }
 
   /**
    * Get user's transaction history
    */
-  static async getUserTransactions(userId: string): Promise<TransactionRecord[]> {
-    return transactions
-      .filter(t => t.userId === userId)
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+  static async getUserTransactions(userId: string) {
+    return prisma.transaction.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    })
   }
 }
-
-
@@ -0,0 +1,76 @@
+/**
+ * Fee Service
+ * Platform income: duel rake, skin exchange spread and late-cancel fees
+ *
+ * Rates come from FEE_SCHEDULE. A fee is taken from the user's balance after
+ * the payout it applies to, as a PLATFORM_FEE transfer to the vault, so it
+ * shows in their history next to that payout.
+ */
+
+import { DuelOffer, Prisma, StakeType, TransactionType } from '@prisma/client'
+import { ChipType, FEE_SCHEDULE } from '../types'
+import { LedgerService, VAULT_ACCOUNT, userAccount } from './ledgerService'
+
+type Tx = Prisma.TransactionClient
+
+interface FeeDetails {
+  description: string
+  relatedOfferId?: string
+  relatedMatchId?: string
+}
+
+function percentOf(points: number, percent: number): number {
+  return Math.floor((points * percent) / 100)
+}
+
+export class FeeService {
+  /**
+   * Rake on points a duel winner takes from the loser
+   */
+  static duelRake(winnings: number, chipType: ChipType, stakeType: StakeType = StakeType.POINTS): number {
+    const percent = stakeType === StakeType.SKINS
+      ? FEE_SCHEDULE.SKINS_DUEL_RAKE_PERCENT
+      : FEE_SCHEDULE.DUEL_RAKE_PERCENT[chipType]
+
+    return percentOf(winnings, percent)
+  }
+
+  /**
+   * Spread kept when skins worth `points` are exchanged for points
+   */
+  static exchangeSpread(points: number): number {
+    return percentOf(points, FEE_SCHEDULE.SKIN_EXCHANGE_SPREAD_PERCENT)
+  }
+
+  /**
+   * Fee for cancelling an open offer (0 within LATE_CANCEL_AFTER_MS of creating it)
+   * Only the points stake counts; skins offers are free to cancel.
+   */
+  static cancellationFee(
+    offer: Pick<DuelOffer, 'createdAt' | 'chipPointsValue' | 'gamesCount'>,
+    at: Date = new Date()
+  ): number {
+    if (at.getTime() - offer.createdAt.getTime() < FEE_SCHEDULE.LATE_CANCEL_AFTER_MS) return 0
+
+    return percentOf(offer.chipPointsValue * offer.gamesCount, FEE_SCHEDULE.LATE_CANCEL_FEE_PERCENT)
+  }
+
+  /**
+   * Move a fee from the user's balance to the vault (no-op for 0)
+   */
+  static async charge(tx: Tx, userId: string, amount: number, details: FeeDetails): Promise<void> {
+    if (amount <= 0) return
+
+    await LedgerService.transfer(tx, {
+      from: userAccount(userId),
+      to: VAULT_ACCOUNT,
+      amount,
+      type: TransactionType.PLATFORM_FEE,
+      relatedOfferId: details.relatedOfferId,
+      relatedMatchId: details.relatedMatchId,
+      description: details.description,
+    })
+
+    console.log(`[Fee] ${amount} points from ${userId} to the vault: ${details.description}`)
+  }
+}
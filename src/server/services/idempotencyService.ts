@@ -0,0 +1,156 @@
+/**
+ * Idempotency Service
+ * Safe retries for the requests that move points or skins
+ *
+ * The client sends an Idempotency-Key header. The first request with a key
+ * runs and its response is kept for IDEMPOTENCY_TTL_MS; a retry with the same
+ * key gets that response back instead of running again. Keys are per user and
+ * bound to the route and body they were first used with.
+ *
+ * 5xx responses and thrown errors are not kept, so those can be retried.
+ * Requests without the header run as before.
+ */
+
+import { createHash } from 'crypto'
+import prisma from '@/lib/prisma'
+import { Prisma } from '@prisma/client'
+import { CONSTANTS } from '../types'
+import { canonicalJson } from './matchBundle'
+
+const HEADER = 'Idempotency-Key'
+const MAX_KEY_LENGTH = 255
+const IN_PROGRESS_TIMEOUT_MS = 60 * 1000 // a first request unfinished after this is considered lost
+
+type Claim =
+  | { outcome: 'claimed'; id: string }
+  | { outcome: 'replay'; statusCode: number; body: Prisma.JsonValue }
+  | { outcome: 'rejected'; statusCode: number; error: string }
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  })
+}
+
+export class IdempotencyService {
+  /**
+   * Run a route handler at most once per Idempotency-Key
+   * body is the parsed request body; the retry must send the same one.
+   */
+  static async run(
+    request: Request,
+    userId: string,
+    body: unknown,
+    handler: () => Promise<Response>
+  ): Promise<Response> {
+    const key = request.headers.get(HEADER)
+    if (key === null) return handler()
+
+    if (!key.trim() || key.length > MAX_KEY_LENGTH) {
+      return jsonResponse(400, { success: false, error: `${HEADER} must be 1-${MAX_KEY_LENGTH} characters` })
+    }
+
+    const route = `${request.method} ${new URL(request.url).pathname}`
+    const requestHash = createHash('sha256').update(canonicalJson(body ?? null)).digest('hex')
+
+    const claim = await this.claim(userId, key, route, requestHash)
+    if (claim.outcome === 'replay') {
+      console.log(`[Idempotency] Replaying ${route} for ${userId}`)
+      return jsonResponse(claim.statusCode, claim.body, { 'Idempotent-Replayed': 'true' })
+    }
+    if (claim.outcome === 'rejected') {
+      return jsonResponse(claim.statusCode, { success: false, error: claim.error })
+    }
+
+    let response: Response
+    try {
+      response = await handler()
+    } catch (error) {
+      await this.release(claim.id)
+      throw error
+    }
+
+    if (response.status >= 500) {
+      await this.release(claim.id)
+      return response
+    }
+
+    await prisma.idempotencyKey.update({
+      where: { id: claim.id },
+      data: { statusCode: response.status, responseBody: await response.clone().json() },
+    })
+    return response
+  }
+
+  /**
+   * Delete keys past their retention window (background job)
+   */
+  static async purgeExpired(): Promise<number> {
+    const deleted = await prisma.idempotencyKey.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    })
+
+    return deleted.count
+  }
+
+  /**
+   * Take the key for this request, or say what to answer instead
+   */
+  private static async claim(
+    userId: string,
+    key: string,
+    route: string,
+    requestHash: string,
+    retried = false
+  ): Promise<Claim> {
+    try {
+      const created = await prisma.idempotencyKey.create({
+        data: {
+          userId,
+          key,
+          route,
+          requestHash,
+          expiresAt: new Date(Date.now() + CONSTANTS.IDEMPOTENCY_TTL_MS),
+        },
+      })
+      return { outcome: 'claimed', id: created.id }
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error
+      }
+    }
+
+    const existing = await prisma.idempotencyKey.findUnique({
+      where: { userId_key: { userId, key } },
+    })
+
+    const lost = existing?.statusCode === null
+      && existing.createdAt.getTime() < Date.now() - IN_PROGRESS_TIMEOUT_MS
+    if (!existing || existing.expiresAt < new Date() || lost) {
+      // Released, expired or abandoned - free to use again (once, in case another retry races us)
+      if (retried) {
+        return { outcome: 'rejected', statusCode: 409, error: 'Request with this Idempotency-Key is in progress' }
+      }
+      if (existing) await prisma.idempotencyKey.deleteMany({ where: { id: existing.id } })
+      return this.claim(userId, key, route, requestHash, true)
+    }
+
+    if (existing.route !== route || existing.requestHash !== requestHash) {
+      return { outcome: 'rejected', statusCode: 422, error: 'Idempotency-Key was already used for a different request' }
+    }
+
+    if (existing.statusCode === null) {
+      return { outcome: 'rejected', statusCode: 409, error: 'Request with this Idempotency-Key is in progress' }
+    }
+
+    return { outcome: 'replay', statusCode: existing.statusCode, body: existing.responseBody }
+  }
+
+  /**
+   * Forget a claim whose request failed, so a retry runs it again
+   */
+  private static async release(id: string): Promise<void> {
+    await prisma.idempotencyKey.delete({ where: { id } }).catch(() => undefined)
+  }
+}
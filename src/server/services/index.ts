@@ -10,6 +10,41 @@ export { ReliabilityService } from './reliabilityService'
 export { NotificationService } from './notificationService'
 export { ExchangeService } from './exchangeService'
 export { AuthService } from './authService'
+export { ServerSeedService } from './serverSeedService'
+export { KeyringService } from './keyringService'
+export { RoundProofService } from './roundProofService'
+export { MatchBundleService } from './matchBundleService'
+export {
+  DuelStateMachine,
+  IllegalTransitionError,
+  OFFER_TRANSITIONS,
+  MATCH_TRANSITIONS,
+  GAME_TRANSITIONS,
+  INITIAL_STATUSES,
+  type DuelEntityType,
+} from './duelStateMachine'
+export {
+  LedgerService,
+  InsufficientBalanceError,
+  PLATFORM_VAULT_ID,
+  VAULT_ACCOUNT,
+  ISSUANCE_ACCOUNT,
+  userAccount,
+  escrowAccount,
+  queueAccount,
+  type LedgerAccountRef,
+  type TransferInput,
+  type ReconciliationReport,
+  type BalanceMismatch,
+} from './ledgerService'
+export { EscrowService, SkinUnavailableError } from './escrowService'
+export { JobService, type JobName, type EnqueueOptions, type RunSummary } from './jobService'
+export { RealtimeService, BOARD_CHANNEL } from './realtimeService'
+export { InviteService } from './inviteService'
+export { MatchmakingService } from './matchmakingService'
+export { IdempotencyService } from './idempotencyService'
+export { PenaltyService, type PenaltyDecision } from './penaltyService'
+export { InMemoryEventBroker, type EventBroker, type RealtimeListener } from './eventBroker'
 
 // Winner Determination (HMAC-SHA256 + Closest Number Wins)
 export { 
@@ -17,13 +52,52 @@ export {
   verifyResult, 
   calculateTimeSlot,
   validatePlayerNumber,
+  computeCommitment,
+  verifyCommitment,
+  validateCommitment,
+  validateNonce,
+  resolveCommittedRound,
+  generateServerSeed,
+  hashServerSeed,
+  getEnvPlatformKey,
+  isFallbackKey,
+  validateClientSeed,
+  isAlgorithmVersion,
   MAX_NUMBER,
   MIN_NUMBER,
   NUMBER_RANGE,
+  COMMITMENT_NONCE_LENGTH,
+  ENV_KEY_VERSION,
+  CURRENT_ALGORITHM_VERSION,
+  SAMPLE_LIMIT,
+  type RandomAlgorithmVersion,
+  type PlatformKeyRef,
   type PlayerBet,
+  type SeedMaterial,
   type DuelRoundParams,
   type DuelRoundResult,
   type VerificationData,
   type VerificationRequest,
   type VerificationResult,
+  type CommittedPlayer,
+  type CommittedRoundParams,
+  type CommittedRoundOutcome,
 } from './winnerDetermination'
+
+// Match verification bundles
+export {
+  canonicalJson,
+  signBundle,
+  generateSigningKeyPair,
+  verifyBundleSignature,
+  verifyBundle,
+  BUNDLE_FORMAT,
+  BUNDLE_FORMAT_VERSION,
+  type MatchBundle,
+  type MatchBundlePayload,
+  type SigningKeyRef,
+  type TrustedSigningKeys,
+  type BundleRound,
+  type BundleCheck,
+  type RoundCheck,
+} from './matchBundle'
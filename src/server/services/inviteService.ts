@@ -0,0 +1,76 @@
+/**
+ * Invite Service
+ * Signed, expiring invites to UNLISTED offers
+ *
+ * Token: <offerId>.<expiresAt, base36 ms>.<HMAC-SHA256, base64url>
+ * Nothing is stored - the signature proves the creator handed it out, and a
+ * new invite does not revoke the old ones before they expire.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { InviteDto } from '../types'
+
+const DEVELOPMENT_FALLBACK_SECRET = 'twos_development_invite_secret_32c!'
+const SIGNATURE_LENGTH = 22 // base64url chars, 132 bits
+
+export class InviteService {
+  /**
+   * Sign an invite to an offer
+   * Returns null in production when INVITE_SECRET is not set
+   */
+  static createInvite(offerId: string, expiresAt: Date): InviteDto | null {
+    const secret = this.getSecret()
+    if (!secret) return null
+
+    const payload = `${offerId}.${expiresAt.getTime().toString(36)}`
+    return {
+      token: `${payload}.${this.sign(secret, payload)}`,
+      expiresAt: expiresAt.toISOString(),
+    }
+  }
+
+  /**
+   * Check an invite token
+   */
+  static verifyInvite(token: string): { valid: boolean; offerId?: string; error?: string } {
+    const secret = this.getSecret()
+    const parts = token.trim().split('.')
+    if (!secret || parts.length !== 3) {
+      return { valid: false, error: 'Invalid invite' }
+    }
+
+    const [offerId, rawExpiry, signature] = parts
+    const expected = Buffer.from(this.sign(secret, `${offerId}.${rawExpiry}`))
+    const given = Buffer.from(signature)
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      return { valid: false, error: 'Invalid invite' }
+    }
+
+    if (parseInt(rawExpiry, 36) < Date.now()) {
+      return { valid: false, error: 'Invite has expired' }
+    }
+
+    return { valid: true, offerId }
+  }
+
+  private static sign(secret: string, payload: string): string {
+    return createHmac('sha256', secret)
+      .update(payload)
+      .digest('base64url')
+      .slice(0, SIGNATURE_LENGTH)
+  }
+
+  /**
+   * INVITE_SECRET, or a fixed development secret outside production
+   */
+  private static getSecret(): string | null {
+    const secret = process.env.INVITE_SECRET
+    if (secret) return secret
+
+    if (process.env.NODE_ENV === 'production') {
+      console.error('[Invite] INVITE_SECRET is not set')
+      return null
+    }
+    return DEVELOPMENT_FALLBACK_SECRET
+  }
+}
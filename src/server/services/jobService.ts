@@ -0,0 +1,259 @@
+/**
+ * Job Service
+ * Durable background jobs: deadlines, expiries and timeouts
+ *
+ * Jobs live in the Job table. A worker claims a due job with a conditional
+ * update, so only one worker runs it, then records the outcome. Failed jobs
+ * are retried with backoff until maxAttempts; a job whose worker died is
+ * picked up again once its lock runs out.
+ *
+ * Runs as a Node worker (npm run jobs:worker) or from Vercel Cron
+ * (GET /api/cron/jobs). Both call runDue(), which also enqueues the
+ * recurring sweeps that are due.
+ */
+
+import prisma from '@/lib/prisma'
+import { Job, JobStatus, Prisma } from '@prisma/client'
+import { P2POrderService } from './p2pOrderService'
+import { DuelGameService } from './duelGameService'
+import { MatchmakingService } from './matchmakingService'
+import { IdempotencyService } from './idempotencyService'
+
+export type JobName =
+  | 'expire-offers'
+  | 'expire-confirmations'
+  | 'forfeit-stalled-games'
+  | 'advance-stalled-matches'
+  | 'match-queue'
+  | 'expire-queue'
+  | 'purge-idempotency-keys'
+  | 'prune-jobs'
+
+type JobHandler = (payload: Prisma.JsonValue) => Promise<Prisma.InputJsonValue>
+
+const HANDLERS: Record<JobName, JobHandler> = {
+  'expire-offers': async () => ({ expired: await P2POrderService.expireOffers() }),
+  'expire-confirmations': async () => ({ expired: await P2POrderService.expireConfirmations() }),
+  'forfeit-stalled-games': async () => ({ resolved: await DuelGameService.checkTimeouts() }),
+  'advance-stalled-matches': async () => ({ advanced: await DuelGameService.advanceStalledMatches() }),
+  'match-queue': async () => ({ paired: await MatchmakingService.matchQueued() }),
+  'expire-queue': async () => ({ expired: await MatchmakingService.expireEntries() }),
+  'purge-idempotency-keys': async () => ({ deleted: await IdempotencyService.purgeExpired() }),
+  'prune-jobs': async () => ({ deleted: await JobService.prune() }),
+}
+
+/** Sweeps enqueued once per interval */
+const RECURRING: Array<{ name: JobName; intervalMs: number }> = [
+  { name: 'expire-offers', intervalMs: 60 * 1000 },
+  { name: 'expire-confirmations', intervalMs: 60 * 1000 },
+  { name: 'forfeit-stalled-games', intervalMs: 60 * 1000 },
+  { name: 'advance-stalled-matches', intervalMs: 5 * 60 * 1000 },
+  { name: 'match-queue', intervalMs: 60 * 1000 },
+  { name: 'expire-queue', intervalMs: 60 * 1000 },
+  { name: 'purge-idempotency-keys', intervalMs: 60 * 60 * 1000 },
+  { name: 'prune-jobs', intervalMs: 60 * 60 * 1000 },
+]
+
+const LOCK_TTL_MS = 5 * 60 * 1000 // a job running longer is considered lost
+const RETRY_BASE_MS = 10 * 1000 // 10s, 20s, 40s, ...
+const KEEP_FINISHED_MS = 7 * 24 * 60 * 60 * 1000 // 7 days
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface EnqueueOptions {
+  runAt?: Date
+  maxAttempts?: number
+  /** At most one job per key */
+  dedupeKey?: string
+}
+
+export interface RunSummary {
+  workerId: string
+  enqueued: number
+  ran: number
+  succeeded: number
+  failed: number
+}
+
+export class JobService {
+  /**
+   * Add a job to the queue
+   * Returns null if a job with the same dedupeKey already exists
+   */
+  static async enqueue(
+    name: JobName,
+    payload: Prisma.InputJsonValue | null = null,
+    options: EnqueueOptions = {}
+  ): Promise<Job | null> {
+    try {
+      return await prisma.job.create({
+        data: {
+          name,
+          payload: payload ?? Prisma.JsonNull,
+          runAt: options.runAt ?? new Date(),
+          maxAttempts: options.maxAttempts ?? 3,
+          dedupeKey: options.dedupeKey,
+        },
+      })
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Enqueue the recurring sweeps for the current interval
+   * Safe to call from every worker - each interval gets one job per sweep.
+   */
+  static async scheduleRecurring(now: Date = new Date()): Promise<number> {
+    const created = await prisma.job.createMany({
+      data: RECURRING.map(({ name, intervalMs }) => ({
+        name,
+        runAt: now,
+        dedupeKey: `${name}:${Math.floor(now.getTime() / intervalMs)}`,
+      })),
+      skipDuplicates: true,
+    })
+
+    return created.count
+  }
+
+  /**
+   * Enqueue due sweeps, then claim and run due jobs one by one
+   */
+  static async runDue(workerId: string, limit: number = 20): Promise<RunSummary> {
+    const summary: RunSummary = {
+      workerId,
+      enqueued: await this.scheduleRecurring(),
+      ran: 0,
+      succeeded: 0,
+      failed: 0,
+    }
+
+    while (summary.ran < limit) {
+      const job = await this.claimNext(workerId)
+      if (!job) break
+
+      summary.ran++
+      if (await this.run(job, workerId)) summary.succeeded++
+      else summary.failed++
+    }
+
+    if (summary.ran > 0) {
+      console.log(`[Jobs] ${workerId}: ran ${summary.ran}, ${summary.succeeded} ok, ${summary.failed} failed`)
+    }
+    return summary
+  }
+
+  /**
+   * Lock the next due job for this worker
+   * PENDING jobs past runAt, or RUNNING jobs whose worker lost the lock.
+   * The update is conditional on the attempt count, so of two workers
+   * racing for the same job only one gets it.
+   */
+  static async claimNext(workerId: string): Promise<Job | null> {
+    // A few tries in case other workers take the first candidates
+    for (let i = 0; i < 5; i++) {
+      const now = new Date()
+      const candidate = await prisma.job.findFirst({
+        where: {
+          OR: [
+            { status: JobStatus.PENDING, runAt: { lte: now } },
+            { status: JobStatus.RUNNING, lockedUntil: { lt: now } },
+          ],
+        },
+        orderBy: { runAt: 'asc' },
+      })
+      if (!candidate) return null
+
+      // Lost on its last attempt - do not run it again
+      if (candidate.attempts >= candidate.maxAttempts) {
+        await prisma.job.updateMany({
+          where: { id: candidate.id, status: candidate.status, attempts: candidate.attempts },
+          data: {
+            status: JobStatus.FAILED,
+            lastError: candidate.lastError ?? `Worker ${candidate.lockedBy} lost the job`,
+            lockedUntil: null,
+            finishedAt: now,
+          },
+        })
+        continue
+      }
+
+      const claimed = await prisma.job.updateMany({
+        where: { id: candidate.id, status: candidate.status, attempts: candidate.attempts },
+        data: {
+          status: JobStatus.RUNNING,
+          attempts: { increment: 1 },
+          lockedBy: workerId,
+          lockedUntil: new Date(now.getTime() + LOCK_TTL_MS),
+        },
+      })
+      if (claimed.count === 1) {
+        return prisma.job.findUniqueOrThrow({ where: { id: candidate.id } })
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Delete finished jobs older than a week
+   */
+  static async prune(): Promise<number> {
+    const deleted = await prisma.job.deleteMany({
+      where: {
+        status: { in: [JobStatus.SUCCEEDED, JobStatus.FAILED] },
+        finishedAt: { lt: new Date(Date.now() - KEEP_FINISHED_MS) },
+      },
+    })
+
+    return deleted.count
+  }
+
+  /**
+   * Run a claimed job and record the outcome
+   * Only the worker still holding the lock writes it.
+   */
+  private static async run(job: Job, workerId: string): Promise<boolean> {
+    const handler = HANDLERS[job.name as JobName]
+
+    try {
+      if (!handler) throw new Error(`Unknown job ${job.name}`)
+      const result = await handler(job.payload)
+
+      await prisma.job.updateMany({
+        where: { id: job.id, status: JobStatus.RUNNING, lockedBy: workerId },
+        data: {
+          status: JobStatus.SUCCEEDED,
+          result,
+          lastError: null,
+          lockedUntil: null,
+          finishedAt: new Date(),
+        },
+      })
+      return true
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      const outOfAttempts = !handler || job.attempts >= job.maxAttempts
+      console.error(`[Jobs] ${job.name} (${job.id}) attempt ${job.attempts}/${job.maxAttempts} failed:`, error)
+
+      await prisma.job.updateMany({
+        where: { id: job.id, status: JobStatus.RUNNING, lockedBy: workerId },
+        data: outOfAttempts
+          ? { status: JobStatus.FAILED, lastError: message, lockedUntil: null, finishedAt: new Date() }
+          : {
+              status: JobStatus.PENDING,
+              lastError: message,
+              lockedUntil: null,
+              runAt: new Date(Date.now() + RETRY_BASE_MS * 2 ** (job.attempts - 1)),
+            },
+      })
+      return false
+    }
+  }
+}
@@ -0,0 +1,295 @@
+/**
+ * Keyring Service
+ * Versioned platform secrets with activation windows
+ *
+ * - v0 is TWOS_PLATFORM_SECRET, used until the first rotation
+ * - Rotation adds a new version and retires the current one
+ * - Retired secrets are published once no unrevealed match depends on them
+ * - Bundle signing keys are a separate Ed25519 keyring: public halves are listed
+ *   for every version, private halves are never published
+ */
+
+import prisma from '@/lib/prisma'
+import { DuelMatchStatus, Prisma } from '@prisma/client'
+import {
+  getEnvPlatformKey,
+  isFallbackKey,
+  PlatformKeyRef,
+  ENV_KEY_VERSION,
+} from './winnerDetermination'
+import { generateSigningKeyPair, SigningKeyRef } from './matchBundle'
+
+export interface PublishedKey {
+  version: number
+  secret: string
+  activatesAt: string
+  retiresAt: string | null
+  publishedAt: string
+}
+
+export interface RotateKeyResult {
+  version: number
+  activatesAt: string
+  retiredVersions: number[]
+}
+
+export interface SigningPublicKey {
+  version: number
+  /** SPKI DER, base64 */
+  publicKey: string
+  createdAt: string
+  retiresAt: string | null
+}
+
+export interface PublishKeysResult {
+  published: number[]
+  /** Retired keys still backing unrevealed matches */
+  pending: number[]
+}
+
+export class KeyringService {
+  /**
+   * Key active right now (latest activated, not retired)
+   * Falls back to v0 from env when the keyring is empty
+   */
+  static async getActiveKey(): Promise<PlatformKeyRef> {
+    const now = new Date()
+    const key = await prisma.platformKey.findFirst({
+      where: {
+        activatesAt: { lte: now },
+        OR: [{ retiresAt: null }, { retiresAt: { gt: now } }],
+      },
+      orderBy: { version: 'desc' },
+    })
+
+    if (key) return { version: key.version, secret: key.secret }
+
+    const envKey = getEnvPlatformKey()
+    const stored = await prisma.platformKey.findUnique({ where: { version: ENV_KEY_VERSION } })
+
+    // v0 was retired by a rotation - refuse to silently keep using it
+    if (stored?.retiresAt && stored.retiresAt <= now) {
+      throw new Error('No active platform key. Run the keyring rotate command.')
+    }
+
+    return envKey
+  }
+
+  /**
+   * Key by version (for resolving rounds of older matches)
+   */
+  static async getKey(version: number): Promise<PlatformKeyRef | null> {
+    const key = await prisma.platformKey.findUnique({ where: { version } })
+    if (key) return { version: key.version, secret: key.secret }
+
+    if (version === ENV_KEY_VERSION) return getEnvPlatformKey()
+    return null
+  }
+
+  /**
+   * Add a new key version and retire the currently active ones
+   * On the first rotation v0 (env secret) is stored so it can be published later
+   */
+  static async rotate(options: { secret?: string; activatesAt?: Date } = {}): Promise<RotateKeyResult> {
+    const crypto = require('crypto')
+    const secret: string = options.secret ?? crypto.randomBytes(32).toString('hex')
+    const activatesAt = options.activatesAt ?? new Date()
+
+    if (secret.length < 32) {
+      throw new Error('Platform key secret must be at least 32 characters')
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const latest = await tx.platformKey.findFirst({ orderBy: { version: 'desc' } })
+
+      if (!latest) {
+        await tx.platformKey.create({
+          data: {
+            version: ENV_KEY_VERSION,
+            secret: getEnvPlatformKey().secret,
+            activatesAt: new Date(0),
+          },
+        })
+      }
+
+      const version = (latest?.version ?? ENV_KEY_VERSION) + 1
+
+      // Everything active at the new key's activation time retires then
+      const toRetire = await tx.platformKey.findMany({
+        where: {
+          version: { lt: version },
+          OR: [{ retiresAt: null }, { retiresAt: { gt: activatesAt } }],
+        },
+        select: { version: true },
+      })
+
+      await tx.platformKey.updateMany({
+        where: { version: { in: toRetire.map(k => k.version) } },
+        data: { retiresAt: activatesAt },
+      })
+
+      await tx.platformKey.create({
+        data: { version, secret, activatesAt },
+      })
+
+      console.log(`[Keyring] Rotated to v${version}, retired ${toRetire.map(k => `v${k.version}`).join(', ') || 'none'}`)
+
+      return {
+        version,
+        activatesAt: activatesAt.toISOString(),
+        retiredVersions: toRetire.map(k => k.version),
+      }
+    })
+  }
+
+  /**
+   * Publish secrets of retired keys
+   * A key is held back while any match seeded from it has not revealed its seed
+   */
+  static async publishRetiredKeys(): Promise<PublishKeysResult> {
+    const now = new Date()
+    const retired = await prisma.platformKey.findMany({
+      where: { retiresAt: { lte: now }, publishedAt: null },
+      orderBy: { version: 'asc' },
+    })
+
+    const published: number[] = []
+    const pending: number[] = []
+
+    for (const key of retired) {
+      const openMatches = await prisma.duelMatch.count({
+        where: {
+          serverSeedKeyVersion: key.version,
+          serverSeedRevealedAt: null,
+          status: { in: [DuelMatchStatus.AWAITING_CREATOR_CONFIRM, DuelMatchStatus.IN_PROGRESS] },
+        },
+      })
+
+      if (openMatches > 0) {
+        pending.push(key.version)
+        continue
+      }
+
+      await prisma.platformKey.update({
+        where: { version: key.version },
+        data: { publishedAt: now },
+      })
+      published.push(key.version)
+    }
+
+    console.log(`[Keyring] Published ${published.length} key(s), ${pending.length} pending`)
+    return { published, pending }
+  }
+
+  /**
+   * Published (retired) keys - public
+   */
+  static async getPublishedKeys(): Promise<PublishedKey[]> {
+    const keys = await prisma.platformKey.findMany({
+      where: { publishedAt: { not: null } },
+      orderBy: { version: 'asc' },
+    })
+
+    return keys.map(key => ({
+      version: key.version,
+      secret: key.secret,
+      activatesAt: key.activatesAt.toISOString(),
+      retiresAt: key.retiresAt?.toISOString() ?? null,
+      publishedAt: key.publishedAt!.toISOString(),
+    }))
+  }
+
+  /**
+   * Key new bundles are signed with (latest, not retired)
+   * Creates v1 when there is none yet
+   */
+  static async getActiveSigningKey(): Promise<SigningKeyRef> {
+    const key = await prisma.bundleSigningKey.findFirst({
+      where: { retiresAt: null },
+      orderBy: { version: 'desc' },
+    })
+
+    if (key) return { version: key.version, privateKey: key.privateKey }
+
+    const anyKey = await prisma.bundleSigningKey.findFirst()
+    if (anyKey) {
+      throw new Error('No active bundle signing key. Run the keyring rotate-signing command.')
+    }
+
+    try {
+      const created = await prisma.bundleSigningKey.create({
+        data: { version: 1, ...generateSigningKeyPair() },
+      })
+      console.log('[Keyring] Created bundle signing key v1')
+      return { version: created.version, privateKey: created.privateKey }
+    } catch (error) {
+      // Another request created v1 first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const existing = await prisma.bundleSigningKey.findUniqueOrThrow({ where: { version: 1 } })
+        return { version: existing.version, privateKey: existing.privateKey }
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Add a new bundle signing key and retire the current ones
+   * Retired keys stay listed so bundles signed with them still verify
+   */
+  static async rotateSigningKey(): Promise<{ version: number; retiredVersions: number[] }> {
+    return prisma.$transaction(async (tx) => {
+      const latest = await tx.bundleSigningKey.findFirst({ orderBy: { version: 'desc' } })
+      const version = (latest?.version ?? 0) + 1
+
+      const toRetire = await tx.bundleSigningKey.findMany({
+        where: { retiresAt: null },
+        select: { version: true },
+      })
+
+      await tx.bundleSigningKey.updateMany({
+        where: { retiresAt: null },
+        data: { retiresAt: new Date() },
+      })
+
+      await tx.bundleSigningKey.create({
+        data: { version, ...generateSigningKeyPair() },
+      })
+
+      console.log(`[Keyring] Rotated bundle signing key to v${version}`)
+
+      return { version, retiredVersions: toRetire.map(k => k.version) }
+    })
+  }
+
+  /**
+   * Public halves of every bundle signing key - public
+   */
+  static async getSigningPublicKeys(): Promise<SigningPublicKey[]> {
+    const keys = await prisma.bundleSigningKey.findMany({
+      orderBy: { version: 'asc' },
+      select: { version: true, publicKey: true, createdAt: true, retiresAt: true },
+    })
+
+    return keys.map(key => ({
+      version: key.version,
+      publicKey: key.publicKey,
+      createdAt: key.createdAt.toISOString(),
+      retiresAt: key.retiresAt?.toISOString() ?? null,
+    }))
+  }
+
+  /**
+   * Refuse to run in production on the development fallback secret
+   */
+  static async assertProductionReady(): Promise<void> {
+    if (process.env.NODE_ENV !== 'production') return
+
+    const key = await this.getActiveKey()
+    if (isFallbackKey(key)) {
+      throw new Error(
+        'Refusing to start: platform key is the development fallback. ' +
+        'Set TWOS_PLATFORM_SECRET (32+ chars) or rotate the keyring.'
+      )
+    }
+  }
+}
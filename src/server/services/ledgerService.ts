@@ -0,0 +1,360 @@
+/**
+ * Ledger Service
+ * Double-entry accounting for points
+ *
+ * Every points movement is a journal of two entries that sum to zero.
+ * The ledger is the source of truth - User.pointsBalance and
+ * PlatformVault.totalPoints are caches updated in the same transaction.
+ *
+ * Accounts:
+ * - USER      spendable points of a user
+ * - ESCROW    stakes locked for one offer
+ * - QUEUE     stake held for one matchmaking queue entry
+ * - VAULT     platform vault (fees, burned points)
+ * - ISSUANCE  where new points come from (welcome bonus, credits) - runs negative
+ */
+
+import prisma from '@/lib/prisma'
+import { LedgerAccount, LedgerAccountType, Prisma, TransactionReason, TransactionType } from '@prisma/client'
+
+type Tx = Prisma.TransactionClient
+
+export const PLATFORM_VAULT_ID = 'main_vault'
+
+// ============================================
+// ACCOUNTS
+// ============================================
+
+export type LedgerAccountRef =
+  | { type: 'USER'; userId: string }
+  | { type: 'ESCROW'; offerId: string }
+  | { type: 'QUEUE'; entryId: string }
+  | { type: 'VAULT' }
+  | { type: 'ISSUANCE' }
+
+export const userAccount = (userId: string): LedgerAccountRef => ({ type: 'USER', userId })
+export const escrowAccount = (offerId: string): LedgerAccountRef => ({ type: 'ESCROW', offerId })
+export const queueAccount = (entryId: string): LedgerAccountRef => ({ type: 'QUEUE', entryId })
+export const VAULT_ACCOUNT: LedgerAccountRef = { type: 'VAULT' }
+export const ISSUANCE_ACCOUNT: LedgerAccountRef = { type: 'ISSUANCE' }
+
+function accountKey(ref: LedgerAccountRef): string {
+  switch (ref.type) {
+    case 'USER':
+      return `user:${ref.userId}`
+    case 'ESCROW':
+      return `escrow:${ref.offerId}`
+    case 'QUEUE':
+      return `queue:${ref.entryId}`
+    case 'VAULT':
+      return 'vault'
+    case 'ISSUANCE':
+      return 'issuance'
+  }
+}
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface TransferInput {
+  from: LedgerAccountRef
+  to: LedgerAccountRef
+  amount: number
+  type: TransactionType
+  description?: string
+  /** Penalty outcome, recorded on the users' history rows */
+  reasonCode?: TransactionReason
+  relatedMatchId?: string
+  relatedOfferId?: string
+}
+
+export interface BalanceMismatch {
+  userId: string
+  username: string
+  cachedBalance: number
+  ledgerBalance: number
+  difference: number
+}
+
+export interface ReconciliationReport {
+  checkedUsers: number
+  mismatches: BalanceMismatch[]
+  vault: { cachedBalance: number; ledgerBalance: number } | null
+  unbalancedJournals: string[]
+  ok: boolean
+}
+
+// ============================================
+// ERRORS
+// ============================================
+
+export class InsufficientBalanceError extends Error {
+  constructor(
+    public readonly accountKey: string,
+    public readonly amount: number
+  ) {
+    super(`Insufficient balance on ${accountKey} for ${amount} points`)
+    this.name = 'InsufficientBalanceError'
+  }
+}
+
+export class LedgerService {
+  /**
+   * Move points between two accounts
+   * Writes the balanced entries, updates the caches and records a
+   * Transaction row for every user side. Returns the journal id.
+   */
+  static async transfer(tx: Tx, input: TransferInput): Promise<string> {
+    if (!Number.isInteger(input.amount) || input.amount <= 0) {
+      throw new Error(`Ledger transfer amount must be a positive integer, got ${input.amount}`)
+    }
+    if (accountKey(input.from) === accountKey(input.to)) {
+      throw new Error(`Ledger transfer from ${accountKey(input.from)} to itself`)
+    }
+
+    const from = await this.getAccount(tx, input.from)
+    const to = await this.getAccount(tx, input.to)
+
+    await this.debitCache(tx, from, input.amount)
+    await this.creditCache(tx, to, input.amount)
+
+    const journalId = await this.post(tx, from, to, input)
+
+    // User-facing history
+    for (const [account, amountPoints] of [[from, -input.amount], [to, input.amount]] as const) {
+      if (account.type !== LedgerAccountType.USER || !account.userId) continue
+
+      await tx.transaction.create({
+        data: {
+          userId: account.userId,
+          type: input.type,
+          amountPoints,
+          relatedMatchId: input.relatedMatchId,
+          description: input.description,
+          reasonCode: input.reasonCode,
+          metadata: { journalId, offerId: input.relatedOfferId ?? null },
+        },
+      })
+    }
+
+    return journalId
+  }
+
+  /**
+   * Create an account seeded with an opening balance from ISSUANCE
+   * Caches are not touched - the opening balance is what they already hold.
+   * No-op when the account exists.
+   */
+  static async openAccount(tx: Tx, ref: LedgerAccountRef, openingBalance: number): Promise<LedgerAccount> {
+    const key = accountKey(ref)
+    const existing = await tx.ledgerAccount.findUnique({ where: { key } })
+    if (existing) return existing
+
+    const account = await tx.ledgerAccount.create({
+      data: {
+        key,
+        type: ref.type,
+        userId: ref.type === 'USER' ? ref.userId : null,
+        offerId: ref.type === 'ESCROW' ? ref.offerId : null,
+        queueEntryId: ref.type === 'QUEUE' ? ref.entryId : null,
+      },
+    })
+
+    if (openingBalance > 0) {
+      const issuance = await this.getAccount(tx, ISSUANCE_ACCOUNT)
+      await this.post(tx, issuance, account, {
+        amount: openingBalance,
+        type: TransactionType.INITIAL_BALANCE,
+        description: 'Opening balance',
+        relatedOfferId: ref.type === 'ESCROW' ? ref.offerId : undefined,
+      })
+      console.log(`[Ledger] Opened ${key} with ${openingBalance} points`)
+    }
+
+    return account
+  }
+
+  /**
+   * Ledger balance of an account (sum of its entries)
+   */
+  static async getBalance(ref: LedgerAccountRef, client: Tx = prisma): Promise<number> {
+    const account = await client.ledgerAccount.findUnique({ where: { key: accountKey(ref) } })
+    if (!account) return 0
+
+    const sum = await client.ledgerEntry.aggregate({
+      where: { accountId: account.id },
+      _sum: { amount: true },
+    })
+    return sum._sum.amount ?? 0
+  }
+
+  /**
+   * Compare cached balances with the ledger
+   * Users without a ledger account must hold 0 cached points.
+   */
+  static async reconcile(): Promise<ReconciliationReport> {
+    const sums = await prisma.ledgerEntry.groupBy({
+      by: ['accountId'],
+      _sum: { amount: true },
+    })
+    const sumByAccount = new Map(sums.map(s => [s.accountId, s._sum.amount ?? 0]))
+
+    const accounts = await prisma.ledgerAccount.findMany({
+      where: { type: { in: [LedgerAccountType.USER, LedgerAccountType.VAULT] } },
+    })
+    const ledgerByUser = new Map<string, number>()
+    let vaultLedger: number | null = null
+    for (const account of accounts) {
+      const balance = sumByAccount.get(account.id) ?? 0
+      if (account.type === LedgerAccountType.VAULT) vaultLedger = balance
+      else if (account.userId) ledgerByUser.set(account.userId, balance)
+    }
+
+    const users = await prisma.user.findMany({
+      select: { id: true, username: true, pointsBalance: true },
+    })
+    const mismatches: BalanceMismatch[] = []
+    for (const user of users) {
+      const ledgerBalance = ledgerByUser.get(user.id) ?? 0
+      if (ledgerBalance !== user.pointsBalance) {
+        mismatches.push({
+          userId: user.id,
+          username: user.username,
+          cachedBalance: user.pointsBalance,
+          ledgerBalance,
+          difference: user.pointsBalance - ledgerBalance,
+        })
+      }
+    }
+
+    const platformVault = await prisma.platformVault.findUnique({ where: { id: PLATFORM_VAULT_ID } })
+    const vault = platformVault || vaultLedger !== null
+      ? { cachedBalance: platformVault?.totalPoints ?? 0, ledgerBalance: vaultLedger ?? 0 }
+      : null
+
+    const unbalanced = await prisma.ledgerEntry.groupBy({
+      by: ['journalId'],
+      _sum: { amount: true },
+      having: { amount: { _sum: { not: 0 } } },
+    })
+    const unbalancedJournals = unbalanced.map(j => j.journalId)
+
+    if (mismatches.length > 0 || unbalancedJournals.length > 0) {
+      console.log(`[Ledger] Reconciliation: ${mismatches.length} user mismatches, ${unbalancedJournals.length} unbalanced journals`)
+    }
+
+    return {
+      checkedUsers: users.length,
+      mismatches,
+      vault,
+      unbalancedJournals,
+      ok: mismatches.length === 0
+        && unbalancedJournals.length === 0
+        && (!vault || vault.cachedBalance === vault.ledgerBalance),
+    }
+  }
+
+  /**
+   * Find or create an account
+   * USER and VAULT accounts open with whatever their cache held before the ledger existed
+   */
+  private static async getAccount(tx: Tx, ref: LedgerAccountRef): Promise<LedgerAccount> {
+    const existing = await tx.ledgerAccount.findUnique({ where: { key: accountKey(ref) } })
+    if (existing) return existing
+
+    let openingBalance = 0
+    if (ref.type === 'USER') {
+      const user = await tx.user.findUnique({ where: { id: ref.userId }, select: { pointsBalance: true } })
+      if (!user) throw new Error(`User ${ref.userId} not found`)
+      openingBalance = user.pointsBalance
+    } else if (ref.type === 'VAULT') {
+      const vault = await tx.platformVault.findUnique({ where: { id: PLATFORM_VAULT_ID } })
+      openingBalance = vault?.totalPoints ?? 0
+    }
+
+    return this.openAccount(tx, ref, openingBalance)
+  }
+
+  /**
+   * Write the two entries of a movement
+   */
+  private static async post(
+    tx: Tx,
+    from: LedgerAccount,
+    to: LedgerAccount,
+    input: Omit<TransferInput, 'from' | 'to'>
+  ): Promise<string> {
+    const crypto = require('crypto')
+    const journalId: string = crypto.randomUUID()
+
+    const common = {
+      journalId,
+      type: input.type,
+      relatedMatchId: input.relatedMatchId,
+      relatedOfferId: input.relatedOfferId,
+      description: input.description,
+    }
+
+    await tx.ledgerEntry.createMany({
+      data: [
+        { ...common, accountId: from.id, amount: -input.amount },
+        { ...common, accountId: to.id, amount: input.amount },
+      ],
+    })
+
+    return journalId
+  }
+
+  /**
+   * Take points out of an account, refusing to overdraw users, escrows and the vault
+   */
+  private static async debitCache(tx: Tx, account: LedgerAccount, amount: number): Promise<void> {
+    switch (account.type) {
+      case LedgerAccountType.USER: {
+        const updated = await tx.user.updateMany({
+          where: { id: account.userId!, pointsBalance: { gte: amount } },
+          data: { pointsBalance: { decrement: amount } },
+        })
+        if (updated.count === 0) throw new InsufficientBalanceError(account.key, amount)
+        return
+      }
+      case LedgerAccountType.ESCROW: {
+        const sum = await tx.ledgerEntry.aggregate({
+          where: { accountId: account.id },
+          _sum: { amount: true },
+        })
+        if ((sum._sum.amount ?? 0) < amount) throw new InsufficientBalanceError(account.key, amount)
+        return
+      }
+      case LedgerAccountType.VAULT: {
+        const updated = await tx.platformVault.updateMany({
+          where: { id: PLATFORM_VAULT_ID, totalPoints: { gte: amount } },
+          data: { totalPoints: { decrement: amount } },
+        })
+        if (updated.count === 0) throw new InsufficientBalanceError(account.key, amount)
+        return
+      }
+      case LedgerAccountType.ISSUANCE:
+        return
+    }
+  }
+
+  /**
+   * Put points into an account's cache
+   */
+  private static async creditCache(tx: Tx, account: LedgerAccount, amount: number): Promise<void> {
+    if (account.type === LedgerAccountType.USER) {
+      await tx.user.update({
+        where: { id: account.userId! },
+        data: { pointsBalance: { increment: amount } },
+      })
+    } else if (account.type === LedgerAccountType.VAULT) {
+      await tx.platformVault.upsert({
+        where: { id: PLATFORM_VAULT_ID },
+        update: { totalPoints: { increment: amount } },
+        create: { id: PLATFORM_VAULT_ID, totalPoints: amount },
+      })
+    }
+  }
+}
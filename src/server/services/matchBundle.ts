@@ -0,0 +1,386 @@
+/**
+ * TWOS Match Verification Bundle
+ *
+ * Self-contained JSON for disputes: every round's inputs, commitments, revealed
+ * seeds, algorithm version, random number, distances and winner, plus the
+ * transactions the match produced. Signed with Ed25519 by a dedicated, versioned
+ * signing key whose private half is never published (unlike retired platform keys).
+ * Verification checks the signature against a trusted public key pinned by
+ * keyVersion (GET /api/duel/keys) - never against a key shipped in the bundle.
+ *
+ * No DB or network access here - used by the API and by scripts/verify-bundle.ts.
+ */
+
+import {
+  verifyResult,
+  verifyCommitment,
+  hashServerSeed,
+  isAlgorithmVersion,
+  VerificationResult,
+} from './winnerDetermination'
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const BUNDLE_FORMAT = 'twos-match-bundle'
+/** v2: signed with a BundleSigningKey instead of a key derived from the platform secret */
+export const BUNDLE_FORMAT_VERSION = 2
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface BundleRound {
+  roundIndex: number
+  status: string
+  winnerUserId: string | null
+  forfeited: boolean
+
+  creatorCommitment: string | null
+  creatorNumber: number | null
+  creatorNonce: string | null
+  creatorCommittedAt: string | null
+  creatorRevealedAt: string | null
+  opponentCommitment: string | null
+  opponentNumber: number | null
+  opponentNonce: string | null
+  opponentCommittedAt: string | null
+  opponentRevealedAt: string | null
+
+  hmacDuelId: string | null
+  hmacRoundNumber: number | null
+  timeSlot: number | null
+  seedSlice: string | null
+  sampleIndex: number | null
+  randomNumber: number | null
+  creatorDistance: number | null
+  opponentDistance: number | null
+  algorithmVersion: number | null
+  keyVersion: number | null
+}
+
+export interface BundleTransaction {
+  id: string
+  userId: string
+  type: string
+  amountPoints: number
+  description: string | null
+  createdAt: string
+}
+
+export interface BundleBet {
+  userId: string
+  pointsAmount: number | null
+  userSkinId: string | null
+  status: string
+  resolvedAt: string | null
+}
+
+export interface MatchBundlePayload {
+  format: typeof BUNDLE_FORMAT
+  formatVersion: number
+  generatedAt: string
+  match: {
+    id: string
+    offerId: string
+    creatorUserId: string
+    opponentUserId: string
+    chipType: string
+    chipPointsValue: number
+    gamesPlanned: number
+    gamesPlayed: number
+    status: string
+    winnerId: string | null
+    finishedAt: string | null
+  }
+  fairness: {
+    serverSeed: string | null
+    serverSeedHash: string | null
+    keyVersion: number | null
+    creatorClientSeed: string | null
+    opponentClientSeed: string | null
+  }
+  rounds: BundleRound[]
+  bets: BundleBet[]
+  transactions: BundleTransaction[]
+}
+
+export interface BundleSignature {
+  algorithm: 'Ed25519'
+  /** BundleSigningKey version - look its public key up, don't take it from the bundle */
+  keyVersion: number
+  /** Signature over canonicalJson(payload), base64 */
+  signature: string
+}
+
+/** Private signing key (server only) */
+export interface SigningKeyRef {
+  version: number
+  /** PKCS8 DER, base64 */
+  privateKey: string
+}
+
+/** Trusted public signing keys by version (SPKI DER, base64) */
+export type TrustedSigningKeys = Record<number, string>
+
+export interface MatchBundle {
+  payload: MatchBundlePayload
+  signature: BundleSignature
+}
+
+export interface RoundCheck {
+  roundIndex: number
+  valid: boolean
+  fullyVerified: boolean
+  problems: string[]
+  verification: VerificationResult | null
+}
+
+export interface BundleCheck {
+  valid: boolean
+  signatureValid: boolean
+  serverSeedHashValid: boolean | null
+  rounds: RoundCheck[]
+  problems: string[]
+}
+
+// ============================================
+// SIGNING
+// ============================================
+
+/**
+ * JSON with sorted object keys - the exact bytes that get signed
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value)
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`
+}
+
+/**
+ * New Ed25519 signing keypair (DER, base64)
+ */
+export function generateSigningKeyPair(): { publicKey: string; privateKey: string } {
+  const crypto = require('crypto')
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519')
+
+  return {
+    publicKey: publicKey.export({ type: 'spki', format: 'der' }).toString('base64'),
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'der' }).toString('base64'),
+  }
+}
+
+/**
+ * Sign a bundle payload
+ */
+export function signBundle(payload: MatchBundlePayload, key: SigningKeyRef): MatchBundle {
+  const crypto = require('crypto')
+  const privateKey = crypto.createPrivateKey({
+    key: Buffer.from(key.privateKey, 'base64'),
+    format: 'der',
+    type: 'pkcs8',
+  })
+  const signature = crypto.sign(null, Buffer.from(canonicalJson(payload)), privateKey)
+
+  return {
+    payload,
+    signature: {
+      algorithm: 'Ed25519',
+      keyVersion: key.version,
+      signature: signature.toString('base64'),
+    },
+  }
+}
+
+/**
+ * Check the bundle signature against the trusted public key of its keyVersion
+ * A version missing from trustedKeys fails
+ */
+export function verifyBundleSignature(bundle: MatchBundle, trustedKeys: TrustedSigningKeys): boolean {
+  const crypto = require('crypto')
+  const trusted = trustedKeys[bundle.signature.keyVersion]
+  if (!trusted) return false
+
+  try {
+    const publicKey = crypto.createPublicKey({
+      key: Buffer.from(trusted, 'base64'),
+      format: 'der',
+      type: 'spki',
+    })
+    return crypto.verify(
+      null,
+      Buffer.from(canonicalJson(bundle.payload)),
+      publicKey,
+      Buffer.from(bundle.signature.signature, 'base64')
+    )
+  } catch (e) {
+    return false
+  }
+}
+
+// ============================================
+// VERIFICATION
+// ============================================
+
+/**
+ * Check a single round
+ * Seeded rounds are recomputed end to end, legacy rounds from the seed slice only
+ */
+function checkRound(round: BundleRound, payload: MatchBundlePayload): RoundCheck {
+  const { match, fairness } = payload
+  const problems: string[] = []
+
+  // Revealed numbers must match the commitments
+  const reveals: Array<[string, string | null, number | null, string | null]> = [
+    ['creator', round.creatorCommitment, round.creatorNumber, round.creatorNonce],
+    ['opponent', round.opponentCommitment, round.opponentNumber, round.opponentNonce],
+  ]
+  for (const [who, commitment, number, nonce] of reveals) {
+    if (commitment && number !== null && nonce && !verifyCommitment(commitment, number, nonce)) {
+      problems.push(`${who} reveal does not match commitment`)
+    }
+  }
+
+  if (round.forfeited) {
+    // The winner must be the (only) player who revealed
+    const creatorRevealed = round.creatorNumber !== null
+    const opponentRevealed = round.opponentNumber !== null
+    const expectedWinner = creatorRevealed && !opponentRevealed
+      ? match.creatorUserId
+      : opponentRevealed && !creatorRevealed
+        ? match.opponentUserId
+        : null
+
+    if (round.winnerUserId !== expectedWinner) {
+      problems.push('forfeit winner is not the player who revealed')
+    }
+
+    return { roundIndex: round.roundIndex, valid: problems.length === 0, fullyVerified: false, problems, verification: null }
+  }
+
+  if (round.creatorNumber === null || round.opponentNumber === null || round.seedSlice === null) {
+    problems.push('round is missing numbers or seed slice')
+    return { roundIndex: round.roundIndex, valid: false, fullyVerified: false, problems, verification: null }
+  }
+
+  const algorithmVersion = round.algorithmVersion ?? 1
+  if (!isAlgorithmVersion(algorithmVersion)) {
+    problems.push(`unknown algorithm version ${algorithmVersion}`)
+    return { roundIndex: round.roundIndex, valid: false, fullyVerified: false, problems, verification: null }
+  }
+
+  const claimedWinnerIndex = round.winnerUserId === match.creatorUserId
+    ? 0
+    : round.winnerUserId === match.opponentUserId
+      ? 1
+      : -1
+
+  // Full recomputation needs the HMAC inputs and the revealed seed
+  const canRecompute = !!fairness.serverSeed && round.hmacDuelId !== null && round.timeSlot !== null
+
+  const verification = verifyResult({
+    duelId: round.hmacDuelId ?? '',
+    roundNumber: round.hmacRoundNumber ?? round.roundIndex,
+    timeSlot: round.timeSlot ?? 0,
+    playerAId: match.creatorUserId,
+    playerANumber: round.creatorNumber,
+    playerBId: match.opponentUserId,
+    playerBNumber: round.opponentNumber,
+    seedSlice: round.seedSlice,
+    claimedWinnerIndex,
+    serverSeed: canRecompute ? fairness.serverSeed! : undefined,
+    serverSeedHash: canRecompute ? fairness.serverSeedHash ?? undefined : undefined,
+    clientSeedA: fairness.creatorClientSeed ?? '',
+    clientSeedB: fairness.opponentClientSeed ?? '',
+    algorithmVersion,
+  })
+
+  if (!verification.isValid) {
+    problems.push(verification.message)
+  }
+  if (round.randomNumber !== null && round.randomNumber !== verification.computedRandomNumber) {
+    problems.push(`random number ${round.randomNumber} != computed ${verification.computedRandomNumber}`)
+  }
+  if (round.creatorDistance !== null && round.creatorDistance !== verification.computedDistanceA) {
+    problems.push('creator distance does not match')
+  }
+  if (round.opponentDistance !== null && round.opponentDistance !== verification.computedDistanceB) {
+    problems.push('opponent distance does not match')
+  }
+
+  return {
+    roundIndex: round.roundIndex,
+    valid: problems.length === 0,
+    fullyVerified: verification.fullyVerified,
+    problems,
+    verification,
+  }
+}
+
+/**
+ * Verify a whole bundle: signature, server seed commitment, every round, match winner
+ */
+export function verifyBundle(bundle: MatchBundle, trustedKeys: TrustedSigningKeys): BundleCheck {
+  const { payload } = bundle
+  const problems: string[] = []
+
+  if (payload.format !== BUNDLE_FORMAT) {
+    problems.push(`unknown bundle format: ${payload.format}`)
+  }
+  if (payload.formatVersion !== BUNDLE_FORMAT_VERSION) {
+    problems.push(`unsupported bundle version: ${payload.formatVersion}`)
+  }
+
+  const signatureValid = verifyBundleSignature(bundle, trustedKeys)
+  if (!trustedKeys[bundle.signature.keyVersion]) {
+    problems.push(`no trusted public key for signing key v${bundle.signature.keyVersion}`)
+  } else if (!signatureValid) {
+    problems.push('signature is invalid')
+  }
+
+  let serverSeedHashValid: boolean | null = null
+  if (payload.fairness.serverSeed && payload.fairness.serverSeedHash) {
+    serverSeedHashValid = hashServerSeed(payload.fairness.serverSeed) === payload.fairness.serverSeedHash
+    if (!serverSeedHashValid) {
+      problems.push('server seed does not match its published hash')
+    }
+  }
+
+  const rounds = payload.rounds.map(round => checkRound(round, payload))
+  for (const round of rounds) {
+    if (!round.valid) problems.push(`round ${round.roundIndex}: ${round.problems.join('; ')}`)
+  }
+
+  // Match winner = more round wins
+  if (payload.match.winnerId !== null) {
+    const creatorWins = payload.rounds.filter(r => r.winnerUserId === payload.match.creatorUserId).length
+    const opponentWins = payload.rounds.filter(r => r.winnerUserId === payload.match.opponentUserId).length
+    const expected = creatorWins > opponentWins
+      ? payload.match.creatorUserId
+      : opponentWins > creatorWins
+        ? payload.match.opponentUserId
+        : null
+
+    if (expected !== payload.match.winnerId) {
+      problems.push('match winner does not follow from round results')
+    }
+  }
+
+  return {
+    valid: problems.length === 0,
+    signatureValid,
+    serverSeedHashValid,
+    rounds,
+    problems,
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Match Bundle Service
+ * Builds the signed verification bundle of a finished match
+ */
+
+import prisma from '@/lib/prisma'
+import { DuelGameStatus, DuelMatchStatus } from '@prisma/client'
+import { KeyringService } from './keyringService'
+import { ServerSeedService } from './serverSeedService'
+import { RoundProofService } from './roundProofService'
+import {
+  BUNDLE_FORMAT,
+  BUNDLE_FORMAT_VERSION,
+  MatchBundle,
+  MatchBundlePayload,
+  signBundle,
+} from './matchBundle'
+
+const iso = (date: Date | null | undefined) => date?.toISOString() ?? null
+
+export class MatchBundleService {
+  /**
+   * Build and sign the bundle of a match
+   * Only finished matches with a revealed (or legacy, absent) server seed qualify
+   */
+  static async build(matchId: string): Promise<{ success: boolean; bundle?: MatchBundle; error?: string }> {
+    const match = await prisma.duelMatch.findUnique({
+      where: { id: matchId },
+      include: {
+        games: { include: { proof: true }, orderBy: { roundIndex: 'asc' } },
+        bets: { orderBy: { createdAt: 'asc' } },
+        offer: true,
+      },
+    })
+
+    if (!match) {
+      return { success: false, error: 'Match not found' }
+    }
+
+    // p2p matches may have all games resolved without the match being closed yet
+    const resolvedGames = match.games.filter(
+      g => g.status === DuelGameStatus.FINISHED || g.status === DuelGameStatus.FORFEITED
+    ).length
+    if (match.status !== DuelMatchStatus.FINISHED && resolvedGames < match.gamesPlanned) {
+      return { success: false, error: 'Match is not finished' }
+    }
+
+    // The seed must be public before the bundle can be - reveal it only for a finished match
+    const seedInfo = match.serverSeed && !match.serverSeedRevealedAt
+      ? await ServerSeedService.revealIfMatchOver(match.id)
+      : null
+    if (match.serverSeed && !match.serverSeedRevealedAt && !seedInfo?.revealedAt) {
+      return { success: false, error: 'Server seed is not revealed yet' }
+    }
+
+    const transactions = await prisma.transaction.findMany({
+      where: { relatedMatchId: match.id },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    const rounds = await Promise.all(
+      match.games.map(async (game) => {
+        // Legacy games may only have a roundSecret
+        const proof = game.proof ?? (game.roundSecret ? await RoundProofService.getOrCreate(game, match) : null)
+        const dto = RoundProofService.toDto(proof, game)
+
+        return {
+          roundIndex: dto.roundIndex,
+          status: dto.status,
+          winnerUserId: dto.winnerUserId,
+          forfeited: dto.forfeited,
+          creatorCommitment: dto.creatorCommitment,
+          creatorNumber: dto.creatorNumber,
+          creatorNonce: dto.creatorNonce,
+          creatorCommittedAt: dto.creatorCommittedAt,
+          creatorRevealedAt: dto.creatorRevealedAt,
+          opponentCommitment: dto.opponentCommitment,
+          opponentNumber: dto.opponentNumber,
+          opponentNonce: dto.opponentNonce,
+          opponentCommittedAt: dto.opponentCommittedAt,
+          opponentRevealedAt: dto.opponentRevealedAt,
+          hmacDuelId: dto.hmacDuelId,
+          hmacRoundNumber: dto.hmacRoundNumber,
+          timeSlot: dto.timeSlot,
+          seedSlice: dto.seedSlice,
+          sampleIndex: dto.sampleIndex,
+          randomNumber: dto.randomNumber,
+          creatorDistance: dto.creatorDistance,
+          opponentDistance: dto.opponentDistance,
+          algorithmVersion: dto.algorithmVersion,
+          keyVersion: dto.keyVersion,
+        }
+      })
+    )
+
+    const payload: MatchBundlePayload = {
+      format: BUNDLE_FORMAT,
+      formatVersion: BUNDLE_FORMAT_VERSION,
+      generatedAt: new Date().toISOString(),
+      match: {
+        id: match.id,
+        offerId: match.offerId,
+        creatorUserId: match.creatorUserId,
+        opponentUserId: match.opponentUserId,
+        chipType: match.offer.chipType,
+        chipPointsValue: match.offer.chipPointsValue,
+        gamesPlanned: match.gamesPlanned,
+        gamesPlayed: match.gamesPlayed,
+        status: match.status,
+        winnerId: match.winnerId,
+        finishedAt: iso(match.finishedAt),
+      },
+      fairness: {
+        serverSeed: match.serverSeed,
+        serverSeedHash: match.serverSeedHash,
+        keyVersion: match.serverSeedKeyVersion,
+        creatorClientSeed: match.creatorClientSeed,
+        opponentClientSeed: match.opponentClientSeed,
+      },
+      rounds,
+      bets: match.bets.map(bet => ({
+        userId: bet.userId,
+        pointsAmount: bet.pointsAmount,
+        userSkinId: bet.userSkinId,
+        status: bet.status,
+        resolvedAt: iso(bet.resolvedAt),
+      })),
+      transactions: transactions.map(tx => ({
+        id: tx.id,
+        userId: tx.userId,
+        type: tx.type,
+        amountPoints: tx.amountPoints,
+        description: tx.description,
+        createdAt: tx.createdAt.toISOString(),
+      })),
+    }
+
+    const key = await KeyringService.getActiveSigningKey()
+    console.log(`[MatchBundle] Built bundle for match ${match.id} (${rounds.length} rounds)`)
+
+    return { success: true, bundle: signBundle(payload, key) }
+  }
+}
@@ -8,6 +8,10 @@ import { DuelOfferStatus, DuelMatchStatus, DuelGameStatus } from '@prisma/client
 import { ChipType, CHIP_VALUES } from '../types'
 import { determineWinner, calculateTimeSlot, DuelRoundParams } from './winnerDetermination'
 import { RewardService, MatchScore } from './rewardService'
+import { ServerSeedService } from './serverSeedService'
+import { KeyringService } from './keyringService'
+import { DuelStateMachine } from './duelStateMachine'
+import { EscrowService } from './escrowService'
 
 // Types
 export interface CreateMatchInput {
@@ -53,6 +57,9 @@ export interface RoundResult {
   rewards?: {
     winnerId: string | null
     pointsTransferred: number
+    grossPoints: number
+    feePoints: number
+    netPoints: number
     message: string
   }
 }
@@ -64,44 +71,60 @@ export class MatchService {
   static async createMatch(input: CreateMatchInput): Promise<MatchResult> {
     const chipValue = CHIP_VALUES[input.chipType]
 
-    // First create the offer
-    const offer = await prisma.duelOffer.create({
-      data: {
-        creatorUserId: input.creatorId,
-        chipType: input.chipType,
-        chipPointsValue: chipValue,
-        gamesCount: input.gamesPlanned,
-        status: DuelOfferStatus.MATCHED,
-      }
-    })
-
-    // Then create match with offer reference
-    const match = await prisma.duelMatch.create({
-      data: {
-        creatorUserId: input.creatorId,
-        opponentUserId: input.opponentId,
-        gamesPlanned: input.gamesPlanned,
-        gamesPlayed: 0,
-        status: DuelMatchStatus.IN_PROGRESS,
-        offerId: offer.id,
-      },
-      include: {
-        offer: true,
-      }
+    // Offer and match are created already matched - both players agreed up front
+    const match = await prisma.$transaction(async (tx) => {
+      const offer = await tx.duelOffer.create({
+        data: {
+          creatorUserId: input.creatorId,
+          chipType: input.chipType,
+          chipPointsValue: chipValue,
+          gamesCount: input.gamesPlanned,
+          status: DuelOfferStatus.OPEN,
+        }
+      })
+      await DuelStateMachine.recordCreated(tx, 'OFFER', offer.id, offer.status, {
+        actorUserId: input.creatorId,
+        reason: 'direct match',
+      })
+
+      await DuelStateMachine.transitionOffer(tx, offer.id, DuelOfferStatus.WAITING_CREATOR_CONFIRM, {
+        data: { opponentUserId: input.opponentId },
+        actorUserId: input.opponentId,
+        reason: 'direct match',
+      })
+      await DuelStateMachine.transitionOffer(tx, offer.id, DuelOfferStatus.MATCHED, {
+        actorUserId: input.creatorId,
+        reason: 'direct match',
+      })
+
+      // Then create match with offer reference
+      const created = await tx.duelMatch.create({
+        data: {
+          creatorUserId: input.creatorId,
+          opponentUserId: input.opponentId,
+          gamesPlanned: input.gamesPlanned,
+          gamesPlayed: 0,
+          status: DuelMatchStatus.IN_PROGRESS,
+          offerId: offer.id,
+          ...(await ServerSeedService.newSeedFields()),
+        },
+        include: {
+          offer: true,
+        }
+      })
+      await DuelStateMachine.recordCreated(tx, 'MATCH', created.id, created.status, {
+        actorUserId: input.creatorId,
+        reason: 'direct match',
+      })
+
+      // Lock stakes for both players
+      await EscrowService.lock(tx, offer, input.creatorId, created.id)
+      await EscrowService.lock(tx, offer, input.opponentId, created.id)
+      await EscrowService.openBets(tx, created, offer)
+
+      return created
     })
 
-    // Lock stakes for both players
-    await prisma.$transaction([
-      prisma.user.update({
-        where: { id: input.creatorId },
-        data: { pointsBalance: { decrement: chipValue * input.gamesPlanned } }
-      }),
-      prisma.user.update({
-        where: { id: input.opponentId },
-        data: { pointsBalance: { decrement: chipValue * input.gamesPlanned } }
-      }),
-    ])
-
     return {
       id: match.id,
       status: match.status,
@@ -141,6 +164,8 @@ export class MatchService {
       throw new Error('Match is not in progress')
     }
 
+    const seededMatch = await ServerSeedService.ensureMatchSeed(match)
+
     const roundNumber = match.gamesPlayed + 1
     const timeSlot = calculateTimeSlot()
 
@@ -157,22 +182,47 @@ export class MatchService {
         playerId: match.opponentUserId,
         playerNumber: input.playerBNumber,
       },
+      seeds: ServerSeedService.seedMaterial(seededMatch),
+      key: await KeyringService.getActiveKey(),
     }
 
     const result = determineWinner(params)
 
-    // Create game record
-    await prisma.duelGame.create({
-      data: {
-        matchId: match.id,
-        roundIndex: roundNumber - 1,
-        status: DuelGameStatus.FINISHED,
-        winnerUserId: result.winnerId,
-        creatorReady: true,
-        opponentReady: true,
-        startedAt: new Date(),
-        finishedAt: new Date(),
-      }
+    // Create game record - both numbers are known, so it is played and finished at once
+    await prisma.$transaction(async (tx) => {
+      const game = await tx.duelGame.create({
+        data: {
+          matchId: match.id,
+          roundIndex: roundNumber - 1,
+          status: DuelGameStatus.IN_PROGRESS,
+          roundHashCommit: seededMatch.serverSeedHash,
+          creatorReady: true,
+          opponentReady: true,
+          startedAt: new Date(),
+          proof: {
+            create: {
+              creatorNumber: input.playerANumber,
+              opponentNumber: input.playerBNumber,
+              hmacDuelId: params.duelId,
+              hmacRoundNumber: roundNumber,
+              timeSlot,
+              seedSlice: result.verification.seedSlice,
+              sampleIndex: result.verification.sampleIndex,
+              randomNumber: result.randomNumber,
+              creatorDistance: result.distanceA,
+              opponentDistance: result.distanceB,
+              algorithmVersion: result.verification.algorithmVersion,
+              keyVersion: result.verification.keyVersion,
+            },
+          },
+        },
+      })
+      await DuelStateMachine.recordCreated(tx, 'GAME', game.id, game.status, { reason: 'played directly' })
+
+      await DuelStateMachine.transitionGame(tx, game.id, DuelGameStatus.FINISHED, {
+        data: { winnerUserId: result.winnerId, finishedAt: new Date() },
+        reason: 'played directly',
+      })
     })
 
     // Update match stats
@@ -219,23 +269,6 @@ export class MatchService {
     const newGamesPlayed = match.gamesPlayed + 1
     const matchCompleted = newGamesPlayed >= match.gamesPlanned
 
-    // Update match
-    await prisma.duelMatch.update({
-      where: { id: match.id },
-      data: {
-        gamesPlayed: newGamesPlayed,
-        status: matchCompleted ? DuelMatchStatus.FINISHED : DuelMatchStatus.IN_PROGRESS,
-        finishedAt: matchCompleted ? new Date() : null,
-        winnerId: matchCompleted 
-          ? (creatorWins > opponentWins 
-              ? match.creatorUserId 
-              : opponentWins > creatorWins 
-                ? match.opponentUserId 
-                : null)
-          : null,
-      }
-    })
-
     // Calculate rewards if match completed
     let rewards = undefined
     if (matchCompleted) {
@@ -252,46 +285,48 @@ export class MatchService {
       const chipType = match.offer.chipType as ChipType
       const rewardResult = RewardService.calculateMatchRewards(score, chipType)
 
-      if (rewardResult.rewardsReleased && rewardResult.winnerId) {
-        // Transfer points to winner
-        const totalStake = CHIP_VALUES[chipType] * match.gamesPlanned * 2
-
-        await prisma.user.update({
-          where: { id: rewardResult.winnerId },
-          data: { pointsBalance: { increment: totalStake } }
-        })
-
-        // Record transaction
-        await prisma.transaction.create({
+      // Finish the match and settle its escrow together, so a finished match is always settled
+      await prisma.$transaction(async (tx) => {
+        await DuelStateMachine.transitionMatch(tx, match.id, DuelMatchStatus.FINISHED, {
           data: {
-            userId: rewardResult.winnerId,
-            type: 'DUEL_WIN',
-            amountPoints: totalStake,
-            relatedMatchId: match.id,
-            description: `Won duel match`,
-          }
+            gamesPlayed: newGamesPlayed,
+            finishedAt: new Date(),
+            serverSeedRevealedAt: new Date(),
+            winnerId: creatorWins > opponentWins
+              ? match.creatorUserId
+              : opponentWins > creatorWins
+                ? match.opponentUserId
+                : null,
+          },
+          reason: 'all games played',
         })
-      } else if (rewardResult.isDraw) {
-        // Return stakes to both players
-        const stakePerPlayer = CHIP_VALUES[chipType] * match.gamesPlanned
-
-        await prisma.$transaction([
-          prisma.user.update({
-            where: { id: match.creatorUserId },
-            data: { pointsBalance: { increment: stakePerPlayer } }
-          }),
-          prisma.user.update({
-            where: { id: match.opponentUserId },
-            data: { pointsBalance: { increment: stakePerPlayer } }
-          }),
-        ])
-      }
+
+        if (rewardResult.rewardsReleased && rewardResult.winnerId) {
+          const winnerId = rewardResult.winnerId
+          const score = winnerId === match.creatorUserId
+            ? `${creatorWins}-${opponentWins}`
+            : `${opponentWins}-${creatorWins}`
+
+          await EscrowService.release(tx, match, match.offer, winnerId, score)
+        } else if (rewardResult.isDraw) {
+          // Return stakes to both players
+          await EscrowService.refund(tx, match.offer, [match.creatorUserId, match.opponentUserId], match.id, 'Draw')
+        }
+      })
 
       rewards = {
         winnerId: rewardResult.winnerId,
         pointsTransferred: rewardResult.pointsTransferred,
+        grossPoints: rewardResult.grossPoints,
+        feePoints: rewardResult.feePoints,
+        netPoints: rewardResult.netPoints,
         message: rewardResult.message,
       }
+    } else {
+      await prisma.duelMatch.update({
+        where: { id: match.id },
+        data: { gamesPlayed: newGamesPlayed },
+      })
     }
 
     return {
@@ -0,0 +1,307 @@
+/**
+ * Matchmaking Service
+ * Queue that pairs players automatically instead of them browsing the board
+ *
+ * A queued player holds chip value x maxGames. Two entries are compatible when
+ * they are on the same chip, their games ranges overlap and each player meets
+ * the other's minimum reliability. The pair gets a duel that starts right away
+ * (P2POrderService.createMatchmadeDuel), played over the longest games count
+ * both accept; the rest of each hold goes back.
+ *
+ * Pairing runs when someone joins the queue and as a sweep (match-queue job)
+ * for pairs missed by concurrent joins.
+ */
+
+import prisma from '@/lib/prisma'
+import { MatchmakingEntry, MatchmakingStatus } from '@prisma/client'
+import {
+  MatchmakingEntryDto,
+  MatchmakingRequest,
+  CONSTANTS,
+  CHIP_VALUES,
+} from '../types'
+import { ChipService } from './chipService'
+import { InsufficientBalanceError } from './ledgerService'
+import { EscrowService } from './escrowService'
+import { P2POrderService } from './p2pOrderService'
+import { ReliabilityService } from './reliabilityService'
+import { NotificationService } from './notificationService'
+
+const CANDIDATE_LIMIT = 50 // oldest compatible entries considered per pairing
+
+/**
+ * Thrown when one of the two entries left the queue before the pair was made
+ */
+class EntryTakenError extends Error {
+  constructor() {
+    super('Queue entry is no longer queued')
+    this.name = 'EntryTakenError'
+  }
+}
+
+export class MatchmakingService {
+  /**
+   * Join the queue and hold the stake; pairs right away when an opponent is waiting
+   */
+  static async enqueue(
+    userId: string,
+    request: MatchmakingRequest
+  ): Promise<{ success: boolean; entry?: MatchmakingEntryDto; error?: string }> {
+    const minReliability = request.minReliability ?? 0
+
+    // Validation
+    if (!ChipService.isValidChipType(request.chipType)) {
+      return { success: false, error: 'Invalid chip type' }
+    }
+
+    if (!Number.isInteger(request.minGames) || !Number.isInteger(request.maxGames)
+      || request.minGames < CONSTANTS.MIN_GAMES_PLANNED
+      || request.maxGames > CONSTANTS.MAX_GAMES_PLANNED
+      || request.minGames > request.maxGames) {
+      return {
+        success: false,
+        error: `Games range must be within ${CONSTANTS.MIN_GAMES_PLANNED}-${CONSTANTS.MAX_GAMES_PLANNED}`,
+      }
+    }
+
+    if (minReliability < 0 || minReliability > 1) {
+      return { success: false, error: 'Minimum reliability must be between 0 and 1' }
+    }
+
+    try {
+      const entry = await prisma.$transaction(async (tx) => {
+        // Lock the user row so concurrent joins queue one at a time and see each other's entry
+        await tx.user.update({ where: { id: userId }, data: { updatedAt: new Date() }, select: { id: true } })
+
+        const queued = await tx.matchmakingEntry.findFirst({
+          where: { userId, status: MatchmakingStatus.QUEUED },
+        })
+        if (queued) return null
+
+        const created = await tx.matchmakingEntry.create({
+          data: {
+            userId,
+            chipType: request.chipType,
+            minGames: request.minGames,
+            maxGames: request.maxGames,
+            minReliability,
+            heldPoints: CHIP_VALUES[request.chipType] * request.maxGames,
+            status: MatchmakingStatus.QUEUED,
+            expiresAt: new Date(Date.now() + CONSTANTS.QUEUE_TTL_MS),
+          },
+        })
+
+        await EscrowService.hold(tx, created)
+        return created
+      })
+
+      if (!entry) {
+        return { success: false, error: 'Already in the queue' }
+      }
+
+      console.log(`[Matchmaking] ${userId} queued for ${entry.chipType} x ${entry.minGames}-${entry.maxGames}`)
+
+      const offerId = await this.tryMatch(entry.id)
+      return {
+        success: true,
+        entry: this.toDto(offerId ? { ...entry, status: MatchmakingStatus.MATCHED, offerId } : entry),
+      }
+    } catch (error) {
+      if (error instanceof InsufficientBalanceError) {
+        return { success: false, error: 'Insufficient balance' }
+      }
+      console.error('Error joining queue:', error)
+      return { success: false, error: 'Failed to join queue' }
+    }
+  }
+
+  /**
+   * Leave the queue and get the held stake back
+   */
+  static async leave(userId: string): Promise<{ success: boolean; error?: string }> {
+    const entry = await prisma.matchmakingEntry.findFirst({
+      where: { userId, status: MatchmakingStatus.QUEUED },
+    })
+
+    if (!entry) {
+      return { success: false, error: 'Not in the queue' }
+    }
+
+    const left = await this.close(entry, MatchmakingStatus.CANCELLED, 'Left matchmaking queue')
+    if (!left) {
+      // Paired in the meantime
+      return { success: false, error: 'Already matched' }
+    }
+
+    return { success: true }
+  }
+
+  /**
+   * The user's latest queue entry (null if they never queued)
+   */
+  static async getStatus(userId: string): Promise<MatchmakingEntryDto | null> {
+    const entry = await prisma.matchmakingEntry.findFirst({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return entry ? this.toDto(entry) : null
+  }
+
+  /**
+   * Pair a queued entry with the oldest compatible one
+   * Returns the new duel's offer id, or null when nobody fits (or the entry left the queue)
+   */
+  static async tryMatch(entryId: string): Promise<string | null> {
+    const entry = await prisma.matchmakingEntry.findUnique({ where: { id: entryId } })
+    if (!entry || entry.status !== MatchmakingStatus.QUEUED) return null
+
+    const candidates = await prisma.matchmakingEntry.findMany({
+      where: {
+        status: MatchmakingStatus.QUEUED,
+        chipType: entry.chipType,
+        userId: { not: entry.userId },
+        minGames: { lte: entry.maxGames },
+        maxGames: { gte: entry.minGames },
+        expiresAt: { gt: new Date() },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: CANDIDATE_LIMIT,
+    })
+    if (candidates.length === 0) return null
+
+    const metrics = await ReliabilityService.getMetrics(entry.userId)
+
+    for (const candidate of candidates) {
+      if (!ReliabilityService.meetsMinimum(metrics, candidate.minReliability)) continue
+
+      const candidateMetrics = await ReliabilityService.getMetrics(candidate.userId)
+      if (!ReliabilityService.meetsMinimum(candidateMetrics, entry.minReliability)) continue
+
+      // The player who waited longer creates the duel
+      const [creator, opponent] = candidate.createdAt <= entry.createdAt
+        ? [candidate, entry]
+        : [entry, candidate]
+
+      const offerId = await this.pair(creator, opponent)
+      if (offerId) return offerId
+
+      // Our own entry left the queue - stop; otherwise the candidate did, try the next one
+      const current = await prisma.matchmakingEntry.findUnique({ where: { id: entry.id } })
+      if (current?.status !== MatchmakingStatus.QUEUED) return null
+    }
+
+    return null
+  }
+
+  /**
+   * Pairing sweep over the whole queue, oldest entries first (background job)
+   */
+  static async matchQueued(): Promise<number> {
+    const queued = await prisma.matchmakingEntry.findMany({
+      where: { status: MatchmakingStatus.QUEUED, expiresAt: { gt: new Date() } },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true },
+    })
+
+    let paired = 0
+    for (const { id } of queued) {
+      if (await this.tryMatch(id)) paired++
+    }
+
+    return paired
+  }
+
+  /**
+   * Time out entries past expiresAt and return their holds (background job)
+   */
+  static async expireEntries(): Promise<number> {
+    const due = await prisma.matchmakingEntry.findMany({
+      where: { status: MatchmakingStatus.QUEUED, expiresAt: { lt: new Date() } },
+    })
+
+    let expired = 0
+    for (const entry of due) {
+      if (await this.close(entry, MatchmakingStatus.EXPIRED, 'No opponent found in time')) {
+        await NotificationService.notifyQueueExpired(entry.userId)
+        expired++
+      }
+    }
+
+    return expired
+  }
+
+  /**
+   * Take both entries out of the queue and create their duel
+   * Returns null if either was no longer queued.
+   */
+  private static async pair(creator: MatchmakingEntry, opponent: MatchmakingEntry): Promise<string | null> {
+    const gamesCount = Math.min(creator.maxGames, opponent.maxGames)
+
+    try {
+      const offer = await prisma.$transaction(async (tx) => {
+        const now = new Date()
+        const claimed = await tx.matchmakingEntry.updateMany({
+          where: { id: { in: [creator.id, opponent.id] }, status: MatchmakingStatus.QUEUED },
+          data: { status: MatchmakingStatus.MATCHED, finishedAt: now },
+        })
+        if (claimed.count !== 2) throw new EntryTakenError()
+
+        const created = await P2POrderService.createMatchmadeDuel(tx, creator, opponent, gamesCount)
+
+        await tx.matchmakingEntry.updateMany({
+          where: { id: { in: [creator.id, opponent.id] } },
+          data: { offerId: created.id },
+        })
+
+        return created
+      })
+
+      console.log(`[Matchmaking] Paired ${creator.userId} and ${opponent.userId}: offer ${offer.id}, ${gamesCount} games`)
+      await NotificationService.notifyMatchFound(creator.userId, opponent.userId, offer.id)
+      return offer.id
+    } catch (error) {
+      if (error instanceof EntryTakenError) return null
+      throw error
+    }
+  }
+
+  /**
+   * QUEUED -> CANCELLED / EXPIRED with the whole hold returned
+   * Returns false if the entry was paired or closed in the meantime.
+   */
+  private static async close(
+    entry: MatchmakingEntry,
+    status: MatchmakingStatus,
+    reason: string
+  ): Promise<boolean> {
+    return prisma.$transaction(async (tx) => {
+      const closed = await tx.matchmakingEntry.updateMany({
+        where: { id: entry.id, status: MatchmakingStatus.QUEUED },
+        data: { status, finishedAt: new Date() },
+      })
+      if (closed.count === 0) return false
+
+      await EscrowService.releaseHold(tx, entry, entry.heldPoints, `${reason}, stake returned`)
+      return true
+    })
+  }
+
+  /**
+   * Convert DB record to DTO
+   */
+  private static toDto(entry: MatchmakingEntry): MatchmakingEntryDto {
+    return {
+      id: entry.id,
+      chipType: entry.chipType,
+      minGames: entry.minGames,
+      maxGames: entry.maxGames,
+      minReliability: entry.minReliability,
+      heldPoints: entry.heldPoints,
+      status: entry.status,
+      offerId: entry.offerId,
+      createdAt: entry.createdAt.toISOString(),
+      expiresAt: entry.expiresAt.toISOString(),
+    }
+  }
+}
@@ -14,6 +14,10 @@ const NOTIFICATION_TEMPLATES: Record<NotificationType, string> = {
   DUEL_COMPLETED: '✅ Дуэль завершена!',
   OPPONENT_FORFEITED: '🚫 Соперник не явился. Вы выиграли техническую победу!',
   CONFIRMATION_EXPIRED: '⏰ Время на подтверждение истекло. Дуэль отменена.',
+  CHALLENGE_RECEIVED: '⚔️ Вас вызвали на дуэль! Примите или отклоните вызов.',
+  CHALLENGE_DECLINED: '🙅 Соперник отклонил ваш вызов. Ставка возвращена.',
+  MATCH_FOUND: '⚡ Соперник подобран! Дуэль уже началась.',
+  QUEUE_EXPIRED: '⌛ Соперник не найден. Ставка возвращена.',
 }
 
 export class NotificationService {
@@ -112,6 +116,51 @@ export class NotificationService {
     await this.sendTelegramNotification(opponentId, 'CONFIRMATION_EXPIRED')
   }
 
+  /**
+   * Send notification for a direct challenge
+   */
+  static async notifyChallengeReceived(
+    invitedUserId: string,
+    challengerUsername: string,
+    offerId: string
+  ): Promise<void> {
+    await this.sendTelegramNotification(invitedUserId, 'CHALLENGE_RECEIVED', {
+      challengerUsername,
+      offerId,
+    })
+  }
+
+  /**
+   * Send notification for a declined challenge
+   */
+  static async notifyChallengeDeclined(
+    creatorUserId: string,
+    invitedUsername: string
+  ): Promise<void> {
+    await this.sendTelegramNotification(creatorUserId, 'CHALLENGE_DECLINED', {
+      invitedUsername,
+    })
+  }
+
+  /**
+   * Send notification for a pair made by the matchmaking queue
+   */
+  static async notifyMatchFound(
+    playerAId: string,
+    playerBId: string,
+    offerId: string
+  ): Promise<void> {
+    await this.sendTelegramNotification(playerAId, 'MATCH_FOUND', { offerId })
+    await this.sendTelegramNotification(playerBId, 'MATCH_FOUND', { offerId })
+  }
+
+  /**
+   * Send notification for a queue entry that timed out
+   */
+  static async notifyQueueExpired(userId: string): Promise<void> {
+    await this.sendTelegramNotification(userId, 'QUEUE_EXPIRED')
+  }
+
   /**
    * Send notification for duel completed
    */
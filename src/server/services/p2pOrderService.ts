@@ -4,17 +4,60 @@
  */
 
 import prisma from '@/lib/prisma'
-import { DuelOfferStatus } from '@prisma/client'
+import {
+  DuelMatch,
+  DuelOffer,
+  DuelOfferStatus,
+  DuelMatchStatus,
+  DuelGameStatus,
+  MatchmakingEntry,
+  OfferVisibility,
+  Prisma,
+  StakeType,
+  User,
+} from '@prisma/client'
 import { 
   ChipType, 
   P2POrderStatus, 
   P2POrderDto, 
   CreateOrderRequest,
+  JoinOrderRequest,
+  InviteDto,
+  OrderListQuery,
+  OrderPage,
+  RealtimeEventType,
+  StakedSkinDto,
   UserSummary,
   CONSTANTS,
   CHIP_VALUES
 } from '../types'
 import { ChipService } from './chipService'
+import { ServerSeedService } from './serverSeedService'
+import { DuelStateMachine, IllegalTransitionError } from './duelStateMachine'
+import { InsufficientBalanceError } from './ledgerService'
+import { EscrowService, SkinUnavailableError } from './escrowService'
+import { FeeService } from './feeService'
+import { ReliabilityService } from './reliabilityService'
+import { NotificationService } from './notificationService'
+import { RealtimeService } from './realtimeService'
+import { InviteService } from './inviteService'
+
+/** An offer as loaded for toDto; relations left out are treated as empty */
+type OfferRecord = DuelOffer & {
+  creator?: User
+  invitedUser?: User | null
+  stakedSkins?: Prisma.UserSkinGetPayload<{ include: { skin: true } }>[]
+}
+
+/**
+ * Thrown when a joiner's skins are worth too much or too little for the offer
+ */
+class SkinStakeValueError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SkinStakeValueError'
+  }
+}
 
 export class P2POrderService {
   /**
@@ -24,9 +67,19 @@ export class P2POrderService {
     userId: string,
     username: string,
     request: CreateOrderRequest
-  ): Promise<{ success: boolean; order?: P2POrderDto; error?: string }> {
+  ): Promise<{ success: boolean; order?: P2POrderDto; invite?: InviteDto; error?: string }> {
+    const skinIds = request.stakeType === 'SKINS' ? request.userSkinIds ?? [] : []
+    const visibility = request.visibility ?? OfferVisibility.PUBLIC
+
     // Validation
-    if (!ChipService.isValidChipType(request.chipType)) {
+    if (request.stakeType === 'SKINS') {
+      if (skinIds.length === 0) {
+        return { success: false, error: 'Select at least one skin to stake' }
+      }
+      if (skinIds.length > CONSTANTS.MAX_STAKED_SKINS) {
+        return { success: false, error: `Maximum ${CONSTANTS.MAX_STAKED_SKINS} skins per stake` }
+      }
+    } else if (!ChipService.isValidChipType(request.chipType)) {
       return { success: false, error: 'Invalid chip type' }
     }
 
@@ -44,8 +97,10 @@ export class P2POrderService {
       }
     }
 
-    // Calculate stake
-    const chipValue = CHIP_VALUES[request.chipType]
+    // Calculate stake - SKINS offers stake no points. They have no chip either:
+    // the column needs a value, but it is never shown or filtered on for them
+    const chipType = skinIds.length > 0 ? 'SMILE' : request.chipType
+    const chipValue = skinIds.length > 0 ? 0 : CHIP_VALUES[chipType]
     const totalStake = chipValue * request.gamesPlanned
 
     try {
@@ -62,82 +117,302 @@ export class P2POrderService {
         return { success: false, error: 'Insufficient balance' }
       }
 
+      // Direct challenge: only this user may join
+      let invitedUserId: string | null = null
+      if (visibility === OfferVisibility.DIRECT) {
+        const invited = request.opponentUsername
+          ? await prisma.user.findUnique({ where: { username: request.opponentUsername.trim() } })
+          : null
+
+        if (!invited) {
+          return { success: false, error: 'Challenged user not found' }
+        }
+        if (invited.id === userId) {
+          return { success: false, error: 'Cannot challenge yourself' }
+        }
+        invitedUserId = invited.id
+      }
+
       // Create order and lock stake in transaction
-      const [offer] = await prisma.$transaction([
-        prisma.duelOffer.create({
+      const offer = await prisma.$transaction(async (tx) => {
+        const created = await tx.duelOffer.create({
           data: {
             creatorUserId: userId,
-            chipType: request.chipType as ChipType,
+            chipType: chipType as ChipType,
             chipPointsValue: chipValue,
             gamesCount: request.gamesPlanned,
+            stakeType: skinIds.length > 0 ? StakeType.SKINS : StakeType.POINTS,
+            stakeValue: totalStake, // SKINS: set below from the locked skins
+            visibility,
+            invitedUserId,
             status: DuelOfferStatus.OPEN,
+            expiresAt: new Date(Date.now() + CONSTANTS.OFFER_TTL_MS),
           },
-          include: {
-            creator: true,
-          }
-        }),
-        prisma.user.update({
-          where: { id: userId },
-          data: { pointsBalance: { decrement: totalStake } }
-        }),
-      ])
+        })
+
+        if (skinIds.length > 0) {
+          // The declared value is what the skins are worth right now
+          const stakeValue = await EscrowService.lockSkins(tx, created, userId, skinIds)
+          await tx.duelOffer.update({ where: { id: created.id }, data: { stakeValue } })
+        } else {
+          await EscrowService.lock(tx, created, userId)
+        }
+
+        await DuelStateMachine.recordCreated(tx, 'OFFER', created.id, created.status, {
+          actorUserId: userId,
+          reason: 'created',
+        })
+
+        return tx.duelOffer.findUniqueOrThrow({
+          where: { id: created.id },
+          include: { creator: true, invitedUser: true, stakedSkins: { include: { skin: true } } },
+        })
+      })
+
+      await this.publishBoard(offer, 'offer_created', { offerId: offer.id })
+      if (offer.invitedUserId) {
+        await NotificationService.notifyChallengeReceived(offer.invitedUserId, username, offer.id)
+      }
 
       return {
         success: true,
         order: this.toDto(offer, username),
+        invite: visibility === OfferVisibility.UNLISTED ? this.inviteFor(offer) ?? undefined : undefined,
       }
     } catch (error) {
+      if (error instanceof InsufficientBalanceError) {
+        return { success: false, error: 'Insufficient balance' }
+      }
+      if (error instanceof SkinUnavailableError) {
+        return { success: false, error: 'Some of the selected skins are not available' }
+      }
       console.error('Error creating order:', error)
       return { success: false, error: 'Failed to create order' }
     }
   }
 
   /**
-   * Get all open orders - FROM DATABASE
+   * One page of the public board, filtered and sorted
+   * Keyset pagination: the cursor holds the sort value and id of the last offer,
+   * so offers created or taken meanwhile do not shift the pages.
    */
-  static async getOpenOrders(): Promise<P2POrderDto[]> {
+  static async getOpenOrders(
+    query: OrderListQuery = {}
+  ): Promise<{ success: boolean; page?: OrderPage; error?: string }> {
+    const sort = query.sort ?? 'newest'
+    const order = query.order ?? 'desc'
+    const limit = Math.min(query.limit ?? CONSTANTS.ORDERS_PAGE_SIZE, CONSTANTS.ORDERS_MAX_PAGE_SIZE)
+
+    const cursor = query.cursor ? this.decodeCursor(query.cursor) : null
+    if (query.cursor && !cursor) {
+      return { success: false, error: 'Invalid cursor' }
+    }
+
+    const where: Prisma.DuelOfferWhereInput = {
+      status: DuelOfferStatus.OPEN,
+      visibility: OfferVisibility.PUBLIC,
+      ...(query.chipType && { chipType: query.chipType, NOT: { stakeType: StakeType.SKINS } }),
+      ...(query.stakeType && { stakeType: query.stakeType }),
+      ...(query.excludeUserId && { creatorUserId: { not: query.excludeUserId } }),
+      gamesCount: { gte: query.minGames, lte: query.maxGames },
+      ...(query.minReliability !== undefined && {
+        creator: { reliabilityPercent: { gte: query.minReliability * 100 } },
+      }),
+    }
+    const and: Prisma.DuelOfferWhereInput[] = []
+
+    // Offers from before stakeValue was always set have none (npm run db:backfill-stake-values)
+    if (query.minStake !== undefined || query.maxStake !== undefined || sort === 'stake') {
+      and.push({ stakeValue: { not: null, gte: query.minStake, lte: query.maxStake } })
+    }
+
+    if (cursor) {
+      // Strictly after the cursor in sort order, ties broken by id
+      const after = <T>(value: T) => (order === 'asc' ? { gt: value } : { lt: value })
+      const id = after(cursor.id)
+
+      if (sort === 'stake') {
+        const value = Number(cursor.value)
+        and.push({ OR: [{ stakeValue: after(value) }, { stakeValue: value, id }] })
+      } else if (sort === 'reliability') {
+        const value = Number(cursor.value)
+        and.push({
+          OR: [
+            { creator: { reliabilityPercent: after(value) } },
+            { creator: { reliabilityPercent: value }, id },
+          ],
+        })
+      } else {
+        const value = new Date(cursor.value)
+        and.push({ OR: [{ createdAt: after(value) }, { createdAt: value, id }] })
+      }
+    }
+
+    const orderBy: Prisma.DuelOfferOrderByWithRelationInput[] = [
+      sort === 'stake'
+        ? { stakeValue: order }
+        : sort === 'reliability'
+          ? { creator: { reliabilityPercent: order } }
+          : { createdAt: order },
+      { id: order },
+    ]
+
     try {
       const offers = await prisma.duelOffer.findMany({
-        where: { status: DuelOfferStatus.OPEN },
-        include: { creator: true },
-        orderBy: { createdAt: 'desc' },
+        where: { ...where, AND: and },
+        include: { creator: true, stakedSkins: { include: { skin: true } } },
+        orderBy,
+        take: limit + 1,
       })
 
-      return offers.map(offer => this.toDto(offer, offer.creator.username))
+      const pageOffers = offers.slice(0, limit)
+      const last = pageOffers[pageOffers.length - 1]
+      const nextCursor = offers.length > limit && last
+        ? this.encodeCursor(
+            sort === 'stake'
+              ? last.stakeValue ?? 0
+              : sort === 'reliability'
+                ? last.creator.reliabilityPercent
+                : last.createdAt.toISOString(),
+            last.id
+          )
+        : null
+
+      return {
+        success: true,
+        page: {
+          orders: pageOffers.map(offer => this.toDto(offer, offer.creator.username)),
+          nextCursor,
+        },
+      }
     } catch (error) {
       console.error('Error fetching orders:', error)
-      return []
+      return { success: false, error: 'Failed to fetch orders' }
     }
   }
 
   /**
    * Get order by ID
+   * Private offers are only shown to their players (or to an invite holder, see getOrderByInvite)
    */
-  static async getOrder(orderId: string): Promise<P2POrderDto | null> {
+  static async getOrder(orderId: string, viewerUserId?: string | null): Promise<P2POrderDto | null> {
     try {
       const offer = await prisma.duelOffer.findUnique({
         where: { id: orderId },
-        include: { creator: true },
+        include: {
+          creator: true,
+          invitedUser: true,
+          stakedSkins: { include: { skin: true } },
+          matches: {
+            where: { status: DuelMatchStatus.AWAITING_CREATOR_CONFIRM },
+            select: { creatorConfirmDeadline: true },
+          },
+        },
       })
 
       if (!offer) return null
-      return this.toDto(offer, offer.creator.username)
+      const isPlayer = !!viewerUserId
+        && [offer.creatorUserId, offer.invitedUserId, offer.opponentUserId].includes(viewerUserId)
+      if (offer.visibility !== OfferVisibility.PUBLIC && !isPlayer) {
+        return null
+      }
+      return this.toDto(offer, offer.creator.username, offer.matches[0]?.creatorConfirmDeadline)
     } catch (error) {
       console.error('Error fetching order:', error)
       return null
     }
   }
 
+  /**
+   * Get the offer an invite token points to
+   */
+  static async getOrderByInvite(
+    token: string
+  ): Promise<{ success: boolean; order?: P2POrderDto; error?: string }> {
+    const invite = InviteService.verifyInvite(token)
+    if (!invite.valid) {
+      return { success: false, error: invite.error }
+    }
+
+    const offer = await prisma.duelOffer.findUnique({
+      where: { id: invite.offerId },
+      include: { creator: true, stakedSkins: { include: { skin: true } } },
+    })
+
+    if (!offer || offer.visibility !== OfferVisibility.UNLISTED) {
+      return { success: false, error: 'Invalid invite' }
+    }
+
+    return { success: true, order: this.toDto(offer, offer.creator.username) }
+  }
+
+  /**
+   * Open direct challenges to a user
+   */
+  static async getIncomingChallenges(userId: string): Promise<P2POrderDto[]> {
+    try {
+      const offers = await prisma.duelOffer.findMany({
+        where: {
+          status: DuelOfferStatus.OPEN,
+          visibility: OfferVisibility.DIRECT,
+          invitedUserId: userId,
+        },
+        include: { creator: true, invitedUser: true, stakedSkins: { include: { skin: true } } },
+        orderBy: { createdAt: 'desc' },
+      })
+
+      return offers.map(offer => this.toDto(offer, offer.creator.username))
+    } catch (error) {
+      console.error('Error fetching challenges:', error)
+      return []
+    }
+  }
+
+  /**
+   * New invite for an open UNLISTED offer (creator only)
+   */
+  static async createInvite(
+    orderId: string,
+    userId: string
+  ): Promise<{ success: boolean; invite?: InviteDto; error?: string }> {
+    const offer = await prisma.duelOffer.findUnique({ where: { id: orderId } })
+
+    if (!offer) {
+      return { success: false, error: 'Order not found' }
+    }
+
+    if (offer.creatorUserId !== userId) {
+      return { success: false, error: 'Only owner can invite' }
+    }
+
+    if (offer.visibility !== OfferVisibility.UNLISTED) {
+      return { success: false, error: 'Only unlisted offers have invites' }
+    }
+
+    if (offer.status !== DuelOfferStatus.OPEN) {
+      return { success: false, error: 'Order is not available' }
+    }
+
+    const invite = this.inviteFor(offer)
+    if (!invite) {
+      return { success: false, error: 'Invites are not configured' }
+    }
+
+    return { success: true, invite }
+  }
+
   /**
    * Join an open order (as opponent)
+   * Everything is checked against the offer as read here; the join then only
+   * goes through if the offer is still at that version. Of two players joining
+   * at once one wins, the other's transaction rolls back with nothing taken.
    */
   static async joinOrder(
     orderId: string,
     opponentUserId: string,
-    username: string
+    username: string,
+    stake: JoinOrderRequest = {}
   ): Promise<{ success: boolean; order?: P2POrderDto; expiresAt?: string; error?: string }> {
-    console.log('joinOrder called with:', { orderId, opponentUserId, username })
-    
     try {
       const offer = await prisma.duelOffer.findUnique({
         where: { id: orderId },
@@ -148,6 +423,10 @@ export class P2POrderService {
         return { success: false, error: 'Order not found' }
       }
 
+      if (offer.status === DuelOfferStatus.WAITING_CREATOR_CONFIRM || offer.status === DuelOfferStatus.MATCHED) {
+        return { success: false, error: 'Order has already been taken' }
+      }
+
       if (offer.status !== DuelOfferStatus.OPEN) {
         return { success: false, error: 'Order is not available' }
       }
@@ -156,44 +435,99 @@ export class P2POrderService {
         return { success: false, error: 'Cannot join your own order' }
       }
 
+      if (offer.visibility === OfferVisibility.DIRECT && offer.invitedUserId !== opponentUserId) {
+        return { success: false, error: 'This challenge is for another player' }
+      }
+
+      if (offer.visibility === OfferVisibility.UNLISTED) {
+        const invite = stake.inviteToken ? InviteService.verifyInvite(stake.inviteToken) : null
+        if (!invite?.valid || invite.offerId !== orderId) {
+          return { success: false, error: invite?.error ?? 'An invite is required to join this duel' }
+        }
+      }
+
+      const skinIds = stake.userSkinIds ?? []
+      if (skinIds.length > 0 && offer.stakeType !== StakeType.SKINS) {
+        return { success: false, error: 'This offer is staked in points' }
+      }
+      if (skinIds.length > CONSTANTS.MAX_STAKED_SKINS) {
+        return { success: false, error: `Maximum ${CONSTANTS.MAX_STAKED_SKINS} skins per stake` }
+      }
+
       // Check opponent balance
-      console.log('Looking for user with id:', opponentUserId)
       const opponent = await prisma.user.findUnique({
         where: { id: opponentUserId }
       })
-      console.log('Found opponent:', opponent)
 
       if (!opponent) {
-        return { success: false, error: `User not found: ${opponentUserId}` }
+        return { success: false, error: 'User not found' }
       }
 
-      const totalStake = offer.chipPointsValue * offer.gamesCount
+      // SKINS offers without skins from the joiner: points worth the creator's skins
+      const totalStake = offer.stakeType === StakeType.SKINS
+        ? (skinIds.length > 0 ? 0 : offer.stakeValue ?? 0)
+        : EscrowService.stakeFor(offer)
 
       if (opponent.pointsBalance < totalStake) {
         return { success: false, error: 'Insufficient balance' }
       }
 
-      // Update offer and lock opponent stake - DIRECTLY to MATCHED (no confirm needed!)
-      const [updatedOffer] = await prisma.$transaction([
-        prisma.duelOffer.update({
+      // The match is created here so its server seed hash is published before any number is entered
+      const seedFields = await ServerSeedService.newSeedFields()
+      const confirmDeadline = new Date(Date.now() + CONSTANTS.CONFIRMATION_TIMEOUT_MS)
+
+      const updatedOffer = await prisma.$transaction(async (tx) => {
+        await DuelStateMachine.transitionOffer(tx, orderId, DuelOfferStatus.WAITING_CREATOR_CONFIRM, {
+          from: [DuelOfferStatus.OPEN],
+          version: offer.version,
+          data: { opponentUserId },
+          actorUserId: opponentUserId,
+          reason: 'joined',
+        })
+
+        // Lock opponent stake
+        if (skinIds.length > 0) {
+          const value = await EscrowService.lockSkins(tx, offer, opponentUserId, skinIds)
+          this.checkSkinStake(value, offer.stakeValue ?? 0)
+        } else {
+          await EscrowService.lock(tx, offer, opponentUserId, undefined, totalStake)
+        }
+
+        // The creator has CONFIRMATION_TIMEOUT_MS to confirm
+        await this.createPendingMatch(tx, offer, opponentUserId, seedFields, confirmDeadline, totalStake)
+
+        return tx.duelOffer.findUniqueOrThrow({
           where: { id: orderId },
-          data: {
-            status: DuelOfferStatus.MATCHED, // Skip confirm, go directly to MATCHED
-            opponentUserId: opponentUserId,
-          },
-          include: { creator: true },
-        }),
-        prisma.user.update({
-          where: { id: opponentUserId },
-          data: { pointsBalance: { decrement: totalStake } }
-        }),
-      ])
+          include: { creator: true, stakedSkins: { include: { skin: true } } },
+        })
+      })
+
+      await NotificationService.notifyOpponentFound(offer.creatorUserId, username)
+      await RealtimeService.publishDuel(orderId, 'opponent_joined', {
+        opponentUserId,
+        confirmDeadline: confirmDeadline.toISOString(),
+      })
+      await this.publishBoard(offer, 'offer_taken', { offerId: orderId })
 
       return {
         success: true,
-        order: this.toDto(updatedOffer, updatedOffer.creator.username),
+        order: this.toDto(updatedOffer, updatedOffer.creator.username, confirmDeadline),
+        expiresAt: confirmDeadline.toISOString(),
       }
     } catch (error) {
+      if (error instanceof InsufficientBalanceError) {
+        return { success: false, error: 'Insufficient balance' }
+      }
+      // Someone else joined (or the offer was cancelled) after we read it
+      if (error instanceof IllegalTransitionError) {
+        return { success: false, error: 'Order has already been taken' }
+      }
+      if (error instanceof SkinUnavailableError) {
+        return { success: false, error: 'Some of the selected skins are not available' }
+      }
+      if (error instanceof SkinStakeValueError) {
+        return { success: false, error: error.message }
+      }
       console.error('Error joining order:', error)
       return { success: false, error: 'Failed to join order' }
     }
@@ -224,23 +558,44 @@ export class P2POrderService {
         return { success: false, error: 'Order is not pending confirmation' }
       }
 
-      // Check if confirmation expired
-      if (offer.expiresAt && new Date() > offer.expiresAt) {
+      const match = await prisma.duelMatch.findFirst({
+        where: { offerId: orderId, status: DuelMatchStatus.AWAITING_CREATOR_CONFIRM },
+        orderBy: { createdAt: 'desc' },
+        include: { offer: true },
+      })
+
+      if (!match) {
+        return { success: false, error: 'Order has no opponent' }
+      }
+
+      // Check if confirmation expired - settle it now instead of waiting for the job
+      if (match.creatorConfirmDeadline && new Date() > match.creatorConfirmDeadline) {
+        await this.expireConfirmation(match)
         return { success: false, error: 'Confirmation timeout expired' }
       }
 
       // Update to MATCHED (in progress)
-      const updatedOffer = await prisma.duelOffer.update({
-        where: { id: orderId },
-        data: { status: DuelOfferStatus.MATCHED },
-        include: { creator: true },
+      const updatedOffer = await prisma.$transaction(async (tx) => {
+        await this.startMatch(tx, offer, match, userId)
+
+        return tx.duelOffer.findUniqueOrThrow({
+          where: { id: orderId },
+          include: { creator: true },
+        })
       })
 
+      await NotificationService.notifyGameStarted(match.creatorUserId, match.opponentUserId, 1)
+      await RealtimeService.publishDuel(orderId, 'match_started', { matchId: match.id })
+
       return {
         success: true,
         order: this.toDto(updatedOffer, updatedOffer.creator.username),
       }
     } catch (error) {
+      // Expired by the job in the meantime
+      if (error instanceof IllegalTransitionError) {
+        return { success: false, error: 'Order is not pending confirmation' }
+      }
       console.error('Error confirming order:', error)
       return { success: false, error: 'Failed to confirm order' }
     }
@@ -248,11 +603,12 @@ export class P2POrderService {
 
   /**
    * Cancel order (by owner, only if OPEN)
+   * Late cancellations pay a fee out of the refunded stake (FEE_SCHEDULE).
    */
   static async cancelOrder(
     orderId: string,
     userId: string
-  ): Promise<{ success: boolean; error?: string }> {
+  ): Promise<{ success: boolean; feePoints?: number; error?: string }> {
     try {
       const offer = await prisma.duelOffer.findUnique({
         where: { id: orderId },
@@ -270,49 +626,376 @@ export class P2POrderService {
         return { success: false, error: 'Can only cancel open orders' }
       }
 
-      const refund = offer.chipPointsValue * offer.gamesCount
+      const feePoints = FeeService.cancellationFee(offer)
 
       // Cancel and refund
-      await prisma.$transaction([
-        prisma.duelOffer.update({
-          where: { id: orderId },
-          data: { status: DuelOfferStatus.CANCELLED },
-        }),
-        prisma.user.update({
-          where: { id: userId },
-          data: { pointsBalance: { increment: refund } }
-        }),
-      ])
+      await prisma.$transaction(async (tx) => {
+        await DuelStateMachine.transitionOffer(tx, orderId, DuelOfferStatus.CANCELLED, {
+          from: [DuelOfferStatus.OPEN],
+          actorUserId: userId,
+          reason: 'cancelled by owner',
+        })
 
-      return { success: true }
+        await EscrowService.refund(tx, offer, [userId], null, 'Order cancelled')
+        await FeeService.charge(tx, userId, feePoints, {
+          description: 'Late cancellation fee',
+          relatedOfferId: orderId,
+        })
+      })
+
+      await this.publishBoard(offer, 'offer_removed', { offerId: orderId, reason: 'cancelled' })
+
+      return { success: true, feePoints }
     } catch (error) {
+      // Joined or expired in the meantime
+      if (error instanceof IllegalTransitionError) {
+        return { success: false, error: 'Can only cancel open orders' }
+      }
       console.error('Error cancelling order:', error)
       return { success: false, error: 'Failed to cancel order' }
     }
   }
 
   /**
-   * Update order after game completion
+   * Decline a direct challenge (by the challenged user, only if OPEN)
    */
-  static async onGameCompleted(
+  static async declineChallenge(
     orderId: string,
-    gameIndex: number
+    userId: string,
+    username: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const offer = await prisma.duelOffer.findUnique({
+        where: { id: orderId },
+      })
+
+      if (!offer || offer.visibility !== OfferVisibility.DIRECT) {
+        return { success: false, error: 'Challenge not found' }
+      }
+
+      if (offer.invitedUserId !== userId) {
+        return { success: false, error: 'Only the challenged player can decline' }
+      }
+
+      if (offer.status !== DuelOfferStatus.OPEN) {
+        return { success: false, error: 'Challenge is no longer open' }
+      }
+
+      await prisma.$transaction(async (tx) => {
+        await DuelStateMachine.transitionOffer(tx, orderId, DuelOfferStatus.CANCELLED, {
+          from: [DuelOfferStatus.OPEN],
+          actorUserId: userId,
+          reason: 'challenge declined',
+        })
+
+        await EscrowService.refund(tx, offer, [offer.creatorUserId], null, 'Challenge declined')
+      })
+
+      await NotificationService.notifyChallengeDeclined(offer.creatorUserId, username)
+      await RealtimeService.publishDuel(orderId, 'challenge_declined', { userId })
+
+      return { success: true }
+    } catch (error) {
+      if (error instanceof IllegalTransitionError) {
+        return { success: false, error: 'Challenge is no longer open' }
+      }
+      console.error('Error declining challenge:', error)
+      return { success: false, error: 'Failed to decline challenge' }
+    }
+  }
+
+  /**
+   * Duel for a pair from the matchmaking queue, started right away
+   * Both players asked for it, so there is no creator confirmation: the offer
+   * goes OPEN -> WAITING_CREATOR_CONFIRM -> MATCHED in one transaction and the
+   * stakes come out of the queue holds. Runs inside the caller's transaction.
+   */
+  static async createMatchmadeDuel(
+    tx: Prisma.TransactionClient,
+    creator: MatchmakingEntry,
+    opponent: MatchmakingEntry,
+    gamesCount: number
+  ): Promise<DuelOffer> {
+    const offer = await tx.duelOffer.create({
+      data: {
+        creatorUserId: creator.userId,
+        chipType: creator.chipType,
+        chipPointsValue: CHIP_VALUES[creator.chipType],
+        gamesCount,
+        stakeType: StakeType.POINTS,
+        stakeValue: CHIP_VALUES[creator.chipType] * gamesCount,
+        visibility: OfferVisibility.MATCHMAKING,
+        status: DuelOfferStatus.OPEN,
+        expiresAt: new Date(Date.now() + CONSTANTS.OFFER_TTL_MS),
+      },
+    })
+    await DuelStateMachine.recordCreated(tx, 'OFFER', offer.id, offer.status, { reason: 'matchmaking' })
+
+    await EscrowService.lockHeld(tx, offer, creator)
+    await EscrowService.lockHeld(tx, offer, opponent)
+
+    await DuelStateMachine.transitionOffer(tx, offer.id, DuelOfferStatus.WAITING_CREATOR_CONFIRM, {
+      from: [DuelOfferStatus.OPEN],
+      data: { opponentUserId: opponent.userId },
+      reason: 'paired by matchmaking',
+    })
+
+    const seedFields = await ServerSeedService.newSeedFields()
+    const match = await this.createPendingMatch(
+      tx, offer, opponent.userId, seedFields, new Date(), EscrowService.stakeFor(offer)
+    )
+    await this.startMatch(tx, offer, match)
+
+    return offer
+  }
+
+  /**
+   * Expire open orders past expiresAt and refund the creator (background job)
+   */
+  static async expireOffers(): Promise<number> {
+    const due = await prisma.duelOffer.findMany({
+      where: { status: DuelOfferStatus.OPEN, expiresAt: { lt: new Date() } },
+    })
+
+    let expired = 0
+    for (const offer of due) {
+      try {
+        await prisma.$transaction(async (tx) => {
+          await DuelStateMachine.transitionOffer(tx, offer.id, DuelOfferStatus.EXPIRED, {
+            from: [DuelOfferStatus.OPEN],
+            reason: 'expired',
+          })
+
+          await EscrowService.refund(tx, offer, [offer.creatorUserId], null, 'Order expired')
+        })
+        await this.publishBoard(offer, 'offer_removed', { offerId: offer.id, reason: 'expired' })
+        expired++
+      } catch (error) {
+        // Joined or cancelled in the meantime
+        if (error instanceof IllegalTransitionError) continue
+        throw error
+      }
+    }
+
+    return expired
+  }
+
+  /**
+   * Settle matches whose creator missed the confirmation deadline (background job)
+   */
+  static async expireConfirmations(): Promise<number> {
+    const due = await prisma.duelMatch.findMany({
+      where: {
+        status: DuelMatchStatus.AWAITING_CREATOR_CONFIRM,
+        creatorConfirmDeadline: { lt: new Date() },
+      },
+      include: { offer: true },
+    })
+
+    let expired = 0
+    for (const match of due) {
+      if (await this.expireConfirmation(match)) expired++
+    }
+
+    return expired
+  }
+
+  /**
+   * Creator no-show: match -> CREATOR_NO_SHOW, opponent refunded, MISSED_CONFIRMATION for the creator
+   * The offer goes back on the board while it has time left, otherwise it is cancelled
+   * and the creator's stake returned too. Returns false if the match was confirmed meanwhile.
+   */
+  private static async expireConfirmation(match: DuelMatch & { offer: DuelOffer }): Promise<boolean> {
+    const now = new Date()
+    const reopen = !match.offer.expiresAt || match.offer.expiresAt > now
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        await DuelStateMachine.transitionMatch(tx, match.id, DuelMatchStatus.CREATOR_NO_SHOW, {
+          from: [DuelMatchStatus.AWAITING_CREATOR_CONFIRM],
+          data: { finishedAt: now },
+          reason: 'confirmation deadline passed',
+        })
+
+        if (reopen) {
+          await DuelStateMachine.transitionOffer(tx, match.offerId, DuelOfferStatus.OPEN, {
+            from: [DuelOfferStatus.WAITING_CREATOR_CONFIRM],
+            data: { opponentUserId: null },
+            reason: 'creator missed the confirmation',
+          })
+          await EscrowService.returnToOffer(tx, match, match.offer)
+        } else {
+          await DuelStateMachine.transitionOffer(tx, match.offerId, DuelOfferStatus.CANCELLED, {
+            from: [DuelOfferStatus.WAITING_CREATOR_CONFIRM],
+            reason: 'creator missed the confirmation, offer expired',
+          })
+          await EscrowService.refund(tx, match.offer, [match.opponentUserId], match.id, 'Creator did not confirm')
+          await EscrowService.refund(tx, match.offer, [match.creatorUserId], match.id, 'Order expired')
+        }
+
+        await ReliabilityService.updateReliability(match.creatorUserId, 'MISSED_CONFIRMATION', match.id, tx)
+      })
+    } catch (error) {
+      if (error instanceof IllegalTransitionError) return false
+      throw error
+    }
+
+    console.log(`[P2P] Creator ${match.creatorUserId} missed the confirmation of ${match.offerId}, offer ${reopen ? 'reopened' : 'cancelled'}`)
+    await NotificationService.notifyConfirmationExpired(match.opponentUserId)
+    await RealtimeService.publishDuel(match.offerId, 'confirmation_expired', { matchId: match.id, reopened: reopen })
+    await this.publishBoard(
+      match.offer,
+      reopen ? 'offer_reopened' : 'offer_removed',
+      reopen ? { offerId: match.offerId } : { offerId: match.offerId, reason: 'expired' }
+    )
+    return true
+  }
+
+  /**
+   * Opponent joined: match AWAITING_CREATOR_CONFIRM with both stakes in bets
+   */
+  private static async createPendingMatch(
+    tx: Prisma.TransactionClient,
+    offer: DuelOffer,
+    opponentUserId: string,
+    seedFields: Awaited<ReturnType<typeof ServerSeedService.newSeedFields>>,
+    confirmDeadline: Date,
+    opponentPoints: number
+  ): Promise<DuelMatch> {
+    const match = await tx.duelMatch.create({
+      data: {
+        offerId: offer.id,
+        creatorUserId: offer.creatorUserId,
+        opponentUserId,
+        gamesPlanned: offer.gamesCount,
+        gamesPlayed: 0,
+        status: DuelMatchStatus.AWAITING_CREATOR_CONFIRM,
+        creatorConfirmDeadline: confirmDeadline,
+        ...seedFields,
+      },
+    })
+
+    await DuelStateMachine.recordCreated(tx, 'MATCH', match.id, match.status, {
+      actorUserId: opponentUserId,
+      reason: 'joined',
+    })
+    await EscrowService.openBets(tx, match, offer, opponentPoints)
+    return match
+  }
+
+  /**
+   * A joiner's skins must be worth the offer's value within SKIN_STAKE_TOLERANCE
+   */
+  private static checkSkinStake(value: number, offerValue: number): void {
+    const min = Math.ceil(offerValue * (1 - CONSTANTS.SKIN_STAKE_TOLERANCE))
+    const max = Math.floor(offerValue * (1 + CONSTANTS.SKIN_STAKE_TOLERANCE))
+
+    if (value < min || value > max) {
+      throw new SkinStakeValueError(`Your skins are worth ${value} pts, this duel needs ${min}-${max} pts`)
+    }
+  }
+
+  /**
+   * Creator confirmed: offer WAITING_CREATOR_CONFIRM -> MATCHED, match starts with its first game
+   */
+  private static async startMatch(
+    tx: Prisma.TransactionClient,
+    offer: DuelOffer,
+    match: DuelMatch,
+    actorUserId?: string
   ): Promise<void> {
-    // For now just log - full implementation later
-    console.log(`Game ${gameIndex} completed for order ${orderId}`)
+    const now = new Date()
+
+    await DuelStateMachine.transitionOffer(tx, offer.id, DuelOfferStatus.MATCHED, {
+      from: [DuelOfferStatus.WAITING_CREATOR_CONFIRM],
+      actorUserId,
+      reason: actorUserId ? 'confirmed' : 'paired by matchmaking',
+    })
+    await DuelStateMachine.transitionMatch(tx, match.id, DuelMatchStatus.IN_PROGRESS, {
+      from: [DuelMatchStatus.AWAITING_CREATOR_CONFIRM],
+      data: { confirmedAt: now },
+      actorUserId,
+      reason: actorUserId ? 'confirmed' : 'paired by matchmaking',
+    })
+
+    // First game of the series, open for commitments right away
+    const game = await tx.duelGame.create({
+      data: {
+        matchId: match.id,
+        roundIndex: 1,
+        status: DuelGameStatus.IN_PROGRESS,
+        roundHashCommit: match.serverSeedHash,
+        startedAt: now,
+        commitDeadline: new Date(now.getTime() + CONSTANTS.GAME_TIMEOUT_MS),
+      },
+    })
+    await DuelStateMachine.recordCreated(tx, 'GAME', game.id, game.status, { reason: 'first game' })
+  }
+
+  /**
+   * Invite valid for INVITE_TTL_MS, but not past the offer's own expiry
+   */
+  private static inviteFor(offer: DuelOffer): InviteDto | null {
+    const ttlEnd = Date.now() + CONSTANTS.INVITE_TTL_MS
+    const expiresAt = offer.expiresAt && offer.expiresAt.getTime() < ttlEnd
+      ? offer.expiresAt
+      : new Date(ttlEnd)
+
+    return InviteService.createInvite(offer.id, expiresAt)
+  }
+
+  /**
+   * Board events for public offers only - private ones never show up there
+   */
+  private static async publishBoard(
+    offer: DuelOffer,
+    type: RealtimeEventType,
+    data: Record<string, unknown>
+  ): Promise<void> {
+    if (offer.visibility !== OfferVisibility.PUBLIC) return
+    await RealtimeService.publishBoard(type, data)
+  }
+
+  /**
+   * Opaque board cursor: sort value and id of the last offer on a page
+   */
+  private static encodeCursor(value: string | number, id: string): string {
+    return Buffer.from(JSON.stringify([value, id])).toString('base64url')
+  }
+
+  private static decodeCursor(cursor: string): { value: string | number; id: string } | null {
+    try {
+      const [value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString())
+      if (typeof id !== 'string' || (typeof value !== 'string' && typeof value !== 'number')) return null
+      if (typeof value === 'string' && isNaN(Date.parse(value))) return null
+      return { value, id }
+    } catch {
+      return null
+    }
   }
 
   /**
    * Convert DB record to DTO
    */
-  private static toDto(offer: any, username: string): P2POrderDto {
+  private static toDto(offer: OfferRecord, username: string, confirmDeadline?: Date | null): P2POrderDto {
+    // reliabilityPercent is kept in step with the deal counters by ReliabilityService
     const owner: UserSummary = {
       id: offer.creatorUserId,
       username: username,
-      reliabilityCoefficient: 1.0,
-      totalDeals: 0,
+      reliabilityCoefficient: offer.creator ? offer.creator.reliabilityPercent / 100 : 1.0,
+      totalDeals: offer.creator?.totalDeals ?? 0,
     }
 
+    const skins: StakedSkinDto[] = (offer.stakedSkins ?? [])
+      .filter(s => s.userId === offer.creatorUserId)
+      .map(s => ({
+        userSkinId: s.id,
+        name: s.skin.name,
+        rarity: s.skin.rarity,
+        imageUrl: s.skin.imageUrl,
+        pointsValue: s.skin.pointsValue,
+      }))
+
     const statusMap: Record<string, P2POrderStatus> = {
       'OPEN': 'OPEN',
       'WAITING_CREATOR_CONFIRM': 'PENDING_CONFIRMATION',
@@ -324,15 +1007,23 @@ export class P2POrderService {
     return {
       id: offer.id,
       owner,
-      chipType: offer.chipType as ChipType,
+      chipType: offer.stakeType === StakeType.SKINS ? null : offer.chipType,
       chipValue: offer.chipPointsValue,
+      stakeType: offer.stakeType,
+      stakeValue: offer.stakeValue ?? EscrowService.stakeFor(offer),
+      skins,
+      visibility: offer.visibility,
+      invitedUser: offer.invitedUser
+        ? { id: offer.invitedUser.id, username: offer.invitedUser.username }
+        : null,
       gamesPlanned: offer.gamesCount,
       minGamesRequired: CONSTANTS.MIN_GAMES_REQUIRED,
       totalGamesPlayed: 0,
       status: statusMap[offer.status] || 'OPEN',
       isRewardLocked: true,
       opponent: null,
-      confirmationExpiresAt: offer.expiresAt?.toISOString() ?? null,
+      confirmationExpiresAt: confirmDeadline?.toISOString() ?? null,
+      expiresAt: offer.expiresAt?.toISOString() ?? null,
       currentGameIndex: 0,
       createdAt: offer.createdAt.toISOString(),
     }
@@ -0,0 +1,104 @@
+/**
+ * Penalty Service
+ * What happens to a match when players walk away, and to players who keep doing it
+ *
+ * - Both players abandon (a game forfeited with no winner): the match ends and
+ *   both stakes are burned to the PlatformVault.
+ * - One player forfeits a game before MIN_GAMES_REQUIRED games were played: the
+ *   match ends and the opponent wins both stakes.
+ * - A later forfeit only loses that game.
+ *
+ * Players who left are offenders. Their history rows carry the reason
+ * (TransactionReason), and offences are counted from those rows: past
+ * PENALTY_POLICY.FREE_OFFENCES within the window, each one also costs an
+ * escalating PENALTY.
+ */
+
+import { DuelGame, DuelGameStatus, DuelMatch, Prisma, TransactionReason, TransactionType } from '@prisma/client'
+import { CONSTANTS, PENALTY_POLICY } from '../types'
+import { LedgerService, VAULT_ACCOUNT, userAccount } from './ledgerService'
+
+type Tx = Prisma.TransactionClient
+
+/** Reasons that count as an offence of the player whose row carries them */
+const OFFENCES: TransactionReason[] = [
+  TransactionReason.BOTH_ABANDONED,
+  TransactionReason.FORFEIT_BEFORE_MIN_GAMES,
+]
+
+export type PenaltyDecision =
+  | { action: 'BURN'; offenderIds: string[] }
+  | { action: 'AWARD'; winnerId: string; offenderIds: string[] }
+
+export class PenaltyService {
+  /**
+   * Whether the match ends on a penalty after its latest game (null = play on)
+   * resolved: the match's resolved games, latest first
+   */
+  static decide(
+    match: Pick<DuelMatch, 'creatorUserId' | 'opponentUserId'>,
+    resolved: Pick<DuelGame, 'status' | 'roundIndex' | 'winnerUserId'>[]
+  ): PenaltyDecision | null {
+    const last = resolved[0]
+    if (!last || last.status !== DuelGameStatus.FORFEITED) return null
+
+    if (!last.winnerUserId) {
+      return { action: 'BURN', offenderIds: [match.creatorUserId, match.opponentUserId] }
+    }
+
+    if (last.roundIndex <= CONSTANTS.MIN_GAMES_REQUIRED) {
+      const offenderId = last.winnerUserId === match.creatorUserId ? match.opponentUserId : match.creatorUserId
+      return { action: 'AWARD', winnerId: last.winnerUserId, offenderIds: [offenderId] }
+    }
+
+    return null
+  }
+
+  /**
+   * Penalty for a player's n-th offence within the window
+   */
+  static repeatPenalty(offences: number): number {
+    const repeats = offences - PENALTY_POLICY.FREE_OFFENCES
+    if (repeats <= 0) return 0
+
+    return Math.min(
+      PENALTY_POLICY.REPEAT_PENALTY_POINTS * 2 ** (repeats - 1),
+      PENALTY_POLICY.REPEAT_PENALTY_MAX_POINTS
+    )
+  }
+
+  /**
+   * Charge an offender the repeat penalty, if they are one
+   * Call after the offence itself was recorded. Takes at most the balance.
+   * Returns the points charged.
+   */
+  static async chargeRepeatOffender(tx: Tx, userId: string, matchId: string): Promise<number> {
+    const offences = await tx.transaction.count({
+      where: {
+        userId,
+        reasonCode: { in: OFFENCES },
+        createdAt: { gte: new Date(Date.now() - PENALTY_POLICY.REPEAT_WINDOW_MS) },
+      },
+    })
+
+    const penalty = this.repeatPenalty(offences)
+    if (penalty === 0) return 0
+
+    const user = await tx.user.findUnique({ where: { id: userId }, select: { pointsBalance: true } })
+    const charged = Math.min(penalty, user?.pointsBalance ?? 0)
+    if (charged === 0) return 0
+
+    await LedgerService.transfer(tx, {
+      from: userAccount(userId),
+      to: VAULT_ACCOUNT,
+      amount: charged,
+      type: TransactionType.PENALTY,
+      reasonCode: TransactionReason.REPEAT_OFFENDER,
+      relatedMatchId: matchId,
+      description: `Repeat offence (${offences} in ${PENALTY_POLICY.REPEAT_WINDOW_MS / (24 * 60 * 60 * 1000)} days)`,
+    })
+
+    console.log(`[Penalty] ${userId} charged ${charged} points for offence #${offences}`)
+    return charged
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Realtime Service
+ * Push channel for duel pages and the offer board (Server-Sent Events)
+ *
+ * Channels:
+ * - duel:<offerId> - opponent joined, ready checks, commits/reveals, round and match results
+ * - board          - offers created, taken, reopened and removed
+ *
+ * Events carry ids only; clients re-read the state they need through the
+ * regular API. A client reconnecting with Last-Event-ID gets the events it
+ * missed, or a resync event when they are no longer kept.
+ */
+
+import { RealtimeEvent, RealtimeEventType } from '../types'
+import { EventBroker, InMemoryEventBroker } from './eventBroker'
+
+export const BOARD_CHANNEL = 'board'
+
+const HEARTBEAT_MS = 25 * 1000 // keeps proxies from closing an idle stream
+const RETRY_MS = 3 * 1000 // client reconnect delay
+
+// One broker per process, also across dev hot reloads
+const globalForBroker = globalThis as unknown as {
+  realtimeBroker: EventBroker | undefined
+}
+
+export class RealtimeService {
+  /**
+   * Replace the broker (e.g. with a shared one when running several instances)
+   */
+  static setBroker(broker: EventBroker): void {
+    globalForBroker.realtimeBroker = broker
+  }
+
+  /**
+   * Current broker - the in-process one unless replaced
+   */
+  static getBroker(): EventBroker {
+    globalForBroker.realtimeBroker ??= new InMemoryEventBroker()
+    return globalForBroker.realtimeBroker
+  }
+
+  /**
+   * Channel of one duel (by offer id)
+   */
+  static duelChannel(offerId: string): string {
+    return `duel:${offerId}`
+  }
+
+  /**
+   * Publish an event
+   * Never throws - a lost push only delays the client until its next read
+   */
+  static async publish(
+    channel: string,
+    type: RealtimeEventType,
+    data: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      await this.getBroker().publish({ channel, type, data })
+    } catch (error) {
+      console.error(`[Realtime] Failed to publish ${type} on ${channel}:`, error)
+    }
+  }
+
+  /**
+   * Publish on a duel's channel
+   */
+  static async publishDuel(
+    offerId: string,
+    type: RealtimeEventType,
+    data: Record<string, unknown> = {}
+  ): Promise<void> {
+    await this.publish(this.duelChannel(offerId), type, { offerId, ...data })
+  }
+
+  /**
+   * Publish on the offer board channel
+   */
+  static async publishBoard(
+    type: RealtimeEventType,
+    data: Record<string, unknown> = {}
+  ): Promise<void> {
+    await this.publish(BOARD_CHANNEL, type, data)
+  }
+
+  /**
+   * SSE response for a channel
+   * Replays the events after lastEventId first; live events arriving meanwhile
+   * are held back and sent after the replay, without duplicates.
+   */
+  static stream(channel: string, lastEventId: string | null, signal: AbortSignal): Response {
+    const encoder = new TextEncoder()
+    const broker = this.getBroker()
+    let cleanup = () => {}
+
+    const body = new ReadableStream<Uint8Array>({
+      start: async (controller) => {
+        let closed = false
+        const send = (chunk: string) => {
+          if (!closed) controller.enqueue(encoder.encode(chunk))
+        }
+
+        let pending: RealtimeEvent[] | null = []
+        const unsubscribe = broker.subscribe(channel, (event) => {
+          if (pending) pending.push(event)
+          else send(this.format(event))
+        })
+        const heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_MS)
+
+        cleanup = () => {
+          if (closed) return
+          closed = true
+          clearInterval(heartbeat)
+          unsubscribe()
+          try {
+            controller.close()
+          } catch {
+            // Already closed by the client
+          }
+        }
+        signal.addEventListener('abort', cleanup)
+        if (signal.aborted) return cleanup()
+
+        send(`retry: ${RETRY_MS}\n\n`)
+
+        const replayed = new Set<string>()
+        if (lastEventId) {
+          const missed = await broker.replay(channel, lastEventId).catch(() => null)
+          if (missed) {
+            for (const event of missed) {
+              replayed.add(event.id)
+              send(this.format(event))
+            }
+          } else {
+            send('event: resync\ndata: {}\n\n')
+          }
+        }
+
+        for (const event of pending) {
+          if (!replayed.has(event.id)) send(this.format(event))
+        }
+        pending = null
+      },
+      cancel: () => cleanup(),
+    })
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    })
+  }
+
+  /**
+   * One event in SSE wire format
+   */
+  private static format(event: RealtimeEvent): string {
+    return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`
+  }
+}
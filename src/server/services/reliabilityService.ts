@@ -1,109 +1,220 @@
 /**
  * Reliability Service
  * Tracks user trust/reliability metrics
+ *
+ * Each event is kept as a ReliabilityEvent with the match it happened in.
+ * The counters on User are derived from that history and rewritten after
+ * every event, so the web app and the job worker see the same numbers.
  */
 
+import prisma from '@/lib/prisma'
+import { Prisma, User } from '@prisma/client'
 import { 
+  CONSTANTS,
   ReliabilityMetrics, 
   ReliabilityEvent, 
+  ReliabilityHistoryPage,
   ReliabilityRank 
 } from '../types'
 
-// In-memory store (replace with Prisma)
-interface ReliabilityRecord {
-  userId: string
-  username: string
-  totalDeals: number
-  completedDeals: number
-  reliabilityCoefficient: number
-  missedConfirmations: number
-  droppedBeforeMinGames: number
-  updatedAt: Date
-}
+type Tx = Prisma.TransactionClient
+
+// The user row written through from the history
+type ReliabilityRecord = Pick<
+  User,
+  'id' | 'username' | 'totalDeals' | 'completedDeals' | 'missedConfirmations' | 'droppedBeforeMinGames'
+>
+
+type Counters = Pick<ReliabilityRecord, 'totalDeals' | 'completedDeals' | 'missedConfirmations' | 'droppedBeforeMinGames'>
 
-const reliabilityStore: Map<string, ReliabilityRecord> = new Map()
+const RECORD_SELECT = {
+  id: true,
+  username: true,
+  totalDeals: true,
+  completedDeals: true,
+  missedConfirmations: true,
+  droppedBeforeMinGames: true,
+} as const
 
 export class ReliabilityService {
   /**
-   * Get or create reliability metrics for a user
+   * Get reliability metrics for a user (new or unknown users start at 100%)
    */
   static async getMetrics(userId: string, username?: string): Promise<ReliabilityMetrics> {
-    let record = reliabilityStore.get(userId)
-
-    if (!record) {
-      // Create new record
-      record = {
-        userId,
-        username: username || 'Unknown',
-        totalDeals: 0,
-        completedDeals: 0,
-        reliabilityCoefficient: 1.0, // New users start with 100%
-        missedConfirmations: 0,
-        droppedBeforeMinGames: 0,
-        updatedAt: new Date(),
-      }
-      reliabilityStore.set(userId, record)
-    }
+    const record = await prisma.user.findUnique({
+      where: { id: userId },
+      select: RECORD_SELECT,
+    })
 
-    return {
-      ...record,
-      rank: this.calculateRank(record.reliabilityCoefficient),
-    }
+    return this.toMetrics(record ?? {
+      id: userId,
+      username: username || 'Unknown',
+      totalDeals: 0,
+      completedDeals: 0,
+      missedConfirmations: 0,
+      droppedBeforeMinGames: 0,
+    })
   }
 
   /**
-   * Update reliability based on event
+   * Record an event and update the user's metrics
+   * matchId is the match it happened in. Runs in the transaction of the
+   * change that caused it, so the two are kept or lost together.
    */
   static async updateReliability(
     userId: string,
-    event: ReliabilityEvent
+    event: ReliabilityEvent,
+    matchId: string | null,
+    tx: Tx
   ): Promise<ReliabilityMetrics> {
-    let record = reliabilityStore.get(userId)
-
-    if (!record) {
-      record = {
-        userId,
-        username: 'Unknown',
-        totalDeals: 0,
-        completedDeals: 0,
-        reliabilityCoefficient: 1.0,
-        missedConfirmations: 0,
-        droppedBeforeMinGames: 0,
-        updatedAt: new Date(),
-      }
+    // Lock the user row first: concurrent events for the same user wait here,
+    // and each one's tally then includes the events committed before it
+    await tx.user.update({ where: { id: userId }, data: { updatedAt: new Date() }, select: { id: true } })
+
+    const counters = this.count(await this.tally(tx, userId), event)
+    const percent = Math.round(this.calculateCoefficient(counters.completedDeals, counters.totalDeals) * 100)
+
+    await tx.reliabilityEvent.create({
+      data: { userId, type: event, matchId, reliabilityPercent: percent },
+    })
+    const updated = await this.writeThrough(tx, userId, counters)
+
+    console.log(`[Reliability] ${event} for ${userId}: ${percent}%`)
+    return this.toMetrics(updated)
+  }
+
+  /**
+   * Record an event unless the user already has one of that type for the match
+   * Returns null if it was recorded before.
+   */
+  static async updateReliabilityOnce(
+    userId: string,
+    event: ReliabilityEvent,
+    matchId: string,
+    tx: Tx
+  ): Promise<ReliabilityMetrics | null> {
+    const recorded = await tx.reliabilityEvent.count({ where: { userId, type: event, matchId } })
+    if (recorded > 0) return null
+
+    return this.updateReliability(userId, event, matchId, tx)
+  }
+
+  /**
+   * Rewrite the user's counters from their event history
+   */
+  static async sync(userId: string, client: Tx = prisma): Promise<ReliabilityMetrics> {
+    const counters = await this.tally(client, userId)
+    return this.toMetrics(await this.writeThrough(client, userId, counters))
+  }
+
+  /**
+   * One page of a user's events, newest first
+   * cursor is the id of the last event of the previous page.
+   */
+  static async getHistory(
+    userId: string,
+    cursor?: string,
+    limit: number = CONSTANTS.RELIABILITY_HISTORY_PAGE_SIZE
+  ): Promise<{ success: boolean; page?: ReliabilityHistoryPage; error?: string }> {
+    const take = Math.min(limit, CONSTANTS.RELIABILITY_HISTORY_MAX_PAGE_SIZE)
+
+    if (cursor) {
+      const exists = await prisma.reliabilityEvent.count({ where: { id: cursor, userId } })
+      if (exists === 0) return { success: false, error: 'Invalid cursor' }
     }
 
+    const events = await prisma.reliabilityEvent.findMany({
+      where: { userId },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: take + 1,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    })
+
+    const pageEvents = events.slice(0, take)
+    return {
+      success: true,
+      page: {
+        events: pageEvents.map(e => ({
+          id: e.id,
+          type: e.type,
+          matchId: e.matchId,
+          reliabilityPercent: e.reliabilityPercent,
+          createdAt: e.createdAt.toISOString(),
+        })),
+        nextCursor: events.length > take ? pageEvents[pageEvents.length - 1].id : null,
+      },
+    }
+  }
+
+  /**
+   * Counters from the user's stored events
+   */
+  private static async tally(client: Tx, userId: string): Promise<Counters> {
+    const groups = await client.reliabilityEvent.groupBy({
+      by: ['type'],
+      where: { userId },
+      _count: { _all: true },
+    })
+
+    return groups.reduce(
+      (counters, group) => this.count(counters, group.type, group._count._all),
+      { totalDeals: 0, completedDeals: 0, missedConfirmations: 0, droppedBeforeMinGames: 0 }
+    )
+  }
+
+  /**
+   * Add `times` events of one type to the counters
+   */
+  private static count(counters: Counters, event: ReliabilityEvent, times: number = 1): Counters {
+    // Every event is a deal; only DUEL_COMPLETED counts as a completed one
+    const next = { ...counters, totalDeals: counters.totalDeals + times }
+
     switch (event) {
-      case 'MISSED_CONFIRMATION':
-        record.totalDeals += 1
-        record.missedConfirmations += 1
-        // completedDeals stays the same
+      case 'DUEL_COMPLETED':
+        next.completedDeals += times
         break
 
-      case 'DUEL_COMPLETED':
-        record.totalDeals += 1
-        record.completedDeals += 1
+      case 'MISSED_CONFIRMATION':
+        next.missedConfirmations += times
         break
 
       case 'DROPPED_BEFORE_MIN_GAMES':
-        record.totalDeals += 1
-        record.droppedBeforeMinGames += 1
-        // completedDeals stays the same
+        next.droppedBeforeMinGames += times
         break
     }
 
-    // Recalculate coefficient
-    record.reliabilityCoefficient = this.calculateCoefficient(
-      record.completedDeals,
-      record.totalDeals
-    )
-    record.updatedAt = new Date()
+    return next
+  }
+
+  /**
+   * Store the counters and the percentage derived from them on the user
+   */
+  private static async writeThrough(client: Tx, userId: string, counters: Counters): Promise<ReliabilityRecord> {
+    return client.user.update({
+      where: { id: userId },
+      data: {
+        ...counters,
+        reliabilityPercent: Math.round(this.calculateCoefficient(counters.completedDeals, counters.totalDeals) * 100),
+      },
+      select: RECORD_SELECT,
+    })
+  }
 
-    reliabilityStore.set(userId, record)
+  /**
+   * Metrics from a stored record
+   */
+  private static toMetrics(record: ReliabilityRecord): ReliabilityMetrics {
+    const reliabilityCoefficient = this.calculateCoefficient(record.completedDeals, record.totalDeals)
 
     return {
-      ...record,
-      rank: this.calculateRank(record.reliabilityCoefficient),
+      userId: record.id,
+      username: record.username,
+      totalDeals: record.totalDeals,
+      completedDeals: record.completedDeals,
+      reliabilityCoefficient,
+      missedConfirmations: record.missedConfirmations,
+      droppedBeforeMinGames: record.droppedBeforeMinGames,
+      rank: this.calculateRank(reliabilityCoefficient),
     }
   }
 
@@ -189,6 +300,13 @@ export class ReliabilityService {
     return true
   }
 
+  /**
+   * Check if user is reliable enough for an opponent's minimum (0-1)
+   */
+  static meetsMinimum(metrics: ReliabilityMetrics, minCoefficient: number): boolean {
+    return metrics.reliabilityCoefficient >= minCoefficient
+  }
+
   /**
    * Check if user should show warning to opponent
    */
@@ -200,20 +318,13 @@ export class ReliabilityService {
    * Get all users sorted by reliability
    */
   static async getLeaderboard(limit: number = 100): Promise<ReliabilityMetrics[]> {
-    const users: ReliabilityMetrics[] = []
-    
-    reliabilityStore.forEach((record) => {
-      users.push({
-        ...record,
-        rank: this.calculateRank(record.reliabilityCoefficient),
-      })
+    const users = await prisma.user.findMany({
+      where: { totalDeals: { gt: 0 } }, // Only users with activity
+      select: RECORD_SELECT,
+      orderBy: { reliabilityPercent: 'desc' },
+      take: limit,
     })
 
-    return users
-      .filter(u => u.totalDeals > 0) // Only users with activity
-      .sort((a, b) => b.reliabilityCoefficient - a.reliabilityCoefficient)
-      .slice(0, limit)
+    return users.map(user => this.toMetrics(user))
   }
 }
-
-
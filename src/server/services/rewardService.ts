@@ -4,19 +4,31 @@
  * 
  * RULES:
  * - Rewards are locked until MIN_GAMES_REQUIRED (2) games are played
- * - Winner gets the stake (chip value in points)
- * - If player forfeits before 2 games, they lose stake to opponent
+ * - Winner gets the stake (chip value in points), less the platform rake
  * - Draw = stakes returned to both players
+ * - Forfeits and abandoned matches are settled by PenaltyService
  */
 
+import { StakeType } from '@prisma/client'
 import { CHIP_VALUES, ChipType } from '../types'
+import { FeeService } from './feeService'
 
 // Constants
 const MIN_GAMES_REQUIRED = 2
 
-export interface DuelRewardResult {
+/**
+ * What the winner takes from the loser: gross - fee = net
+ */
+export interface WinningsSplit {
+  grossPoints: number
+  feePoints: number
+  netPoints: number
+}
+
+export interface DuelRewardResult extends WinningsSplit {
   winnerId: string | null
   loserId: string | null
+  /** Net points the winner gains */
   pointsTransferred: number
   isDraw: boolean
   rewardsReleased: boolean
@@ -33,7 +45,21 @@ export interface MatchScore {
   gamesPlanned: number
 }
 
+const NO_WINNINGS: WinningsSplit = { grossPoints: 0, feePoints: 0, netPoints: 0 }
+
 export class RewardService {
+  /**
+   * Split winnings into the platform rake and what the winner keeps
+   */
+  static splitWinnings(
+    grossPoints: number,
+    chipType: ChipType,
+    stakeType: StakeType = StakeType.POINTS
+  ): WinningsSplit {
+    const feePoints = FeeService.duelRake(grossPoints, chipType, stakeType)
+    return { grossPoints, feePoints, netPoints: grossPoints - feePoints }
+  }
+
   /**
    * Calculate rewards after a match is completed
    */
@@ -43,10 +69,12 @@ export class RewardService {
   ): DuelRewardResult {
     const chipValue = CHIP_VALUES[chipType]
     const totalStake = chipValue * score.gamesPlanned
+    const winnings = this.splitWinnings(totalStake, chipType)
 
     // Check if minimum games played
     if (score.gamesPlayed < MIN_GAMES_REQUIRED) {
       return {
+        ...NO_WINNINGS,
         winnerId: null,
         loserId: null,
         pointsTransferred: 0,
@@ -59,25 +87,28 @@ export class RewardService {
     // Determine overall winner
     if (score.playerAWins > score.playerBWins) {
       return {
+        ...winnings,
         winnerId: score.playerAId,
         loserId: score.playerBId,
-        pointsTransferred: totalStake,
+        pointsTransferred: winnings.netPoints,
         isDraw: false,
         rewardsReleased: true,
-        message: `Player A wins! +${totalStake} points`,
+        message: `Player A wins! +${winnings.netPoints} points (${winnings.feePoints} fee)`,
       }
     } else if (score.playerBWins > score.playerAWins) {
       return {
+        ...winnings,
         winnerId: score.playerBId,
         loserId: score.playerAId,
-        pointsTransferred: totalStake,
+        pointsTransferred: winnings.netPoints,
         isDraw: false,
         rewardsReleased: true,
-        message: `Player B wins! +${totalStake} points`,
+        message: `Player B wins! +${winnings.netPoints} points (${winnings.feePoints} fee)`,
       }
     } else {
       // Draw - return stakes
       return {
+        ...NO_WINNINGS,
         winnerId: null,
         loserId: null,
         pointsTransferred: 0,
@@ -98,13 +129,15 @@ export class RewardService {
     gamesPlayed: number
   ): DuelRewardResult {
     const chipValue = CHIP_VALUES[chipType]
+    const winnings = this.splitWinnings(chipValue * 2, chipType)
     
     // If forfeited before any games, full stake goes to opponent
     if (gamesPlayed === 0) {
       return {
+        ...winnings,
         winnerId: otherPlayerId,
         loserId: forfeitedById,
-        pointsTransferred: chipValue * 2, // Both stakes
+        pointsTransferred: winnings.netPoints, // Both stakes, less the rake
         isDraw: false,
         rewardsReleased: true,
         message: `Forfeit! ${otherPlayerId} wins both stakes.`,
@@ -113,9 +146,10 @@ export class RewardService {
 
     // If forfeited after 1 game, remaining games count as losses
     return {
+      ...winnings,
       winnerId: otherPlayerId,
       loserId: forfeitedById,
-      pointsTransferred: chipValue * 2,
+      pointsTransferred: winnings.netPoints,
       isDraw: false,
       rewardsReleased: true,
       message: `Forfeit after ${gamesPlayed} game(s). Opponent wins.`,
@@ -144,7 +178,7 @@ export class RewardService {
     if (result.winnerId === currentUserId) {
       return `🏆 You won +${result.pointsTransferred} points!`
     } else {
-      return `😔 You lost ${result.pointsTransferred} points.`
+      return `😔 You lost ${result.grossPoints} points.`
     }
   }
 }
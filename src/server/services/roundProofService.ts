@@ -0,0 +1,217 @@
+/**
+ * Round Proof Service
+ * Commit-reveal state and randomness of a duel round (DuelRoundProof)
+ *
+ * Older rounds kept this in DuelGame.roundSecret, either as commit-reveal JSON
+ * or as "seedSlice:randomNumber:winnerNumber:loserNumber". Both are converted on first read.
+ */
+
+import prisma from '@/lib/prisma'
+import { DuelGame, DuelGameStatus, DuelMatch, DuelRoundProof, Prisma } from '@prisma/client'
+import { RoundCommitState, RoundProofDto } from '../types/duel.types'
+import { VerificationData } from './winnerDetermination'
+
+export type RoundProofSource = 'LIVE' | 'BACKFILL_JSON' | 'BACKFILL_COLON'
+
+interface MatchPlayers {
+  creatorUserId: string
+  opponentUserId: string
+}
+
+const toDate = (value?: string) => (value ? new Date(value) : null)
+
+export class RoundProofService {
+  /**
+   * Convert a legacy roundSecret into proof fields
+   * Returns null if the value is in neither known encoding
+   */
+  static parseLegacySecret(
+    roundSecret: string,
+    game: Pick<DuelGame, 'winnerUserId'>,
+    players: MatchPlayers
+  ): { source: RoundProofSource; data: Omit<Prisma.DuelRoundProofUncheckedCreateInput, 'gameId'> } | null {
+    // Commit-reveal JSON written by the submit/reveal routes
+    if (roundSecret.trim().startsWith('{')) {
+      let state: RoundCommitState
+      try {
+        state = JSON.parse(roundSecret)
+      } catch (e) {
+        return null
+      }
+
+      return {
+        source: 'BACKFILL_JSON',
+        data: {
+          creatorCommitment: state.creatorCommitment ?? null,
+          creatorCommittedAt: toDate(state.creatorCommittedAt),
+          creatorNumber: state.creatorNumber ?? null,
+          creatorNonce: state.creatorNonce ?? null,
+          creatorRevealedAt: toDate(state.creatorRevealedAt),
+          opponentCommitment: state.opponentCommitment ?? null,
+          opponentCommittedAt: toDate(state.opponentCommittedAt),
+          opponentNumber: state.opponentNumber ?? null,
+          opponentNonce: state.opponentNonce ?? null,
+          opponentRevealedAt: toDate(state.opponentRevealedAt),
+          revealDeadline: toDate(state.revealDeadline),
+          timeSlot: state.timeSlot ?? null,
+          source: 'BACKFILL_JSON',
+        },
+      }
+    }
+
+    // "seedSlice:randomNumber:winnerNumber:loserNumber" written by DuelResultService
+    const parts = roundSecret.split(':')
+    if (parts.length !== 4 || !/^[0-9a-f]{8}$/i.test(parts[0])) return null
+
+    const [seedSlice, random, winnerNum, loserNum] = parts
+    const randomNumber = Number(random)
+    const winnerNumber = Number(winnerNum)
+    const loserNumber = Number(loserNum)
+    if ([randomNumber, winnerNumber, loserNumber].some(n => !Number.isInteger(n))) return null
+
+    // Draws don't record who was "winner" - the numbers can't be attributed
+    let creatorNumber: number | null = null
+    let opponentNumber: number | null = null
+    if (game.winnerUserId === players.creatorUserId) {
+      creatorNumber = winnerNumber
+      opponentNumber = loserNumber
+    } else if (game.winnerUserId === players.opponentUserId) {
+      creatorNumber = loserNumber
+      opponentNumber = winnerNumber
+    }
+
+    return {
+      source: 'BACKFILL_COLON',
+      data: {
+        seedSlice: seedSlice.toLowerCase(),
+        randomNumber,
+        creatorNumber,
+        opponentNumber,
+        creatorDistance: creatorNumber !== null ? Math.abs(creatorNumber - randomNumber) : null,
+        opponentDistance: opponentNumber !== null ? Math.abs(opponentNumber - randomNumber) : null,
+        // Colon-format rounds predate algorithm versioning
+        algorithmVersion: 1,
+        source: 'BACKFILL_COLON',
+      },
+    }
+  }
+
+  /**
+   * Proof of a game, created on first access
+   * Games that only have a legacy roundSecret are converted
+   */
+  static async getOrCreate(
+    game: Pick<DuelGame, 'id' | 'roundSecret' | 'winnerUserId'>,
+    players: MatchPlayers
+  ): Promise<DuelRoundProof> {
+    const existing = await prisma.duelRoundProof.findUnique({ where: { gameId: game.id } })
+    if (existing) return existing
+
+    const legacy = game.roundSecret ? this.parseLegacySecret(game.roundSecret, game, players) : null
+    if (game.roundSecret && !legacy) {
+      console.warn(`[RoundProof] Unrecognized roundSecret for game ${game.id}, starting empty proof`)
+    }
+
+    // upsert: two concurrent requests may both try to create it
+    return prisma.duelRoundProof.upsert({
+      where: { gameId: game.id },
+      create: { ...legacy?.data, gameId: game.id },
+      update: {},
+    })
+  }
+
+  /**
+   * API view of a proof
+   * Numbers, nonces and randomness stay hidden until the round is resolved
+   */
+  static toDto(
+    proof: DuelRoundProof | null,
+    game: Pick<DuelGame, 'roundIndex' | 'status' | 'winnerUserId'>
+  ): RoundProofDto {
+    const resolved = game.status === DuelGameStatus.FINISHED || game.status === DuelGameStatus.FORFEITED
+    const secret = <T>(value: T | null | undefined): T | null => (resolved ? value ?? null : null)
+
+    return {
+      roundIndex: game.roundIndex,
+      status: game.status,
+      winnerUserId: game.winnerUserId,
+      forfeited: proof?.forfeited ?? game.status === DuelGameStatus.FORFEITED,
+
+      creatorCommitment: proof?.creatorCommitment ?? null,
+      creatorCommittedAt: proof?.creatorCommittedAt?.toISOString() ?? null,
+      creatorRevealedAt: proof?.creatorRevealedAt?.toISOString() ?? null,
+      opponentCommitment: proof?.opponentCommitment ?? null,
+      opponentCommittedAt: proof?.opponentCommittedAt?.toISOString() ?? null,
+      opponentRevealedAt: proof?.opponentRevealedAt?.toISOString() ?? null,
+      revealDeadline: proof?.revealDeadline?.toISOString() ?? null,
+
+      creatorNumber: secret(proof?.creatorNumber),
+      creatorNonce: secret(proof?.creatorNonce),
+      opponentNumber: secret(proof?.opponentNumber),
+      opponentNonce: secret(proof?.opponentNonce),
+
+      hmacDuelId: secret(proof?.hmacDuelId),
+      hmacRoundNumber: secret(proof?.hmacRoundNumber),
+      timeSlot: secret(proof?.timeSlot),
+      seedSlice: secret(proof?.seedSlice),
+      sampleIndex: secret(proof?.sampleIndex),
+      randomNumber: secret(proof?.randomNumber),
+      creatorDistance: secret(proof?.creatorDistance),
+      opponentDistance: secret(proof?.opponentDistance),
+      algorithmVersion: secret(proof?.algorithmVersion),
+      keyVersion: secret(proof?.keyVersion),
+    }
+  }
+
+  /**
+   * Verification data of a finished round, rebuilt from the stored proof
+   * null for unresolved, forfeited or incomplete rounds
+   */
+  static toVerificationData(
+    proof: DuelRoundProof | null,
+    game: Pick<DuelGame, 'roundIndex' | 'status' | 'winnerUserId'>,
+    match: Pick<DuelMatch, 'creatorUserId' | 'opponentUserId' | 'serverSeedHash' | 'creatorClientSeed' | 'opponentClientSeed'>
+  ): VerificationData | null {
+    if (
+      game.status !== DuelGameStatus.FINISHED ||
+      !proof ||
+      proof.creatorNumber === null ||
+      proof.opponentNumber === null ||
+      proof.seedSlice === null ||
+      proof.randomNumber === null ||
+      proof.creatorDistance === null ||
+      proof.opponentDistance === null
+    ) {
+      return null
+    }
+
+    const algorithmVersion = proof.algorithmVersion === 2 ? 2 : 1
+    const seeded = !!match.serverSeedHash
+
+    return {
+      duelId: proof.hmacDuelId ?? '',
+      roundNumber: proof.hmacRoundNumber ?? game.roundIndex,
+      timeSlot: proof.timeSlot ?? 0,
+      playerAId: match.creatorUserId,
+      playerANumber: proof.creatorNumber,
+      playerBId: match.opponentUserId,
+      playerBNumber: proof.opponentNumber,
+      seedSlice: proof.seedSlice,
+      randomNumber: proof.randomNumber,
+      distanceA: proof.creatorDistance,
+      distanceB: proof.opponentDistance,
+      winnerIndex: game.winnerUserId === match.creatorUserId
+        ? 0
+        : game.winnerUserId === match.opponentUserId
+          ? 1
+          : -1,
+      formula: `v${algorithmVersion}: ${proof.seedSlice} → ${proof.randomNumber}`,
+      serverSeedHash: seeded ? match.serverSeedHash : null,
+      clientSeedA: seeded ? match.creatorClientSeed ?? '' : null,
+      clientSeedB: seeded ? match.opponentClientSeed ?? '' : null,
+      keyVersion: proof.keyVersion ?? 0,
+      algorithmVersion,
+      sampleIndex: proof.sampleIndex ?? 0,
+    }
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Server Seed Service
+ * Per-match server seed commitment chain
+ *
+ * - Seed is drawn at random for every match, only its SHA256 is published;
+ *   the active platform key version is recorded with it
+ * - Players may add their own client seeds before the first round resolves
+ * - Seed is revealed once all planned games are resolved, or the match is
+ *   closed after at least one round (a match closed before any round keeps it)
+ */
+
+import prisma from '@/lib/prisma'
+import { DuelGameStatus, DuelMatch, DuelMatchStatus } from '@prisma/client'
+import {
+  generateServerSeed,
+  hashServerSeed,
+  validateClientSeed,
+  SeedMaterial,
+  ENV_KEY_VERSION,
+} from './winnerDetermination'
+import { KeyringService } from './keyringService'
+import { ServerSeedInfo } from '../types/duel.types'
+
+type SeedFields = Pick<
+  DuelMatch,
+  | 'serverSeed'
+  | 'serverSeedHash'
+  | 'serverSeedKeyVersion'
+  | 'serverSeedRevealedAt'
+  | 'creatorClientSeed'
+  | 'opponentClientSeed'
+>
+
+export class ServerSeedService {
+  /**
+   * Seed fields for a new match
+   */
+  static async newSeedFields(): Promise<{ serverSeed: string; serverSeedHash: string; serverSeedKeyVersion: number }> {
+    const key = await KeyringService.getActiveKey()
+    const serverSeed = generateServerSeed()
+
+    return {
+      serverSeed,
+      serverSeedHash: hashServerSeed(serverSeed),
+      serverSeedKeyVersion: key.version,
+    }
+  }
+
+  /**
+   * Give a match a seed if it was created before seeds existed
+   * Only done while no round has been resolved yet
+   */
+  static async ensureMatchSeed<T extends DuelMatch>(match: T): Promise<T> {
+    if (match.serverSeedHash) return match
+
+    const resolvedGames = await prisma.duelGame.count({
+      where: {
+        matchId: match.id,
+        status: { in: [DuelGameStatus.FINISHED, DuelGameStatus.FORFEITED] },
+      },
+    })
+    if (resolvedGames > 0) return match
+
+    const fields = await this.newSeedFields()
+    const updated = await prisma.duelMatch.updateMany({
+      where: { id: match.id, serverSeedHash: null },
+      data: fields,
+    })
+
+    if (updated.count === 0) {
+      // Another request seeded it first
+      const fresh = await prisma.duelMatch.findUnique({ where: { id: match.id } })
+      return { ...match, ...fresh }
+    }
+
+    console.log(`[ServerSeed] Seeded legacy match ${match.id}`)
+    return { ...match, ...fields }
+  }
+
+  /**
+   * Set a player's client seed
+   * Each player may set it once, before any round of the match is resolved
+   */
+  static async setClientSeed(
+    match: DuelMatch,
+    userId: string,
+    clientSeed: string
+  ): Promise<{ success: boolean; error?: string }> {
+    const check = validateClientSeed(clientSeed)
+    if (!check.valid) {
+      return { success: false, error: check.error }
+    }
+
+    const isCreator = match.creatorUserId === userId
+    const isOpponent = match.opponentUserId === userId
+    if (!isCreator && !isOpponent) {
+      return { success: false, error: 'You are not in this match' }
+    }
+
+    const current = isCreator ? match.creatorClientSeed : match.opponentClientSeed
+    if (current === clientSeed) return { success: true }
+    if (current) {
+      return { success: false, error: 'Client seed already set for this match' }
+    }
+
+    const resolvedGames = await prisma.duelGame.count({
+      where: {
+        matchId: match.id,
+        status: { in: [DuelGameStatus.FINISHED, DuelGameStatus.FORFEITED] },
+      },
+    })
+    if (resolvedGames > 0) {
+      return { success: false, error: 'Client seed can only be set before the first round resolves' }
+    }
+
+    const updated = await prisma.duelMatch.updateMany({
+      where: isCreator
+        ? { id: match.id, creatorClientSeed: null }
+        : { id: match.id, opponentClientSeed: null },
+      data: isCreator ? { creatorClientSeed: clientSeed } : { opponentClientSeed: clientSeed },
+    })
+
+    if (updated.count === 0) {
+      return { success: false, error: 'Client seed already set for this match' }
+    }
+
+    return { success: true }
+  }
+
+  /**
+   * Seed material for determineWinner (creator = player A)
+   * Returns undefined for legacy matches without a seed
+   */
+  static seedMaterial(match: SeedFields): SeedMaterial | undefined {
+    if (!match.serverSeed) return undefined
+
+    return {
+      serverSeed: match.serverSeed,
+      clientSeedA: match.creatorClientSeed || '',
+      clientSeedB: match.opponentClientSeed || '',
+      keyVersion: match.serverSeedKeyVersion ?? ENV_KEY_VERSION,
+    }
+  }
+
+  /**
+   * Reveal the server seed once every planned game is resolved or the match is closed
+   * Matches closed before any round was resolved never reveal it.
+   * Returns the match's current public seed info
+   */
+  static async revealIfMatchOver(matchId: string): Promise<ServerSeedInfo | null> {
+    const match = await prisma.duelMatch.findUnique({ where: { id: matchId } })
+    if (!match) return null
+    if (!match.serverSeed || match.serverSeedRevealedAt) return this.toPublicInfo(match)
+
+    const resolvedGames = await prisma.duelGame.count({
+      where: {
+        matchId,
+        status: { in: [DuelGameStatus.FINISHED, DuelGameStatus.FORFEITED] },
+      },
+    })
+
+    // Nothing was played with the seed - keep it secret
+    if (resolvedGames === 0) return this.toPublicInfo(match)
+
+    const closed = match.status !== DuelMatchStatus.IN_PROGRESS
+      && match.status !== DuelMatchStatus.AWAITING_CREATOR_CONFIRM
+    if (!closed && resolvedGames < match.gamesPlanned) {
+      return this.toPublicInfo(match)
+    }
+
+    const revealed = await prisma.duelMatch.update({
+      where: { id: matchId },
+      data: { serverSeedRevealedAt: new Date() },
+    })
+
+    console.log(`[ServerSeed] Revealed seed for match ${matchId}`)
+    return this.toPublicInfo(revealed)
+  }
+
+  /**
+   * Public seed info (the seed is hidden until revealed)
+   */
+  static toPublicInfo(match: SeedFields): ServerSeedInfo {
+    const revealed = !!match.serverSeedRevealedAt
+
+    return {
+      serverSeedHash: match.serverSeedHash,
+      serverSeed: revealed ? match.serverSeed : null,
+      keyVersion: match.serverSeedKeyVersion,
+      revealedAt: match.serverSeedRevealedAt?.toISOString() ?? null,
+      creatorClientSeed: match.creatorClientSeed,
+      opponentClientSeed: match.opponentClientSeed,
+    }
+  }
+}
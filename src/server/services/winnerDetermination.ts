@@ -12,6 +12,30 @@
  * - Случайное число генерируется детерминированно из HMAC-SHA256
  * - Все параметры сохраняются для верификации
  * - Формула публична и воспроизводима
+ *
+ * SERVER SEED (commitment chain):
+ * - Для каждого матча генерируется server seed, SHA256(seed) публикуется до ввода чисел
+ * - Игроки могут добавить свои client seeds
+ * - HMAC ключ = server seed; seed раскрывается после окончания матча
+ * - Любой может пересчитать HMAC целиком и сверить с опубликованным хэшем
+ *
+ * KEYRING:
+ * - Секрет платформы версионирован (v0 = TWOS_PLATFORM_SECRET, далее ключи из БД)
+ * - server seed случаен для каждого матча, версия активного ключа записывается
+ * - Каждый VerificationData хранит версию ключа, старые раунды проверяемы после ротации
+ *
+ * АЛГОРИТМ СЛУЧАЙНОГО ЧИСЛА (algorithmVersion):
+ * - v1: первые 8 hex HMAC → число % 1,000,000 (небольшой modulo bias, старые раунды)
+ * - v2: rejection sampling — HMAC режется на 32-битные блоки (8 hex), блок принимается
+ *   если он < 4,294,000,000 (кратно 1,000,000), тогда число = блок % 1,000,000.
+ *   Если все 8 блоков отклонены — HMAC(ключ, seedInput + ":1"), ":2", ...
+ *   sampleIndex = номер принятого блока во всей последовательности
+ *
+ * COMMIT-REVEAL:
+ * 1. Каждый игрок отправляет commitment = SHA256("число:nonce")
+ * 2. Когда оба commitment зафиксированы — игроки раскрывают число и nonce
+ * 3. Раскрытие, не совпадающее с commitment, отклоняется
+ * 4. Кто не раскрылся до дедлайна — проигрывает раунд (forfeit)
  */
 
 // ============================================
@@ -27,6 +51,24 @@ export const MIN_NUMBER = 0
 /** Диапазон чисел */
 export const NUMBER_RANGE = MAX_NUMBER - MIN_NUMBER + 1 // 1,000,000
 
+/** Длина nonce в hex-символах (32 байта) */
+export const COMMITMENT_NONCE_LENGTH = 64
+
+/** Версия алгоритма получения случайного числа (см. шапку файла) */
+export type RandomAlgorithmVersion = 1 | 2
+
+/** Алгоритм для новых раундов */
+export const CURRENT_ALGORITHM_VERSION: RandomAlgorithmVersion = 2
+
+/** Блоки >= этого значения отклоняются (v2), 4,294,000,000 */
+export const SAMPLE_LIMIT = Math.floor(0x100000000 / NUMBER_RANGE) * NUMBER_RANGE
+
+/** Версия ключа из TWOS_PLATFORM_SECRET (до первой ротации) */
+export const ENV_KEY_VERSION = 0
+
+/** Ключ для разработки - в production запрещён */
+const DEVELOPMENT_FALLBACK_SECRET = 'twos_development_secret_key_32chars!'
+
 // ============================================
 // TYPES
 // ============================================
@@ -36,12 +78,34 @@ export interface PlayerBet {
   playerNumber: number // Число которое ввёл игрок (0 - 999,999)
 }
 
+export interface PlatformKeyRef {
+  version: number
+  secret: string
+}
+
+export interface SeedMaterial {
+  /** Серверный seed матча (раскрывается после окончания матча) */
+  serverSeed: string
+  /** Client seed игрока A ('' если не задан) */
+  clientSeedA: string
+  /** Client seed игрока B ('' если не задан) */
+  clientSeedB: string
+  /** Версия ключа платформы, активного при создании server seed */
+  keyVersion: number
+}
+
 export interface DuelRoundParams {
   duelId: string
   roundNumber: number
   timeSlot: number
   playerA: PlayerBet
   playerB: PlayerBet
+  /** Seeds матча (без них используется секрет платформы) */
+  seeds?: SeedMaterial
+  /** Ключ платформы для раундов без seed (по умолчанию v0 из env) */
+  key?: PlatformKeyRef
+  /** По умолчанию CURRENT_ALGORITHM_VERSION */
+  algorithmVersion?: RandomAlgorithmVersion
 }
 
 export interface DuelRoundResult {
@@ -81,6 +145,16 @@ export interface VerificationData {
   distanceB: number
   winnerIndex: 0 | 1 | -1
   formula: string
+  /** SHA256 server seed (null = секрет платформы, старые раунды) */
+  serverSeedHash: string | null
+  clientSeedA: string | null
+  clientSeedB: string | null
+  /** Версия ключа платформы (HMAC ключ или источник server seed) */
+  keyVersion: number
+  /** Алгоритм получения случайного числа */
+  algorithmVersion: RandomAlgorithmVersion
+  /** Номер принятого 32-битного блока (v2; для v1 всегда 0) */
+  sampleIndex: number
 }
 
 export interface VerificationRequest {
@@ -91,12 +165,57 @@ export interface VerificationRequest {
   playerANumber: number
   playerBId: string
   playerBNumber: number
-  seedSlice: string
+  /** Обязателен если нет serverSeed */
+  seedSlice?: string
   claimedWinnerIndex: 0 | 1 | -1
+  /** Раскрытый server seed — позволяет пересчитать HMAC целиком */
+  serverSeed?: string
+  /** Опубликованный до игры хэш server seed */
+  serverSeedHash?: string
+  clientSeedA?: string
+  clientSeedB?: string
+  /** Опубликованный секрет выведенного ключа (раунды без server seed) */
+  keySecret?: string
+  /** Отсутствует у исторических раундов = v1 */
+  algorithmVersion?: RandomAlgorithmVersion
+}
+
+export interface CommittedPlayer {
+  playerId: string
+  /** SHA256("число:nonce") отправленный до раскрытия */
+  commitment: string
+  /** Раскрытые данные (null если игрок не раскрылся) */
+  reveal: { playerNumber: number; nonce: string } | null
 }
 
+export interface CommittedRoundParams {
+  duelId: string
+  roundNumber: number
+  timeSlot: number
+  playerA: CommittedPlayer
+  playerB: CommittedPlayer
+  seeds?: SeedMaterial
+  key?: PlatformKeyRef
+}
+
+export type CommittedRoundOutcome =
+  | { status: 'RESOLVED'; result: DuelRoundResult }
+  | {
+      status: 'FORFEITED'
+      /** Игрок, который раскрылся (или null если не раскрылся никто) */
+      winnerId: string | null
+      /** Игроки, не раскрывшие своё число */
+      forfeitedPlayerIds: string[]
+    }
+
 export interface VerificationResult {
   isValid: boolean
+  algorithmVersion: RandomAlgorithmVersion
+  /** HMAC пересчитан целиком из раскрытого server seed */
+  fullyVerified: boolean
+  /** null если server seed или его хэш не переданы */
+  serverSeedHashValid: boolean | null
+  computedSeedSlice: string
   computedRandomNumber: number
   computedDistanceA: number
   computedDistanceB: number
@@ -109,14 +228,24 @@ export interface VerificationResult {
 // PLATFORM SECRET
 // ============================================
 
-function getPlatformSecret(): string {
+/**
+ * Key v0 from TWOS_PLATFORM_SECRET (used until the first rotation)
+ */
+export function getEnvPlatformKey(): PlatformKeyRef {
   const secret = process.env.TWOS_PLATFORM_SECRET
   if (!secret || secret.length < 32) {
     // Fallback for development
     console.warn('⚠️ TWOS_PLATFORM_SECRET not set or too short. Using development fallback.')
-    return 'twos_development_secret_key_32chars!'
+    return { version: ENV_KEY_VERSION, secret: DEVELOPMENT_FALLBACK_SECRET }
   }
-  return secret
+  return { version: ENV_KEY_VERSION, secret }
+}
+
+/**
+ * Whether a key is the hard-coded development fallback
+ */
+export function isFallbackKey(key: PlatformKeyRef): boolean {
+  return key.secret === DEVELOPMENT_FALLBACK_SECRET
 }
 
 // ============================================
@@ -153,10 +282,51 @@ function hmacSha256Sync(secret: string, message: string): string {
   return crypto.createHmac('sha256', secret).update(message).digest('hex')
 }
 
+/**
+ * Synchronous SHA-256 using Node.js crypto (for server-side)
+ */
+function sha256Sync(message: string): string {
+  const crypto = require('crypto')
+  return crypto.createHash('sha256').update(message).digest('hex')
+}
+
 // ============================================
 // CORE FUNCTIONS
 // ============================================
 
+/**
+ * Fresh random server seed for a match
+ * Never derived from the offer: an offer that reopens must not get a seed
+ * that an earlier match of it may already have revealed.
+ */
+export function generateServerSeed(): string {
+  const crypto = require('crypto')
+  return crypto.randomBytes(32).toString('hex')
+}
+
+/**
+ * Hash of a server seed, published before the match starts
+ */
+export function hashServerSeed(serverSeed: string): string {
+  return sha256Sync(serverSeed)
+}
+
+/**
+ * Build the HMAC message for a round
+ * Client seeds are appended only for seeded rounds
+ */
+function buildSeedInput(
+  duelId: string,
+  roundNumber: number,
+  timeSlot: number,
+  playerA: PlayerBet,
+  playerB: PlayerBet,
+  seeds?: Pick<SeedMaterial, 'clientSeedA' | 'clientSeedB'>
+): string {
+  const base = `${duelId}:${roundNumber}:${timeSlot}:${playerA.playerId}:${playerA.playerNumber}:${playerB.playerId}:${playerB.playerNumber}`
+  return seeds ? `${base}:${seeds.clientSeedA}:${seeds.clientSeedB}` : base
+}
+
 /**
  * Calculate current time slot (30-second windows)
  */
@@ -175,6 +345,59 @@ function seedSliceToRandomNumber(seedSlice: string): number {
   return seedNumber % NUMBER_RANGE
 }
 
+interface RandomSample {
+  seedSlice: string
+  randomNumber: number
+  sampleIndex: number
+}
+
+/**
+ * Derive the round's random number from the HMAC key and seed input
+ * v1: first 8 hex, modulo (biased); v2: rejection sampling over 32-bit chunks
+ */
+function deriveRandomSample(
+  version: RandomAlgorithmVersion,
+  secret: string,
+  seedInput: string
+): RandomSample {
+  if (version === 1) {
+    const seedSlice = hmacSha256Sync(secret, seedInput).substring(0, 8)
+    return { seedSlice, randomNumber: seedSliceToRandomNumber(seedSlice), sampleIndex: 0 }
+  }
+
+  // Practically always accepted in the first block (rejection chance per chunk ~0.02%)
+  for (let block = 0; ; block++) {
+    const hmac = hmacSha256Sync(secret, block === 0 ? seedInput : `${seedInput}:${block}`)
+
+    for (let chunk = 0; chunk < 8; chunk++) {
+      const seedSlice = hmac.substring(chunk * 8, chunk * 8 + 8)
+      const value = parseInt(seedSlice, 16)
+
+      if (value < SAMPLE_LIMIT) {
+        return { seedSlice, randomNumber: value % NUMBER_RANGE, sampleIndex: block * 8 + chunk }
+      }
+    }
+  }
+}
+
+/**
+ * Random number from an accepted seed slice (no key needed)
+ * Returns null if the slice could not have been accepted under the given version
+ */
+function sliceToRandomNumber(version: RandomAlgorithmVersion, seedSlice: string): number | null {
+  if (version === 2 && parseInt(seedSlice, 16) >= SAMPLE_LIMIT) {
+    return null
+  }
+  return seedSliceToRandomNumber(seedSlice)
+}
+
+/**
+ * Check an algorithm version from untrusted input
+ */
+export function isAlgorithmVersion(value: unknown): value is RandomAlgorithmVersion {
+  return value === 1 || value === 2
+}
+
 /**
  * Calculate distance between two numbers
  */
@@ -189,20 +412,20 @@ function calculateDistance(a: number, b: number): number {
  * @returns Result with winner, distances, and verification data
  */
 export function determineWinner(params: DuelRoundParams): DuelRoundResult {
-  const { duelId, roundNumber, timeSlot, playerA, playerB } = params
-  const secret = getPlatformSecret()
-
-  // Build seed input string
-  const seedInput = `${duelId}:${roundNumber}:${timeSlot}:${playerA.playerId}:${playerA.playerNumber}:${playerB.playerId}:${playerB.playerNumber}`
+  const { duelId, roundNumber, timeSlot, playerA, playerB, seeds } = params
+  const algorithmVersion = params.algorithmVersion ?? CURRENT_ALGORITHM_VERSION
 
-  // Generate HMAC
-  const hmac = hmacSha256Sync(secret, seedInput)
+  // Seeded rounds use the match server seed as HMAC key, legacy rounds the platform secret
+  const key = seeds
+    ? { version: seeds.keyVersion, secret: seeds.serverSeed }
+    : params.key ?? getEnvPlatformKey()
+  const secret = key.secret
 
-  // Extract first 8 hex characters as seed slice
-  const seedSlice = hmac.substring(0, 8)
+  // Build seed input string
+  const seedInput = buildSeedInput(duelId, roundNumber, timeSlot, playerA, playerB, seeds)
 
-  // Convert to random number in range [0, 999999]
-  const randomNumber = seedSliceToRandomNumber(seedSlice)
+  // Generate HMAC and derive random number in range [0, 999999]
+  const { seedSlice, randomNumber, sampleIndex } = deriveRandomSample(algorithmVersion, secret, seedInput)
 
   // Calculate distances
   const distanceA = calculateDistance(playerA.playerNumber, randomNumber)
@@ -248,7 +471,15 @@ export function determineWinner(params: DuelRoundParams): DuelRoundResult {
     distanceA,
     distanceB,
     winnerIndex,
-    formula: `HMAC-SHA256(SECRET, "${seedInput}")[0:8] → ${seedSlice} → ${randomNumber}`,
+    formula: algorithmVersion === 1
+      ? `v1: HMAC-SHA256(${seeds ? 'SERVER_SEED' : 'SECRET'}, "${seedInput}")[0:8] → ${seedSlice} → ${randomNumber}`
+      : `v2: HMAC-SHA256(${seeds ? 'SERVER_SEED' : 'SECRET'}, "${seedInput}") chunk #${sampleIndex} → ${seedSlice} (< ${SAMPLE_LIMIT}) % ${NUMBER_RANGE} → ${randomNumber}`,
+    serverSeedHash: seeds ? hashServerSeed(seeds.serverSeed) : null,
+    clientSeedA: seeds ? seeds.clientSeedA : null,
+    clientSeedB: seeds ? seeds.clientSeedB : null,
+    keyVersion: key.version,
+    algorithmVersion,
+    sampleIndex,
   }
 
   return {
@@ -267,13 +498,60 @@ export function determineWinner(params: DuelRoundParams): DuelRoundResult {
 
 /**
  * Verify a duel result
- * Anyone can verify that the result was calculated correctly
+ * Anyone can verify that the result was calculated correctly.
+ * With the revealed server seed the whole HMAC is recomputed,
+ * otherwise only the seed slice → winner step can be checked.
  */
 export function verifyResult(request: VerificationRequest): VerificationResult {
-  const { seedSlice, claimedWinnerIndex } = request
+  const { claimedWinnerIndex } = request
+  const problems: string[] = []
+
+  // Rounds recorded before versioning used v1
+  const algorithmVersion = request.algorithmVersion ?? 1
+
+  let computedSeedSlice = (request.seedSlice || '').toLowerCase()
+  let fullyVerified = false
+  let serverSeedHashValid: boolean | null = null
 
-  // Recalculate random number from seed slice
-  const computedRandomNumber = seedSliceToRandomNumber(seedSlice)
+  // Seeded rounds are keyed by the server seed, legacy rounds by a published retired key
+  const hmacKey = request.serverSeed || request.keySecret
+
+  if (request.serverSeed && request.serverSeedHash) {
+    // Server seed must be the one committed to before the match
+    serverSeedHashValid = hashServerSeed(request.serverSeed) === request.serverSeedHash.toLowerCase()
+    if (!serverSeedHashValid) {
+      problems.push('server seed does not match its published hash')
+    }
+  }
+
+  if (hmacKey) {
+    // Recompute HMAC end to end
+    const seedInput = buildSeedInput(
+      request.duelId,
+      request.roundNumber,
+      request.timeSlot,
+      { playerId: request.playerAId, playerNumber: request.playerANumber },
+      { playerId: request.playerBId, playerNumber: request.playerBNumber },
+      request.serverSeed
+        ? { clientSeedA: request.clientSeedA || '', clientSeedB: request.clientSeedB || '' }
+        : undefined
+    )
+    const recomputedSlice = deriveRandomSample(algorithmVersion, hmacKey, seedInput).seedSlice
+
+    if (request.seedSlice && request.seedSlice.toLowerCase() !== recomputedSlice) {
+      problems.push(`seed slice ${request.seedSlice} does not match recomputed ${recomputedSlice}`)
+    }
+
+    computedSeedSlice = recomputedSlice
+    fullyVerified = true
+  }
+
+  // Recalculate random number from seed slice (by the round's algorithm version)
+  const sliceNumber = sliceToRandomNumber(algorithmVersion, computedSeedSlice)
+  if (sliceNumber === null) {
+    problems.push(`seed slice ${computedSeedSlice} is in the rejected range for v${algorithmVersion}`)
+  }
+  const computedRandomNumber = sliceNumber ?? seedSliceToRandomNumber(computedSeedSlice)
 
   // Recalculate distances
   const computedDistanceA = calculateDistance(request.playerANumber, computedRandomNumber)
@@ -290,10 +568,12 @@ export function verifyResult(request: VerificationRequest): VerificationResult {
   }
 
   // Check if claimed result matches computed result
-  const isValid = computedWinnerIndex === claimedWinnerIndex
+  const isValid = computedWinnerIndex === claimedWinnerIndex && problems.length === 0
 
   let message: string
-  if (isValid) {
+  if (problems.length > 0) {
+    message = `✗ Invalid: ${problems.join('; ')}`
+  } else if (isValid) {
     if (computedWinnerIndex === -1) {
       message = `✓ Verified: Draw (both at distance ${computedDistanceA} from ${computedRandomNumber})`
     } else {
@@ -306,6 +586,10 @@ export function verifyResult(request: VerificationRequest): VerificationResult {
 
   return {
     isValid,
+    algorithmVersion,
+    fullyVerified,
+    serverSeedHashValid,
+    computedSeedSlice,
     computedRandomNumber,
     computedDistanceA,
     computedDistanceB,
@@ -315,6 +599,95 @@ export function verifyResult(request: VerificationRequest): VerificationResult {
   }
 }
 
+// ============================================
+// COMMIT-REVEAL
+// ============================================
+
+/**
+ * Compute commitment for a player number
+ * commitment = SHA256("playerNumber:nonce")
+ */
+export function computeCommitment(playerNumber: number, nonce: string): string {
+  return sha256Sync(`${playerNumber}:${nonce.toLowerCase()}`)
+}
+
+/**
+ * Check that a revealed number + nonce matches the commitment
+ */
+export function verifyCommitment(commitment: string, playerNumber: number, nonce: string): boolean {
+  return computeCommitment(playerNumber, nonce) === commitment.toLowerCase()
+}
+
+/**
+ * Validate commitment format (64 hex chars)
+ */
+export function validateCommitment(commitment: unknown): { valid: boolean; error?: string } {
+  if (typeof commitment !== 'string' || !/^[0-9a-fA-F]{64}$/.test(commitment)) {
+    return { valid: false, error: 'Commitment must be a SHA-256 hex digest' }
+  }
+  return { valid: true }
+}
+
+/**
+ * Validate nonce format (COMMITMENT_NONCE_LENGTH hex chars)
+ */
+export function validateNonce(nonce: unknown): { valid: boolean; error?: string } {
+  const pattern = new RegExp(`^[0-9a-fA-F]{${COMMITMENT_NONCE_LENGTH}}$`)
+  if (typeof nonce !== 'string' || !pattern.test(nonce)) {
+    return { valid: false, error: `Nonce must be ${COMMITMENT_NONCE_LENGTH} hex characters` }
+  }
+  return { valid: true }
+}
+
+/**
+ * Resolve a committed round
+ * Both revealed → determineWinner. Missing or invalid reveal → forfeit.
+ */
+export function resolveCommittedRound(params: CommittedRoundParams): CommittedRoundOutcome {
+  const { playerA, playerB } = params
+
+  const isRevealed = (player: CommittedPlayer) =>
+    player.reveal !== null &&
+    verifyCommitment(player.commitment, player.reveal.playerNumber, player.reveal.nonce)
+
+  const aRevealed = isRevealed(playerA)
+  const bRevealed = isRevealed(playerB)
+
+  if (!aRevealed || !bRevealed) {
+    const forfeitedPlayerIds: string[] = []
+    if (!aRevealed) forfeitedPlayerIds.push(playerA.playerId)
+    if (!bRevealed) forfeitedPlayerIds.push(playerB.playerId)
+
+    return {
+      status: 'FORFEITED',
+      winnerId: aRevealed ? playerA.playerId : bRevealed ? playerB.playerId : null,
+      forfeitedPlayerIds,
+    }
+  }
+
+  const result = determineWinner({
+    duelId: params.duelId,
+    roundNumber: params.roundNumber,
+    timeSlot: params.timeSlot,
+    playerA: { playerId: playerA.playerId, playerNumber: playerA.reveal!.playerNumber },
+    playerB: { playerId: playerB.playerId, playerNumber: playerB.reveal!.playerNumber },
+    seeds: params.seeds,
+    key: params.key,
+  })
+
+  return { status: 'RESOLVED', result }
+}
+
+/**
+ * Validate client seed (optional, chosen by player)
+ */
+export function validateClientSeed(clientSeed: unknown): { valid: boolean; error?: string } {
+  if (typeof clientSeed !== 'string' || !/^[A-Za-z0-9_-]{1,64}$/.test(clientSeed)) {
+    return { valid: false, error: 'Client seed must be 1-64 characters: letters, digits, _ or -' }
+  }
+  return { valid: true }
+}
+
 /**
  * Validate player number input
  */
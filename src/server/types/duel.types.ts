@@ -3,6 +3,8 @@
  * Complete type definitions for P2P duel system
  */
 
+import type { VerificationData } from '../services/winnerDetermination'
+
 // ============================================
 // ENUMS
 // ============================================
@@ -17,6 +19,7 @@ export type UserSkinStatus =
   | 'BURNED' 
   | 'DONATED_TO_PLATFORM'
   | 'CONVERTED_TO_POINTS'
+  | 'TRANSFERRED'
 
 export type DuelOfferStatus = 
   | 'OPEN' 
@@ -57,6 +60,15 @@ export type TransactionType =
   | 'DONATION'
   | 'BONUS'
   | 'INITIAL_BALANCE'
+  | 'DUEL_STAKE'
+  | 'DUEL_REFUND'
+  | 'PLATFORM_FEE'
+
+export type TransactionReason =
+  | 'BOTH_ABANDONED'
+  | 'FORFEIT_BEFORE_MIN_GAMES'
+  | 'OPPONENT_FORFEITED'
+  | 'REPEAT_OFFENDER'
 
 // ============================================
 // CHIP CONFIGURATION
@@ -149,9 +161,113 @@ export interface TransactionDto {
   type: TransactionType
   amountPoints: number
   description?: string
+  reasonCode?: TransactionReason
   createdAt: string
 }
 
+/**
+ * Legacy commit-reveal state of a round (JSON in DuelGame.roundSecret)
+ * Superseded by DuelRoundProof, only read when backfilling
+ */
+export interface RoundCommitState {
+  creatorId?: string
+  creatorCommitment?: string
+  creatorCommittedAt?: string
+  creatorNumber?: number
+  creatorNonce?: string
+  creatorRevealedAt?: string
+
+  opponentId?: string
+  opponentCommitment?: string
+  opponentCommittedAt?: string
+  opponentNumber?: number
+  opponentNonce?: string
+  opponentRevealedAt?: string
+
+  /** Set when both commitments are locked */
+  revealDeadline?: string
+  /** Time slot fixed when both commitments are locked (used in HMAC) */
+  timeSlot?: number
+}
+
+/**
+ * Round proof as returned by the API
+ * Numbers, nonces and randomness are null until the round is resolved
+ */
+export interface RoundProofDto {
+  roundIndex: number
+  status: DuelGameStatus
+  winnerUserId: string | null
+  forfeited: boolean
+
+  creatorCommitment: string | null
+  creatorCommittedAt: string | null
+  creatorRevealedAt: string | null
+  opponentCommitment: string | null
+  opponentCommittedAt: string | null
+  opponentRevealedAt: string | null
+  revealDeadline: string | null
+
+  creatorNumber: number | null
+  creatorNonce: string | null
+  opponentNumber: number | null
+  opponentNonce: string | null
+
+  hmacDuelId: string | null
+  hmacRoundNumber: number | null
+  timeSlot: number | null
+  seedSlice: string | null
+  sampleIndex: number | null
+  randomNumber: number | null
+  creatorDistance: number | null
+  opponentDistance: number | null
+  algorithmVersion: number | null
+  keyVersion: number | null
+}
+
+/**
+ * Authoritative progress of a match, as kept by the server
+ */
+export interface DuelSeriesDto {
+  matchId: string
+  status: string
+  gamesPlanned: number
+  gamesPlayed: number
+  /** Round open for commitments, null once the series is over */
+  currentRound: number | null
+  creatorWins: number
+  opponentWins: number
+  draws: number
+  winnerId: string | null
+  finished: boolean
+  /** Set once the stakes went to the winner */
+  payout: DuelPayoutDto | null
+  rounds: Array<RoundProofDto & { verification: VerificationData | null }>
+}
+
+/**
+ * Points the winner took from the loser, less the platform rake
+ */
+export interface DuelPayoutDto {
+  grossPoints: number
+  feePoints: number
+  netPoints: number
+}
+
+/**
+ * Public server seed info for a match
+ * The seed itself is only included once revealed
+ */
+export interface ServerSeedInfo {
+  serverSeedHash: string | null
+  serverSeed: string | null
+  /** Platform key version the seed was derived from */
+  keyVersion: number | null
+  revealedAt: string | null
+  creatorClientSeed: string | null
+  opponentClientSeed: string | null
+}
+
 // ============================================
 // REQUEST/RESPONSE TYPES
 // ============================================
@@ -203,7 +319,9 @@ export interface ExchangeSkinsToPointsRequest {
 
 export interface ExchangeSkinsToPointsResponse {
   success: boolean
+  /** Skins' value less the exchange spread */
   addedPoints?: number
+  spreadPoints?: number
   newBalance?: number
   convertedSkins?: string[]
   error?: string
@@ -74,8 +74,17 @@ export interface UserSummary {
 export interface P2POrderDto {
   id: string
   owner: UserSummary
-  chipType: ChipType
+  /** null for SKINS offers, which stake no chip */
+  chipType: ChipType | null
   chipValue: number
+  stakeType: StakeType
+  /** Points each player stakes (POINTS), or the value of the creator's skins (SKINS) */
+  stakeValue: number
+  /** Creator's skins at stake (SKINS offers) */
+  skins: StakedSkinDto[]
+  visibility: OfferVisibility
+  /** DIRECT offers: the challenged user */
+  invitedUser?: { id: string; username: string } | null
   gamesPlanned: number
   minGamesRequired: number
   totalGamesPlayed: number
@@ -83,16 +92,92 @@ export interface P2POrderDto {
   isRewardLocked: boolean
   opponent?: UserSummary | null
   confirmationExpiresAt?: string | null
+  expiresAt?: string | null
   currentGameIndex: number
   createdAt: string
 }
 
+export type StakeType = 'POINTS' | 'SKINS'
+
+/**
+ * PUBLIC offers are listed on the board; DIRECT ones are a challenge to one
+ * user; UNLISTED ones are joined through an invite link or code; MATCHMAKING
+ * ones are created for a pair from the queue
+ */
+export type OfferVisibility = 'PUBLIC' | 'DIRECT' | 'UNLISTED' | 'MATCHMAKING'
+
+/**
+ * A skin locked as a duel stake
+ */
+export interface StakedSkinDto {
+  userSkinId: string
+  name: string
+  rarity: string
+  imageUrl: string | null
+  pointsValue: number
+}
+
+/**
+ * Offer board query (GET /api/p2p/orders)
+ * Stake = the creator's total stake; reliability is a 0-1 coefficient
+ */
+export interface OrderListQuery {
+  chipType?: ChipType
+  stakeType?: StakeType
+  minGames?: number
+  maxGames?: number
+  minStake?: number
+  maxStake?: number
+  minReliability?: number
+  /** Leave out this user's own offers */
+  excludeUserId?: string
+  sort?: OrderSort
+  order?: 'asc' | 'desc'
+  /** nextCursor of the previous page */
+  cursor?: string
+  limit?: number
+}
+
+export type OrderSort = 'newest' | 'stake' | 'reliability'
+
+export interface OrderPage {
+  orders: P2POrderDto[]
+  /** null on the last page */
+  nextCursor: string | null
+}
+
 /**
  * Create order request
+ * SKINS offers stake the listed skins instead of chips
  */
 export interface CreateOrderRequest {
   chipType: ChipType
   gamesPlanned: number // Must be >= 2
+  stakeType?: StakeType
+  userSkinIds?: string[]
+  visibility?: OfferVisibility
+  /** DIRECT offers: who is challenged */
+  opponentUsername?: string
+}
+
+/**
+ * Signed invite to an UNLISTED offer
+ * The token is both the link (/invite/<token>) and the code to paste.
+ */
+export interface InviteDto {
+  token: string
+  expiresAt: string
+}
+
+/**
+ * Join order request
+ * SKINS offers: stake skins worth the offer's value (within SKIN_STAKE_TOLERANCE),
+ * or points equal to it when no skins are given
+ */
+export interface JoinOrderRequest {
+  userSkinIds?: string[]
+  /** Required for UNLISTED offers */
+  inviteToken?: string
 }
 
 /**
@@ -150,6 +235,10 @@ export interface FairnessProof {
   timeSlot: number
   /** First 8 hex chars of HMAC */
   seedSlice: string
+  /** Platform key version used for the HMAC */
+  keyVersion: number
+  /** Random number algorithm (1 = modulo, 2 = rejection sampling) */
+  algorithmVersion: 1 | 2
   /** Winner index (0 = A, 1 = B, -1 = draw) */
   winnerIndex: 0 | 1 | -1
   /** Verification formula */
@@ -172,6 +261,39 @@ export interface SubmitGameResultResponse {
   error?: string
 }
 
+// ============================================
+// MATCHMAKING
+// ============================================
+
+export type MatchmakingStatus = 'QUEUED' | 'MATCHED' | 'CANCELLED' | 'EXPIRED'
+
+/**
+ * Join the matchmaking queue
+ * Paired with a player on the same chip whose games range overlaps and who
+ * meets minReliability (0-1), while meeting theirs
+ */
+export interface MatchmakingRequest {
+  chipType: ChipType
+  minGames: number
+  maxGames: number
+  minReliability?: number
+}
+
+export interface MatchmakingEntryDto {
+  id: string
+  chipType: ChipType
+  minGames: number
+  maxGames: number
+  minReliability: number
+  /** Points held while queued (chip value x maxGames) */
+  heldPoints: number
+  status: MatchmakingStatus
+  /** Duel created when paired */
+  offerId: string | null
+  createdAt: string
+  expiresAt: string
+}
+
 // ============================================
 // RELIABILITY METRICS
 // ============================================
@@ -197,8 +319,23 @@ export type ReliabilityRank =
 export type ReliabilityEvent = 
   | 'MISSED_CONFIRMATION'
   | 'DUEL_COMPLETED'
+  | 'DUEL_LOST'
   | 'DROPPED_BEFORE_MIN_GAMES'
 
+/** One entry of a user's reliability history */
+export interface ReliabilityEventDto {
+  id: string
+  type: ReliabilityEvent
+  matchId: string | null
+  reliabilityPercent: number // after this event
+  createdAt: string
+}
+
+export interface ReliabilityHistoryPage {
+  events: ReliabilityEventDto[]
+  nextCursor: string | null
+}
+
 // ============================================
 // REWARDS
 // ============================================
@@ -251,6 +388,43 @@ export type NotificationType =
   | 'DUEL_COMPLETED'
   | 'OPPONENT_FORFEITED'
   | 'CONFIRMATION_EXPIRED'
+  | 'CHALLENGE_RECEIVED'
+  | 'CHALLENGE_DECLINED'
+  | 'MATCH_FOUND'
+  | 'QUEUE_EXPIRED'
+
+// ============================================
+// REALTIME EVENTS (SSE)
+// ============================================
+
+export type RealtimeEventType =
+  // duel:<offerId>
+  | 'opponent_joined'
+  | 'match_started'
+  | 'confirmation_expired'
+  | 'player_ready'
+  | 'round_opened'
+  | 'player_committed'
+  | 'player_revealed'
+  | 'round_resolved'
+  | 'match_finished'
+  | 'challenge_declined'
+  // board
+  | 'offer_created'
+  | 'offer_taken'
+  | 'offer_reopened'
+  | 'offer_removed'
+  // sent by the stream itself: missed events are gone, reload the state
+  | 'resync'
+
+export interface RealtimeEvent {
+  /** Orders events; sent as the SSE id and echoed back in Last-Event-ID */
+  id: string
+  channel: string
+  type: RealtimeEventType
+  data: Record<string, unknown>
+  createdAt: string
+}
 
 // ============================================
 // API ERROR RESPONSES
@@ -271,12 +445,21 @@ export type ApiResponse<T> =
 // ============================================
 
 export const CONSTANTS = {
+  // Open orders leave the board after this (stake refunded)
+  OFFER_TTL_MS: 24 * 60 * 60 * 1000, // 24 hours
+  
   // Confirmation timeout
   CONFIRMATION_TIMEOUT_MS: 2 * 60 * 1000, // 2 minutes
   
   // Game timeout
   GAME_TIMEOUT_MS: 5 * 60 * 1000, // 5 minutes
   
+  // Ready check before every round after the first
+  READY_TIMEOUT_MS: 60 * 1000, // 1 minute
+  
+  // Reveal timeout (after both commitments are locked)
+  REVEAL_TIMEOUT_MS: 60 * 1000, // 1 minute
+  
   // Time slot duration (for HMAC seed)
   TIME_SLOT_DURATION_MS: 30 * 1000, // 30 seconds
   
@@ -288,4 +471,69 @@ export const CONSTANTS = {
   
   // Maximum games planned
   MAX_GAMES_PLANNED: 10,
+  
+  // Offer board page size
+  ORDERS_PAGE_SIZE: 20,
+  ORDERS_MAX_PAGE_SIZE: 50,
+  
+  // Reliability history page size
+  RELIABILITY_HISTORY_PAGE_SIZE: 20,
+  RELIABILITY_HISTORY_MAX_PAGE_SIZE: 100,
+  
+  // Invite links and codes of UNLISTED offers (never beyond the offer's own expiry)
+  INVITE_TTL_MS: 60 * 60 * 1000, // 1 hour
+  
+  // Matchmaking queue entries time out after this (held stake returned)
+  QUEUE_TTL_MS: 10 * 60 * 1000, // 10 minutes
+  
+  // Responses stored for Idempotency-Key retries are kept this long
+  IDEMPOTENCY_TTL_MS: 24 * 60 * 60 * 1000, // 24 hours
+  
+  // Skins staked on one side of a duel
+  MAX_STAKED_SKINS: 10,
+  
+  // A joiner's skins may be worth this much more or less than the offer's skins
+  SKIN_STAKE_TOLERANCE: 0.1, // 10%
 } as const
+
+// ============================================
+// FEE SCHEDULE
+// ============================================
+
+/** Platform fees, paid into the PlatformVault. Percentages round down to whole points. */
+export const FEE_SCHEDULE = {
+  // Rake on the points a duel winner takes from the loser (their own stake is never raked)
+  DUEL_RAKE_PERCENT: {
+    SMILE: 0,
+    HEART: 5,
+    FIRE: 5,
+    RING: 4,
+  } as Record<ChipType, number>,
+  
+  // Rake on points won in a skins duel (skins themselves are not raked)
+  SKINS_DUEL_RAKE_PERCENT: 5,
+  
+  // Kept from the points paid out when skins are exchanged for points
+  SKIN_EXCHANGE_SPREAD_PERCENT: 3,
+  
+  // Cancelling an open offer later than this costs a share of the points stake
+  LATE_CANCEL_AFTER_MS: 30 * 60 * 1000, // 30 minutes
+  LATE_CANCEL_FEE_PERCENT: 2,
+}
+
+// ============================================
+// PENALTY POLICY
+// ============================================
+
+/** Penalties for abandoned matches and early forfeits, paid into the PlatformVault */
+export const PENALTY_POLICY = {
+  // Abandons and early forfeits within this window count as repeat offences
+  REPEAT_WINDOW_MS: 7 * 24 * 60 * 60 * 1000, // 7 days
+  
+  // Offences in the window that cost nothing beyond the stake
+  FREE_OFFENCES: 1,
+  
+  // First repeat penalty, doubled with every further offence up to the cap
+  REPEAT_PENALTY_POINTS: 25,
+  REPEAT_PENALTY_MAX_POINTS: 400,
+}
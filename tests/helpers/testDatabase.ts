@@ -0,0 +1,61 @@
+/**
+ * Disposable test database
+ *
+ * Integration tests run against a fresh PostgreSQL schema on TEST_DATABASE_URL:
+ * the schema is created and pushed before a test file runs and dropped after it,
+ * so nothing a test writes outlives it. Without TEST_DATABASE_URL they are skipped.
+ *
+ * Import anything that touches Prisma only after createTestDatabase() - the
+ * client picks DATABASE_URL up when it is first loaded.
+ */
+
+import { execFileSync } from 'child_process'
+import { randomBytes } from 'crypto'
+
+export const skipWithoutDatabase = process.env.TEST_DATABASE_URL
+  ? false
+  : 'TEST_DATABASE_URL is not set (PostgreSQL server the tests may create schemas on)'
+
+export interface TestDatabase {
+  schema: string
+  /** Drop the schema and disconnect */
+  drop(): Promise<void>
+}
+
+function withSchema(url: string, schema: string): string {
+  const parsed = new URL(url)
+  parsed.searchParams.set('schema', schema)
+  return parsed.toString()
+}
+
+/**
+ * Create an empty schema with the app's tables and point DATABASE_URL at it
+ */
+export async function createTestDatabase(): Promise<TestDatabase> {
+  const baseUrl = process.env.TEST_DATABASE_URL
+  if (!baseUrl) throw new Error('TEST_DATABASE_URL is not set')
+  if (process.env.NODE_ENV === 'production') throw new Error('Refusing to run tests in production')
+
+  const schema = `test_${Date.now().toString(36)}_${randomBytes(4).toString('hex')}`
+  const url = withSchema(baseUrl, schema)
+
+  execFileSync('npx', ['prisma', 'db', 'push', '--skip-generate'], {
+    env: { ...process.env, DATABASE_URL: url, DIRECT_URL: url },
+    stdio: 'pipe',
+  })
+
+  process.env.DATABASE_URL = url
+  process.env.DIRECT_URL = url
+
+  return {
+    schema,
+    drop: async () => {
+      const { default: prisma } = await import('../../src/lib/prisma')
+      try {
+        await prisma.$executeRawUnsafe(`DROP SCHEMA IF EXISTS "${schema}" CASCADE`)
+      } finally {
+        await prisma.$disconnect()
+      }
+    },
+  }
+}
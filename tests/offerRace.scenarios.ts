@@ -0,0 +1,84 @@
+/**
+ * Offer race scenarios
+ *
+ * One creator posts an offer, then many players join it while the creator
+ * cancels, all at once. Afterwards:
+ * - at most one of the joins and the cancel went through
+ * - the losers got a clean error and kept their points
+ * - no points were created or destroyed (players + the offer's escrow)
+ *
+ * Loaded by offerRace.test.ts once the test database is up.
+ */
+
+import prisma from '../src/lib/prisma'
+import { LedgerService, escrowAccount, userAccount } from '../src/server/services/ledgerService'
+import { P2POrderService } from '../src/server/services/p2pOrderService'
+
+const STARTING_BALANCE = 1000
+const CLEAN_ERRORS = ['Order has already been taken', 'Order is not available', 'Can only cancel open orders']
+
+async function createPlayer(index: number) {
+  const user = await prisma.user.create({
+    data: { username: `race_${index}`, pointsBalance: STARTING_BALANCE },
+  })
+  await prisma.$transaction(tx => LedgerService.openAccount(tx, userAccount(user.id), STARTING_BALANCE))
+  return user
+}
+
+async function totalPoints(userIds: string[]): Promise<number> {
+  const users = await prisma.user.findMany({ where: { id: { in: userIds } }, select: { pointsBalance: true } })
+  return users.reduce((sum, u) => sum + u.pointsBalance, 0)
+}
+
+/**
+ * One offer raced by `joiners` joins and a cancel; returns the problems found
+ */
+export async function raceOffer(round: number, joiners: number): Promise<string[]> {
+  const problems: string[] = []
+  const creator = await createPlayer(round * 100)
+  const players = await Promise.all(
+    Array.from({ length: joiners }, (_, i) => createPlayer(round * 100 + i + 1))
+  )
+  const everyone = [creator.id, ...players.map(p => p.id)]
+
+  const created = await P2POrderService.createOrder(creator.id, creator.username, {
+    chipType: 'HEART',
+    gamesPlanned: 3,
+  })
+  if (!created.success || !created.order) {
+    return [`round ${round}: could not create offer (${created.error})`]
+  }
+  const offerId = created.order.id
+  const before = await totalPoints(everyone) + await LedgerService.getBalance(escrowAccount(offerId))
+
+  const results = await Promise.all([
+    P2POrderService.cancelOrder(offerId, creator.id),
+    ...players.map(p => P2POrderService.joinOrder(offerId, p.id, p.username)),
+  ])
+
+  const winners = results.filter(r => r.success).length
+  if (winners > 1) problems.push(`round ${round}: ${winners} requests succeeded`)
+
+  for (const result of results) {
+    if (!result.success && !CLEAN_ERRORS.includes(result.error ?? '')) {
+      problems.push(`round ${round}: unexpected error "${result.error}"`)
+    }
+  }
+
+  const after = await totalPoints(everyone) + await LedgerService.getBalance(escrowAccount(offerId))
+  if (after !== before) {
+    problems.push(`round ${round}: ${before} points before, ${after} after`)
+  }
+
+  // Every joiner that lost still has everything
+  const joinResults = results.slice(1)
+  const losers = players.filter((_, i) => !joinResults[i].success)
+  const untouched = await prisma.user.count({
+    where: { id: { in: losers.map(p => p.id) }, pointsBalance: STARTING_BALANCE },
+  })
+  if (untouched !== losers.length) {
+    problems.push(`round ${round}: ${losers.length - untouched} losing joiners were charged`)
+  }
+
+  return problems
+}
@@ -0,0 +1,42 @@
+/**
+ * Offer concurrency tests
+ *
+ * Parallel joins and a cancel on the same offer: exactly-once outcomes and no
+ * points created or destroyed (see offerRace.scenarios.ts), then a ledger that
+ * reconciles. RACE_ROUNDS and RACE_JOINERS override the defaults.
+ */
+
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { createTestDatabase, skipWithoutDatabase, TestDatabase } from './helpers/testDatabase'
+
+const ROUNDS = Number(process.env.RACE_ROUNDS ?? 10)
+const JOINERS = Number(process.env.RACE_JOINERS ?? 8)
+
+describe('offer races', { skip: skipWithoutDatabase }, () => {
+  let db: TestDatabase
+  let scenarios: typeof import('./offerRace.scenarios')
+  let ledger: typeof import('../src/server/services/ledgerService')
+
+  before(async () => {
+    db = await createTestDatabase()
+    scenarios = await import('./offerRace.scenarios')
+    ledger = await import('../src/server/services/ledgerService')
+  })
+
+  after(async () => {
+    await db?.drop()
+  })
+
+  for (let round = 1; round <= ROUNDS; round++) {
+    it(`lets at most one of ${JOINERS} joins and a cancel win (round ${round})`, async () => {
+      const problems = await scenarios.raceOffer(round, JOINERS)
+      assert.deepEqual(problems, [], problems.join('\n'))
+    })
+  }
+
+  it('leaves a ledger that reconciles', async () => {
+    const report = await ledger.LedgerService.reconcile()
+    assert.ok(report.ok, JSON.stringify(report, null, 2))
+  })
+})
@@ -0,0 +1,286 @@
+/**
+ * Duel state machine properties
+ *
+ * Random sequences of the calls that move offers, matches and games - create,
+ * join, confirm, cancel, decline, ready, commit, reveal, offer and confirmation
+ * expiry, game forfeits - run through the service layer. After every step the
+ * statuses must still fit together:
+ * - offer WAITING_CREATOR_CONFIRM <=> exactly one match AWAITING_CREATOR_CONFIRM
+ * - offer MATCHED <=> exactly one started match (IN_PROGRESS or later); none otherwise
+ * - match IN_PROGRESS => offer MATCHED
+ * - open game (PENDING / AWAITING_READY / IN_PROGRESS) => match IN_PROGRESS, one at most
+ * - every offer, match and game's audit trail replays through the transition tables
+ *   and ends at its current status
+ *
+ * A sequence is reproducible from its seed. Loaded by stateMachine.test.ts once
+ * the test database is up.
+ */
+
+import { randomBytes } from 'crypto'
+import prisma from '../src/lib/prisma'
+import { DuelGameStatus, DuelMatchStatus, DuelOfferStatus } from '@prisma/client'
+import { DuelEntityType, DuelStateMachine, INITIAL_STATUSES } from '../src/server/services/duelStateMachine'
+import { DuelGameService } from '../src/server/services/duelGameService'
+import { LedgerService, userAccount } from '../src/server/services/ledgerService'
+import { P2POrderService } from '../src/server/services/p2pOrderService'
+import { computeCommitment } from '../src/server/services/winnerDetermination'
+import { ChipType } from '../src/server/types'
+
+const STARTING_BALANCE = 5000
+const PAST = () => new Date(Date.now() - 1000)
+
+const OPEN_GAME_STATUSES: DuelGameStatus[] = [
+  DuelGameStatus.PENDING,
+  DuelGameStatus.AWAITING_READY,
+  DuelGameStatus.IN_PROGRESS,
+]
+const STARTED_MATCH_STATUSES: DuelMatchStatus[] = [
+  DuelMatchStatus.IN_PROGRESS,
+  DuelMatchStatus.FINISHED,
+  DuelMatchStatus.BOTH_ABANDONED,
+]
+
+type Player = { id: string; username: string }
+
+interface World {
+  creator: Player
+  players: Player[]
+  offerIds: string[]
+  // number and nonce each player committed to, by game
+  secrets: Map<string, { playerNumber: number; nonce: string }>
+}
+
+type Action = (world: World, offerId: string, random: () => number) => Promise<string>
+
+// mulberry32: small seeded PRNG, so a failing run can be replayed
+function rng(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+async function createPlayer(index: number): Promise<Player> {
+  const user = await prisma.user.create({
+    data: { username: `fsm_${index}`, pointsBalance: STARTING_BALANCE },
+  })
+  await prisma.$transaction(tx => LedgerService.openAccount(tx, userAccount(user.id), STARTING_BALANCE))
+  return user
+}
+
+async function latestMatch(offerId: string) {
+  return prisma.duelMatch.findFirst({ where: { offerId }, orderBy: { createdAt: 'desc' } })
+}
+
+async function openGame(offerId: string) {
+  const match = await latestMatch(offerId)
+  if (!match) return null
+  return prisma.duelGame.findFirst({
+    where: { matchId: match.id, status: { in: OPEN_GAME_STATUSES } },
+    orderBy: { roundIndex: 'desc' },
+  })
+}
+
+function pick<T>(random: () => number, items: T[]): T {
+  return items[Math.floor(random() * items.length)]
+}
+
+function outcome(result: { success: boolean; error?: string }): string {
+  return result.success ? 'ok' : `rejected (${result.error})`
+}
+
+// ============================================
+// ACTIONS
+// ============================================
+
+const ACTIONS: Record<string, Action> = {
+  join: async (world, offerId, random) => {
+    const player = pick(random, world.players)
+    return outcome(await P2POrderService.joinOrder(offerId, player.id, player.username))
+  },
+
+  confirm: async (world, offerId) => outcome(await P2POrderService.confirmOrder(offerId, world.creator.id)),
+
+  cancel: async (world, offerId) => outcome(await P2POrderService.cancelOrder(offerId, world.creator.id)),
+
+  decline: async (world, offerId, random) => {
+    const player = pick(random, world.players)
+    return outcome(await P2POrderService.declineChallenge(offerId, player.id, player.username))
+  },
+
+  expireOffer: async (_world, offerId) => {
+    await prisma.duelOffer.update({ where: { id: offerId }, data: { expiresAt: PAST() } })
+    return `${await P2POrderService.expireOffers()} expired`
+  },
+
+  expireConfirmation: async (_world, offerId) => {
+    const match = await latestMatch(offerId)
+    if (match?.status !== DuelMatchStatus.AWAITING_CREATOR_CONFIRM) return 'no match to expire'
+    await prisma.duelMatch.update({ where: { id: match.id }, data: { creatorConfirmDeadline: PAST() } })
+    return `${await P2POrderService.expireConfirmations()} expired`
+  },
+
+  ready: async (world, offerId, random) => {
+    const game = await openGame(offerId)
+    if (!game) return 'no open game'
+    const player = pick(random, [world.creator, ...world.players])
+    return outcome(await DuelGameService.markReady(game.id, player.id))
+  },
+
+  commit: async (world, offerId, random) => {
+    const game = await openGame(offerId)
+    if (!game) return 'no open game'
+    const player = pick(random, [world.creator, ...world.players])
+    const secret = { playerNumber: Math.floor(random() * 1_000_000), nonce: randomBytes(32).toString('hex') }
+    const result = await DuelGameService.commit(game.id, player.id, computeCommitment(secret.playerNumber, secret.nonce))
+    if (result.success) world.secrets.set(`${game.id}:${player.id}`, secret)
+    return outcome(result)
+  },
+
+  reveal: async (world, offerId, random) => {
+    const game = await openGame(offerId)
+    if (!game) return 'no open game'
+    const player = pick(random, [world.creator, ...world.players])
+    const secret = world.secrets.get(`${game.id}:${player.id}`)
+    if (!secret) return 'nothing to reveal'
+    return outcome(await DuelGameService.reveal(game.id, player.id, secret.playerNumber, secret.nonce))
+  },
+
+  forfeit: async (_world, offerId) => {
+    const game = await openGame(offerId)
+    if (!game) return 'no open game'
+    await prisma.duelGame.update({
+      where: { id: game.id },
+      data: { commitDeadline: PAST(), readyDeadline: PAST() },
+    })
+    await prisma.duelRoundProof.updateMany({ where: { gameId: game.id }, data: { revealDeadline: PAST() } })
+    return `${await DuelGameService.checkTimeouts()} resolved`
+  },
+}
+
+// ============================================
+// INVARIANTS
+// ============================================
+
+async function checkTrail(entityType: DuelEntityType, entityId: string, current: string): Promise<string[]> {
+  const trail = await DuelStateMachine.getHistory(entityType, entityId)
+  const where = `${entityType.toLowerCase()} ${entityId}`
+
+  if (trail.length === 0) return [`${where}: no audit trail`]
+  if (trail[0].fromStatus !== null || !(INITIAL_STATUSES[entityType] as string[]).includes(trail[0].toStatus)) {
+    return [`${where}: created as ${trail[0].toStatus}`]
+  }
+
+  for (let i = 1; i < trail.length; i++) {
+    const { fromStatus, toStatus } = trail[i]
+    if (fromStatus !== trail[i - 1].toStatus || !DuelStateMachine.canTransition(entityType, fromStatus ?? '', toStatus)) {
+      return [`${where}: illegal step ${fromStatus} -> ${toStatus}`]
+    }
+  }
+
+  const last = trail[trail.length - 1].toStatus
+  return last === current ? [] : [`${where}: is ${current}, audit trail ends at ${last}`]
+}
+
+export async function checkInvariants(offerIds: string[]): Promise<string[]> {
+  const problems: string[] = []
+  const offers = await prisma.duelOffer.findMany({
+    where: { id: { in: offerIds } },
+    include: { matches: { include: { games: true } } },
+  })
+
+  for (const offer of offers) {
+    const awaiting = offer.matches.filter(m => m.status === DuelMatchStatus.AWAITING_CREATOR_CONFIRM)
+    const started = offer.matches.filter(m => STARTED_MATCH_STATUSES.includes(m.status))
+
+    if ((offer.status === DuelOfferStatus.WAITING_CREATOR_CONFIRM) !== (awaiting.length === 1) || awaiting.length > 1) {
+      problems.push(`offer ${offer.id} is ${offer.status} with ${awaiting.length} match(es) awaiting confirmation`)
+    }
+    if ((offer.status === DuelOfferStatus.MATCHED) !== (started.length === 1) || started.length > 1) {
+      problems.push(`offer ${offer.id} is ${offer.status} with ${started.length} started match(es)`)
+    }
+    problems.push(...await checkTrail('OFFER', offer.id, offer.status))
+
+    for (const match of offer.matches) {
+      if (match.status === DuelMatchStatus.IN_PROGRESS && offer.status !== DuelOfferStatus.MATCHED) {
+        problems.push(`match ${match.id} is IN_PROGRESS but its offer is ${offer.status}`)
+      }
+
+      const open = match.games.filter(g => OPEN_GAME_STATUSES.includes(g.status))
+      if (open.length > 1) problems.push(`match ${match.id} has ${open.length} open games`)
+      if (open.length > 0 && match.status !== DuelMatchStatus.IN_PROGRESS) {
+        problems.push(`match ${match.id} is ${match.status} with an open game`)
+      }
+      problems.push(...await checkTrail('MATCH', match.id, match.status))
+
+      for (const game of match.games) {
+        problems.push(...await checkTrail('GAME', game.id, game.status))
+      }
+    }
+  }
+
+  return problems
+}
+
+// ============================================
+// SEQUENCES
+// ============================================
+
+/**
+ * One random sequence from seed; returns the problems found (empty = consistent)
+ */
+export async function runSequence(run: number, seed: number, steps: number): Promise<string[]> {
+  const random = rng(seed)
+
+  const creator = await createPlayer(run * 10)
+  const world: World = {
+    creator,
+    players: [await createPlayer(run * 10 + 1), await createPlayer(run * 10 + 2)],
+    offerIds: [],
+    secrets: new Map(),
+  }
+  const log: string[] = []
+
+  for (let step = 1; step <= steps; step++) {
+    // Post a new offer whenever the last one is settled
+    const last = world.offerIds.length
+      ? await prisma.duelOffer.findUnique({ where: { id: world.offerIds[world.offerIds.length - 1] } })
+      : null
+    let offerId = last?.id
+    if (!last || last.status === DuelOfferStatus.CANCELLED || last.status === DuelOfferStatus.EXPIRED
+      || (last.status === DuelOfferStatus.MATCHED && !(await openGame(last.id)))) {
+      const direct = random() < 0.3
+      const created = await P2POrderService.createOrder(creator.id, creator.username, {
+        chipType: pick<ChipType>(random, ['SMILE', 'HEART', 'FIRE', 'RING']),
+        gamesPlanned: 2 + Math.floor(random() * 3),
+        ...(direct && { visibility: 'DIRECT' as const, opponentUsername: world.players[0].username }),
+      })
+      if (!created.success || !created.order) return [`run ${run}: could not create offer (${created.error})`]
+      offerId = created.order.id
+      world.offerIds.push(offerId)
+      log.push(`create ${direct ? 'DIRECT' : 'PUBLIC'} -> ${offerId}`)
+    }
+
+    const name = pick(random, Object.keys(ACTIONS))
+    try {
+      log.push(`${name} -> ${await ACTIONS[name](world, offerId!, random)}`)
+    } catch (error) {
+      log.push(`${name} -> threw`)
+      return [`run ${run} (seed ${seed}), step ${step}: ${name} threw ${error}`, ...log.map(l => `     ${l}`)]
+    }
+
+    const problems = await checkInvariants(world.offerIds)
+    if (problems.length > 0) {
+      return [
+        ...problems.map(p => `run ${run} (seed ${seed}), step ${step} after ${name}: ${p}`),
+        ...log.map(l => `     ${l}`),
+      ]
+    }
+  }
+
+  return []
+}
@@ -0,0 +1,47 @@
+/**
+ * Duel state machine property tests
+ *
+ * No sequence of offer, match and game calls may reach an inconsistent state
+ * (see stateMachine.scenarios.ts), and the ledger must reconcile afterwards.
+ *
+ * STATE_CHECK_RUNS, STATE_CHECK_STEPS and STATE_CHECK_SEED override the
+ * defaults; a failure names the seed that replays it.
+ */
+
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { createTestDatabase, skipWithoutDatabase, TestDatabase } from './helpers/testDatabase'
+
+const RUNS = Number(process.env.STATE_CHECK_RUNS ?? 10)
+const STEPS = Number(process.env.STATE_CHECK_STEPS ?? 30)
+const SEED = Number(process.env.STATE_CHECK_SEED ?? 1)
+
+describe('duel state machine', { skip: skipWithoutDatabase }, () => {
+  let db: TestDatabase
+  let scenarios: typeof import('./stateMachine.scenarios')
+  let ledger: typeof import('../src/server/services/ledgerService')
+
+  before(async () => {
+    db = await createTestDatabase()
+    scenarios = await import('./stateMachine.scenarios')
+    ledger = await import('../src/server/services/ledgerService')
+  })
+
+  after(async () => {
+    await db?.drop()
+  })
+
+  for (let run = 1; run <= RUNS; run++) {
+    const seed = SEED + run - 1
+
+    it(`keeps offer, match and game statuses consistent (seed ${seed})`, async () => {
+      const problems = await scenarios.runSequence(run, seed, STEPS)
+      assert.deepEqual(problems, [], problems.join('\n'))
+    })
+  }
+
+  it('leaves a ledger that reconciles', async () => {
+    const report = await ledger.LedgerService.reconcile()
+    assert.ok(report.ok, JSON.stringify(report, null, 2))
+  })
+})